@@ -1,8 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
-import { validateGitHubUrl } from '@/lib/utils/url';
-import { handleAPIError } from '@/lib/utils/errors';
+import { validateRepositoryUrl, parseRepositoryUrl } from '@/lib/utils/url';
+import { validateGitRef, validatePackagePaths } from '@/lib/utils/validation';
+import { buildRepoId } from '@/lib/utils/repo';
+import { handleAPIError, AppError } from '@/lib/utils/errors';
 import { inngest } from '@/lib/inngest/client';
+import { createRepositoryProvider, selectProviderToken } from '@/lib/providers';
+import { evaluateCachedAnalysis, CacheDecision } from '@/lib/pipeline/cache';
+import { selectWorkspacePackages } from '@/lib/pipeline/static-analysis';
 
 
 
@@ -14,18 +19,39 @@ export async function POST(request: NextRequest) {
   
   try {
     const body = await request.json();
-    const { repoUrl, userId, githubToken, saveProgress = true } = body;
+    const { repoUrl, userId, githubToken, providerToken = null, saveProgress = true } = body;
+    const ref: string | null = typeof body.ref === 'string' && body.ref.trim() ? body.ref.trim() : null;
+    const packages: unknown = body.packages ?? null;
     
     console.log(`[API ${requestId}] Repository URL: ${repoUrl}`);
     console.log(`[API ${requestId}] User ID: ${userId || 'anonymous'}`);
+    console.log(`[API ${requestId}] Ref: ${ref || '(default branch)'}`);
+    console.log(`[API ${requestId}] Packages: ${Array.isArray(packages) && packages.length > 0 ? packages.join(', ') : '(all)'}`);
     console.log(`[API ${requestId}] Has GitHub Token: ${!!githubToken}`);
+    console.log(`[API ${requestId}] Has Provider Token: ${!!providerToken}`);
     console.log(`[API ${requestId}] Save Progress: ${saveProgress}\n`);
 
     // Validate inputs
-    if (!repoUrl || !validateGitHubUrl(repoUrl)) {
+    if (!repoUrl || !validateRepositoryUrl(repoUrl)) {
       console.log(`[API ${requestId}] ❌ Invalid URL format\n`);
       return NextResponse.json(
-        { error: 'Invalid GitHub repository URL' },
+        { error: 'Invalid repository URL. Supported hosts: github.com, gitlab.com, bitbucket.org' },
+        { status: 400 }
+      );
+    }
+
+    if (ref && !validateGitRef(ref)) {
+      console.log(`[API ${requestId}] ❌ Invalid ref\n`);
+      return NextResponse.json(
+        { error: 'Invalid branch, tag or commit SHA' },
+        { status: 400 }
+      );
+    }
+
+    if (packages !== null && !validatePackagePaths(packages)) {
+      console.log(`[API ${requestId}] ❌ Invalid packages\n`);
+      return NextResponse.json(
+        { error: 'packages must be a list of package directory paths' },
         { status: 400 }
       );
     }
@@ -38,49 +64,86 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Generate repo ID from URL
-    const repoId = repoUrl.replace('https://github.com/', '').replace('/', '-');
+    const { provider, host, owner, repo } = parseRepositoryUrl(repoUrl);
+
+    // Keep only the packages the full analysis found, so selections that
+    // cover the same packages share a roadmap
+    let selectedPackages: string[] | null = null;
+    if (packages !== null && packages.length > 0) {
+      const fullRepo = await adminDb.collection('repositories').doc(buildRepoId(owner, repo, ref, { provider, host })).get();
+      if (!fullRepo.exists) {
+        console.log(`[API ${requestId}] ❌ Packages selected before a full analysis\n`);
+        return NextResponse.json(
+          { error: 'Analyze the whole repository before selecting packages' },
+          { status: 400 }
+        );
+      }
+      selectedPackages = selectWorkspacePackages(fullRepo.data()?.workspace || null, packages)?.selected_packages || null;
+    }
+
+    // Generate repo ID from URL (and ref and package selection, so each gets its own roadmap)
+    const repoId = buildRepoId(owner, repo, ref, { provider, host }, selectedPackages);
+    console.log(`[API ${requestId}] Provider: ${provider}`);
     console.log(`[API ${requestId}] Repository ID: ${repoId}`);
 
-    // Check cache (30 days)
+    // Check cache against the current head commit of the ref
     console.log(`[API ${requestId}] 🔍 Checking cache...`);
     const repoRef = adminDb.collection('repositories').doc(repoId);
-    
+    const repoClient = createRepositoryProvider(provider, selectProviderToken({ provider, host }, githubToken, providerToken), host);
+    let cacheDecision: CacheDecision;
+
     try {
       const cachedRepo = await repoRef.get();
+      const data = cachedRepo.exists ? cachedRepo.data() : undefined;
+      const roadmapDoc = data
+        ? await adminDb.collection('roadmaps').doc(repoId).get()
+        : null;
 
-      if (cachedRepo.exists) {
-        const data = cachedRepo.data();
-        const analyzedAt = data?.analyzed_at?.toDate();
-        const thirtyDaysAgo = new Date();
-        thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-
-        if (analyzedAt && analyzedAt > thirtyDaysAgo) {
-          // Check if roadmap exists
-          const roadmapRef = adminDb.collection('roadmaps').doc(repoId);
-          const roadmapDoc = await roadmapRef.get();
-          
-          if (roadmapDoc.exists) {
-            // Return cached result
-            console.log(`[API ${requestId}] ✅ Cache HIT - Using cached analysis from ${analyzedAt.toISOString()}\n`);
-            return NextResponse.json({
-              success: true,
-              repoId,
-              message: 'Using cached analysis',
-              cached: true,
-            });
-          } else {
-            console.log(`[API ${requestId}] ⚠️  Cache exists but roadmap missing - Re-analyzing`);
-          }
-        } else {
-          console.log(`[API ${requestId}] ⚠️  Cache EXPIRED - Re-analyzing`);
-        }
-      } else {
-        console.log(`[API ${requestId}] ℹ️  Cache MISS - First time analysis`);
-      }
+      cacheDecision = await evaluateCachedAnalysis(
+        repoClient,
+        owner,
+        repo,
+        data
+          ? {
+              ref: data.ref,
+              default_branch: data.default_branch,
+              commit_sha: data.commit_sha,
+              has_roadmap: !!roadmapDoc?.exists,
+              embed_globs: data.repo_config?.embed,
+            }
+          : null,
+        ref
+      );
     } catch (cacheError) {
+      if (cacheError instanceof AppError && cacheError.statusCode === 404) {
+        throw cacheError;
+      }
       // If cache check fails, continue with fresh analysis
       console.log(`[API ${requestId}] ⚠️  Cache check failed, proceeding with fresh analysis:`, cacheError);
+      cacheDecision = { status: 'refresh', reason: 'Cache check failed' };
+    }
+
+    console.log(`[API ${requestId}] Cache ${cacheDecision.status.toUpperCase()} - ${cacheDecision.reason}`);
+
+    // No analysis input changed since the analyzed commit (the cache check covers
+    // every file the analyzers and the RAG index read): record the head so later
+    // checks compare from it instead of re-diffing an ever-growing range
+    if (cacheDecision.status === 'stale' && cacheDecision.head_sha) {
+      try {
+        await repoRef.update({ commit_sha: cacheDecision.head_sha });
+      } catch (updateError) {
+        console.log(`[API ${requestId}] ⚠️  Could not record head commit:`, updateError);
+      }
+    }
+
+    if (cacheDecision.status === 'hit' || cacheDecision.status === 'stale') {
+      return NextResponse.json({
+        success: true,
+        repoId,
+        message: 'Using cached analysis',
+        cached: true,
+        cache: cacheDecision,
+      });
     }
 
     // Initialize progress document
@@ -90,6 +153,7 @@ export async function POST(request: NextRequest) {
       step_name: 'Initializing background job...',
       step_status: 'in-progress',
       logs: [],
+      rate_limit: repoClient.getRateLimit?.() || null,
       updated_at: new Date(),
     });
 
@@ -101,8 +165,12 @@ export async function POST(request: NextRequest) {
         repoUrl,
         userId,
         githubToken,
+        providerToken,
         saveProgress,
-        repoId
+        repoId,
+        ref,
+        packages: selectedPackages,
+        baseSha: cacheDecision.status === 'refresh' ? cacheDecision.analyzed_sha || null : null,
       }
     });
 
@@ -114,6 +182,7 @@ export async function POST(request: NextRequest) {
       repoId,
       message: 'Analysis completed successfully',
       cached: false,
+      cache: cacheDecision,
     });
   } catch (error) {
     console.log(`\n[API ${requestId}] ❌ Analysis failed:`, error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
 import { handleAPIError } from '@/lib/utils/errors';
+import { getDefaultGitHubHost } from '@/lib/github/hosts';
 
 const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID;
 const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET;
@@ -47,8 +48,10 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    const githubHost = getDefaultGitHubHost();
+
     // Exchange code for access token
-    const tokenResponse = await fetch('https://github.com/login/oauth/access_token', {
+    const tokenResponse = await fetch(`${githubHost.webUrl}/login/oauth/access_token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -74,7 +77,7 @@ export async function GET(request: NextRequest) {
 
     // Fetch GitHub user profile
     console.log('[GitHub Callback] Fetching user profile...');
-    const userResponse = await fetch('https://api.github.com/user', {
+    const userResponse = await fetch(`${githubHost.apiUrl}/user`, {
       headers: {
         'Authorization': `Bearer ${tokenData.access_token}`,
         'Accept': 'application/vnd.github.v3+json',
@@ -101,6 +104,7 @@ export async function GET(request: NextRequest) {
       scope: tokenData.scope,
       created_at: new Date(),
       expires_at: null, // GitHub tokens don't expire unless revoked
+      github_host: githubHost.host,
       github_username: githubUser.login,
       github_avatar: githubUser.avatar_url,
       github_name: githubUser.name || githubUser.login,
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { doc, setDoc } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
 import { handleAPIError } from '@/lib/utils/errors';
+import { getDefaultGitHubHost } from '@/lib/github/hosts';
 
 const GITHUB_CLIENT_ID = process.env.GITHUB_CLIENT_ID;
 const GITHUB_CLIENT_SECRET = process.env.GITHUB_CLIENT_SECRET;
@@ -29,8 +30,8 @@ export async function GET(request: NextRequest) {
     // Generate state parameter for CSRF protection
     const state = Buffer.from(JSON.stringify({ userId, timestamp: Date.now() })).toString('base64');
 
-    // Build GitHub OAuth URL
-    const githubAuthUrl = new URL('https://github.com/login/oauth/authorize');
+    // Build GitHub OAuth URL (github.com or the GitHub Enterprise host in GITHUB_HOST)
+    const githubAuthUrl = new URL(`${getDefaultGitHubHost().webUrl}/login/oauth/authorize`);
     githubAuthUrl.searchParams.set('client_id', GITHUB_CLIENT_ID);
     githubAuthUrl.searchParams.set('redirect_uri', REDIRECT_URI);
     githubAuthUrl.searchParams.set('scope', 'repo');
@@ -1,12 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
 import { handleAPIError } from '@/lib/utils/errors';
+import { calculateRoadmapProgress } from '@/lib/pipeline/roadmap';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const repoId = searchParams.get('repoId');
     const userId = searchParams.get('userId');
+    const requestedVariant = searchParams.get('variant');
 
     if (!repoId || !userId) {
       return NextResponse.json(
@@ -26,16 +28,36 @@ export async function GET(request: NextRequest) {
       );
     }
 
+    // Alternative roadmaps (e.g. containerized) are stored alongside the default one;
+    // without a requested variant, the one the repository's config prefers is served
+    const { variants = {}, preferred_variant: preferredVariant, ...defaultRoadmap } = roadmapDoc.data() || {};
+    const variant = requestedVariant || (preferredVariant && variants[preferredVariant] ? preferredVariant : 'default');
+    if (variant !== 'default' && !variants[variant]) {
+      return NextResponse.json(
+        { error: `Roadmap variant not found: ${variant}` },
+        { status: 404 }
+      );
+    }
+
+    // Workspace packages and the analyzed ref, for narrowing a monorepo roadmap
+    const repoDoc = await adminDb.collection('repositories').doc(repoId).get();
+    const repoData = repoDoc.data();
+
     // Get user progress
     const progressRef = adminDb.collection('user_progress').doc(userId).collection('repos').doc(repoId);
     const progressDoc = await progressRef.get();
 
-    const roadmap = roadmapDoc.data();
-    const progress = progressDoc.exists ? progressDoc.data() : {
+    const roadmap = variant === 'default' ? defaultRoadmap : variants[variant];
+    const storedProgress = progressDoc.exists ? progressDoc.data() : {
       completed_tasks: [],
       overall_progress_percentage: 0,
       ghost_solidness: 0,
     };
+    // The stored percentage is for the variant last updated; report the served one's
+    const progress = storedProgress && {
+      ...storedProgress,
+      overall_progress_percentage: calculateRoadmapProgress(storedProgress.completed_tasks || [], roadmap?.sections || []),
+    };
 
     console.log(`[GET-ROADMAP] Retrieved roadmap for ${repoId}`);
     console.log(`[GET-ROADMAP] Sections count: ${roadmap?.sections?.length || 0}`);
@@ -46,6 +68,12 @@ export async function GET(request: NextRequest) {
       success: true,
       roadmap,
       progress,
+      workspace: repoData?.workspace || null,
+      stacks: repoData?.stacks || [],
+      scripts: repoData?.scripts || [],
+      variant,
+      variants: ['default', ...Object.keys(variants)],
+      ref: repoData?.ref && repoData.ref !== repoData.default_branch ? repoData.ref : null,
     });
   } catch (error) {
     const apiError = handleAPIError(error);
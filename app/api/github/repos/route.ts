@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
+import { getDefaultGitHubHost } from '@/lib/github/hosts';
 
 export async function GET(request: NextRequest) {
   try {
@@ -38,7 +39,7 @@ export async function GET(request: NextRequest) {
     const accessToken = Buffer.from(encryptedToken, 'base64').toString();
 
     // Fetch user's repositories from GitHub
-    const response = await fetch('https://api.github.com/user/repos?per_page=100&sort=updated', {
+    const response = await fetch(`${getDefaultGitHubHost().apiUrl}/user/repos?per_page=100&sort=updated`, {
       headers: {
         'Authorization': `Bearer ${accessToken}`,
         'Accept': 'application/vnd.github.v3+json',
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminDb } from '@/lib/firebase/admin';
 import { handleAPIError } from '@/lib/utils/errors';
+import { calculateRoadmapProgress } from '@/lib/pipeline/roadmap';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { userId, repoId, taskId, completed } = body;
+    const { userId, repoId, taskId, completed, variant } = body;
 
     // Validate inputs
     if (!userId || !repoId || !taskId || typeof completed !== 'boolean') {
@@ -42,7 +43,8 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    let completedTasks: string[] = currentProgress.completed_tasks || [];
+    const previousTasks: string[] = currentProgress.completed_tasks || [];
+    let completedTasks = [...previousTasks];
 
     // Update completed tasks array
     if (completed && !completedTasks.includes(taskId)) {
@@ -70,14 +72,21 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    const totalTasks = roadmap.total_tasks || 0;
+    // Progress is measured against the roadmap variant the user follows
+    const variantRoadmap = variant && variant !== 'default' ? roadmap.variants?.[variant] : roadmap;
+    if (!variantRoadmap) {
+      return NextResponse.json(
+        { error: `Roadmap variant not found: ${variant}` },
+        { status: 400 }
+      );
+    }
 
-    // Calculate new progress
-    const newProgress = totalTasks > 0 ? Math.round((completedTasks.length / totalTasks) * 100) : 0;
+    // Calculate new progress; completed tasks of other variants don't count
+    const previousProgress = calculateRoadmapProgress(previousTasks, variantRoadmap.sections || []);
+    const newProgress = calculateRoadmapProgress(completedTasks, variantRoadmap.sections || []);
 
     // Check for milestone celebrations
-    const celebrationTriggered = [25, 50, 75, 100].includes(newProgress) && 
-                                  newProgress > (currentProgress.overall_progress_percentage || 0);
+    const celebrationTriggered = [25, 50, 75, 100].includes(newProgress) && newProgress > previousProgress;
 
     // Use set+merge so this works whether the doc was just created or already existed
     await progressRef.set({
@@ -4,7 +4,8 @@ import { useEffect, useState, Suspense, useRef, useMemo } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { useAuth } from '@/lib/contexts/AuthContext';
-import { repoIdToDisplayName, repoIdToOwnerAvatar } from '@/lib/utils/repo';
+import { buildRepoId, repoIdToDisplayName, repoIdToOwnerAvatar } from '@/lib/utils/repo';
+import { parseRepositoryUrl } from '@/lib/utils/url';
 import {
   ArrowRight, Search, Trash2, Loader2, FolderOpen,
   ChevronRight, Lock, AlertCircle, X
@@ -48,6 +49,7 @@ function DashboardContent() {
   } = useAuth();
 
   const [repoUrl, setRepoUrl] = useState(searchParams.get('prefill') || '');
+  const [gitRef, setGitRef] = useState('');
   const [analyses, setAnalyses] = useState<Analysis[]>([]);
   const [loadingAnalyses, setLoadingAnalyses] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
@@ -122,7 +124,9 @@ function DashboardContent() {
     setError(null);
 
     try {
-      const repoId = repoUrl.replace('https://github.com/', '').replace('/', '-');
+      const { provider, host, owner, repo } = parseRepositoryUrl(repoUrl);
+      const ref = gitRef.trim() || null;
+      const repoId = buildRepoId(owner, repo, ref, { provider, host });
       let githubToken = null;
       if (hasGitHubToken && user) {
         try {
@@ -140,6 +144,7 @@ function DashboardContent() {
           userId: user?.uid || 'demo-user',
           saveProgress: true,
           githubToken,
+          ref,
         }),
       }).catch((err) => console.error('Analysis error:', err));
     } catch (err) {
@@ -274,7 +279,7 @@ function DashboardContent() {
               {hasGitHubToken ? `Welcome back, ${displayName}` : 'Welcome'}
             </h1>
             <p className="mt-2 text-muted text-sm sm:text-base">
-              Pick a repository to analyze, or paste a GitHub URL.
+              Pick a repository to analyze, or paste a GitHub, GitLab or Bitbucket URL.
             </p>
           </div>
 
@@ -291,7 +296,7 @@ function DashboardContent() {
                 }}
                 onFocus={() => setShowDropdown(true)}
                 onKeyDown={(e) => e.key === 'Enter' && handleAnalyze()}
-                placeholder={hasGitHubToken ? 'Search your repos or paste a URL…' : 'Paste a public GitHub repo URL…'}
+                placeholder={hasGitHubToken ? 'Search your repos or paste a URL…' : 'Paste a public GitHub, GitLab or Bitbucket repo URL…'}
                 className="flex-1 bg-transparent px-1 py-2 text-sm placeholder:text-subtle outline-none"
                 disabled={analyzing}
               />
@@ -352,6 +357,21 @@ function DashboardContent() {
             )}
           </div>
 
+          {/* Optional ref */}
+          <div className="mt-3 max-w-2xl flex items-center gap-2 text-xs text-muted">
+            <label htmlFor="git-ref" className="shrink-0">Branch, tag or commit</label>
+            <input
+              id="git-ref"
+              type="text"
+              value={gitRef}
+              onChange={(e) => setGitRef(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAnalyze()}
+              placeholder="default branch"
+              className="flex-1 max-w-xs rounded-full bg-surface border border-border px-3 py-1.5 text-xs placeholder:text-subtle outline-none focus:border-accent/50 transition-colors"
+              disabled={analyzing}
+            />
+          </div>
+
           {/* Demo chips */}
           <div className="mt-5 flex flex-wrap items-center gap-2 text-xs text-muted max-w-2xl">
             <span>Try a demo:</span>
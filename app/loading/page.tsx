@@ -4,7 +4,7 @@ import { useEffect, useState, Suspense, useMemo } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { doc, onSnapshot } from 'firebase/firestore';
 import { db } from '@/lib/firebase/config';
-import { repoIdToDisplayName, repoIdToOwnerAvatar, repoIdToOwnerRepo } from '@/lib/utils/repo';
+import { repoIdToDisplayName, repoIdToOwnerAvatar, repoIdToOwnerRepo, repoIdToRepoUrl } from '@/lib/utils/repo';
 import { Check, Loader2, AlertCircle, ArrowLeft, Sparkles } from 'lucide-react';
 
 const GhIcon = ({ size = 16, className = '' }: { size?: number; className?: string }) => (
@@ -19,6 +19,7 @@ interface AnalysisProgress {
   step_name: string;
   step_status: 'pending' | 'in-progress' | 'completed' | 'failed';
   logs: any[];
+  rate_limit?: { resource: string; limit: number; remaining: number; reset_at: string } | null;
   updated_at: any;
 }
 
@@ -57,6 +58,7 @@ function LoadingContent() {
   const repoName = repoIdToDisplayName(repoId);
   const ownerAvatar = repoIdToOwnerAvatar(repoId);
   const ownerRepo = repoIdToOwnerRepo(repoId);
+  const repoWebUrl = repoIdToRepoUrl(repoId);
 
   // Elapsed timer
   useEffect(() => {
@@ -115,6 +117,13 @@ function LoadingContent() {
     return Math.max(4, Math.round((progress.current_step / 8) * 100));
   }, [progress]);
 
+  const rateLimitLabel = useMemo(() => {
+    const budget = progress?.rate_limit;
+    if (!budget) return null;
+    const reset = new Date(budget.reset_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    return `${budget.remaining.toLocaleString()} / ${budget.limit.toLocaleString()} API requests left · resets ${reset}`;
+  }, [progress?.rate_limit]);
+
   const elapsedLabel = useMemo(() => {
     const m = Math.floor(elapsed / 60);
     const s = elapsed % 60;
@@ -157,9 +166,9 @@ function LoadingContent() {
               <div className="min-w-0 flex-1">
                 <p className="text-[11px] uppercase tracking-[0.14em] text-subtle mb-1">Onboarding</p>
                 <h1 className="font-serif text-xl sm:text-2xl truncate leading-tight">{repoName}</h1>
-                {ownerRepo && (
+                {ownerRepo && repoWebUrl && (
                   <a
-                    href={`https://github.com/${ownerRepo}`}
+                    href={repoWebUrl}
                     target="_blank"
                     rel="noreferrer"
                     className="text-xs text-muted hover:text-accent inline-flex items-center gap-1 mt-0.5"
@@ -241,7 +250,9 @@ function LoadingContent() {
 
               <div className="mt-10 flex items-center justify-between gap-3 text-xs text-subtle border-t border-border pt-5">
                 <span className="sm:hidden font-mono tabular-nums">⏱ {elapsedLabel}</span>
-                <span className="hidden sm:inline">Typically ~30s. Larger repos can take a minute.</span>
+                <span className="hidden sm:inline">
+                  {rateLimitLabel || 'Typically ~30s. Larger repos can take a minute.'}
+                </span>
                 <span>Safe to keep this tab open ✦</span>
               </div>
             </>
@@ -1,11 +1,12 @@
 'use client';
 
 import { useEffect, useState, Suspense, useMemo } from 'react';
-import { useSearchParams } from 'next/navigation';
+import { useRouter, useSearchParams } from 'next/navigation';
 import GhostMentorChat from '@/components/GhostMentorChat';
+import { WorkspacePackagePicker } from '@/components/WorkspacePackagePicker';
 import Link from 'next/link';
 import { useAuth } from '@/lib/contexts/AuthContext';
-import { repoIdToOwnerAvatar, repoIdToOwnerRepo } from '@/lib/utils/repo';
+import { repoIdToOwnerAvatar, repoIdToOwnerRepo, repoIdToRepoUrl } from '@/lib/utils/repo';
 import {
   TaskSteps,
   CommandBlocks,
@@ -46,6 +47,11 @@ interface Task {
 interface Section { id: string; title: string; description: string; tasks: Task[]; }
 interface Roadmap { repository_name: string; total_tasks: number; estimated_completion_time: string; sections: Section[]; }
 interface Progress { completed_tasks: string[]; overall_progress_percentage: number; ghost_solidness: number; }
+interface Workspace {
+  tools: string[];
+  packages: { name: string; path: string; tech_stack: { framework: string; primary_language: string } }[];
+  selected_packages: string[] | null;
+}
 
 const GhIcon = ({ size = 16, className = '' }: { size?: number; className?: string }) => (
   <svg viewBox="0 0 16 16" width={size} height={size} fill="currentColor" className={className} aria-hidden>
@@ -68,11 +74,18 @@ function TasksContent() {
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null);
   const [collapsedSections, setCollapsedSections] = useState<Set<string>>(new Set());
   const [mobilePanelOpen, setMobilePanelOpen] = useState(false);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [analyzedRef, setAnalyzedRef] = useState<string | null>(null);
+  const [variants, setVariants] = useState<string[]>(['default']);
+  const router = useRouter();
   const searchParams = useSearchParams();
   const repoId = searchParams.get('repoId');
+  const requestedVariant = searchParams.get('variant');
+  const [variant, setVariant] = useState(requestedVariant || 'default');
   const { user, hasGitHubToken, githubUser, initiateGitHubAuth, githubLoading } = useAuth();
   const ownerAvatar = repoIdToOwnerAvatar(repoId);
   const ownerRepo = repoIdToOwnerRepo(repoId);
+  const repoWebUrl = repoIdToRepoUrl(repoId);
 
   useEffect(() => {
     if (!repoId) {
@@ -81,15 +94,20 @@ function TasksContent() {
       return;
     }
     fetchRoadmap();
-  }, [repoId]);
+  }, [repoId, requestedVariant]);
 
   const fetchRoadmap = async () => {
     try {
-      const response = await fetch(`/api/get-roadmap?repoId=${repoId}&userId=${user?.uid || 'demo-user'}`);
+      // Without a variant in the URL, the API picks the one the repository prefers
+      const response = await fetch(`/api/get-roadmap?repoId=${repoId}&userId=${user?.uid || 'demo-user'}${requestedVariant ? `&variant=${requestedVariant}` : ''}`);
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'Failed to fetch roadmap');
       setRoadmap(data.roadmap);
       setProgress(data.progress);
+      setWorkspace(data.workspace || null);
+      setAnalyzedRef(data.ref || null);
+      setVariants(data.variants || ['default']);
+      setVariant(data.variant || 'default');
       if (data.roadmap.sections.length > 0) {
         const firstIncompleteTask = data.roadmap.sections
           .flatMap((s: Section) => s.tasks)
@@ -108,7 +126,7 @@ function TasksContent() {
       const response = await fetch('/api/update-task', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId: user?.uid || 'demo-user', repoId, taskId, completed }),
+        body: JSON.stringify({ userId: user?.uid || 'demo-user', repoId, taskId, completed, variant }),
       });
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || 'Failed to update task');
@@ -134,6 +152,33 @@ function TasksContent() {
     }
   };
 
+  // Re-analyze with a package selection; each selection has its own repoId
+  const handleSelectPackages = async (packages: string[]) => {
+    if (!repoWebUrl) throw new Error('Repository URL unavailable');
+    let githubToken = null;
+    if (hasGitHubToken && user) {
+      try {
+        const tokenResponse = await fetch(`/api/github/token?userId=${user.uid}`);
+        if (tokenResponse.ok) githubToken = (await tokenResponse.json()).token;
+      } catch {}
+    }
+    const response = await fetch('/api/analyze-repo', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        repoUrl: repoWebUrl,
+        userId: user?.uid || 'demo-user',
+        saveProgress: true,
+        githubToken,
+        ref: analyzedRef,
+        packages,
+      }),
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to update roadmap');
+    router.push(data.cached ? `/tasks?repoId=${data.repoId}` : `/loading?repoId=${data.repoId}`);
+  };
+
   const isTaskCompleted = (taskId: string) => progress?.completed_tasks.includes(taskId) || false;
 
   const selectedTask = useMemo(
@@ -192,7 +237,7 @@ function TasksContent() {
   }
 
   const totalTasks = roadmap.sections.reduce((s, sec) => s + sec.tasks.length, 0);
-  const completedCount = progress?.completed_tasks.length || 0;
+  const completedCount = roadmap.sections.reduce((s, sec) => s + sec.tasks.filter(t => isTaskCompleted(t.id)).length, 0);
   const pct = progress?.overall_progress_percentage || 0;
   const nextTask = getNextTask();
 
@@ -214,8 +259,8 @@ function TasksContent() {
               )}
               <div className="min-w-0 text-center">
                 <p className="text-sm font-medium truncate leading-tight">{roadmap.repository_name}</p>
-                {ownerRepo && (
-                  <a href={`https://github.com/${ownerRepo}`} target="_blank" rel="noreferrer"
+                {ownerRepo && repoWebUrl && (
+                  <a href={repoWebUrl} target="_blank" rel="noreferrer"
                     className="text-[11px] text-subtle hover:text-accent inline-flex items-center gap-1">
                     <GhIcon size={9} /> {ownerRepo}
                   </a>
@@ -272,6 +317,22 @@ function TasksContent() {
         {/* Left rail — sections + tasks */}
         <aside className={`lg:col-span-4 xl:col-span-3 ${mobilePanelOpen ? 'block' : 'hidden lg:block'} lg:sticky lg:top-[120px] lg:self-start lg:max-h-[calc(100vh-140px)] lg:overflow-y-auto scrollbar-thin pr-1`}>
           <div className="space-y-4">
+            {workspace && workspace.packages.length > 1 && (
+              <WorkspacePackagePicker workspace={workspace} onApply={handleSelectPackages} />
+            )}
+            {variants.length > 1 && (
+              <div className="flex rounded-lg border border-border bg-surface/40 p-1 text-xs">
+                {variants.map((option) => (
+                  <button
+                    key={option}
+                    onClick={() => router.push(`/tasks?repoId=${repoId}&variant=${option}`)}
+                    className={`flex-1 rounded-md px-3 py-1.5 transition-colors ${option === variant ? 'bg-surface-2 text-fg' : 'text-muted hover:text-fg'}`}
+                  >
+                    {option === 'containerized' ? 'In containers' : 'Local setup'}
+                  </button>
+                ))}
+              </div>
+            )}
             {roadmap.sections.map((section, sIdx) => {
               const collapsed = collapsedSections.has(section.id);
               const sectionDone = section.tasks.filter(t => isTaskCompleted(t.id)).length;
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Check, ChevronRight, Loader2, Package } from 'lucide-react';
+
+interface WorkspacePackage {
+  name: string;
+  path: string;
+  tech_stack: { framework: string; primary_language: string };
+}
+
+interface Workspace {
+  tools: string[];
+  packages: WorkspacePackage[];
+  selected_packages: string[] | null;
+}
+
+/**
+ * Lets the user narrow a monorepo roadmap to the packages they work on.
+ * The shared root setup is always covered.
+ */
+export function WorkspacePackagePicker({
+  workspace,
+  onApply,
+}: {
+  workspace: Workspace;
+  onApply: (packages: string[]) => Promise<void>;
+}) {
+  const coveredPaths = workspace.selected_packages || workspace.packages.map((pkg) => pkg.path);
+  const [open, setOpen] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set(coveredPaths));
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const unchanged = selected.size === coveredPaths.length && coveredPaths.every((path) => selected.has(path));
+
+  const toggle = (path: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(path)) next.delete(path); else next.add(path);
+      return next;
+    });
+  };
+
+  const apply = async () => {
+    setApplying(true);
+    setError(null);
+    try {
+      // Every package selected is the same as no selection
+      await onApply(selected.size === workspace.packages.length ? [] : Array.from(selected));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update roadmap');
+      setApplying(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-surface/40 overflow-hidden">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="w-full px-4 py-3 flex items-center gap-3 text-left hover:bg-surface-2/40 transition-colors"
+      >
+        <Package size={14} className="text-subtle shrink-0" />
+        <span className="flex-1 min-w-0">
+          <span className="block text-sm font-medium text-fg leading-tight truncate">Packages</span>
+          <span className="block text-[11px] text-subtle mt-0.5">
+            {coveredPaths.length} of {workspace.packages.length} covered · {workspace.tools.join(', ')}
+          </span>
+        </span>
+        <ChevronRight size={14} className={`text-subtle shrink-0 transition-transform ${open ? 'rotate-90' : ''}`} />
+      </button>
+      {open && (
+        <div className="px-2 pb-3">
+          <ul className="space-y-0.5 mb-3">
+            {workspace.packages.map((pkg) => {
+              const checked = selected.has(pkg.path);
+              return (
+                <li key={pkg.path}>
+                  <button
+                    onClick={() => toggle(pkg.path)}
+                    className="w-full text-left flex items-start gap-3 px-3 py-2 rounded-lg hover:bg-surface-2/40 transition-colors"
+                  >
+                    <span
+                      role="checkbox"
+                      aria-checked={checked}
+                      className={`mt-0.5 w-[18px] h-[18px] rounded-md border grid place-items-center shrink-0 transition-colors ${
+                        checked ? 'bg-accent border-accent text-white' : 'border-border-strong'
+                      }`}
+                    >
+                      {checked && <Check size={11} strokeWidth={3} />}
+                    </span>
+                    <span className="flex-1 min-w-0">
+                      <span className="block text-sm text-fg leading-snug truncate">{pkg.name}</span>
+                      <span className="block text-[10px] text-subtle font-mono truncate">
+                        {pkg.path} · {pkg.tech_stack.framework}
+                      </span>
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          {error && <p className="px-3 mb-2 text-xs text-accent">{error}</p>}
+          <div className="px-3">
+            <button
+              onClick={apply}
+              disabled={applying || unchanged || selected.size === 0}
+              className="w-full inline-flex items-center justify-center gap-1.5 rounded-full bg-accent text-white px-4 py-2 text-sm font-medium hover:bg-accent-hover transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {applying && <Loader2 size={13} className="animate-spin" />}
+              Update roadmap
+            </button>
+            <p className="text-[10px] text-subtle mt-2 leading-snug">
+              Shared root setup is always included. Each selection gets its own roadmap and progress.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
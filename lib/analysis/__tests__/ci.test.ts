@@ -0,0 +1,216 @@
+/**
+ * Tests for CI Workflow Analysis
+ * Run with: npm test ci
+ */
+
+import { ciRuntimeDeclarations, detectCiWorkflows, getSetupJobs, parseCircleCi, parseGithubWorkflow, parseGitlabCi } from '../ci';
+
+describe('CI Workflow Analysis', () => {
+  describe('parseGithubWorkflow', () => {
+    it('should resolve setup action versions through the build matrix', () => {
+      const [job] = parseGithubWorkflow(`
+env:
+  CI: true
+jobs:
+  test:
+    strategy:
+      matrix:
+        node: [18, 20]
+        include:
+          - node: 22
+    steps:
+      - uses: actions/checkout@v4
+      - uses: actions/setup-node@v4
+        with:
+          node-version: \${{ matrix.node }}
+      - uses: actions/setup-python@v5
+        with:
+          python-version: |
+            3.10
+            3.12
+      - run: |
+          npm ci
+          # lint first
+          npm test
+        env:
+          DATABASE_URL: postgres://localhost/test
+`);
+
+      expect(job.name).toBe('test');
+      expect(job.runtimes).toEqual([
+        { runtime: 'node', versions: ['18', '20', '22'], source: 'actions/setup-node' },
+        { runtime: 'python', versions: ['3.10', '3.12'], source: 'actions/setup-python' },
+      ]);
+      expect(job.setup_actions).toEqual(['actions/setup-node', 'actions/setup-python']);
+      expect(job.env).toEqual(['CI', 'DATABASE_URL']);
+      expect(job.commands).toEqual(['npm ci', 'npm test']);
+    });
+
+    it('should read container images, services and the rust toolchain ref', () => {
+      const [job] = parseGithubWorkflow(`
+jobs:
+  build:
+    name: Build \${{ matrix.os }}
+    container: rust:1.76-slim
+    services:
+      postgres:
+        image: postgres:16
+      redis: redis:7
+    steps:
+      - uses: dtolnay/rust-toolchain@1.77.0
+      - uses: some-org/custom-action@v1
+      - uses: some-org/setup-tool@v1
+`);
+
+      expect(job.name).toBe('build');
+      expect(job.runtimes).toEqual([
+        { runtime: 'rust', versions: ['1.76', '1.77.0'], source: 'image rust' },
+      ]);
+      expect(job.setup_actions).toEqual(['dtolnay/rust-toolchain', 'some-org/setup-tool']);
+      expect(job.services).toEqual([
+        { name: 'postgres', image: 'postgres:16' },
+        { name: 'redis', image: 'redis:7' },
+      ]);
+    });
+
+    it('should leave out expressions other than matrix values', () => {
+      const [job] = parseGithubWorkflow(`
+jobs:
+  test:
+    steps:
+      - uses: actions/setup-go@v5
+        with:
+          go-version: \${{ env.GO_VERSION }}
+`);
+
+      expect(job.runtimes).toEqual([]);
+    });
+  });
+
+  describe('parseGitlabCi', () => {
+    it('should apply extends, defaults, variables and parallel matrices', () => {
+      const jobs = parseGitlabCi(`
+stages: [test]
+variables:
+  PG_VERSION: "15"
+default:
+  image: python:3.11
+  before_script:
+    - pip install -r requirements.txt
+.db:
+  services:
+    - name: postgres:$PG_VERSION
+      alias: db
+test:
+  extends: .db
+  script: pytest
+matrix-test:
+  image: node:$NODE
+  parallel:
+    matrix:
+      - NODE: ["18", "20"]
+  script:
+    - npm test
+`);
+
+      expect(jobs.map((job) => job.name)).toEqual(['test', 'matrix-test']);
+      expect(jobs[0].runtimes).toEqual([{ runtime: 'python', versions: ['3.11'], source: 'image python' }]);
+      expect(jobs[0].services).toEqual([{ name: 'db', image: 'postgres:15' }]);
+      expect(jobs[0].env).toEqual(['PG_VERSION']);
+      expect(jobs[0].commands).toEqual(['pip install -r requirements.txt', 'pytest']);
+      expect(jobs[1].runtimes).toEqual([{ runtime: 'node', versions: ['18', '20'], source: 'image node' }]);
+    });
+  });
+
+  describe('parseCircleCi', () => {
+    it('should take the first image as the runtime and resolve parameters', () => {
+      const [job] = parseCircleCi(`
+version: 2.1
+executors:
+  ruby:
+    docker:
+      - image: cimg/ruby:<< parameters.ruby >>
+        environment:
+          RAILS_ENV: test
+      - image: cimg/postgres:16.2
+jobs:
+  test:
+    parameters:
+      ruby:
+        type: string
+        default: "3.2"
+    executor: ruby
+    steps:
+      - checkout
+      - run: bundle exec rspec
+      - run:
+          command: bundle exec rubocop
+workflows:
+  main:
+    jobs:
+      - test:
+          matrix:
+            parameters:
+              ruby: ["3.2", "3.3"]
+`);
+
+      expect(job.runtimes).toEqual([{ runtime: 'ruby', versions: ['3.2', '3.3'], source: 'image cimg/ruby' }]);
+      expect(job.services).toEqual([{ name: 'postgres', image: 'cimg/postgres:16.2' }]);
+      expect(job.env).toEqual(['RAILS_ENV']);
+      expect(job.commands).toEqual(['bundle exec rspec', 'bundle exec rubocop']);
+    });
+  });
+
+  describe('detectCiWorkflows', () => {
+    it('should skip invalid configs and files that are not CI configs', () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const workflows = detectCiWorkflows(
+        new Map([
+          ['.github/workflows/ci.yml', 'jobs:\n  test:\n    steps:\n      - run: make test\n'],
+          ['.github/workflows/broken.yml', 'jobs: [unclosed'],
+          ['.gitlab-ci.yml', 'test:\n  script: make test\n'],
+          ['config/ci.yml', 'jobs:\n  test:\n    steps: []\n'],
+        ])
+      );
+      error.mockRestore();
+
+      expect(workflows.map((workflow) => [workflow.provider, workflow.file])).toEqual([
+        ['GitHub Actions', '.github/workflows/ci.yml'],
+        ['GitLab CI', '.gitlab-ci.yml'],
+      ]);
+    });
+  });
+
+  describe('ciRuntimeDeclarations', () => {
+    it('should turn a matrix into one range and skip deploy jobs', () => {
+      const workflows = detectCiWorkflows(
+        new Map([
+          [
+            '.github/workflows/ci.yml',
+            `
+jobs:
+  test:
+    strategy:
+      matrix:
+        node: [18, 20]
+    steps:
+      - uses: actions/setup-node@v4
+        with:
+          node-version: \${{ matrix.node }}
+  deploy:
+    steps:
+      - uses: actions/setup-node@v4
+        with:
+          node-version: 16
+`,
+          ],
+        ])
+      );
+
+      expect(getSetupJobs(workflows).map(({ job }) => job.name)).toEqual(['test']);
+      expect(ciRuntimeDeclarations(workflows)).toEqual([
+        { runtime: 'node', version: '18 || 20', source: '.github/workflows/ci.yml actions/setup-node' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for Environment Variable Extraction
+ * Run with: npm test env-vars
+ */
+
+import { isEnvScanFile, scanEnvVarUsage, selectEnvScanFiles } from '../env-vars';
+
+function namesRead(file: string, content: string): string[] {
+  return scanEnvVarUsage(new Map([[file, content]])).map((reference) => reference.name);
+}
+
+describe('Environment Variable Extraction', () => {
+  describe('scanEnvVarUsage', () => {
+    it('should ignore reads in line and block comments', () => {
+      const content = [
+        '// const { LEGACY_KEY } = process.env',
+        '/* process.env.OLD_TOKEN */',
+        '/**',
+        ' * Reads process.env.DOC_ONLY',
+        ' */',
+        'const url = process.env.API_URL; // process.env.TRAILING',
+      ].join('\n');
+
+      expect(namesRead('src/config.ts', content)).toEqual(['API_URL']);
+    });
+
+    it('should keep the line numbers of reads after a block comment', () => {
+      const [reference] = scanEnvVarUsage(new Map([['src/db.ts', '/*\n * setup\n */\nconnect(process.env.DATABASE_URL);\n']]));
+
+      expect(reference).toMatchObject({ name: 'DATABASE_URL', line: 4 });
+    });
+
+    it('should not take a comment marker inside a string for a comment', () => {
+      const content = "const base = 'https://' + process.env.HOST;\nconst tag = `#${process.env.RELEASE}`;\n";
+
+      expect(namesRead('src/urls.js', content)).toEqual(['HOST', 'RELEASE']);
+    });
+
+    it('should ignore # comments in Python and Ruby but not # in strings', () => {
+      const python = '# os.environ["OLD_KEY"]\nkey = os.environ["API_KEY"]  # or os.getenv("NOPE")\ncolor = "#fff" + os.getenv("THEME")\n';
+      const docstring = '"""\nSee os.environ["DOCUMENTED"]\n"""\n';
+
+      expect(namesRead('app/settings.py', python)).toEqual(['API_KEY', 'THEME']);
+      expect(namesRead('config/app.rb', "# ENV['OLD']\nport = ENV.fetch('PORT', 3000)\n")).toEqual(['PORT']);
+      // Triple-quoted strings are strings, not comments
+      expect(namesRead('app/env.py', docstring)).toEqual(['DOCUMENTED']);
+    });
+
+    it('should ignore comments in Go and Rust', () => {
+      expect(namesRead('main.go', '// os.Getenv("OLD")\nport := os.Getenv("PORT")\n')).toEqual(['PORT']);
+      expect(namesRead('src/main.rs', "/* env::var(\"OLD\") */\nfn f<'a>() { env::var(\"RUST_KEY\"); }\n")).toEqual(['RUST_KEY']);
+    });
+  });
+
+  describe('selectEnvScanFiles', () => {
+    it('should skip tests, type declarations and excluded directories', () => {
+      expect(isEnvScanFile('src/server.ts')).toBe(true);
+      expect(isEnvScanFile('src/server.test.ts')).toBe(false);
+      expect(isEnvScanFile('types/env.d.ts')).toBe(false);
+      expect(isEnvScanFile('vendor/node_modules/lib/index.js')).toBe(false);
+      expect(isEnvScanFile('docs/guide.md')).toBe(false);
+    });
+
+    it('should put config-like paths first and keep every file without a limit', () => {
+      const files = ['src/a/b/handler.ts', 'src/index.ts', 'src/a/b/config.ts', 'src/index.test.ts'].map((path) => ({
+        path,
+        type: 'blob' as const,
+        size: 100,
+        sha: '',
+        url: '',
+      }));
+
+      expect(selectEnvScanFiles(files, 2).map((file) => file.path)).toEqual(['src/a/b/config.ts', 'src/index.ts']);
+      expect(selectEnvScanFiles(files, Infinity)).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for Repository File Rules
+ * Run with: npm test file-rules
+ */
+
+import { buildFileRules, createFileRuleMatcher, parseGitattributes, parseGitignore } from '../file-rules';
+
+function matcherFor(files: Record<string, string>) {
+  return createFileRuleMatcher(buildFileRules(new Map(Object.entries(files))));
+}
+
+describe('Repository File Rules', () => {
+  describe('parseGitignore', () => {
+    it('should anchor patterns with a slash and match bare names at any depth', () => {
+      const [anchored, bare] = parseGitignore('/build\n*.log\n');
+
+      expect(anchored.regex.test('build')).toBe(true);
+      expect(anchored.regex.test('web/build')).toBe(false);
+      expect(bare.regex.test('logs/debug.log')).toBe(true);
+    });
+
+    it('should read negations, directory-only rules, escapes and comments', () => {
+      const rules = parseGitignore('# comment\n!keep.log\ntmp/\n\\#notes\n');
+
+      expect(rules).toHaveLength(3);
+      expect(rules[0].negated).toBe(true);
+      expect(rules[1].directoryOnly).toBe(true);
+      expect(rules[2].regex.test('#notes')).toBe(true);
+    });
+
+    it('should read character classes and match invalid ones literally', () => {
+      const [valid, negated, invalid] = parseGitignore('file[0-9].txt\nfile[!0-9].txt\nfile[z-a].txt\n');
+
+      expect(valid.regex.test('file1.txt')).toBe(true);
+      expect(negated.regex.test('file1.txt')).toBe(false);
+      expect(negated.regex.test('filex.txt')).toBe(true);
+      expect(invalid.regex.test('file[z-a].txt')).toBe(true);
+    });
+
+    it('should match braces literally and keep the declaring directory literal', () => {
+      const [braces] = parseGitignore('{a,b}.js\n');
+      const [nested] = parseGitignore('*.json\n', 'app/[slug]');
+
+      expect(braces.regex.test('{a,b}.js')).toBe(true);
+      expect(braces.regex.test('a.js')).toBe(false);
+      expect(nested.regex.test('app/[slug]/data.json')).toBe(true);
+      expect(nested.regex.test('app/s/data.json')).toBe(false);
+    });
+  });
+
+  describe('parseGitattributes', () => {
+    it('should keep only the linguist attributes, set or unset', () => {
+      const rules = parseGitattributes('*.pb.go linguist-generated\nvendor/** linguist-vendored=true\nlib/** -linguist-vendored\n*.sh text eol=lf\n');
+
+      expect(rules.map(({ generated, vendored }) => [generated, vendored])).toEqual([
+        [true, undefined],
+        [undefined, true],
+        [undefined, false],
+      ]);
+    });
+  });
+
+  describe('createFileRuleMatcher', () => {
+    it('should let deeper .gitignore files override their parents', () => {
+      const match = matcherFor({ '.gitignore': '*.log\n', 'web/.gitignore': '!keep.log\n' });
+
+      expect(match('debug.log')).toBe('gitignore');
+      expect(match('web/keep.log')).toBeNull();
+    });
+
+    it('should not re-include files inside an ignored directory', () => {
+      const match = matcherFor({ '.gitignore': 'dist/\n!dist/keep.js\n' });
+
+      expect(match('dist/keep.js')).toBe('gitignore');
+      expect(match('src/dist.js')).toBeNull();
+    });
+
+    it('should report generated and vendored files, the last rule winning', () => {
+      const match = matcherFor({
+        '.gitattributes': 'api/** linguist-generated\napi/handwritten.ts -linguist-generated\nthird_party/** linguist-vendored\n',
+      });
+
+      expect(match('api/client.ts')).toBe('linguist_generated');
+      expect(match('api/handwritten.ts')).toBeNull();
+      expect(match('third_party/lib.c')).toBe('linguist_vendored');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Tests for Runtime Version Detection
+ * Run with: npm test runtime-versions
+ */
+
+import { detectRuntimeVersions } from '../runtime-versions';
+
+/**
+ * The conflicts of the only runtime detected from the given files
+ */
+function conflictsFor(files: Record<string, string>): string[] {
+  const [runtime] = detectRuntimeVersions(new Map(Object.entries(files)));
+  return runtime.conflicts.map((conflict) => conflict.version);
+}
+
+function nodeFiles(nvmrc: string, engine: string): Record<string, string> {
+  return { '.nvmrc': nvmrc, 'package.json': JSON.stringify({ engines: { node: engine } }) };
+}
+
+describe('Runtime Version Detection', () => {
+  describe('detectRuntimeVersions', () => {
+    it('should resolve the highest-precedence exact version and drop a leading v', () => {
+      const [node] = detectRuntimeVersions(
+        new Map([
+          ['.nvmrc', 'lts/iron\n'],
+          ['.tool-versions', '# pinned\nnodejs v20.11.0\n'],
+          ['package.json', JSON.stringify({ engines: { node: '>=18' } })],
+        ])
+      );
+
+      expect(node.runtime).toBe('node');
+      expect(node.version).toBe('20.11.0');
+      expect(node.source).toBe('.tool-versions');
+      expect(node.declarations.map((declaration) => declaration.source)).toEqual([
+        '.nvmrc',
+        '.tool-versions',
+        'package.json engines.node',
+      ]);
+      expect(node.conflicts).toEqual([]);
+    });
+
+    it('should fall back to the first declaration when none is exact', () => {
+      const [node] = detectRuntimeVersions(new Map(Object.entries(nodeFiles('lts/*', '>=18'))));
+
+      expect(node.version).toBe('lts/*');
+      expect(node.conflicts).toEqual([]);
+    });
+  });
+
+  describe('range conflicts', () => {
+    it('should check comparator sets, with or without spaces after operators', () => {
+      expect(conflictsFor(nodeFiles('20.11.0', '>=18 <21'))).toEqual([]);
+      expect(conflictsFor(nodeFiles('20.11.0', '>= 18 < 20'))).toEqual(['>= 18 < 20']);
+      expect(conflictsFor(nodeFiles('16.20.0', '>=18'))).toEqual(['>=18']);
+      expect(conflictsFor(nodeFiles('20.11.0', '>20'))).toEqual([]);
+    });
+
+    it('should accept any alternative of ||', () => {
+      expect(conflictsFor(nodeFiles('20.11.0', '^18.0.0 || ^20.0.0'))).toEqual([]);
+      expect(conflictsFor(nodeFiles('22.1.0', '^18.0.0 || ^20.0.0'))).toEqual(['^18.0.0 || ^20.0.0']);
+    });
+
+    it('should keep caret ranges within the major, or the minor below 1.0', () => {
+      expect(conflictsFor(nodeFiles('18.19.0', '^18.17'))).toEqual([]);
+      expect(conflictsFor(nodeFiles('18.16.0', '^18.17'))).toEqual(['^18.17']);
+      expect(conflictsFor(nodeFiles('0.4.0', '^0.3'))).toEqual(['^0.3']);
+    });
+
+    it('should treat upper bounds and exclusions at the precision given', () => {
+      expect(conflictsFor(nodeFiles('20.11.0', '<=20'))).toEqual([]);
+      expect(conflictsFor(nodeFiles('20.11.0', '<20'))).toEqual(['<20']);
+      expect(conflictsFor(nodeFiles('20.11.0', '!=20'))).toEqual(['!=20']);
+      expect(conflictsFor(nodeFiles('20.11.0', '20.x'))).toEqual([]);
+      expect(conflictsFor(nodeFiles('20.11.0', '18.x'))).toEqual(['18.x']);
+    });
+
+    it('should pin every part but the last for ~> and ~=', () => {
+      expect(conflictsFor({ '.ruby-version': 'ruby-3.3.0', Gemfile: "ruby '~> 3.2'" })).toEqual([]);
+      expect(conflictsFor({ '.ruby-version': '3.3.0', Gemfile: "ruby '~> 3.2.0'" })).toEqual(['~> 3.2.0']);
+      expect(
+        conflictsFor({ '.python-version': '3.12.1', 'pyproject.toml': '[project]\nrequires-python = "~=3.10"' })
+      ).toEqual([]);
+      expect(
+        conflictsFor({ '.python-version': '3.12.1', 'pyproject.toml': '[project]\nrequires-python = ">=3.9,<3.12"' })
+      ).toEqual(['>=3.9,<3.12']);
+    });
+
+    it('should compare exact versions on the parts both give', () => {
+      expect(conflictsFor({ '.nvmrc': '20', '.node-version': '20.11.0' })).toEqual([]);
+      expect(conflictsFor({ '.nvmrc': '18', '.node-version': '20.11.0' })).toEqual(['20.11.0']);
+    });
+
+    it('should not report comparators it cannot read', () => {
+      expect(conflictsFor(nodeFiles('20.11.0', 'latest'))).toEqual([]);
+      expect(conflictsFor(nodeFiles('20.11.0', '>=18.0.0-rc.1'))).toEqual([]);
+    });
+  });
+});
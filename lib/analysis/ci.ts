@@ -0,0 +1,409 @@
+/**
+ * CI workflow analysis
+ * Reads GitHub Actions, GitLab CI and CircleCI configs for what a clean
+ * machine needs to build and test the project: runtimes (setup actions,
+ * build matrix, job images), service containers, env vars and run steps
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { CiJob, CiProvider, CiRuntime, CiService, CiWorkflow, RuntimeVersionDeclaration } from '../types';
+import { isCiConfigFile } from './file-filter';
+import { parseImageReference } from './manifests';
+
+// Setup action → [runtime, input holding its version]
+const SETUP_ACTIONS: Record<string, [string, string][]> = {
+  'actions/setup-node': [['node', 'node-version']],
+  'actions/setup-python': [['python', 'python-version']],
+  'ruby/setup-ruby': [['ruby', 'ruby-version']],
+  'actions/setup-go': [['go', 'go-version']],
+  'actions/setup-java': [['java', 'java-version']],
+  'actions/setup-dotnet': [['dotnet', 'dotnet-version']],
+  'shivammathur/setup-php': [['php', 'php-version']],
+  'erlef/setup-beam': [['elixir', 'elixir-version'], ['erlang', 'otp-version']],
+  'subosito/flutter-action': [['flutter', 'flutter-version']],
+  'dart-lang/setup-dart': [['dart', 'sdk']],
+  'swift-actions/setup-swift': [['swift', 'swift-version']],
+  'dtolnay/rust-toolchain': [['rust', 'toolchain']],
+  'pnpm/action-setup': [['pnpm', 'version']],
+  'oven-sh/setup-bun': [['bun', 'bun-version']],
+  'denoland/setup-deno': [['deno', 'deno-version']],
+  'astral-sh/setup-uv': [['uv', 'version']],
+};
+
+// Job images that provide a runtime, matched on the repository path
+const IMAGE_RUNTIMES: { pattern: RegExp; runtime: string }[] = [
+  { pattern: /(^|\/)node$/, runtime: 'node' },
+  { pattern: /(^|\/)python$/, runtime: 'python' },
+  { pattern: /(^|\/)ruby$/, runtime: 'ruby' },
+  { pattern: /(^|\/)(golang|go)$/, runtime: 'go' },
+  { pattern: /(^|\/)rust$/, runtime: 'rust' },
+  { pattern: /(^|\/)(openjdk|eclipse-temurin|amazoncorretto)$/, runtime: 'java' },
+  { pattern: /(^|\/)php$/, runtime: 'php' },
+  { pattern: /(^|\/)elixir$/, runtime: 'elixir' },
+  { pattern: /(^|\/)dart$/, runtime: 'dart' },
+  { pattern: /(^|\/)flutter$/, runtime: 'flutter' },
+  { pattern: /(^|\/)swift$/, runtime: 'swift' },
+  { pattern: /dotnet\/sdk$/, runtime: 'dotnet' },
+];
+
+// GitLab CI top-level keys that are not jobs
+const GITLAB_KEYWORDS = [
+  'default',
+  'include',
+  'stages',
+  'variables',
+  'workflow',
+  'image',
+  'services',
+  'cache',
+  'before_script',
+  'after_script',
+];
+
+// Jobs that ship the project rather than build or test it
+const DEPLOY_JOB_PATTERN = /deploy|release|publish/i;
+
+const MAX_JOB_COMMANDS = 30;
+
+type YamlRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): YamlRecord | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as YamlRecord) : null;
+}
+
+function asList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  return value === undefined || value === null ? [] : [value];
+}
+
+function asStrings(value: unknown): string[] {
+  // GitLab allows nested arrays of commands (from YAML anchors)
+  return asList(value).flatMap((entry) => (Array.isArray(entry) ? asStrings(entry) : typeof entry === 'string' ? [entry] : []));
+}
+
+/**
+ * Parse a config with every scalar kept as a string, so versions like 3.10
+ * aren't read as numbers
+ */
+function parseConfig(content: string): YamlRecord {
+  return asRecord(parseYaml(content, { schema: 'failsafe' })) || {};
+}
+
+/**
+ * The runtime a job image provides, with the version from its tag
+ */
+function imageRuntime(image: string): CiRuntime | null {
+  const { image: repository, tag } = parseImageReference(image);
+  const match = IMAGE_RUNTIMES.find(({ pattern }) => pattern.test(repository));
+  const version = tag?.match(/^\d+(\.\d+)*/)?.[0];
+  return match && version ? { runtime: match.runtime, versions: [version], source: `image ${repository}` } : null;
+}
+
+/**
+ * Shell commands from a multi-line run block, without blank lines and comments
+ */
+function splitCommands(script: string): string[] {
+  return script
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+}
+
+/**
+ * Merge runtimes declared more than once in a job (a setup action and a matrix image)
+ */
+function mergeRuntimes(runtimes: CiRuntime[]): CiRuntime[] {
+  const merged = new Map<string, CiRuntime>();
+  for (const runtime of runtimes) {
+    const existing = merged.get(runtime.runtime);
+    if (existing) {
+      existing.versions = Array.from(new Set([...existing.versions, ...runtime.versions]));
+    } else {
+      merged.set(runtime.runtime, { ...runtime, versions: [...runtime.versions] });
+    }
+  }
+  return Array.from(merged.values()).filter((runtime) => runtime.versions.length > 0);
+}
+
+function toJob(name: string, job: Omit<CiJob, 'name'>): CiJob {
+  return {
+    name,
+    runtimes: mergeRuntimes(job.runtimes),
+    setup_actions: Array.from(new Set(job.setup_actions)),
+    services: job.services,
+    env: Array.from(new Set(job.env)),
+    commands: job.commands.slice(0, MAX_JOB_COMMANDS),
+  };
+}
+
+/**
+ * Jobs of a GitHub Actions workflow. `${{ matrix.* }}` expressions resolve
+ * to every value of the matrix; other expressions are left out.
+ * @throws Error when the file is not valid YAML
+ */
+export function parseGithubWorkflow(content: string): CiJob[] {
+  const data = parseConfig(content);
+  const workflowEnv = Object.keys(asRecord(data.env) || {});
+
+  return Object.entries(asRecord(data.jobs) || {}).flatMap(([id, value]) => {
+    const job = asRecord(value);
+    if (!job) return [];
+
+    const matrix = asRecord(asRecord(job.strategy)?.matrix) || {};
+    const matrixValues = (key: string) => [
+      ...asStrings(matrix[key]),
+      ...asList(matrix.include).flatMap((entry) => asStrings(asRecord(entry)?.[key])),
+    ];
+    const resolve = (value: string): string[] => {
+      const reference = value.match(/\$\{\{\s*matrix\.([\w-]+)\s*\}\}/);
+      if (reference) return matrixValues(reference[1]).flatMap((entry) => resolve(value.replace(reference[0], entry)));
+      return value.includes('${{') ? [] : [value];
+    };
+
+    const runtimes: CiRuntime[] = [];
+    const setupActions: string[] = [];
+    const env = [...workflowEnv, ...Object.keys(asRecord(job.env) || {})];
+    const commands: string[] = [];
+
+    const container = job.container;
+    const containerImage = typeof container === 'string' ? container : asRecord(container)?.image;
+    if (typeof containerImage === 'string') {
+      for (const image of resolve(containerImage)) {
+        const runtime = imageRuntime(image);
+        if (runtime) runtimes.push(runtime);
+      }
+    }
+
+    for (const entry of asList(job.steps)) {
+      const step = asRecord(entry);
+      if (!step) continue;
+      env.push(...Object.keys(asRecord(step.env) || {}));
+
+      if (typeof step.run === 'string') {
+        commands.push(...splitCommands(step.run));
+      }
+      if (typeof step.uses !== 'string') continue;
+
+      const [action, ref] = step.uses.split('@');
+      const inputs = SETUP_ACTIONS[action];
+      if (!inputs && !/(^|[/-])setup([/-]|$)/.test(action)) continue;
+      setupActions.push(action);
+
+      for (const [runtime, input] of inputs || []) {
+        const declared = asRecord(step.with)?.[input];
+        // dtolnay/rust-toolchain takes the toolchain as the action ref
+        const raw = typeof declared === 'string' ? declared : action === 'dtolnay/rust-toolchain' ? ref : undefined;
+        // setup-python and setup-node accept one version per line
+        const versions = (raw || '').split('\n').map((line) => line.trim()).filter(Boolean).flatMap(resolve);
+        runtimes.push({ runtime, versions, source: action });
+      }
+    }
+
+    const services = Object.entries(asRecord(job.services) || {}).flatMap(([name, service]) => {
+      const image = typeof service === 'string' ? service : asRecord(service)?.image;
+      return typeof image === 'string' ? resolve(image).map((resolved) => ({ name, image: resolved })) : [];
+    });
+
+    const name = typeof job.name === 'string' && !job.name.includes('${{') ? job.name : id;
+    return [toJob(name, { runtimes, setup_actions: setupActions, services, env, commands })];
+  });
+}
+
+/**
+ * Jobs of a .gitlab-ci.yml. `extends` templates and the `default` section
+ * are applied, and `$VAR` references in images resolve to the variables
+ * and every `parallel:matrix` value.
+ * @throws Error when the file is not valid YAML
+ */
+export function parseGitlabCi(content: string): CiJob[] {
+  const data = parseConfig(content);
+  const defaults = asRecord(data.default) || {};
+  const globalVariables = asRecord(data.variables) || {};
+
+  const resolveExtends = (job: YamlRecord, seen: string[]): YamlRecord => {
+    const templates = asStrings(job.extends).filter((name) => !seen.includes(name));
+    const base = templates.reduce<YamlRecord>((merged, name) => {
+      const template = asRecord(data[name]);
+      return template ? { ...merged, ...resolveExtends(template, [...seen, name]) } : merged;
+    }, {});
+    return { ...base, ...job };
+  };
+
+  // Job keywords fall back to `default`, then to the deprecated top-level globals
+  const setting = (job: YamlRecord, key: string) => job[key] ?? defaults[key] ?? data[key];
+
+  return Object.entries(data).flatMap(([id, value]) => {
+    const raw = asRecord(value);
+    if (!raw || id.startsWith('.') || GITLAB_KEYWORDS.includes(id)) return [];
+    const job = resolveExtends(raw, [id]);
+    if (job.script === undefined && job.trigger === undefined) return [];
+
+    const variables: YamlRecord = { ...globalVariables, ...asRecord(job.variables) };
+    const matrix = asList(asRecord(job.parallel)?.matrix).map((entry) => asRecord(entry) || {});
+    const expand = (value: string): string[] => {
+      const reference = value.match(/\$\{?(\w+)\}?/);
+      if (!reference) return [value];
+      const name = reference[1];
+      const fromMatrix = matrix.flatMap((entry) => asStrings(entry[name]));
+      const fromVariables = typeof variables[name] === 'string' ? [variables[name] as string] : [];
+      const candidates = fromMatrix.length > 0 ? fromMatrix : fromVariables;
+      return candidates.flatMap((candidate) => expand(value.replace(reference[0], candidate)));
+    };
+    const imageName = (image: unknown) => (typeof image === 'string' ? image : asRecord(image)?.name);
+
+    const runtimes: CiRuntime[] = [];
+    const image = imageName(setting(job, 'image'));
+    if (typeof image === 'string') {
+      for (const expanded of expand(image)) {
+        const runtime = imageRuntime(expanded);
+        if (runtime) runtimes.push(runtime);
+      }
+    }
+
+    const services: CiService[] = asList(setting(job, 'services')).flatMap((entry) => {
+      const serviceImage = imageName(entry);
+      if (typeof serviceImage !== 'string') return [];
+      const alias = asRecord(entry)?.alias;
+      return expand(serviceImage).map((resolved) => ({
+        name: typeof alias === 'string' ? alias : parseImageReference(resolved).image.split('/').pop() || resolved,
+        image: resolved,
+      }));
+    });
+
+    const commands = [...asStrings(setting(job, 'before_script')), ...asStrings(job.script)].flatMap(splitCommands);
+    return [toJob(id, { runtimes, setup_actions: [], services, env: Object.keys(variables), commands })];
+  });
+}
+
+/**
+ * Jobs of a .circleci/config.yml. The first Docker image of a job is its
+ * runtime and the others are services; `<< parameters.* >>` in images
+ * resolve to the workflow matrix values or the parameter default.
+ * @throws Error when the file is not valid YAML
+ */
+export function parseCircleCi(content: string): CiJob[] {
+  const data = parseConfig(content);
+  const executors = asRecord(data.executors) || {};
+
+  // Matrix parameter values per job, from every workflow that runs it
+  const matrices = new Map<string, YamlRecord[]>();
+  for (const workflow of Object.values(asRecord(data.workflows) || {})) {
+    for (const entry of asList(asRecord(workflow)?.jobs)) {
+      for (const [jobName, config] of Object.entries(asRecord(entry) || {})) {
+        const parameters = asRecord(asRecord(asRecord(config)?.matrix)?.parameters);
+        if (parameters) matrices.set(jobName, [...(matrices.get(jobName) || []), parameters]);
+      }
+    }
+  }
+
+  return Object.entries(asRecord(data.jobs) || {}).flatMap(([id, value]) => {
+    const job = asRecord(value);
+    if (!job) return [];
+
+    const executorName = typeof job.executor === 'string' ? job.executor : asRecord(job.executor)?.name;
+    const executor = typeof executorName === 'string' ? asRecord(executors[executorName]) : null;
+    const docker = asList(job.docker ?? executor?.docker).map((entry) => asRecord(entry) || {});
+    const parameters = asRecord(job.parameters) || {};
+
+    const expand = (value: string): string[] => {
+      const reference = value.match(/<<\s*parameters\.([\w-]+)\s*>>/);
+      if (!reference) return [value];
+      const name = reference[1];
+      const fromMatrix = (matrices.get(id) || []).flatMap((matrix) => asStrings(matrix[name]));
+      const fallback = asRecord(parameters[name])?.default;
+      const candidates = fromMatrix.length > 0 ? fromMatrix : typeof fallback === 'string' ? [fallback] : [];
+      return candidates.flatMap((candidate) => expand(value.replace(reference[0], candidate)));
+    };
+
+    const [primary, ...secondary] = docker;
+    const runtimes: CiRuntime[] = [];
+    if (typeof primary?.image === 'string') {
+      for (const image of expand(primary.image)) {
+        const runtime = imageRuntime(image);
+        if (runtime) runtimes.push(runtime);
+      }
+    }
+
+    const services: CiService[] = secondary.flatMap((container) => {
+      if (typeof container.image !== 'string') return [];
+      return expand(container.image).map((image) => ({
+        name: typeof container.name === 'string' ? container.name : parseImageReference(image).image.split('/').pop() || image,
+        image,
+      }));
+    });
+
+    const commands = asList(job.steps).flatMap((entry) => {
+      const run = asRecord(entry)?.run;
+      const command = typeof run === 'string' ? run : asRecord(run)?.command;
+      return typeof command === 'string' ? splitCommands(command) : [];
+    });
+
+    const env = [...Object.keys(asRecord(job.environment) || {}), ...Object.keys(asRecord(primary?.environment) || {})];
+    return [toJob(id, { runtimes, setup_actions: [], services, env, commands })];
+  });
+}
+
+/**
+ * Provider of a CI config path, or null for other files
+ */
+function ciProvider(filePath: string): CiProvider | null {
+  if (!isCiConfigFile(filePath)) return null;
+  if (filePath === '.gitlab-ci.yml') return 'GitLab CI';
+  if (filePath === '.circleci/config.yml') return 'CircleCI';
+  return 'GitHub Actions';
+}
+
+const PARSERS: Record<CiProvider, (content: string) => CiJob[]> = {
+  'GitHub Actions': parseGithubWorkflow,
+  'GitLab CI': parseGitlabCi,
+  CircleCI: parseCircleCi,
+};
+
+/**
+ * Every CI workflow among the fetched files; invalid configs are skipped
+ * @param files - File contents keyed by repo-relative path
+ */
+export function detectCiWorkflows(files: Map<string, string>): CiWorkflow[] {
+  const workflows: CiWorkflow[] = [];
+  for (const [filePath, content] of files) {
+    const provider = ciProvider(filePath);
+    if (!provider) continue;
+
+    try {
+      const jobs = PARSERS[provider](content);
+      if (jobs.length > 0) workflows.push({ provider, file: filePath, jobs });
+    } catch (error) {
+      console.error(`Failed to parse ${filePath}:`, error);
+    }
+  }
+  return workflows.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Jobs that build or test the project, skipping deploy and release jobs
+ */
+export function getSetupJobs(workflows: CiWorkflow[]): { workflow: CiWorkflow; job: CiJob }[] {
+  return workflows.flatMap((workflow) =>
+    workflow.jobs
+      .filter((job) => !DEPLOY_JOB_PATTERN.test(job.name))
+      .map((job) => ({ workflow, job }))
+  );
+}
+
+/**
+ * Runtime versions CI sets up, as version declarations. A build matrix
+ * becomes one "18 || 20 || 22" range, so any of its versions agrees.
+ */
+export function ciRuntimeDeclarations(workflows: CiWorkflow[]): (RuntimeVersionDeclaration & { runtime: string })[] {
+  const declarations = new Map<string, RuntimeVersionDeclaration & { runtime: string }>();
+  for (const { workflow, job } of getSetupJobs(workflows)) {
+    for (const runtime of job.runtimes) {
+      const version = runtime.versions.join(' || ');
+      const key = `${runtime.runtime}\0${version}`;
+      if (!declarations.has(key)) {
+        declarations.set(key, { runtime: runtime.runtime, version, source: `${workflow.file} ${runtime.source}` });
+      }
+    }
+  }
+  return Array.from(declarations.values());
+}
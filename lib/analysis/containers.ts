@@ -0,0 +1,192 @@
+/**
+ * Container setup analysis
+ * Reads the dev container config, Dockerfiles and the compose file, and
+ * decides whether the project can be set up entirely in containers
+ */
+
+import { ContainerService, ContainerSetup, DevContainer, DockerfileSummary } from '../types';
+import { parseJsonc } from '../utils/jsonc';
+import { COMPOSE_FILES, DEVCONTAINER_FILES, isDockerfile } from './file-filter';
+import { parseComposeServices } from './manifests';
+
+type JsonRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): JsonRecord | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as JsonRecord) : null;
+}
+
+function asStrings(value: unknown): string[] {
+  const list = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return list.filter((entry) => typeof entry === 'string' || typeof entry === 'number').map(String);
+}
+
+/**
+ * Resolve a path relative to a directory of the repo ('' for the root)
+ */
+function resolvePath(dir: string, relative: string): string {
+  const parts: string[] = dir ? dir.split('/') : [];
+  for (const part of relative.split('/')) {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  }
+  return parts.join('/');
+}
+
+/**
+ * devcontainer.json lifecycle commands are a string, an argument array or
+ * an object of commands run in parallel
+ */
+function readLifecycleCommand(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return asStrings(value).join(' ') || null;
+  const commands = Object.values(asRecord(value) || {}).map(readLifecycleCommand).filter(Boolean);
+  return commands.length > 0 ? commands.join(' && ') : null;
+}
+
+/**
+ * Parse a devcontainer.json; Dockerfile and compose paths are resolved
+ * against the file's directory
+ * @throws Error when the file is not valid JSONC
+ */
+export function parseDevcontainer(content: string, file: string): DevContainer {
+  const data = asRecord(parseJsonc(content)) || {};
+  const dir = file.includes('/') ? file.slice(0, file.lastIndexOf('/')) : '';
+  const build = asRecord(data.build);
+  // `dockerFile` at the top level is the pre-`build` spelling
+  const dockerfile = build?.dockerfile ?? data.dockerFile;
+  const vscode = asRecord(asRecord(data.customizations)?.vscode);
+
+  return {
+    file,
+    name: typeof data.name === 'string' ? data.name : null,
+    image: typeof data.image === 'string' ? data.image : null,
+    dockerfile: typeof dockerfile === 'string' ? resolvePath(dir, dockerfile) : null,
+    compose_files: asStrings(data.dockerComposeFile).map((composeFile) => resolvePath(dir, composeFile)),
+    service: typeof data.service === 'string' ? data.service : null,
+    features: Object.keys(asRecord(data.features) || {}),
+    forward_ports: asStrings(data.forwardPorts),
+    post_create_command: readLifecycleCommand(data.postCreateCommand),
+    extensions: [...asStrings(vscode?.extensions), ...asStrings(data.extensions)],
+  };
+}
+
+/**
+ * Summarize a Dockerfile: base image per stage, exposed ports, build args,
+ * working directory and the final stage's command. ARG defaults declared
+ * before the first FROM are substituted into the base images.
+ */
+export function parseDockerfile(content: string, file: string): DockerfileSummary {
+  const instructions = content
+    .split('\n')
+    .filter((line) => !line.trim().startsWith('#'))
+    .join('\n')
+    .replace(/\\\r?\n/g, ' ')
+    .split('\n')
+    .map((line) => line.trim().match(/^(\w+)\s+(.*)$/))
+    .filter((match): match is RegExpMatchArray => match !== null);
+
+  const summary: DockerfileSummary = {
+    file,
+    base_images: [],
+    exposed_ports: [],
+    build_args: [],
+    workdir: null,
+    command: null,
+  };
+  const stages: string[] = [];
+  const globalArgs: Record<string, string> = {};
+
+  for (const [, keyword, rawArgs] of instructions) {
+    const args = rawArgs.trim();
+    switch (keyword.toUpperCase()) {
+      case 'FROM': {
+        const [image = '', as, alias] = args.split(/\s+/).filter((token) => !token.startsWith('--'));
+        const resolved = image.replace(/\$\{?(\w+)\}?/g, (reference, name: string) => globalArgs[name] ?? reference);
+        // A stage built on an earlier stage adds no base image
+        if (!stages.includes(resolved.toLowerCase())) summary.base_images.push(resolved);
+        if (as?.toLowerCase() === 'as' && alias) stages.push(alias.toLowerCase());
+        summary.command = null;
+        break;
+      }
+      case 'ARG':
+        for (const declaration of args.split(/\s+/)) {
+          const [name, value] = declaration.split('=');
+          if (!summary.build_args.includes(name)) summary.build_args.push(name);
+          if (stages.length === 0 && summary.base_images.length === 0 && value !== undefined) {
+            globalArgs[name] = value.replace(/^["']|["']$/g, '');
+          }
+        }
+        break;
+      case 'EXPOSE':
+        for (const port of args.split(/\s+/)) {
+          const normalized = port.replace(/\/tcp$/i, '');
+          if (!summary.exposed_ports.includes(normalized)) summary.exposed_ports.push(normalized);
+        }
+        break;
+      case 'WORKDIR':
+        summary.workdir = args;
+        break;
+      case 'CMD':
+      case 'ENTRYPOINT':
+        try {
+          summary.command = args.startsWith('[') ? asStrings(JSON.parse(args)).join(' ') : args;
+        } catch {
+          summary.command = args;
+        }
+        break;
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Detect the container setup from the fetched files: the dev container,
+ * every Dockerfile and the compose services (the root compose file, or the
+ * one the dev container uses)
+ * @returns null when the project has no container configuration
+ */
+export function detectContainerSetup(files: Map<string, string>): ContainerSetup | null {
+  let devcontainer: DevContainer | null = null;
+  const devcontainerFile = DEVCONTAINER_FILES.find((name) => files.has(name));
+  if (devcontainerFile) {
+    try {
+      devcontainer = parseDevcontainer(files.get(devcontainerFile)!, devcontainerFile);
+    } catch (error) {
+      console.error(`Failed to parse ${devcontainerFile}:`, error);
+    }
+  }
+
+  const dockerfiles = Array.from(files)
+    .filter(([filePath]) => isDockerfile(filePath))
+    .map(([filePath, content]) => parseDockerfile(content, filePath));
+
+  const composeFile =
+    COMPOSE_FILES.find((name) => files.has(name)) ||
+    devcontainer?.compose_files.find((name) => files.has(name)) ||
+    null;
+  let services: ContainerService[] = [];
+  if (composeFile) {
+    try {
+      services = parseComposeServices(files.get(composeFile)!).map(({ image, tag, ...service }) => ({
+        ...service,
+        image: image && tag ? `${image}:${tag}` : image,
+      }));
+    } catch (error) {
+      console.error(`Failed to parse ${composeFile}:`, error);
+    }
+  }
+
+  if (!devcontainer && dockerfiles.length === 0 && services.length === 0) {
+    return null;
+  }
+
+  return {
+    devcontainer,
+    dockerfiles,
+    compose_file: composeFile,
+    services,
+    // A Dockerfile alone usually builds the production image, not a dev environment
+    supports_containerized: devcontainer !== null || services.some((service) => service.build !== null),
+  };
+}
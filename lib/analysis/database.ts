@@ -2,7 +2,39 @@
  * Database requirements detection
  */
 
-import { DatabaseRequirement, FileTreeItem } from '../types';
+import { CiWorkflow, DatabaseRequirement, FileTreeItem } from '../types';
+import { parseComposeServices, parseImageReference, ComposeService } from './manifests';
+import { getSetupJobs } from './ci';
+
+// Driver packages per database, across ecosystems (npm, PyPI, Composer,
+// NuGet, Hex, pub, SwiftPM and Maven `groupId:artifactId` keys)
+const DATABASE_DRIVERS: [DatabaseRequirement['type'], string[]][] = [
+  ['PostgreSQL', [
+    'pg', 'psycopg', 'psycopg2', 'psycopg2-binary',
+    'ext-pgsql', 'ext-pdo_pgsql', 'Npgsql', 'Npgsql.EntityFrameworkCore.PostgreSQL',
+    'postgrex', 'postgres', 'fluent-postgres-driver', 'postgres-nio', 'org.postgresql:postgresql',
+  ]],
+  ['MySQL', [
+    'mysql2', 'pymysql', 'mysqlclient',
+    'ext-mysqli', 'ext-pdo_mysql', 'MySqlConnector', 'Pomelo.EntityFrameworkCore.MySql',
+    'myxql', 'mysql_client', 'fluent-mysql-driver', 'com.mysql:mysql-connector-j', 'mysql:mysql-connector-java',
+  ]],
+  ['MongoDB', [
+    'mongodb', 'pymongo', 'mongoose',
+    'mongodb/mongodb', 'MongoDB.Driver', 'mongodb_driver', 'mongo_dart', 'fluent-mongo-driver',
+    'org.mongodb:mongodb-driver-sync', 'org.mongodb:mongodb-driver-kotlin-coroutine',
+  ]],
+  ['SQLite', [
+    'sqlite3', 'better-sqlite3',
+    'ext-pdo_sqlite', 'Microsoft.EntityFrameworkCore.Sqlite', 'ecto_sqlite3', 'sqflite',
+    'fluent-sqlite-driver', 'org.xerial:sqlite-jdbc',
+  ]],
+  ['Redis', [
+    'redis', 'ioredis',
+    'predis/predis', 'ext-redis', 'StackExchange.Redis', 'redix', 'RediStack',
+    'redis.clients:jedis', 'io.lettuce:lettuce-core',
+  ]],
+];
 
 /**
  * Detect database requirements from dependencies and project structure
@@ -11,49 +43,9 @@ export function detectDatabaseRequirements(
   dependencies: string[],
   files: FileTreeItem[]
 ): DatabaseRequirement[] {
-  const databases: DatabaseRequirement[] = [];
-
-  // Detect PostgreSQL
-  if (
-    dependencies.includes('pg') ||
-    dependencies.includes('psycopg2') ||
-    dependencies.includes('psycopg2-binary')
-  ) {
-    databases.push(createDatabaseRequirement('PostgreSQL', files));
-  }
-
-  // Detect MySQL
-  if (
-    dependencies.includes('mysql2') ||
-    dependencies.includes('pymysql') ||
-    dependencies.includes('mysqlclient')
-  ) {
-    databases.push(createDatabaseRequirement('MySQL', files));
-  }
-
-  // Detect MongoDB
-  if (
-    dependencies.includes('mongodb') ||
-    dependencies.includes('pymongo') ||
-    dependencies.includes('mongoose')
-  ) {
-    databases.push(createDatabaseRequirement('MongoDB', files));
-  }
-
-  // Detect SQLite
-  if (
-    dependencies.includes('sqlite3') ||
-    dependencies.includes('better-sqlite3')
-  ) {
-    databases.push(createDatabaseRequirement('SQLite', files));
-  }
-
-  // Detect Redis
-  if (dependencies.includes('redis') || dependencies.includes('ioredis')) {
-    databases.push(createDatabaseRequirement('Redis', files));
-  }
-
-  return databases;
+  return DATABASE_DRIVERS
+    .filter(([, drivers]) => drivers.some((driver) => dependencies.includes(driver)))
+    .map(([type]) => createDatabaseRequirement(type, files));
 }
 
 /**
@@ -183,53 +175,76 @@ REDIS_URL=redis://localhost:6379`,
   return guides[type];
 }
 
+// Database images by the last segment of the repository name
+const COMPOSE_DATABASE_IMAGES: { pattern: RegExp; type: DatabaseRequirement['type'] }[] = [
+  { pattern: /^(postgres|postgresql|postgis|timescaledb)/, type: 'PostgreSQL' },
+  { pattern: /^(mysql|mariadb)/, type: 'MySQL' },
+  { pattern: /^mongo/, type: 'MongoDB' },
+  { pattern: /^(redis|valkey)/, type: 'Redis' },
+];
+
 /**
- * Parse docker-compose.yml to detect database services
+ * Parse a docker-compose file to detect database services, with the
+ * version from the image tag
  */
 export function detectDatabaseFromDockerCompose(
-  dockerComposeContent: string
+  dockerComposeContent: string,
+  fileName: string = 'docker-compose.yml'
 ): DatabaseRequirement[] {
   const databases: DatabaseRequirement[] = [];
 
-  // Simple pattern matching for common database services
-  if (dockerComposeContent.includes('image: postgres')) {
-    databases.push({
-      type: 'PostgreSQL',
-      required: true,
-      requires_migration: false,
-      seed_data_available: false,
-      setup_guide: 'Database is configured in docker-compose.yml. Run: docker-compose up -d',
-    });
+  let services: ComposeService[];
+  try {
+    services = parseComposeServices(dockerComposeContent);
+  } catch (error) {
+    console.error(`Failed to parse ${fileName}:`, error);
+    return databases;
   }
 
-  if (dockerComposeContent.includes('image: mysql')) {
-    databases.push({
-      type: 'MySQL',
-      required: true,
-      requires_migration: false,
-      seed_data_available: false,
-      setup_guide: 'Database is configured in docker-compose.yml. Run: docker-compose up -d',
-    });
-  }
+  for (const service of services) {
+    const imageName = service.image?.split('/').pop() || '';
+    const match = COMPOSE_DATABASE_IMAGES.find(({ pattern }) => pattern.test(imageName));
+    if (!match || databases.some((db) => db.type === match.type)) {
+      continue;
+    }
 
-  if (dockerComposeContent.includes('image: mongo')) {
     databases.push({
-      type: 'MongoDB',
+      type: match.type,
       required: true,
+      version_requirement: service.tag?.match(/^\d+(\.\d+)*/)?.[0],
       requires_migration: false,
       seed_data_available: false,
-      setup_guide: 'Database is configured in docker-compose.yml. Run: docker-compose up -d',
+      setup_guide: `Database is configured in ${fileName} as the "${service.name}" service. Run: docker compose up -d ${service.name}`,
     });
   }
 
-  if (dockerComposeContent.includes('image: redis')) {
-    databases.push({
-      type: 'Redis',
-      required: true,
-      requires_migration: false,
-      seed_data_available: false,
-      setup_guide: 'Database is configured in docker-compose.yml. Run: docker-compose up -d',
-    });
+  return databases;
+}
+
+/**
+ * Detect databases CI starts as service containers, with the version from
+ * the image tag
+ */
+export function detectDatabaseFromCiServices(workflows: CiWorkflow[]): DatabaseRequirement[] {
+  const databases: DatabaseRequirement[] = [];
+
+  for (const { workflow, job } of getSetupJobs(workflows)) {
+    for (const service of job.services) {
+      const { image, tag } = parseImageReference(service.image);
+      const match = COMPOSE_DATABASE_IMAGES.find(({ pattern }) => pattern.test(image.split('/').pop() || ''));
+      if (!match || databases.some((db) => db.type === match.type)) {
+        continue;
+      }
+
+      databases.push({
+        type: match.type,
+        required: true,
+        version_requirement: tag?.match(/^\d+(\.\d+)*/)?.[0],
+        requires_migration: false,
+        seed_data_available: false,
+        setup_guide: `CI starts it as the "${service.name}" service (${service.image}) in ${workflow.file}. Run the same image locally: docker run -d ${service.image}`,
+      });
+    }
   }
 
   return databases;
@@ -250,6 +265,7 @@ export function mergeDatabaseRequirements(
         // Merge properties, preferring more detailed information
         merged.set(db.type, {
           ...existing,
+          version_requirement: existing.version_requirement || db.version_requirement,
           requires_migration: existing.requires_migration || db.requires_migration,
           migrations_path: existing.migrations_path || db.migrations_path,
           seed_data_available: existing.seed_data_available || db.seed_data_available,
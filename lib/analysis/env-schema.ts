@@ -0,0 +1,312 @@
+/**
+ * Typed environment schemas
+ * Reads the configuration a project declares in code (t3-env `createEnv`,
+ * zod objects, envalid `cleanEnv`, pydantic `BaseSettings`), which says more
+ * about each variable than .env.example: whether it is required, its default,
+ * allowed values and format
+ */
+
+import { EnvironmentVariable, EnvVarFormat } from '../types';
+import { categorizeEnvVar } from './env-vars';
+
+// A variable declared by a schema
+export interface EnvSchemaField {
+  name: string;
+  file: string;
+  line: number;
+  required: boolean;
+  default_value: string | null;
+  allowed_values: string[];
+  format: EnvVarFormat | null;
+  description: string | null;
+}
+
+// envalid validator → format
+const ENVALID_VALIDATORS: Record<string, EnvVarFormat | null> = {
+  str: null,
+  bool: 'boolean',
+  num: 'number',
+  email: 'email',
+  host: 'host',
+  port: 'port',
+  url: 'url',
+  json: 'json',
+};
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+/**
+ * Index just past a string literal starting at `start`
+ */
+function skipString(content: string, start: number): number {
+  const quote = content[start];
+  let pos = start + 1;
+  while (pos < content.length && content[pos] !== quote) {
+    pos += content[pos] === '\\' ? 2 : 1;
+  }
+  return pos + 1;
+}
+
+/**
+ * Read an expression up to the next top-level comma or unmatched closing bracket
+ */
+function readExpression(content: string, start: number): string {
+  let depth = 0;
+  let pos = start;
+  while (pos < content.length) {
+    const char = content[pos];
+    if (char === '"' || char === "'" || char === '`') {
+      pos = skipString(content, pos);
+      continue;
+    }
+    if ('([{'.includes(char)) depth++;
+    else if (')]}'.includes(char)) {
+      if (depth === 0) break;
+      depth--;
+    } else if (char === ',' && depth === 0) break;
+    pos++;
+  }
+  return content.slice(start, pos).trim();
+}
+
+/**
+ * The value of a string, number or boolean literal; null for anything else
+ */
+function readLiteral(text: string): string | null {
+  const value = text.trim();
+  const quoted = value.match(/^(['"`])([\s\S]*)\1$/);
+  if (quoted) return quoted[2];
+  if (/^-?\d+(\.\d+)?$/.test(value) || /^(true|false)$/i.test(value)) return value.toLowerCase();
+  return null;
+}
+
+function readStringList(text: string): string[] {
+  return Array.from(text.matchAll(/(['"])(.*?)\1/g), (match) => match[2]);
+}
+
+/**
+ * The first argument of `name(...)` in an expression, or null when not called
+ */
+function callArgument(expression: string, name: string): string | null {
+  const index = expression.indexOf(`${name}(`);
+  return index === -1 ? null : readExpression(expression, index + name.length + 1);
+}
+
+/**
+ * The expression after `key:` (or `key=`) in an options object or call
+ */
+function optionValue(options: string, key: string, separator = ':'): string | null {
+  const match = new RegExp(`\\b${key}\\s*${separator}\\s*`).exec(options);
+  return match ? readExpression(options, match.index + match[0].length) : null;
+}
+
+function numberFormat(name: string): EnvVarFormat {
+  return /(^|_)PORT$/.test(name) ? 'port' : 'number';
+}
+
+/**
+ * Describe a zod chain such as `z.coerce.number().default(3000)` or
+ * `z.enum(['development', 'production']).optional()`
+ */
+function describeZod(name: string, expression: string): Omit<EnvSchemaField, 'name' | 'file' | 'line'> {
+  const defaultValue = callArgument(expression, '.default');
+  const values = callArgument(expression, '.enum');
+
+  let format: EnvVarFormat | null = null;
+  if (expression.includes('.url(')) format = 'url';
+  else if (expression.includes('.email(')) format = 'email';
+  else if (/\.(boolean|stringbool)\(/.test(expression)) format = 'boolean';
+  else if (expression.includes('.number(')) format = numberFormat(name);
+
+  return {
+    required: !/\.(optional|nullish|default|catch)\(/.test(expression),
+    default_value: defaultValue === null ? null : readLiteral(defaultValue),
+    allowed_values: values === null ? [] : readStringList(values),
+    format,
+    description: readLiteral(callArgument(expression, '.describe') || ''),
+  };
+}
+
+/**
+ * Fields of zod objects, including t3-env's server/client/shared blocks.
+ * Only UPPER_CASE keys count, which keeps unrelated zod schemas out.
+ */
+function parseZodSchema(content: string, file: string): EnvSchemaField[] {
+  const fields: EnvSchemaField[] = [];
+  for (const match of content.matchAll(/(?:^|[{,\s])['"]?([A-Z][A-Z0-9_]*)['"]?\s*:\s*z\./gm)) {
+    const start = match.index! + match[0].length - 2;
+    fields.push({
+      name: match[1],
+      file,
+      line: lineAt(content, start),
+      ...describeZod(match[1], readExpression(content, start)),
+    });
+  }
+  return fields;
+}
+
+/**
+ * Fields of envalid `cleanEnv` specs: `PORT: port({ default: 3000 })`
+ */
+function parseEnvalidSchema(content: string, file: string): EnvSchemaField[] {
+  const fields: EnvSchemaField[] = [];
+  const validators = Object.keys(ENVALID_VALIDATORS).join('|');
+  for (const match of content.matchAll(new RegExp(`['"]?([A-Z][A-Z0-9_]*)['"]?\\s*:\\s*(${validators})\\s*\\(`, 'g'))) {
+    const options = readExpression(content, match.index! + match[0].length);
+    const defaultValue = optionValue(options, 'default');
+    const choices = optionValue(options, 'choices');
+    fields.push({
+      name: match[1],
+      file,
+      line: lineAt(content, match.index!),
+      // devDefault only applies outside production, but that is where onboarding happens
+      required: defaultValue === null && optionValue(options, 'devDefault') === null,
+      default_value: defaultValue === null ? null : readLiteral(defaultValue),
+      allowed_values: choices === null ? [] : readStringList(choices),
+      format: ENVALID_VALIDATORS[match[2]],
+      description: readLiteral(optionValue(options, 'desc') || ''),
+    });
+  }
+  return fields;
+}
+
+/**
+ * Describe a pydantic field annotation: `Literal[...]`, URL and DSN types,
+ * EmailStr, bool, int and float
+ */
+function pydanticFormat(name: string, annotation: string): { format: EnvVarFormat | null; allowed_values: string[] } {
+  const literal = annotation.match(/Literal\[(.*)\]/);
+  if (literal) return { format: null, allowed_values: readStringList(literal[1]) };
+  if (/Url|Dsn/.test(annotation)) return { format: 'url', allowed_values: [] };
+  if (annotation.includes('EmailStr')) return { format: 'email', allowed_values: [] };
+  if (/\bbool\b/.test(annotation)) return { format: 'boolean', allowed_values: [] };
+  if (/\bJson\b/.test(annotation)) return { format: 'json', allowed_values: [] };
+  if (/\b(int|float|PositiveInt)\b/.test(annotation)) return { format: numberFormat(name), allowed_values: [] };
+  return { format: null, allowed_values: [] };
+}
+
+/**
+ * Fields of pydantic `BaseSettings` classes. The variable is the field name
+ * upper-cased with the class's env_prefix, unless an alias overrides it.
+ */
+function parsePydanticSettings(content: string, file: string): EnvSchemaField[] {
+  const fields: EnvSchemaField[] = [];
+  const lines = content.split('\n');
+  const indentOf = (line: string) => line.length - line.trimStart().length;
+
+  lines.forEach((line, classLine) => {
+    if (!/^\s*class\s+\w+\s*\([^)]*\bBaseSettings\b[^)]*\)\s*:/.test(line)) return;
+
+    const body: { text: string; line: number }[] = [];
+    for (let i = classLine + 1; i < lines.length; i++) {
+      if (lines[i].trim() && indentOf(lines[i]) <= indentOf(line)) break;
+      if (lines[i].trim()) body.push({ text: lines[i], line: i + 1 });
+    }
+    if (body.length === 0) return;
+
+    const bodyIndent = indentOf(body[0].text);
+    const prefix = body.map(({ text }) => text.match(/env_prefix\s*=\s*['"]([^'"]*)['"]/)?.[1]).find(Boolean) || '';
+
+    for (const { text, line: lineNumber } of body) {
+      if (indentOf(text) !== bodyIndent) continue;
+      const match = text.trim().match(/^([a-zA-Z]\w*)\s*:\s*([^=]+?)(?:\s*=\s*(.+))?$/);
+      if (!match || match[1] === 'model_config') continue;
+      const [, field, annotation, value] = match;
+
+      let required = value === undefined;
+      let defaultValue = value === undefined ? null : readLiteral(value);
+      let alias: string | null = null;
+      let description: string | null = null;
+
+      if (value?.startsWith('Field(')) {
+        const args = value.slice('Field('.length);
+        const first = readExpression(args, 0);
+        const positional = /^\w+\s*=/.test(first) ? null : first;
+        const keywordDefault = optionValue(args, 'default', '=');
+        required = positional === '...' || (positional === null && keywordDefault === null && !args.includes('default_factory'));
+        defaultValue = readLiteral(positional !== null && positional !== '...' ? positional : keywordDefault || '');
+        alias = readLiteral(optionValue(args, '(?:validation_alias|alias|env)', '=') || '');
+        description = readLiteral(optionValue(args, 'description', '=') || '');
+      }
+
+      fields.push({
+        name: alias || `${prefix}${field}`.toUpperCase(),
+        file,
+        line: lineNumber,
+        required,
+        default_value: defaultValue,
+        description,
+        ...pydanticFormat(field.toUpperCase(), annotation),
+      });
+    }
+  });
+
+  return fields;
+}
+
+/**
+ * Find the typed env schemas among the fetched files
+ */
+export function parseEnvSchemas(files: Map<string, string>): EnvSchemaField[] {
+  const fields: EnvSchemaField[] = [];
+
+  for (const [file, content] of files) {
+    if (/\.(m|c)?[jt]sx?$/.test(file)) {
+      if (/from\s+['"](zod|@t3-oss\/env[\w-]*)['"]|require\(\s*['"]zod['"]\s*\)/.test(content)) {
+        fields.push(...parseZodSchema(content, file));
+      }
+      if (/['"]envalid['"]/.test(content)) {
+        fields.push(...parseEnvalidSchema(content, file));
+      }
+    } else if (file.endsWith('.py') && content.includes('BaseSettings')) {
+      fields.push(...parsePydanticSettings(content, file));
+    }
+  }
+
+  return fields;
+}
+
+/**
+ * Apply schema declarations to the detected variables. The schema decides
+ * required, default, allowed values and format; variables only the schema
+ * declares are added.
+ */
+export function applyEnvSchema(variables: EnvironmentVariable[], fields: EnvSchemaField[]): EnvironmentVariable[] {
+  const merged = new Map(variables.map((variable) => [variable.name, variable]));
+
+  for (const field of fields) {
+    const existing = merged.get(field.name);
+    const sources = [...(existing?.sources || []), 'schema' as const];
+    const declared = {
+      required: field.required,
+      default_value: field.default_value,
+      allowed_values: field.allowed_values,
+      format: field.format,
+      declared_in: `${field.file}:${field.line}`,
+      sources,
+      missing_from_example: !sources.includes('env_example'),
+    };
+
+    if (existing) {
+      // A comment in .env.example beats the schema's description
+      const undocumented = existing.description === 'No description provided' || existing.description.startsWith('Read in ');
+      merged.set(field.name, {
+        ...existing,
+        ...declared,
+        description: undocumented && field.description ? field.description : existing.description,
+      });
+    } else {
+      merged.set(field.name, {
+        name: field.name,
+        description: field.description || `Declared in ${field.file}:${field.line}`,
+        example_value: '',
+        category: categorizeEnvVar(field.name),
+        ...declared,
+      });
+    }
+  }
+
+  return Array.from(merged.values());
+}
@@ -1,8 +1,60 @@
 /**
- * Environment variables extraction from .env.example files
+ * Environment variables extraction from .env.example files, README and
+ * compose mentions, and the reads in source code
  */
 
-import { EnvironmentVariable } from '../types';
+import { EnvironmentVariable, EnvVarUsage, FileTreeItem } from '../types';
+import { EXCLUDED_DIRECTORIES } from './file-filter';
+
+// Source files scanned for env var reads
+export const ENV_SCAN_EXTENSIONS = [
+  '.js', '.jsx', '.mjs', '.cjs', '.ts', '.tsx', '.mts', '.cts', '.vue', '.svelte', '.astro',
+  '.py', '.rb', '.rs', '.go',
+];
+
+// Languages with `#` comments; the others use `//` and `/* */`
+const HASH_COMMENT_EXTENSIONS = ['.py', '.rb'];
+
+// Tests and their fixtures read variables the app never needs
+const TEST_PATH = /(^|\/)(__tests__|tests?|spec)\/|\.(test|spec)\.\w+$/;
+
+// Source files fetched per file for the scan, beyond the critical files
+const MAX_ENV_SCAN_FILES = 40;
+
+// Usage locations kept per variable
+const MAX_USAGES_PER_VAR = 10;
+
+// How each language reads a variable; the name is the first group
+const ENV_READ_PATTERNS = [
+  /\bprocess\.env\.([A-Z_][A-Z0-9_]*)/g,
+  /\bprocess\.env\[\s*['"`]([A-Z_][A-Z0-9_]*)['"`]\s*\]/g,
+  /\bimport\.meta\.env\.([A-Z_][A-Z0-9_]*)/g,
+  /\bos\.environ\[\s*['"]([A-Z_][A-Z0-9_]*)['"]\s*\]/g,
+  /\bos\.(?:environ\.get|getenv)\(\s*['"]([A-Z_][A-Z0-9_]*)['"]/g,
+  /\bENV(?:\[|\.fetch\()\s*['"]([A-Z_][A-Z0-9_]*)['"]/g,
+  /\b(?:std::)?env::var(?:_os)?\(\s*"([A-Z_][A-Z0-9_]*)"/g,
+  /\b(?:option_)?env!\(\s*"([A-Z_][A-Z0-9_]*)"/g,
+  /\bos\.(?:Getenv|LookupEnv)\(\s*"([A-Z_][A-Z0-9_]*)"/g,
+];
+
+// Reads that return nothing instead of failing when the variable is unset
+const OPTIONAL_READ = /environ\.get|getenv|var_os|option_env|LookupEnv/;
+
+// A default right after the read: `|| 'x'`, `?? 'x'`, `or 'x'`, `.unwrap_or(...)`,
+// a second argument or a Ruby fetch block
+const FALLBACK_AFTER_READ = /^['"`]?\s*[\])]?\s*(\|\||\?\?|or\b|\.unwrap_or|,|\{)/;
+
+// Set by the runtime or the tooling rather than by the developer
+const BUILTIN_ENV_VARS = [
+  'NODE_ENV', 'NEXT_RUNTIME', 'CI', 'HOME', 'PATH', 'PWD', 'USER', 'SHELL', 'TMPDIR', 'HOSTNAME',
+  'MODE', 'DEV', 'PROD', 'SSR', 'BASE_URL',
+];
+
+// A variable read found by the source scan
+export interface EnvVarReference extends EnvVarUsage {
+  name: string;
+  optional: boolean; // The read has a default or tolerates an unset variable
+}
 
 /**
  * Parse .env.example file and extract environment variables
@@ -189,6 +241,201 @@ export function extractEnvVarsFromDockerCompose(
   return [...new Set(envVars)]; // Remove duplicates
 }
 
+function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = content.indexOf('\n'); i !== -1 && i < index; i = content.indexOf('\n', i + 1)) {
+    line++;
+  }
+  return line;
+}
+
+/**
+ * Index just past the string opened before `from`; a string left open on its
+ * line ends at the line break (quotes in regex literals, Rust chars...)
+ */
+function endOfString(content: string, from: number, delimiter: string): number {
+  const multiline = delimiter.length === 3 || delimiter === '`';
+  for (let i = from; i < content.length; i++) {
+    if (content[i] === '\\') {
+      i++;
+    } else if (content.startsWith(delimiter, i)) {
+      return i + delimiter.length;
+    } else if (content[i] === '\n' && !multiline) {
+      return i;
+    }
+  }
+  return content.length;
+}
+
+/**
+ * Blank out the comments of a source file, keeping offsets and line breaks,
+ * so commented-out reads are not reported. Strings are skipped over, so a
+ * `//` in a URL or a `#` in a Python string is not taken for a comment.
+ */
+function blankComments(content: string, file: string): string {
+  const hashComments = HASH_COMMENT_EXTENSIONS.some((ext) => file.endsWith(ext));
+  // A Rust single quote may open a lifetime, so only its double-quoted strings are skipped
+  const token = hashComments ? /#|"""|'''|["']/g : file.endsWith('.rs') ? /\/\/|\/\*|"/g : /\/\/|\/\*|["'`]/g;
+  const parts: string[] = [];
+  let copied = 0;
+
+  let match;
+  while ((match = token.exec(content)) !== null) {
+    const start = match.index;
+    const opener = match[0];
+    let end: number;
+    if (opener === '#' || opener === '//') {
+      end = content.indexOf('\n', start);
+      if (end === -1) end = content.length;
+    } else if (opener === '/*') {
+      end = content.indexOf('*/', start + 2);
+      end = end === -1 ? content.length : end + 2;
+    } else {
+      token.lastIndex = endOfString(content, start + opener.length, opener);
+      continue;
+    }
+    parts.push(content.slice(copied, start), content.slice(start, end).replace(/[^\n]/g, ' '));
+    copied = end;
+    token.lastIndex = end;
+  }
+
+  parts.push(content.slice(copied));
+  return parts.join('');
+}
+
+/**
+ * Whether the env scan reads a file: source in a scanned language, outside
+ * tests, type declarations and excluded directories
+ */
+export function isEnvScanFile(filePath: string): boolean {
+  return (
+    ENV_SCAN_EXTENSIONS.some((ext) => filePath.endsWith(ext)) &&
+    !filePath.endsWith('.d.ts') &&
+    !TEST_PATH.test(filePath) &&
+    !EXCLUDED_DIRECTORIES.some((dir) => filePath.includes(dir))
+  );
+}
+
+/**
+ * Pick the source files to scan: config-like paths first, then the shallowest
+ * @param limit - Files to keep; Infinity when they are all in memory already
+ */
+export function selectEnvScanFiles(files: FileTreeItem[], limit: number = MAX_ENV_SCAN_FILES): FileTreeItem[] {
+  const priority = (filePath: string) => (/(^|\/|[._-])(config|env|settings|secrets?)([/._-]|$)/i.test(filePath) ? 0 : 1);
+  return files
+    .filter((file) => isEnvScanFile(file.path))
+    .sort(
+      (a, b) =>
+        priority(a.path) - priority(b.path) ||
+        a.path.split('/').length - b.path.split('/').length
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Find every environment variable read in source code: process.env,
+ * import.meta.env, os.environ/os.getenv, ENV[...], std::env::var and
+ * os.Getenv, plus `const { A, B } = process.env` destructuring. Reads in
+ * comments are ignored.
+ * @param files - File contents keyed by path; non-source files are skipped
+ */
+export function scanEnvVarUsage(files: Map<string, string>): EnvVarReference[] {
+  const references: EnvVarReference[] = [];
+  const add = (name: string, file: string, content: string, index: number, optional: boolean) => {
+    if (!BUILTIN_ENV_VARS.includes(name)) {
+      references.push({ name, file, line: lineAt(content, index), optional });
+    }
+  };
+
+  for (const [file, source] of files) {
+    if (!ENV_SCAN_EXTENSIONS.some((ext) => file.endsWith(ext))) continue;
+    const content = blankComments(source, file);
+
+    for (const pattern of ENV_READ_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        const end = match.index! + match[0].length;
+        const rest = content.slice(end, end + 40).split('\n')[0];
+        add(match[1], file, content, match.index!, OPTIONAL_READ.test(match[0]) || FALLBACK_AFTER_READ.test(rest));
+      }
+    }
+
+    for (const match of content.matchAll(/\{([^{}]*)\}\s*=\s*process\.env\b/g)) {
+      for (const binding of match[1].split(',')) {
+        const name = binding.trim().match(/^([A-Z_][A-Z0-9_]*)\b/)?.[1];
+        if (name) add(name, file, content, match.index!, binding.includes('='));
+      }
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Merge the .env.example variables with the ones read in code and mentioned
+ * in the README or compose file. Variables read in code but absent from the
+ * example are flagged. Compose only annotates: it supplies its own values.
+ */
+export function mergeEnvironmentVariables(
+  exampleVariables: EnvironmentVariable[],
+  references: EnvVarReference[],
+  readmeNames: string[] = [],
+  composeNames: string[] = []
+): EnvironmentVariable[] {
+  const merged = new Map<string, EnvironmentVariable>(
+    exampleVariables.map((variable) => [variable.name, { ...variable, sources: ['env_example'] }])
+  );
+
+  const byName = new Map<string, EnvVarReference[]>();
+  for (const reference of references) {
+    byName.set(reference.name, [...(byName.get(reference.name) || []), reference]);
+  }
+
+  for (const [name, reads] of byName) {
+    const usages = reads
+      .filter((read, i) => reads.findIndex((other) => other.file === read.file && other.line === read.line) === i)
+      .slice(0, MAX_USAGES_PER_VAR)
+      .map(({ file, line }) => ({ file, line }));
+    const existing = merged.get(name);
+
+    if (existing) {
+      merged.set(name, { ...existing, sources: [...existing.sources!, 'code'], usages, missing_from_example: false });
+    } else {
+      merged.set(name, {
+        name,
+        description: `Read in ${usages[0].file}:${usages[0].line}`,
+        required: reads.some((read) => !read.optional),
+        example_value: '',
+        category: categorizeEnvVar(name),
+        sources: ['code'],
+        usages,
+        missing_from_example: true,
+      });
+    }
+  }
+
+  for (const name of readmeNames) {
+    const existing = merged.get(name);
+    if (existing) {
+      existing.sources = [...existing.sources!, 'readme'];
+    } else if (name.includes('_') && validateEnvVarName(name)) {
+      merged.set(name, {
+        name,
+        description: 'Mentioned in the README',
+        required: false,
+        example_value: '',
+        category: categorizeEnvVar(name),
+        sources: ['readme'],
+      });
+    }
+  }
+
+  for (const name of composeNames) {
+    merged.get(name)?.sources?.push('compose');
+  }
+
+  return Array.from(merged.values());
+}
+
 /**
  * Generate warning message when no .env.example file exists
  */
@@ -235,7 +482,31 @@ export function validateEnvVarName(name: string): boolean {
 }
 
 /**
- * Generate .env.example template from detected variables
+ * One-line summary of a variable's constraints, e.g.
+ * "Required. Format: url" or "Optional. One of: debug, info. Default: info"
+ */
+export function describeEnvConstraints(variable: EnvironmentVariable): string {
+  const parts = [variable.required ? 'Required' : 'Optional'];
+  if (variable.format) parts.push(`Format: ${variable.format}`);
+  if (variable.allowed_values && variable.allowed_values.length > 0) {
+    parts.push(`One of: ${variable.allowed_values.join(', ')}`);
+  }
+  if (variable.default_value !== undefined && variable.default_value !== null) {
+    parts.push(`Default: ${variable.default_value}`);
+  }
+  return parts.join('. ');
+}
+
+// Values with spaces, quotes or `#` must be quoted to survive dotenv parsing;
+// values copied from .env.example may already be
+function formatEnvValue(value: string): string {
+  if (/^(["']).*\1$/.test(value)) return value;
+  return /[\s#"']/.test(value) ? `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : value;
+}
+
+/**
+ * Generate a .env template from detected variables: each variable gets its
+ * description and constraints as comments, and its example or default value
  */
 export function generateEnvTemplate(variables: EnvironmentVariable[]): string {
   const grouped = groupEnvVarsByCategory(variables);
@@ -256,7 +527,10 @@ export function generateEnvTemplate(variables: EnvironmentVariable[]): string {
         if (variable.description && variable.description !== 'No description provided') {
           template += `# ${variable.description}\n`;
         }
-        template += `${variable.name}=${variable.example_value}\n\n`;
+        template += `# ${describeEnvConstraints(variable)}\n`;
+        const value = variable.example_value || variable.default_value || '';
+        // An empty value fails most validators, so optional variables without one stay unset
+        template += `${!value && !variable.required ? '# ' : ''}${variable.name}=${formatEnvValue(value)}\n\n`;
       }
     }
   }
@@ -3,7 +3,9 @@
  * Reduces file count by ~95% by excluding irrelevant files
  */
 
-import { FileTreeItem, FilteredFileTree } from '../types';
+import { FileTreeItem, FilteredFileTree, FileExclusionReason, RepoConfig } from '../types';
+import { FileRules, createFileRuleMatcher } from './file-rules';
+import { matchesGlobList } from '../utils/glob';
 
 // Stage 1: Directory Exclusions (ALWAYS SKIP)
 export const EXCLUDED_DIRECTORIES = [
@@ -31,7 +33,90 @@ export const EXCLUDED_DIRECTORIES = [
   'static/media/',
 ];
 
-// Stage 2: File Extension Exclusions (Binary/Media Files)
+// License files, at the root or in a package directory; LICENSE-MIT and
+// LICENSE-APACHE sit side by side in dual-licensed projects
+export const LICENSE_FILES = [
+  'LICENSE',
+  'LICENSE.md',
+  'LICENSE.txt',
+  'LICENCE',
+  'LICENCE.md',
+  'LICENCE.txt',
+  'COPYING',
+  'COPYING.md',
+  'UNLICENSE',
+  'LICENSE-MIT',
+  'LICENSE-APACHE',
+];
+
+// Compose files, in the order docker compose looks for them
+export const COMPOSE_FILES = [
+  'compose.yaml',
+  'compose.yml',
+  'docker-compose.yaml',
+  'docker-compose.yml',
+];
+
+// Dev container configs, in the order the Dev Containers spec looks for them
+export const DEVCONTAINER_FILES = ['.devcontainer/devcontainer.json', '.devcontainer.json'];
+
+// Lockfiles: never embedded; their names identify the package manager and the
+// vulnerability check reads the versions they resolve
+export const LOCKFILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lock',
+  'bun.lockb',
+  'poetry.lock',
+  'uv.lock',
+  'Pipfile.lock',
+  'Gemfile.lock',
+  'Cargo.lock',
+  'go.sum',
+  'composer.lock',
+  'mix.lock',
+  'pubspec.lock',
+  'Package.resolved',
+  'packages.lock.json',
+];
+
+// CI configs outside .github/workflows/, read for setup steps (never embedded
+// from .github/workflows/, which stays excluded)
+export const CI_CONFIG_FILES = ['.gitlab-ci.yml', '.circleci/config.yml'];
+
+const GITHUB_WORKFLOWS_DIR = '.github/workflows/';
+
+// Project files named after the project (.NET)
+export const MANIFEST_EXTENSIONS = ['.csproj', '.fsproj'];
+
+// Task runner and process files that declare the project's entry points
+export const SCRIPT_FILES = [
+  'Makefile',
+  'makefile',
+  'GNUmakefile',
+  'justfile',
+  'Justfile',
+  '.justfile',
+  'Taskfile.yml',
+  'Taskfile.yaml',
+  'Procfile',
+];
+
+// Version manager files pinning runtime versions (go.mod is a manifest)
+export const RUNTIME_VERSION_FILES = [
+  '.nvmrc',
+  '.node-version',
+  '.tool-versions',
+  '.python-version',
+  '.ruby-version',
+  'rust-toolchain.toml',
+  'rust-toolchain',
+  'global.json',
+];
+
+// Stage 4: File Extension Exclusions (Binary/Media Files)
 export const EXCLUDED_EXTENSIONS = [
   // Images
   '.png',
@@ -71,12 +156,7 @@ export const EXCLUDED_EXTENSIONS = [
   '.ttf',
   '.eot',
   // Lockfiles (parse separately, don't include in embeddings)
-  'package-lock.json',
-  'yarn.lock',
-  'pnpm-lock.yaml',
-  'poetry.lock',
-  'Gemfile.lock',
-  'Cargo.lock',
+  ...LOCKFILES,
 ];
 
 // Stage 3: Prioritized File Inclusions (ALWAYS ANALYZE)
@@ -85,9 +165,7 @@ export const CRITICAL_FILES = [
   'README.md',
   'CONTRIBUTING.md',
   'CHANGELOG.md',
-  'LICENSE',
-  'LICENSE.md',
-  'LICENSE.txt',
+  ...LICENSE_FILES,
   // Configuration
   'package.json',
   'requirements.txt',
@@ -97,12 +175,34 @@ export const CRITICAL_FILES = [
   'Cargo.toml',
   'go.mod',
   'composer.json',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'settings.gradle.kts',
+  'gradle/libs.versions.toml',
+  'mix.exs',
+  'pubspec.yaml',
+  'Package.swift',
+  ...MANIFEST_EXTENSIONS,
+  '.sln',
   '.env.example',
   '.env.sample',
   'config.example.js',
-  'docker-compose.yml',
+  ...COMPOSE_FILES,
   'Dockerfile',
+  'Containerfile',
   '.dockerignore',
+  ...DEVCONTAINER_FILES,
+  // Scripts
+  ...SCRIPT_FILES,
+  // Runtime versions
+  ...RUNTIME_VERSION_FILES,
+  // Workspaces
+  'pnpm-workspace.yaml',
+  'lerna.json',
+  'turbo.json',
+  'nx.json',
+  'go.work',
   // Build/Deploy
   'tsconfig.json',
   'webpack.config.js',
@@ -120,7 +220,35 @@ export const CRITICAL_FILES = [
   'vitest.config.js',
 ];
 
-// Stage 4: Code File Inclusions (Source Code Only)
+// Dependency manifests the static analyzers read (beyond CRITICAL_FILES)
+export const MANIFEST_FILES = [
+  'package.json',
+  'requirements.txt',
+  'requirements-dev.txt',
+  'setup.py',
+  'setup.cfg',
+  'Pipfile',
+  'pyproject.toml',
+  'Gemfile',
+  'Cargo.toml',
+  'go.mod',
+  'composer.json',
+  'pom.xml',
+  'build.gradle',
+  'build.gradle.kts',
+  'gradle/libs.versions.toml',
+  'mix.exs',
+  'pubspec.yaml',
+  'Package.swift',
+  // Workspace definitions decide which packages get a tech stack
+  'pnpm-workspace.yaml',
+  'lerna.json',
+  'turbo.json',
+  'nx.json',
+  'go.work',
+];
+
+// Stage 7: Code File Inclusions (Source Code Only)
 export const CODE_EXTENSIONS = [
   // JavaScript/TypeScript
   '.js',
@@ -145,6 +273,16 @@ export const CODE_EXTENSIONS = [
   '.java',
   '.kt',
   '.kts',
+  // .NET
+  '.cs',
+  '.fs',
+  // Elixir
+  '.ex',
+  '.exs',
+  // Dart
+  '.dart',
+  // Swift
+  '.swift',
   // C-family
   '.c',
   '.cpp',
@@ -171,49 +309,198 @@ export const CODE_EXTENSIONS = [
 ];
 
 // Stage 5: Size Filtering
-const MAX_FILE_SIZE = 1024 * 1024; // 1MB
+export const MAX_FILE_SIZE = 1024 * 1024; // 1MB
+export const MAX_LOCKFILE_SIZE = 5 * 1024 * 1024; // Lockfiles are read for the vulnerability check
+
+// Stage 6: Generated files, recognizable by name (checked after the repo's
+// own .gitignore and .gitattributes rules)
+export const GENERATED_FILE_PATTERNS = [
+  /\.generated\.\w+$/, // *.generated.ts, *.generated.cs
+  /\.gen\.(go|ts)$/,
+  /\.pb\.(go|h|cc)$/, // protobuf
+  /_pb2(_grpc)?\.pyi?$/,
+  /_(grpc_)?pb\.(js|ts|d\.ts)$/,
+  /\.g\.dart$/, // build_runner
+  /\.freezed\.dart$/,
+  /\.designer\.cs$/i,
+  /\.min\.(js|css)$/,
+  /(^|\/)__generated__\//,
+];
+
+// First lines of a file that mark it as generated: Go's `Code generated ...
+// DO NOT EDIT.`, `@generated`, .NET's <auto-generated> and common banners
+const GENERATED_HEADER = /@generated\b|\bDO NOT EDIT\b|<auto-generated|\b(auto(matically)?[- ]generated|generated automatically) (by|from|with)\b/i;
+const GENERATED_HEADER_LINES = 5;
 
 /**
- * Determines if a file should be analyzed based on filtering rules
+ * Why a file is skipped, following the filtering stages
+ * @param fileSize - Bytes, or null when unknown (the size stage is then skipped)
+ * @returns The exclusion reason, or null when the file is analyzed
  */
-export function shouldAnalyzeFile(filePath: string, fileSize: number): boolean {
+export function getExclusionReason(
+  filePath: string,
+  fileSize: number | null,
+  matchFileRules?: (filePath: string) => FileExclusionReason | null
+): FileExclusionReason | null {
   // Stage 1: Skip if in excluded directory
   if (EXCLUDED_DIRECTORIES.some((dir) => filePath.includes(dir))) {
-    return false;
+    return 'excluded_directory';
+  }
+
+  // Stage 2: The repository's own .gitignore and .gitattributes come next, so
+  // vendored and generated manifests don't take critical-file slots either
+  const ruleMatch = matchFileRules?.(filePath);
+  if (ruleMatch) {
+    return ruleMatch;
   }
 
   // Stage 3: Always include critical files (even if large)
   const fileName = filePath.split('/').pop() || '';
   if (CRITICAL_FILES.some((file) => fileName === file || filePath.endsWith(file))) {
-    return true;
+    return null;
   }
 
-  // Stage 2: Skip if excluded extension
+  // Stage 4: Skip if excluded extension
   if (EXCLUDED_EXTENSIONS.some((ext) => filePath.endsWith(ext))) {
-    return false;
+    return LOCKFILES.includes(fileName) ? 'lockfile' : 'excluded_extension';
   }
 
   // Stage 5: Skip if too large
-  if (fileSize > MAX_FILE_SIZE) {
-    return false;
+  if (fileSize !== null && fileSize > MAX_FILE_SIZE) {
+    return 'too_large';
+  }
+
+  // Stage 6: Skip generated files
+  if (GENERATED_FILE_PATTERNS.some((pattern) => pattern.test(filePath))) {
+    return 'generated_name';
   }
 
-  // Stage 4: Include if code file
+  // Stage 7: Include if code file
   if (CODE_EXTENSIONS.some((ext) => filePath.endsWith(ext))) {
-    return true;
+    return null;
   }
 
   // Default: skip
-  return false;
+  return 'unsupported_type';
+}
+
+/**
+ * Determines if a file should be analyzed based on filtering rules
+ */
+export function shouldAnalyzeFile(filePath: string, fileSize: number): boolean {
+  return getExclusionReason(filePath, fileSize) === null;
+}
+
+/**
+ * Determines if file content carries a generated-code header. Only files
+ * whose content is read (the env scan, RAG indexing) can be checked.
+ */
+export function isGeneratedContent(content: string): boolean {
+  return GENERATED_HEADER.test(content.split('\n', GENERATED_HEADER_LINES).join('\n'));
+}
+
+/**
+ * Determines if a path is a dependency manifest: a MANIFEST_FILES name (or
+ * path, for entries like gradle/libs.versions.toml) or a .NET project file
+ */
+export function isManifestFile(filePath: string): boolean {
+  const fileName = filePath.split('/').pop() || '';
+  return (
+    MANIFEST_FILES.includes(fileName) ||
+    MANIFEST_FILES.includes(filePath) ||
+    MANIFEST_EXTENSIONS.some((ext) => fileName.endsWith(ext))
+  );
+}
+
+/**
+ * Determines if a path is a Dockerfile: Dockerfile, Containerfile,
+ * Dockerfile.dev or api.Dockerfile
+ */
+export function isDockerfile(filePath: string): boolean {
+  const fileName = filePath.split('/').pop() || '';
+  return /^(Dockerfile|Containerfile)(\.[\w-]+)?$|\.Dockerfile$/.test(fileName);
+}
+
+/**
+ * Determines if a path is a lockfile outside the excluded directories
+ */
+export function isLockfile(filePath: string): boolean {
+  if (EXCLUDED_DIRECTORIES.some((dir) => filePath.includes(dir))) {
+    return false;
+  }
+
+  return LOCKFILES.includes(filePath.split('/').pop() || '');
+}
+
+/**
+ * Determines if a path is a file that should never be committed: a real .env
+ * (not .env.example and friends), a private key or a keystore
+ */
+export function isSensitiveFile(filePath: string): boolean {
+  if (EXCLUDED_DIRECTORIES.some((dir) => filePath.includes(dir))) {
+    return false;
+  }
+
+  const fileName = filePath.split('/').pop() || '';
+  if (/^\.env(\.[\w-]+)*$/.test(fileName)) {
+    return !/\.(example|sample|template|dist|defaults?|schema|test)$/.test(fileName);
+  }
+  return /^id_(rsa|dsa|ecdsa|ed25519)$/.test(fileName) || /\.(pem|key|p12|pfx|keystore|jks)$/.test(fileName);
+}
+
+/**
+ * Determines if a path is a CI config: a GitHub Actions workflow, the
+ * .gitlab-ci.yml or the CircleCI config
+ */
+export function isCiConfigFile(filePath: string): boolean {
+  if (CI_CONFIG_FILES.includes(filePath)) {
+    return true;
+  }
+
+  const workflowName = filePath.startsWith(GITHUB_WORKFLOWS_DIR) ? filePath.slice(GITHUB_WORKFLOWS_DIR.length) : '';
+  return /^[^/]+\.ya?ml$/.test(workflowName);
+}
+
+/**
+ * Determines if a change to this path can affect the static analysis
+ * (critical files, dependency manifests, lockfiles, CI configs and the env example)
+ */
+export function isAnalysisInputFile(filePath: string): boolean {
+  if (isCiConfigFile(filePath)) {
+    return true;
+  }
+
+  if (EXCLUDED_DIRECTORIES.some((dir) => filePath.includes(dir))) {
+    return false;
+  }
+
+  const fileName = filePath.split('/').pop() || '';
+  return (
+    CRITICAL_FILES.some((file) => fileName === file || filePath.endsWith(file)) ||
+    isManifestFile(filePath) ||
+    LOCKFILES.includes(fileName)
+  );
 }
 
 /**
  * Filters a file tree to only include relevant files
+ * @param rules - The repository's .gitignore and .gitattributes rules, when fetched
+ * @param config - The repository's .onboardghost config: its include globs
+ * override every stage above, its exclude globs override include
  */
-export function filterFileTree(files: FileTreeItem[]): FilteredFileTree {
+export function filterFileTree(
+  files: FileTreeItem[],
+  rules?: FileRules,
+  config?: Pick<RepoConfig, 'include' | 'exclude'> | null
+): FilteredFileTree {
+  const matchFileRules = rules ? createFileRuleMatcher(rules) : undefined;
+  const excludedByReason: Partial<Record<FileExclusionReason, number>> = {};
   const criticalFiles: FileTreeItem[] = [];
   const codeFiles: FileTreeItem[] = [];
   const analyzedFiles: FileTreeItem[] = [];
+  const lockfiles: FileTreeItem[] = [];
+  const ciFiles: FileTreeItem[] = [];
+  const sensitiveFiles: FileTreeItem[] = [];
 
   for (const file of files) {
     // Only process blob files (not directories)
@@ -221,7 +508,30 @@ export function filterFileTree(files: FileTreeItem[]): FilteredFileTree {
       continue;
     }
 
-    if (shouldAnalyzeFile(file.path, file.size)) {
+    // CI configs are read whether or not they are analyzed
+    if (isCiConfigFile(file.path)) {
+      ciFiles.push(file);
+    }
+
+    // Committed secrets are scanned even though the files are not analyzed
+    if (isSensitiveFile(file.path)) {
+      sensitiveFiles.push(file);
+    }
+
+    if (isLockfile(file.path)) {
+      lockfiles.push(file);
+      excludedByReason.lockfile = (excludedByReason.lockfile || 0) + 1;
+      continue;
+    }
+
+    const exclusionReason = config && matchesGlobList(file.path, config.exclude)
+      ? 'repo_config'
+      : config && matchesGlobList(file.path, config.include)
+        ? null
+        : getExclusionReason(file.path, file.size, matchFileRules);
+    if (exclusionReason) {
+      excludedByReason[exclusionReason] = (excludedByReason[exclusionReason] || 0) + 1;
+    } else {
       analyzedFiles.push(file);
 
       // Categorize
@@ -241,16 +551,23 @@ export function filterFileTree(files: FileTreeItem[]): FilteredFileTree {
     files: analyzedFiles,
     critical_files: criticalFiles,
     code_files: codeFiles,
+    lockfiles,
+    ci_files: ciFiles,
+    sensitive_files: sensitiveFiles,
+    excluded_by_reason: excludedByReason,
   };
 }
 
 /**
  * Calculate filtering statistics
+ * Files skipped for a generated-code header are not included: they are only
+ * recognized once their content is read.
  */
 export function getFilteringStats(filtered: FilteredFileTree): {
   reductionPercentage: number;
   criticalFilesCount: number;
   codeFilesCount: number;
+  excludedByReason: Partial<Record<FileExclusionReason, number>>;
 } {
   const reductionPercentage =
     filtered.total_files > 0
@@ -261,5 +578,6 @@ export function getFilteringStats(filtered: FilteredFileTree): {
     reductionPercentage,
     criticalFilesCount: filtered.critical_files.length,
     codeFilesCount: filtered.code_files.length,
+    excludedByReason: filtered.excluded_by_reason,
   };
 }
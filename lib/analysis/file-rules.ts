@@ -0,0 +1,215 @@
+/**
+ * Repository file rules
+ * Reads .gitignore and .gitattributes (linguist-generated, linguist-vendored)
+ * so file filtering skips the files the repository itself marks as ignored,
+ * generated or vendored
+ */
+
+import { readCharacterClass } from '../utils/glob';
+
+export const GITIGNORE_FILE = '.gitignore';
+export const GITATTRIBUTES_FILE = '.gitattributes';
+
+interface IgnoreRule {
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean; // Trailing slash: matches directories, never files
+}
+
+interface AttributeRule {
+  regex: RegExp;
+  generated?: boolean; // Set or unset by the rule; untouched when undefined
+  vendored?: boolean;
+}
+
+export interface FileRules {
+  ignore: IgnoreRule[];
+  attributes: AttributeRule[];
+}
+
+export type FileRuleMatch = 'gitignore' | 'linguist_generated' | 'linguist_vendored';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+/**
+ * Translate a pattern body the way git's wildmatch reads it: `*`, `?`, `[...]`
+ * and `**` segments, backslash escapes, and no brace expansion, so `{`, `}`
+ * and `,` are literal. An invalid character class (e.g. `[z-a]`) is matched
+ * literally.
+ */
+function translateGitPattern(pattern: string): string {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+    const characterClass = char === '[' ? readCharacterClass(pattern, i) : null;
+
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else if (char === '*' && pattern[i + 1] === '*' && atSegmentStart && (i + 2 === pattern.length || pattern[i + 2] === '/')) {
+      // `**/` matches zero or more whole directories; a trailing `/**` everything inside
+      if (i + 2 === pattern.length) {
+        source += '.*';
+        i += 1;
+      } else {
+        source += '(?:.*/)?';
+        i += 2;
+      }
+    } else if (char === '*') {
+      while (pattern[i + 1] === '*') i++;
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (characterClass) {
+      source += characterClass.source;
+      i = characterClass.end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * Compile a gitignore-style pattern declared in `dir` ('' for the root).
+ * A pattern with a slash before its end is anchored to `dir`; one without
+ * matches a name at any depth below it. `dir` is matched literally, so a
+ * directory like `app/[slug]` is not read as a character class.
+ */
+function compilePattern(pattern: string, dir: string): RegExp {
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  const body = translateGitPattern(pattern.replace(/^\//, '').replace(/\/$/, ''));
+  const prefix = dir ? `${escapeRegExp(dir)}/` : '';
+  return new RegExp(`^${prefix}${anchored ? '' : '(?:.*/)?'}${body}$`);
+}
+
+/**
+ * Compile the rules of one file line by line; a line that still can't be
+ * compiled is skipped rather than failing the whole file
+ */
+function compileLines<T>(lines: string[], compile: (line: string) => T): T[] {
+  return lines.flatMap((line) => {
+    try {
+      return [compile(line)];
+    } catch (error) {
+      console.warn(`Skipping unreadable rule "${line}":`, error);
+      return [];
+    }
+  });
+}
+
+/**
+ * Parse a .gitignore
+ * @param dir - Directory holding the file, '' for the root
+ */
+export function parseGitignore(content: string, dir = ''): IgnoreRule[] {
+  const lines = content
+    .split('\n')
+    .map((line) => line.replace(/\r$/, '').replace(/(?<!\\)\s+$/, ''))
+    .filter((line) => line && !line.startsWith('#'));
+
+  return compileLines(lines, (line) => {
+    const negated = line.startsWith('!');
+    const pattern = (negated ? line.slice(1) : line).replace(/^\\([#!])/, '$1');
+    return { regex: compilePattern(pattern, dir), negated, directoryOnly: pattern.endsWith('/') };
+  });
+}
+
+/**
+ * Read one linguist attribute: `attr` and `attr=true` set it, `-attr`,
+ * `!attr` and `attr=false` unset it
+ */
+function readAttribute(attributes: string[], name: string): boolean | undefined {
+  let value: boolean | undefined;
+  for (const attribute of attributes) {
+    if (attribute === name || attribute === `${name}=true`) value = true;
+    else if (attribute === `-${name}` || attribute === `!${name}` || attribute === `${name}=false`) value = false;
+  }
+  return value;
+}
+
+/**
+ * Parse a .gitattributes, keeping the linguist-generated and
+ * linguist-vendored attributes
+ */
+export function parseGitattributes(content: string, dir = ''): AttributeRule[] {
+  const lines = content
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'));
+
+  return compileLines(lines, (line) => {
+    const [pattern, ...attributes] = line.split(/\s+/);
+    return {
+      regex: compilePattern(pattern, dir),
+      generated: readAttribute(attributes, 'linguist-generated'),
+      vendored: readAttribute(attributes, 'linguist-vendored'),
+    };
+  }).filter((rule) => rule.generated !== undefined || rule.vendored !== undefined);
+}
+
+/**
+ * Build the rules from the fetched rule files, keyed by path. Deeper
+ * .gitignore files come later so they override their parents.
+ */
+export function buildFileRules(ruleFiles: Map<string, string>): FileRules {
+  const byDepth = Array.from(ruleFiles).sort(([a], [b]) => a.split('/').length - b.split('/').length);
+  const dirOf = (filePath: string) => (filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '');
+
+  return {
+    ignore: byDepth
+      .filter(([filePath]) => filePath.split('/').pop() === GITIGNORE_FILE)
+      .flatMap(([filePath, content]) => parseGitignore(content, dirOf(filePath))),
+    attributes: byDepth
+      .filter(([filePath]) => filePath.split('/').pop() === GITATTRIBUTES_FILE)
+      .flatMap(([filePath, content]) => parseGitattributes(content, dirOf(filePath))),
+  };
+}
+
+/**
+ * Create a matcher for the rules. Results for directories are cached, since
+ * every file below a directory checks it again.
+ * @returns Why the repository marks a path as excluded, or null
+ */
+export function createFileRuleMatcher(rules: FileRules): (filePath: string) => FileRuleMatch | null {
+  const ignoredDirectories = new Map<string, boolean>();
+
+  const isIgnoredEntry = (candidate: string, isDirectory: boolean) => {
+    let ignored = false;
+    for (const rule of rules.ignore) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.regex.test(candidate)) ignored = !rule.negated;
+    }
+    return ignored;
+  };
+
+  // A file inside an ignored directory can't be re-included (same as git)
+  const isIgnored = (filePath: string) => {
+    const segments = filePath.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const dir = segments.slice(0, i).join('/');
+      if (!ignoredDirectories.has(dir)) ignoredDirectories.set(dir, isIgnoredEntry(dir, true));
+      if (ignoredDirectories.get(dir)) return true;
+    }
+    return isIgnoredEntry(filePath, false);
+  };
+
+  return (filePath: string) => {
+    if (rules.ignore.length > 0 && isIgnored(filePath)) {
+      return 'gitignore';
+    }
+
+    let generated = false;
+    let vendored = false;
+    for (const rule of rules.attributes) {
+      if (!rule.regex.test(filePath)) continue;
+      generated = rule.generated ?? generated;
+      vendored = rule.vendored ?? vendored;
+    }
+    return generated ? 'linguist_generated' : vendored ? 'linguist_vendored' : null;
+  };
+}
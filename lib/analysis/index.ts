@@ -6,3 +6,10 @@ export * from './file-filter';
 export * from './tech-stack';
 export * from './database';
 export * from './env-vars';
+export * from './workspaces';
+export * from './stacks';
+export * from './scripts';
+export * from './ci';
+export * from './containers';
+export * from './runtime-versions';
+export * from './manifests';
@@ -0,0 +1,436 @@
+/**
+ * License analysis
+ * Identifies the project license from its LICENSE file (SPDX matching) and
+ * manifests, reads dependency licenses from lockfiles and installed
+ * manifests, and flags copyleft and unrecognized licenses
+ */
+
+import { LicenseCategory, LicenseReport, ProjectLicense, DependencyLicense } from '../types';
+import { LICENSE_FILES } from './file-filter';
+import { LockedPackage, PackageEcosystem } from './lockfiles';
+import { normalizePythonName } from './manifests';
+import { parseToml, TomlValue } from '../utils/toml';
+import { parseXml, childElements, childText } from '../utils/xml';
+
+// Dependencies listed individually on the report
+const MAX_FLAGGED_DEPENDENCIES = 50;
+
+// Licenses by category; the -only and -or-later forms share an entry
+const LICENSE_CATEGORIES: Record<string, LicenseCategory> = {
+  'MIT': 'permissive',
+  'MIT-0': 'permissive',
+  'ISC': 'permissive',
+  '0BSD': 'permissive',
+  'BSD-2-Clause': 'permissive',
+  'BSD-3-Clause': 'permissive',
+  'Apache-2.0': 'permissive',
+  'BSL-1.0': 'permissive',
+  'Zlib': 'permissive',
+  'Python-2.0': 'permissive',
+  'PSF-2.0': 'permissive',
+  'BlueOak-1.0.0': 'permissive',
+  'Artistic-2.0': 'permissive',
+  'X11': 'permissive',
+  'CC-BY-4.0': 'permissive',
+  'Unicode-DFS-2016': 'permissive',
+  'Unicode-3.0': 'permissive',
+  'Unlicense': 'public-domain',
+  'CC0-1.0': 'public-domain',
+  'WTFPL': 'public-domain',
+  'LGPL-2.0': 'weak-copyleft',
+  'LGPL-2.1': 'weak-copyleft',
+  'LGPL-3.0': 'weak-copyleft',
+  'MPL-2.0': 'weak-copyleft',
+  'EPL-1.0': 'weak-copyleft',
+  'EPL-2.0': 'weak-copyleft',
+  'CDDL-1.0': 'weak-copyleft',
+  'CDDL-1.1': 'weak-copyleft',
+  'CC-BY-SA-4.0': 'weak-copyleft',
+  'GPL-2.0': 'copyleft',
+  'GPL-3.0': 'copyleft',
+  'AGPL-3.0': 'network-copyleft',
+  'SSPL-1.0': 'network-copyleft',
+};
+
+// Common non-SPDX spellings in manifests, compared lowercased without punctuation
+const LICENSE_ALIASES: Record<string, string> = {
+  'mit license': 'MIT',
+  'the mit license': 'MIT',
+  'expat': 'MIT',
+  'apache 2': 'Apache-2.0',
+  'apache 20': 'Apache-2.0',
+  'apache license 20': 'Apache-2.0',
+  'apache software license': 'Apache-2.0',
+  'the apache software license version 20': 'Apache-2.0',
+  'the apache license version 20': 'Apache-2.0',
+  'asl 20': 'Apache-2.0',
+  'bsd': 'BSD-3-Clause',
+  'new bsd': 'BSD-3-Clause',
+  'new bsd license': 'BSD-3-Clause',
+  'bsd license': 'BSD-3-Clause',
+  'simplified bsd': 'BSD-2-Clause',
+  'isc license': 'ISC',
+  'gplv2': 'GPL-2.0-only',
+  'gplv3': 'GPL-3.0-only',
+  'gnu gpl v3': 'GPL-3.0-only',
+  'lgplv3': 'LGPL-3.0-only',
+  'agplv3': 'AGPL-3.0-only',
+  'mpl 20': 'MPL-2.0',
+  'mozilla public license 20': 'MPL-2.0',
+  'eclipse public license 20': 'EPL-2.0',
+  'public domain': 'Unlicense',
+  'cc0': 'CC0-1.0',
+};
+
+// npm's markers for packages that are not open source or point elsewhere
+const PROPRIETARY_LICENSES = ['UNLICENSED', 'PROPRIETARY', 'COMMERCIAL'];
+
+// From least to most restrictive. An OR expression takes its least
+// restrictive choice and an AND expression its most restrictive part.
+const CATEGORY_ORDER: LicenseCategory[] = [
+  'public-domain',
+  'permissive',
+  'weak-copyleft',
+  'copyleft',
+  'network-copyleft',
+  'proprietary',
+  'unknown',
+];
+
+// Categories the report lists individually
+const FLAGGED_CATEGORIES: LicenseCategory[] = ['weak-copyleft', 'copyleft', 'network-copyleft', 'proprietary', 'unknown'];
+
+/**
+ * Phrases that identify a license text, checked in order against the
+ * lowercased, whitespace-collapsed file. More specific texts come first:
+ * the LGPL mentions the GPL and BSD-3-Clause contains BSD-2-Clause.
+ */
+const LICENSE_FINGERPRINTS: { id: string; phrases: string[]; unless?: string }[] = [
+  { id: 'AGPL-3.0-only', phrases: ['gnu affero general public license', 'version 3'] },
+  { id: 'LGPL-3.0-only', phrases: ['gnu lesser general public license', 'version 3'] },
+  { id: 'LGPL-2.1-only', phrases: ['gnu lesser general public license', 'version 2.1'] },
+  { id: 'LGPL-2.0-only', phrases: ['gnu library general public license', 'version 2'] },
+  { id: 'GPL-3.0-only', phrases: ['gnu general public license', 'version 3'] },
+  { id: 'GPL-2.0-only', phrases: ['gnu general public license', 'version 2'] },
+  { id: 'MPL-2.0', phrases: ['mozilla public license', '2.0'] },
+  { id: 'EPL-2.0', phrases: ['eclipse public license - v 2.0'] },
+  { id: 'EPL-1.0', phrases: ['eclipse public license - v 1.0'] },
+  { id: 'Apache-2.0', phrases: ['apache license', 'version 2.0'] },
+  { id: 'BSL-1.0', phrases: ['boost software license - version 1.0'] },
+  { id: 'Unlicense', phrases: ['this is free and unencumbered software released into the public domain'] },
+  { id: 'CC0-1.0', phrases: ['cc0 1.0 universal'] },
+  { id: 'ISC', phrases: ['permission to use, copy, modify, and/or distribute this software for any purpose with or without fee is hereby granted, provided that the above copyright notice and this permission notice appear in all copies'] },
+  { id: '0BSD', phrases: ['permission to use, copy, modify, and/or distribute this software for any purpose with or without fee is hereby granted'] },
+  { id: 'MIT', phrases: ['permission is hereby granted, free of charge, to any person obtaining a copy'] },
+  { id: 'BSD-3-Clause', phrases: ['redistribution and use in source and binary forms', 'neither the name'] },
+  { id: 'BSD-2-Clause', phrases: ['redistribution and use in source and binary forms'], unless: 'neither the name' },
+  { id: 'Zlib', phrases: ["this software is provided 'as-is', without any express or implied warranty", 'altered source versions must be plainly marked'] },
+];
+
+// Installed manifests, per ecosystem, that record a package's license
+const INSTALLED_MANIFESTS: Partial<Record<PackageEcosystem, (name: string) => string>> = {
+  npm: (name) => `node_modules/${name}/package.json`,
+  Packagist: (name) => `vendor/${name}/composer.json`,
+};
+
+/**
+ * SPDX id without its -only/-or-later suffix, for the category lookup
+ */
+function baseLicenseId(id: string): string {
+  return id.replace(/-(only|or-later)$/, '').replace(/\+$/, '');
+}
+
+/**
+ * Map one license name to its SPDX id, keeping known ids as they are
+ * @returns The SPDX id, or null when the name is not recognized
+ */
+function normalizeLicenseId(name: string): string | null {
+  const trimmed = name.trim();
+  const known = Object.keys(LICENSE_CATEGORIES).find(
+    (id) => id.toLowerCase() === baseLicenseId(trimmed).toLowerCase()
+  );
+  if (known) {
+    // Keep the -only/-or-later suffix the project declared
+    return known + trimmed.slice(baseLicenseId(trimmed).length).replace(/^\+$/, '-or-later');
+  }
+  return LICENSE_ALIASES[trimmed.toLowerCase().replace(/[^a-z0-9 ]/g, '').replace(/\s+/g, ' ')] || null;
+}
+
+/**
+ * Normalize a declared license or SPDX expression (`MIT OR Apache-2.0`,
+ * `(MIT AND BSD-3-Clause)`, `GPL-2.0 WITH Classpath-exception-2.0`).
+ * Unrecognized parts are kept as written.
+ */
+export function normalizeLicenseExpression(expression: string): string {
+  // A lone name ("Apache License 2.0") is tried whole before splitting
+  const whole = normalizeLicenseId(expression);
+  if (whole) return whole;
+
+  const parts = expression.trim().split(/(\s+(?:OR|AND|WITH)\s+|[()])/i);
+  return parts
+    .map((part, index) => {
+      if (index % 2 === 1) return /^\s+\w+\s+$/.test(part) ? ` ${part.trim().toUpperCase()} ` : part;
+      // The part after WITH names an exception, not a license
+      if (index > 1 && /^\s+WITH\s+$/i.test(parts[index - 1])) return part.trim();
+      return part.trim() ? normalizeLicenseId(part) || part.trim() : part;
+    })
+    .join('')
+    .trim();
+}
+
+/**
+ * Category of a license expression
+ */
+export function categorizeLicense(expression: string | null): LicenseCategory {
+  if (!expression) {
+    return 'unknown';
+  }
+  if (PROPRIETARY_LICENSES.includes(expression.trim().toUpperCase())) {
+    return 'proprietary';
+  }
+
+  const rank = (category: LicenseCategory) => CATEGORY_ORDER.indexOf(category);
+  const alternatives = expression.replace(/[()]/g, ' ').split(/\s+OR\s+/i).map((alternative) =>
+    alternative
+      .split(/\s+AND\s+/i)
+      .map((part) => LICENSE_CATEGORIES[baseLicenseId(part.split(/\s+WITH\s+/i)[0].trim())] || 'unknown')
+      .reduce((worst, category) => (rank(category) > rank(worst) ? category : worst), 'public-domain' as LicenseCategory)
+  );
+  return alternatives.reduce((best, category) => (rank(category) < rank(best) ? category : best), 'unknown' as LicenseCategory);
+}
+
+/**
+ * Identify a license text
+ * An `SPDX-License-Identifier:` line wins; otherwise the text is matched
+ * against the fingerprints of common licenses.
+ * @returns The SPDX id and how it was found, or null for an unrecognized text
+ */
+export function identifyLicenseText(content: string): { spdx_id: string; matched_by: 'spdx-identifier' | 'text' } | null {
+  const identifier = content.match(/SPDX-License-Identifier:\s*([^\n*]+?)\s*(?:\*\/)?$/m)?.[1];
+  if (identifier) {
+    return { spdx_id: normalizeLicenseExpression(identifier), matched_by: 'spdx-identifier' };
+  }
+
+  const text = content.toLowerCase().replace(/\s+/g, ' ');
+  const match = LICENSE_FINGERPRINTS.find(
+    ({ phrases, unless }) => phrases.every((phrase) => text.includes(phrase)) && !(unless && text.includes(unless))
+  );
+  return match ? { spdx_id: match.id, matched_by: 'text' } : null;
+}
+
+/**
+ * The license a manifest declares
+ * @returns The declared value as written, or null when the manifest has none
+ */
+export function readDeclaredLicense(filePath: string, content: string): string | null {
+  const fileName = filePath.split('/').pop() || '';
+  const asLicense = (value: unknown): string | null => {
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) {
+      const names = value.map((entry) => asLicense(entry)).filter((name): name is string => name !== null);
+      return names.length > 0 ? (names.length > 1 ? names.join(' OR ') : names[0]) : null;
+    }
+    // Legacy package.json `{ "type": "MIT" }` and pyproject `{ text = "MIT" }`
+    if (typeof value === 'object' && value !== null) {
+      const entry = value as Record<string, unknown>;
+      return asLicense(entry.type ?? entry.text);
+    }
+    return null;
+  };
+
+  try {
+    if (fileName === 'package.json') {
+      const data = JSON.parse(content) as { license?: unknown; licenses?: unknown };
+      return asLicense(data.license ?? data.licenses);
+    }
+    if (fileName === 'composer.json') {
+      return asLicense((JSON.parse(content) as { license?: unknown }).license);
+    }
+    if (fileName === 'pyproject.toml') {
+      const data = parseToml(content);
+      const project = data.project as Record<string, TomlValue> | undefined;
+      const poetry = (data.tool as Record<string, Record<string, TomlValue>> | undefined)?.poetry;
+      return asLicense(project?.license ?? project?.['license-expression'] ?? poetry?.license);
+    }
+    if (fileName === 'Cargo.toml') {
+      return asLicense((parseToml(content).package as Record<string, TomlValue> | undefined)?.license);
+    }
+    if (fileName.endsWith('.csproj') || fileName.endsWith('.fsproj')) {
+      const groups = childElements(parseXml(content), 'PropertyGroup');
+      return groups.map((group) => childText(group, 'PackageLicenseExpression')).find((value) => value !== null) ?? null;
+    }
+    if (fileName === 'pom.xml') {
+      const licenses = childElements(childElements(parseXml(content), 'licenses')[0], 'license');
+      return asLicense(licenses.map((license) => childText(license, 'name')).filter(Boolean));
+    }
+    if (fileName === 'mix.exs') {
+      const list = content.match(/licenses:\s*\[([^\]]*)\]/)?.[1];
+      return list ? asLicense(Array.from(list.matchAll(/"([^"]+)"/g), (match) => match[1])) : null;
+    }
+  } catch (error) {
+    console.error(`Failed to read the license of ${filePath}:`, error);
+  }
+  return null;
+}
+
+/**
+ * Project licenses per directory: license files first, then the manifest
+ * declaration for directories without one
+ */
+function detectProjectLicenses(criticalFilesContent: Map<string, string>): Map<string, ProjectLicense> {
+  const licenses = new Map<string, ProjectLicense>();
+  const directoryOf = (filePath: string) => (filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '');
+
+  for (const [filePath, content] of criticalFilesContent) {
+    if (!LICENSE_FILES.includes(filePath.split('/').pop() || '')) continue;
+    const dir = directoryOf(filePath);
+    const existing = licenses.get(dir);
+    const identified = identifyLicenseText(content);
+    // Dual-licensed projects ship LICENSE-MIT and LICENSE-APACHE side by side
+    if (existing?.spdx_id && identified && !existing.spdx_id.split(' OR ').includes(identified.spdx_id)) {
+      licenses.set(dir, { ...existing, spdx_id: `${existing.spdx_id} OR ${identified.spdx_id}`, category: categorizeLicense(`${existing.spdx_id} OR ${identified.spdx_id}`) });
+    } else if (!existing?.spdx_id) {
+      licenses.set(dir, {
+        spdx_id: identified?.spdx_id || null,
+        category: categorizeLicense(identified?.spdx_id || null),
+        file: filePath,
+        matched_by: identified?.matched_by || 'text',
+        declared: null,
+      });
+    }
+  }
+
+  for (const [filePath, content] of criticalFilesContent) {
+    const declared = readDeclaredLicense(filePath, content);
+    if (!declared) continue;
+    const dir = directoryOf(filePath);
+    const existing = licenses.get(dir);
+    const spdxId = normalizeLicenseExpression(declared);
+    if (existing) {
+      // Kept for the mismatch check; the license file has the final say once recognized
+      licenses.set(dir, existing.spdx_id
+        ? { ...existing, declared }
+        : { ...existing, spdx_id: spdxId, category: categorizeLicense(spdxId), declared });
+    } else {
+      licenses.set(dir, { spdx_id: spdxId, category: categorizeLicense(spdxId), file: filePath, matched_by: 'manifest', declared });
+    }
+  }
+
+  return licenses;
+}
+
+/**
+ * Read licenses from installed manifests (node_modules, vendor) for packages
+ * whose lockfile does not record one. Only local checkouts have them.
+ * @param readInstalledFile - Resolves to null when the file is not there
+ * @returns License per `ecosystem:name`
+ */
+export async function readInstalledLicenses(
+  packages: LockedPackage[],
+  readInstalledFile: (filePath: string) => Promise<string | null>
+): Promise<Map<string, string>> {
+  const licenses = new Map<string, string>();
+
+  for (const pkg of packages) {
+    const manifestPath = INSTALLED_MANIFESTS[pkg.ecosystem]?.(pkg.name);
+    const key = `${pkg.ecosystem}:${pkg.name}`;
+    if (pkg.license || !manifestPath || licenses.has(key)) continue;
+
+    const content = await readInstalledFile(manifestPath);
+    const declared = content ? readDeclaredLicense(manifestPath, content) : null;
+    if (declared) licenses.set(key, declared);
+  }
+
+  return licenses;
+}
+
+/**
+ * Build the license report
+ * @param lockedPackages - Packages the lockfiles resolve
+ * @param directDependencies - Names declared in the project's manifests
+ * @param installedLicenses - From readInstalledLicenses, keyed `ecosystem:name`
+ */
+export function buildLicenseReport(
+  criticalFilesContent: Map<string, string>,
+  lockedPackages: LockedPackage[],
+  directDependencies: string[] = [],
+  installedLicenses: Map<string, string> = new Map()
+): LicenseReport {
+  const projectLicenses = detectProjectLicenses(criticalFilesContent);
+  const project = projectLicenses.get('') || null;
+  const nested = Array.from(projectLicenses)
+    .filter(([dir, license]) => dir && license.spdx_id !== project?.spdx_id)
+    .map(([, license]) => license)
+    .sort((a, b) => a.file.localeCompare(b.file));
+
+  const direct = new Set(directDependencies.map((name) => normalizePythonName(name)));
+  const seen = new Set<string>();
+  const dependencies: DependencyLicense[] = [];
+  let unchecked = 0;
+
+  for (const pkg of lockedPackages) {
+    const key = `${pkg.ecosystem}:${pkg.name}@${pkg.version}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const installed = installedLicenses.get(`${pkg.ecosystem}:${pkg.name}`);
+    const declared = pkg.license || installed;
+    if (!declared) {
+      unchecked++;
+      continue;
+    }
+    const license = normalizeLicenseExpression(declared);
+    dependencies.push({
+      package: pkg.name,
+      version: pkg.version,
+      ecosystem: pkg.ecosystem,
+      license,
+      category: categorizeLicense(license),
+      source: pkg.license ? 'lockfile' : 'installed',
+      direct: direct.has(normalizePythonName(pkg.name)),
+      dev: pkg.dev,
+    });
+  }
+
+  const byLicense = new Map<string, DependencyLicense[]>();
+  for (const dependency of dependencies) {
+    byLicense.set(dependency.license, [...(byLicense.get(dependency.license) || []), dependency]);
+  }
+  const flagged = dependencies
+    .filter((dependency) => FLAGGED_CATEGORIES.includes(dependency.category))
+    .sort(
+      (a, b) =>
+        CATEGORY_ORDER.indexOf(b.category) - CATEGORY_ORDER.indexOf(a.category) ||
+        Number(b.direct) - Number(a.direct) ||
+        Number(a.dev) - Number(b.dev) ||
+        a.package.localeCompare(b.package)
+    );
+
+  return {
+    project,
+    nested,
+    declared_mismatch: Boolean(
+      project?.spdx_id && project.declared && normalizeLicenseExpression(project.declared) !== project.spdx_id
+    ),
+    dependency_licenses: Array.from(byLicense, ([license, entries]) => ({
+      license,
+      category: entries[0].category,
+      count: entries.length,
+    })).sort((a, b) => b.count - a.count || a.license.localeCompare(b.license)),
+    flagged_dependencies: flagged.slice(0, MAX_FLAGGED_DEPENDENCIES),
+    flagged_count: flagged.length,
+    checked_dependencies: dependencies.length,
+    unchecked_dependencies: unchecked,
+  };
+}
+
+/**
+ * One-line summary for progress messages
+ */
+export function summarizeLicenseReport(report: LicenseReport): string {
+  const project = report.project?.spdx_id || (report.project ? 'an unrecognized license' : 'no license file');
+  const dependencies = report.checked_dependencies > 0
+    ? `; ${report.checked_dependencies} dependency licenses checked, ${report.flagged_count} flagged`
+    : '';
+  return `Project licensed under ${project}${dependencies}`;
+}
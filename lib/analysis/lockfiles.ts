@@ -0,0 +1,351 @@
+/**
+ * Lockfile parsing
+ * Reads the exact versions a lockfile resolves, per OSV ecosystem, for the
+ * vulnerability and license checks
+ */
+
+import { parseToml, TomlTable, TomlValue } from '../utils/toml';
+import { parseJsonc } from '../utils/jsonc';
+
+// OSV ecosystem names
+export type PackageEcosystem = 'npm' | 'PyPI' | 'RubyGems' | 'crates.io' | 'Go' | 'Packagist' | 'Hex' | 'Pub' | 'NuGet';
+
+export interface LockedPackage {
+  name: string;
+  version: string;
+  ecosystem: PackageEcosystem;
+  lockfile: string; // Path of the lockfile it was read from
+  dev: boolean; // Only needed for development, when the lockfile says so
+  license: string | null; // When the lockfile records it (package-lock.json, composer.lock)
+}
+
+// What a parser reads; the ecosystem and path are added by parseLockfile
+type LockEntry = Omit<LockedPackage, 'ecosystem' | 'lockfile'>;
+
+type JsonRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): JsonRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as JsonRecord) : {};
+}
+
+function asString(value: unknown): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function tomlPackages(content: string): TomlTable[] {
+  const packages: TomlValue = parseToml(content).package ?? [];
+  return Array.isArray(packages)
+    ? packages.filter((entry): entry is TomlTable => typeof entry === 'object' && !Array.isArray(entry))
+    : [];
+}
+
+/**
+ * Split `name@version`, keeping the leading @ of scoped npm names
+ */
+function splitAtVersion(spec: string): [string, string] | null {
+  const at = spec.lastIndexOf('@');
+  return at > 0 ? [spec.slice(0, at), spec.slice(at + 1)] : null;
+}
+
+/**
+ * package-lock.json and npm-shrinkwrap.json: the `packages` map of lockfile
+ * v2/v3, or the nested `dependencies` of v1
+ */
+function parsePackageLock(content: string): LockEntry[] {
+  const data = asRecord(JSON.parse(content));
+  const found: LockEntry[] = [];
+
+  const packages = asRecord(data.packages);
+  if (Object.keys(packages).length > 0) {
+    for (const [key, value] of Object.entries(packages)) {
+      const entry = asRecord(value);
+      const version = asString(entry.version);
+      // The root ("") and workspace members are not installed from the registry
+      if (!key.includes('node_modules/') || entry.link || !version) continue;
+      found.push({
+        name: asString(entry.name) || key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length),
+        version,
+        dev: entry.dev === true,
+        license: asString(entry.license),
+      });
+    }
+    return found;
+  }
+
+  const walk = (dependencies: JsonRecord) => {
+    for (const [name, value] of Object.entries(dependencies)) {
+      const entry = asRecord(value);
+      const version = asString(entry.version);
+      if (version && !version.startsWith('file:')) {
+        found.push({ name, version, dev: entry.dev === true, license: null });
+      }
+      walk(asRecord(entry.dependencies));
+    }
+  };
+  walk(asRecord(data.dependencies));
+  return found;
+}
+
+/**
+ * yarn.lock, classic (`version "1.2.3"`) and berry (`version: 1.2.3`)
+ */
+function parseYarnLock(content: string): LockEntry[] {
+  const found: LockEntry[] = [];
+  let name: string | null = null;
+
+  for (const line of content.split('\n')) {
+    if (line && !line.startsWith(' ') && !line.startsWith('#') && line.trimEnd().endsWith(':')) {
+      // `"@babel/core@^7.0.0", "@babel/core@npm:^7.1.0":` → @babel/core
+      const spec = line.split(',')[0].replace(/^"|":?$|:$/g, '').trim();
+      name = splitAtVersion(spec.replace(/@npm:/, '@'))?.[0] || null;
+      if (spec.includes('@workspace:') || spec.includes('@link:') || spec.includes('@file:')) name = null;
+      continue;
+    }
+    const version = line.match(/^ {2}version:? "?([^"\s]+)"?/)?.[1];
+    if (name && version) {
+      found.push({ name, version, dev: false, license: null });
+      name = null;
+    }
+  }
+  return found;
+}
+
+/**
+ * pnpm-lock.yaml keys under `packages:`: `/name/1.0.0` (v5), `/name@1.0.0`
+ * (v6) or `name@1.0.0` (v9), with peer suffixes like `(react@18.2.0)` or `_react@18.2.0`
+ */
+function parsePnpmLock(content: string): LockEntry[] {
+  const found: LockEntry[] = [];
+  let inPackages = false;
+  let current: LockEntry | null = null;
+
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) {
+      inPackages = line.startsWith('packages:');
+      continue;
+    }
+    if (!inPackages) continue;
+
+    const key = line.match(/^ {2}['"]?([^\s'"][^'"]*?)['"]?:\s*$/)?.[1];
+    if (key) {
+      const spec = key.replace(/^\//, '').replace(/\(.*$/, '');
+      const split = splitAtVersion(spec) || (spec.includes('/') ? [spec.slice(0, spec.lastIndexOf('/')), spec.slice(spec.lastIndexOf('/') + 1)] : null);
+      current = split ? { name: split[0], version: split[1].replace(/_.*$/, ''), dev: false, license: null } : null;
+      if (current && /^\d/.test(current.version)) found.push(current);
+    } else if (current && /^ {4}dev: true/.test(line)) {
+      current.dev = true;
+    }
+  }
+  return found;
+}
+
+/**
+ * bun.lock: `"packages": { "lodash": ["lodash@4.17.21", ...] }`
+ */
+function parseBunLock(content: string): LockEntry[] {
+  const packages = asRecord(asRecord(parseJsonc(content)).packages);
+  return Object.values(packages)
+    .map((entry) => (Array.isArray(entry) ? splitAtVersion(String(entry[0]).replace(/@npm:/, '@')) : null))
+    .filter((split): split is [string, string] => split !== null && /^\d/.test(split[1]))
+    .map(([name, version]) => ({ name, version, dev: false, license: null }));
+}
+
+function parsePipfileLock(content: string): LockEntry[] {
+  const data = asRecord(JSON.parse(content));
+  return (['default', 'develop'] as const).flatMap((group) =>
+    Object.entries(asRecord(data[group]))
+      .map(([name, value]) => ({ name, version: asString(asRecord(value).version)?.replace(/^==/, '') || '' }))
+      .filter(({ version }) => version)
+      .map(({ name, version }) => ({ name, version, dev: group === 'develop', license: null }))
+  );
+}
+
+/**
+ * poetry.lock, uv.lock and Cargo.lock `[[package]]` tables. Local packages
+ * (the project itself, workspace members, path dependencies) are skipped.
+ */
+function parseTomlLock(content: string): LockEntry[] {
+  return tomlPackages(content)
+    .filter((entry) => {
+      const source = entry.source;
+      if (typeof source === 'object' && !Array.isArray(source)) {
+        return !('editable' in source || 'virtual' in source || 'directory' in source || 'path' in source);
+      }
+      return true;
+    })
+    .map((entry) => ({
+      name: String(entry.name ?? ''),
+      version: String(entry.version ?? ''),
+      dev: entry.category === 'dev',
+      license: null,
+    }))
+    .filter(({ name, version }) => name && version);
+}
+
+function parseGemfileLock(content: string): LockEntry[] {
+  const found: LockEntry[] = [];
+  let inGems = false;
+  for (const line of content.split('\n')) {
+    if (/^\S/.test(line)) inGems = line.trim() === 'GEM';
+    const match = line.match(/^ {4}([^\s(]+) \(([^)]+)\)$/);
+    // Platform gems carry a suffix: nokogiri (1.15.4-x86_64-linux)
+    if (inGems && match) found.push({ name: match[1], version: match[2].split('-')[0], dev: false, license: null });
+  }
+  return found;
+}
+
+/**
+ * go.sum lists every version the module graph considered; minimal version
+ * selection builds with the highest, which is what is kept
+ */
+function parseGoSum(content: string): LockEntry[] {
+  const versions = new Map<string, string>();
+  for (const line of content.split('\n')) {
+    const [modulePath, rawVersion] = line.trim().split(/\s+/);
+    if (!modulePath || !rawVersion) continue;
+    const version = rawVersion.replace(/\/go\.mod$/, '').replace(/\+incompatible$/, '').replace(/^v/, '');
+    const current = versions.get(modulePath);
+    if (!current || compareVersions(version, current) > 0) versions.set(modulePath, version);
+  }
+  return Array.from(versions, ([name, version]) => ({ name, version, dev: false, license: null }));
+}
+
+function parseComposerLock(content: string): LockEntry[] {
+  const data = asRecord(JSON.parse(content));
+  return (['packages', 'packages-dev'] as const).flatMap((group) =>
+    (Array.isArray(data[group]) ? (data[group] as unknown[]) : []).map(asRecord).flatMap((entry) => {
+      const name = asString(entry.name);
+      const version = asString(entry.version)?.replace(/^v/, '');
+      const licenses = Array.isArray(entry.license) ? entry.license.filter((license) => typeof license === 'string') : [];
+      return name && version && /^\d/.test(version)
+        ? [{ name, version, dev: group === 'packages-dev', license: licenses.length > 0 ? licenses.join(' OR ') : null }]
+        : [];
+    })
+  );
+}
+
+function parseMixLock(content: string): LockEntry[] {
+  return Array.from(content.matchAll(/"[\w]+":\s*\{:hex,\s*:(\w+),\s*"([^"]+)"/g), (match) => ({
+    name: match[1],
+    version: match[2],
+    dev: false,
+    license: null,
+  }));
+}
+
+function parsePubspecLock(content: string): LockEntry[] {
+  const found: LockEntry[] = [];
+  let name: string | null = null;
+  let dev = false;
+  for (const line of content.split('\n')) {
+    const key = line.match(/^ {2}(\w+):\s*$/)?.[1];
+    if (key) {
+      name = key;
+      dev = false;
+      continue;
+    }
+    if (name && /^ {4}dependency: "?direct dev/.test(line)) dev = true;
+    const version = line.match(/^ {4}version: "?([^"\s]+)"?/)?.[1];
+    if (name && version) {
+      found.push({ name, version, dev, license: null });
+      name = null;
+    }
+  }
+  return found;
+}
+
+/**
+ * NuGet packages.lock.json: `dependencies` per target framework
+ */
+function parseNugetLock(content: string): LockEntry[] {
+  const frameworks = asRecord(asRecord(JSON.parse(content)).dependencies);
+  return Object.values(frameworks).flatMap((packages) =>
+    Object.entries(asRecord(packages))
+      .map(([name, value]) => ({ name, entry: asRecord(value) }))
+      .filter(({ entry }) => entry.type !== 'Project' && asString(entry.resolved))
+      .map(({ name, entry }) => ({ name, version: asString(entry.resolved)!, dev: false, license: null }))
+  );
+}
+
+// Lockfile name → ecosystem and parser. Package.resolved is missing: OSV
+// keys Swift packages by repository URL.
+const LOCKFILE_PARSERS: Record<string, [PackageEcosystem, (content: string) => LockEntry[]]> = {
+  'package-lock.json': ['npm', parsePackageLock],
+  'npm-shrinkwrap.json': ['npm', parsePackageLock],
+  'yarn.lock': ['npm', parseYarnLock],
+  'pnpm-lock.yaml': ['npm', parsePnpmLock],
+  'bun.lock': ['npm', parseBunLock],
+  'Pipfile.lock': ['PyPI', parsePipfileLock],
+  'poetry.lock': ['PyPI', parseTomlLock],
+  'uv.lock': ['PyPI', parseTomlLock],
+  'Cargo.lock': ['crates.io', parseTomlLock],
+  'Gemfile.lock': ['RubyGems', parseGemfileLock],
+  'go.sum': ['Go', parseGoSum],
+  'composer.lock': ['Packagist', parseComposerLock],
+  'mix.lock': ['Hex', parseMixLock],
+  'pubspec.lock': ['Pub', parsePubspecLock],
+  'packages.lock.json': ['NuGet', parseNugetLock],
+};
+
+/**
+ * Lockfiles with a parser (bun.lockb is binary and has none)
+ */
+export const PARSEABLE_LOCKFILES = Object.keys(LOCKFILE_PARSERS);
+
+/**
+ * Compare two versions: numeric segments first, then a release sorts after
+ * its pre-releases (1.0.0-beta.1, 2.0.0rc1). Build metadata and Python
+ * post-release tags are ignored.
+ * @returns Negative, zero or positive like a sort comparator
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => {
+    const match = version.trim().replace(/^v/, '').replace(/\+.*$/, '').match(/^(\d+(?:\.\d+)*)(.*)$/);
+    const release = (match?.[1] || '0').split('.').map(Number);
+    const pre = (match?.[2] || '').replace(/^[-.]?post\d*$/, '').replace(/^[-.]/, '');
+    return { release, pre: pre.match(/\d+|[A-Za-z]+/g) || [] };
+  };
+  const left = parse(a);
+  const right = parse(b);
+
+  for (let i = 0; i < Math.max(left.release.length, right.release.length); i++) {
+    const diff = (left.release[i] || 0) - (right.release[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  if (left.pre.length === 0 || right.pre.length === 0) return right.pre.length - left.pre.length;
+  for (let i = 0; i < Math.max(left.pre.length, right.pre.length); i++) {
+    const [x, y] = [left.pre[i], right.pre[i]];
+    if (x === undefined || y === undefined) return x === undefined ? -1 : 1;
+    const numeric = /^\d+$/.test(x) && /^\d+$/.test(y);
+    const diff = numeric ? Number(x) - Number(y) : x.localeCompare(y);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Parse a lockfile by name
+ * @returns The locked packages, or [] for an unknown or unparseable lockfile
+ */
+export function parseLockfile(filePath: string, content: string): LockedPackage[] {
+  const parser = LOCKFILE_PARSERS[filePath.split('/').pop() || ''];
+  if (!parser) {
+    return [];
+  }
+
+  try {
+    const [ecosystem, parse] = parser;
+    const seen = new Set<string>();
+    return parse(content)
+      .filter(({ name, version }) => {
+        const key = `${name}@${version}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .map((entry) => ({ ...entry, ecosystem, lockfile: filePath }));
+  } catch (error) {
+    console.error(`Failed to parse ${filePath}:`, error);
+    return [];
+  }
+}
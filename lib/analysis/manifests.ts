@@ -0,0 +1,769 @@
+/**
+ * Structured dependency manifest parsing
+ * Reads pyproject.toml (PEP 621, PEP 735 groups, Poetry, uv, PDM),
+ * Cargo.toml, pom.xml, build.gradle(.kts) with version catalogs,
+ * composer.json, .csproj, mix.exs, pubspec.yaml, Package.swift and
+ * docker-compose files into dependency maps with versions and optional/dev groups
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { parseToml, TomlTable, TomlValue } from '../utils/toml';
+import { parseXml, childElements, childText, XmlElement } from '../utils/xml';
+import { TechStack } from '../types';
+
+// Version recorded for dependencies declared without a constraint
+export const ANY_VERSION = '*';
+
+export interface DependencyMap {
+  production: Record<string, string>; // Name → version spec
+  development: Record<string, string>;
+  optional: Record<string, Record<string, string>>; // Extras, features or optional groups, by name
+}
+
+export interface PyprojectManifest {
+  name: string | null;
+  requires_python: string | null;
+  tool: 'poetry' | 'uv' | 'pdm' | 'hatch' | 'setuptools' | null; // Project/build tool the file configures
+  dependencies: DependencyMap;
+}
+
+export interface CargoManifest {
+  name: string | null;
+  rust_version: string | null;
+  dependencies: DependencyMap;
+}
+
+export interface MavenManifest {
+  group_id: string | null;
+  artifact_id: string | null;
+  java_version: string | null;
+  dependencies: DependencyMap;
+}
+
+export interface ComposeService {
+  name: string;
+  image: string | null; // Repository without registry or tag, e.g. postgres or bitnami/redis
+  tag: string | null;
+  ports: string[];
+  build: string | null; // Build context, for services built from a Dockerfile
+  volumes: string[];
+  depends_on: string[];
+  healthcheck: string | null; // Healthcheck test command
+}
+
+export interface ComposerManifest {
+  php_version: string | null;
+  dependencies: DependencyMap;
+}
+
+export interface DotNetProject {
+  sdk: string | null; // e.g. Microsoft.NET.Sdk.Web
+  target_frameworks: string[]; // e.g. net8.0
+  is_test_project: boolean;
+  dependencies: DependencyMap;
+}
+
+export interface MixProject {
+  elixir_version: string | null;
+  dependencies: DependencyMap;
+}
+
+export interface PubspecManifest {
+  name: string | null;
+  sdk_version: string | null;
+  flutter_version: string | null;
+  dependencies: DependencyMap;
+}
+
+export interface SwiftPackage {
+  tools_version: string | null;
+  has_test_targets: boolean;
+  dependencies: DependencyMap;
+}
+
+export interface VersionCatalogLibrary {
+  module: string; // group:artifact
+  version: string;
+}
+
+export function emptyDependencyMap(): DependencyMap {
+  return { production: {}, development: {}, optional: {} };
+}
+
+function asTable(value: TomlValue | undefined): TomlTable | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : null;
+}
+
+function asString(value: TomlValue | undefined): string | null {
+  return typeof value === 'string' ? value : null;
+}
+
+function asStringArray(value: TomlValue | undefined): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * Normalize a Python distribution name (PEP 503): lowercase, runs of
+ * `-`, `_` and `.` become `-`
+ */
+export function normalizePythonName(name: string): string {
+  return name.trim().toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+/**
+ * Split a PEP 508 requirement such as
+ * `requests[socks]>=2.31,<3; python_version < "3.12"` into name and version spec
+ */
+export function parsePep508(requirement: string): { name: string; version: string } | null {
+  const withoutMarker = requirement.split(';')[0].trim();
+  const match = withoutMarker.match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*(.*)$/);
+  if (!match) return null;
+
+  // Direct references (`name @ https://...`) keep the URL as the version
+  const version = match[2].replace(/^\(|\)$/g, '').replace(/^@\s*/, '').trim();
+  return { name: normalizePythonName(match[1]), version: version || ANY_VERSION };
+}
+
+/**
+ * Parse requirements.txt lines, skipping comments, options (-r, -e, --index-url)
+ * and bare URLs
+ */
+export function parseRequirements(content: string): Record<string, string> {
+  const dependencies: Record<string, string> = {};
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (!line || line.startsWith('-') || /^[a-z+]+:\/\//i.test(line)) continue;
+    const parsed = parsePep508(line);
+    if (parsed) dependencies[parsed.name] = parsed.version;
+  }
+  return dependencies;
+}
+
+function addPep508List(target: Record<string, string>, requirements: TomlValue | undefined): void {
+  for (const requirement of asStringArray(requirements)) {
+    const parsed = parsePep508(requirement);
+    if (parsed) target[parsed.name] = parsed.version;
+  }
+}
+
+/**
+ * Poetry dependency tables: `name = "^1.2"` or `name = { version = "^1.2", optional = true }`
+ */
+function readPoetryDependencies(
+  table: TomlTable | null,
+  onDependency: (name: string, version: string, optional: boolean) => void
+): void {
+  for (const [rawName, spec] of Object.entries(table || {})) {
+    if (rawName.toLowerCase() === 'python') continue; // The interpreter, not a package
+
+    const detail = asTable(spec);
+    const constraints = Array.isArray(spec) ? spec.map(asTable).filter(Boolean) : [];
+    const version =
+      asString(spec) ||
+      asString(detail?.version) ||
+      (detail?.git ? `git:${detail.git}` : null) ||
+      (detail?.path ? `path:${detail.path}` : null) ||
+      // Multiple-constraint dependencies list one table per marker
+      constraints.map((constraint) => asString(constraint?.version)).filter(Boolean).join(' || ') ||
+      ANY_VERSION;
+
+    onDependency(normalizePythonName(rawName), version, detail?.optional === true);
+  }
+}
+
+/**
+ * Parse pyproject.toml
+ * @throws Error when the file is not valid TOML
+ */
+export function parsePyproject(content: string): PyprojectManifest {
+  const data = parseToml(content);
+  const dependencies = emptyDependencyMap();
+  const project = asTable(data.project);
+  const tool = asTable(data.tool);
+  const poetry = asTable(tool?.poetry);
+
+  // PEP 621
+  addPep508List(dependencies.production, project?.dependencies);
+  for (const [extra, requirements] of Object.entries(asTable(project?.['optional-dependencies']) || {})) {
+    addPep508List((dependencies.optional[extra] ||= {}), requirements);
+  }
+
+  // PEP 735 dependency groups (uv and pip use them for dev tooling); entries
+  // can also be `{ include-group = "..." }` tables, which repeat other groups
+  for (const requirements of Object.values(asTable(data['dependency-groups']) || {})) {
+    addPep508List(dependencies.development, requirements);
+  }
+
+  // uv's legacy dev list and PDM's dev groups
+  addPep508List(dependencies.development, asTable(tool?.uv)?.['dev-dependencies']);
+  for (const requirements of Object.values(asTable(asTable(tool?.pdm)?.['dev-dependencies']) || {})) {
+    addPep508List(dependencies.development, requirements);
+  }
+
+  // Poetry
+  if (poetry) {
+    const extras = asTable(poetry.extras) || {};
+    readPoetryDependencies(asTable(poetry.dependencies), (name, version, optional) => {
+      if (!optional) {
+        dependencies.production[name] = version;
+        return;
+      }
+      // Optional dependencies are installed through the extras that list them
+      const owners = Object.entries(extras)
+        .filter(([, names]) => asStringArray(names).map(normalizePythonName).includes(name))
+        .map(([extra]) => extra);
+      for (const extra of owners.length > 0 ? owners : [name]) {
+        (dependencies.optional[extra] ||= {})[name] = version;
+      }
+    });
+
+    readPoetryDependencies(asTable(poetry['dev-dependencies']), (name, version) => {
+      dependencies.development[name] = version;
+    });
+    for (const [group, definition] of Object.entries(asTable(poetry.group) || {})) {
+      const groupTable = asTable(definition);
+      readPoetryDependencies(asTable(groupTable?.dependencies), (name, version) => {
+        if (group === 'main') {
+          dependencies.production[name] = version;
+        } else if (groupTable?.optional === true) {
+          (dependencies.optional[group] ||= {})[name] = version;
+        } else {
+          dependencies.development[name] = version;
+        }
+      });
+    }
+  }
+
+  const poetryPython = asString(asTable(poetry?.dependencies)?.python);
+  const buildBackend = asString(asTable(data['build-system'])?.['build-backend']) || '';
+
+  let projectTool: PyprojectManifest['tool'] = null;
+  if (poetry || buildBackend.startsWith('poetry')) projectTool = 'poetry';
+  else if (tool?.uv || buildBackend.startsWith('uv')) projectTool = 'uv';
+  else if (tool?.pdm || buildBackend.startsWith('pdm')) projectTool = 'pdm';
+  else if (tool?.hatch || buildBackend.startsWith('hatchling')) projectTool = 'hatch';
+  else if (tool?.setuptools || buildBackend.startsWith('setuptools')) projectTool = 'setuptools';
+
+  return {
+    name: asString(project?.name) || asString(poetry?.name),
+    requires_python: asString(project?.['requires-python']) || poetryPython,
+    tool: projectTool,
+    dependencies,
+  };
+}
+
+/**
+ * Read one Cargo dependency table into `target`; optional crates are
+ * returned by table key so they can be attached to the features that
+ * enable them
+ */
+function readCargoDependencies(
+  table: TomlTable | null,
+  target: Record<string, string>
+): Record<string, { name: string; version: string }> {
+  const optional: Record<string, { name: string; version: string }> = {};
+
+  for (const [key, spec] of Object.entries(table || {})) {
+    const detail = asTable(spec);
+    // A renamed dependency (`alias = { package = "real-name" }`) is detected by its crate name
+    const name = asString(detail?.package) || key;
+    const version =
+      asString(spec) ||
+      asString(detail?.version) ||
+      (detail?.workspace === true ? 'workspace' : null) ||
+      (detail?.git ? `git:${detail.git}` : null) ||
+      (detail?.path ? `path:${detail.path}` : null) ||
+      ANY_VERSION;
+
+    if (detail?.optional === true) {
+      optional[key] = { name, version };
+    } else {
+      target[name] = version;
+    }
+  }
+
+  return optional;
+}
+
+/**
+ * Parse Cargo.toml, including target-specific and workspace dependencies
+ * @throws Error when the file is not valid TOML
+ */
+export function parseCargoManifest(content: string): CargoManifest {
+  const data = parseToml(content);
+  const dependencies = emptyDependencyMap();
+  const workspace = asTable(data.workspace);
+  const cargoPackage = asTable(data.package);
+
+  const tables: TomlTable[] = [data];
+  for (const target of Object.values(asTable(data.target) || {})) {
+    const targetTable = asTable(target);
+    if (targetTable) tables.push(targetTable);
+  }
+
+  const optionalCrates: Record<string, { name: string; version: string }> = {};
+  for (const table of tables) {
+    // Build dependencies are needed to compile the crate, so they count as production
+    Object.assign(optionalCrates, readCargoDependencies(asTable(table.dependencies), dependencies.production));
+    Object.assign(optionalCrates, readCargoDependencies(asTable(table['build-dependencies']), dependencies.production));
+    readCargoDependencies(asTable(table['dev-dependencies']), dependencies.development);
+  }
+
+  // A virtual workspace manifest only pins versions for its members
+  if (!cargoPackage) {
+    readCargoDependencies(asTable(workspace?.dependencies), dependencies.production);
+  }
+
+  // Optional crates belong to the features that enable them (`dep:name` or
+  // `name`), or to the implicit feature named after the crate
+  const features = asTable(data.features) || {};
+  for (const [crate, { name, version }] of Object.entries(optionalCrates)) {
+    const owners = Object.entries(features)
+      .filter(([, entries]) =>
+        asStringArray(entries).some((entry) => entry === `dep:${crate}` || entry === crate || entry.startsWith(`${crate}/`))
+      )
+      .map(([feature]) => feature);
+    for (const feature of owners.length > 0 ? owners : [crate]) {
+      (dependencies.optional[feature] ||= {})[name] = version;
+    }
+  }
+
+  return {
+    name: asString(cargoPackage?.name),
+    rust_version:
+      asString(cargoPackage?.['rust-version']) ||
+      asString(asTable(workspace?.package)?.['rust-version']),
+    dependencies,
+  };
+}
+
+/**
+ * Parse pom.xml. Dependencies are keyed `groupId:artifactId`; `${property}`
+ * references are resolved from <properties>, and versions managed by a
+ * parent or BOM are recorded as 'managed'.
+ * @throws Error when the file is not well-formed XML
+ */
+export function parsePomXml(content: string): MavenManifest {
+  const project = parseXml(content);
+  const parent = childElements(project, 'parent')[0];
+  const dependencies = emptyDependencyMap();
+
+  const properties: Record<string, string> = {};
+  for (const property of childElements(project, 'properties')[0]?.children || []) {
+    properties[property.name] = property.text.trim();
+  }
+  properties['project.version'] = childText(project, 'version') || childText(parent, 'version') || '';
+  properties['project.parent.version'] = childText(parent, 'version') || '';
+
+  const resolve = (value: string | null): string | null =>
+    value ? value.replace(/\$\{([^}]+)\}/g, (reference, key: string) => properties[key] || reference) : null;
+
+  // Versions pinned in dependencyManagement apply to dependencies that omit one
+  const managed: Record<string, string> = {};
+  const managedBlock = childElements(childElements(project, 'dependencyManagement')[0], 'dependencies')[0];
+  for (const dependency of childElements(managedBlock, 'dependency')) {
+    const version = resolve(childText(dependency, 'version'));
+    if (version) managed[`${childText(dependency, 'groupId')}:${childText(dependency, 'artifactId')}`] = version;
+  }
+
+  const readDependency = (dependency: XmlElement) => {
+    const key = `${resolve(childText(dependency, 'groupId')) || ''}:${resolve(childText(dependency, 'artifactId')) || ''}`;
+    const version = resolve(childText(dependency, 'version')) || managed[key] || 'managed';
+    const scope = childText(dependency, 'scope') || 'compile';
+
+    if (childText(dependency, 'optional') === 'true') {
+      (dependencies.optional.optional ||= {})[key] = version;
+    } else if (scope === 'test') {
+      dependencies.development[key] = version;
+    } else if (scope !== 'import') {
+      dependencies.production[key] = version;
+    }
+  };
+
+  for (const dependency of childElements(childElements(project, 'dependencies')[0], 'dependency')) {
+    readDependency(dependency);
+  }
+
+  // The parent POM (e.g. spring-boot-starter-parent) shapes the stack too
+  if (parent) {
+    const key = `${childText(parent, 'groupId')}:${childText(parent, 'artifactId')}`;
+    dependencies.production[key] = childText(parent, 'version') || 'managed';
+  }
+
+  return {
+    group_id: childText(project, 'groupId') || childText(parent, 'groupId'),
+    artifact_id: childText(project, 'artifactId'),
+    java_version:
+      properties['java.version'] ||
+      properties['maven.compiler.release'] ||
+      properties['maven.compiler.source'] ||
+      null,
+    dependencies,
+  };
+}
+
+// Gradle configurations whose dependencies only serve tests or debug builds
+const GRADLE_DEV_CONFIGURATION = /^(test|androidTest|debug|testFixtures)/;
+
+/**
+ * Read dependencies from build.gradle or build.gradle.kts. Gradle scripts
+ * are code, so this reads the common declaration forms:
+ * `implementation 'g:a:v'`, `testImplementation("g:a:v")` and
+ * `api group: 'g', name: 'a', version: 'v'`, plus `implementation(libs.ktor.server.core)`
+ * when the version catalog is given
+ */
+export function parseGradleDependencies(
+  content: string,
+  catalog: Record<string, VersionCatalogLibrary> = {}
+): DependencyMap {
+  const dependencies = emptyDependencyMap();
+  const withoutComments = content.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+
+  const add = (configuration: string, group: string, name: string, version: string | undefined) => {
+    const target = GRADLE_DEV_CONFIGURATION.test(configuration) ? dependencies.development : dependencies.production;
+    target[`${group}:${name}`] = version || 'managed';
+  };
+
+  const configurations = '(\\w*(?:[iI]mplementation|[aA]pi|[cC]ompileOnly|[rR]untimeOnly|[aA]nnotationProcessor|kapt|ksp))';
+  const notation = new RegExp(`${configurations}\\s*\\(?\\s*(?:platform\\()?\\s*["']([^:"'\\s]+):([^:"'\\s]+)(?::([^:"'\\s@]+))?[^"']*["']`, 'g');
+  for (const match of withoutComments.matchAll(notation)) {
+    add(match[1], match[2], match[3], match[4]);
+  }
+
+  const mapNotation = new RegExp(`${configurations}\\s*\\(?\\s*group\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*name\\s*[:=]\\s*["']([^"']+)["'](?:\\s*,\\s*version\\s*[:=]\\s*["']([^"']+)["'])?`, 'g');
+  for (const match of withoutComments.matchAll(mapNotation)) {
+    add(match[1], match[2], match[3], match[4]);
+  }
+
+  // Catalog aliases are referenced with '-' and '_' turned into '.'
+  const aliases = new Map(Object.entries(catalog).map(([alias, library]) => [alias.replace(/[-_]/g, '.'), library]));
+  const catalogNotation = new RegExp(`${configurations}\\s*\\(?\\s*(?:platform\\()?\\s*libs\\.([\\w.]+)`, 'g');
+  for (const match of withoutComments.matchAll(catalogNotation)) {
+    const library = aliases.get(match[2]);
+    if (library) {
+      const [group, name] = library.module.split(':');
+      add(match[1], group, name, library.version);
+    }
+  }
+
+  return dependencies;
+}
+
+/**
+ * Split an image reference into repository and tag, dropping the registry
+ * host and digest: `docker.io/bitnami/postgresql:16-alpine` → bitnami/postgresql, 16-alpine
+ */
+export function parseImageReference(reference: string): { image: string; tag: string | null } {
+  let rest = reference.split('@')[0];
+  const firstSegment = rest.split('/')[0];
+  if (rest.includes('/') && (firstSegment.includes('.') || firstSegment.includes(':') || firstSegment === 'localhost')) {
+    rest = rest.slice(firstSegment.length + 1);
+  }
+
+  const colon = rest.lastIndexOf(':');
+  const image = colon > rest.lastIndexOf('/') && colon !== -1 ? rest.slice(0, colon) : rest;
+  const tag = image.length < rest.length ? rest.slice(image.length + 1) : null;
+  return { image: image.replace(/^library\//, ''), tag };
+}
+
+/**
+ * Services of a docker-compose file with their images, build contexts,
+ * published ports, volumes, dependencies and healthchecks
+ * @throws Error when the file is not valid YAML
+ */
+export function parseComposeServices(content: string): ComposeService[] {
+  const data = parseYaml(content) as { services?: Record<string, unknown> } | null;
+  const services = data && typeof data === 'object' && data.services && typeof data.services === 'object'
+    ? data.services
+    : {};
+
+  return Object.entries(services).map(([name, definition]) => {
+    const service = (definition && typeof definition === 'object' ? definition : {}) as {
+      image?: unknown;
+      ports?: unknown;
+      build?: unknown;
+      volumes?: unknown;
+      depends_on?: unknown;
+      healthcheck?: { test?: unknown; disable?: unknown };
+    };
+    const reference = typeof service.image === 'string' ? parseImageReference(service.image) : null;
+    const ports = Array.isArray(service.ports)
+      ? service.ports.map((port) =>
+          typeof port === 'object' && port !== null
+            ? `${(port as { published?: unknown }).published ?? ''}:${(port as { target?: unknown }).target ?? ''}`
+            : String(port)
+        )
+      : [];
+
+    // Long syntax entries are objects; short syntax entries are strings
+    const volumes = Array.isArray(service.volumes)
+      ? service.volumes.map((volume) =>
+          typeof volume === 'object' && volume !== null
+            ? `${(volume as { source?: unknown }).source ?? ''}:${(volume as { target?: unknown }).target ?? ''}`
+            : String(volume)
+        )
+      : [];
+    const build = typeof service.build === 'string'
+      ? service.build
+      : typeof service.build === 'object' && service.build !== null
+        ? String((service.build as { context?: unknown }).context ?? '.')
+        : null;
+    const dependsOn = Array.isArray(service.depends_on)
+      ? service.depends_on.map(String)
+      : Object.keys((service.depends_on && typeof service.depends_on === 'object' ? service.depends_on : {}) as object);
+    const test = service.healthcheck && !service.healthcheck.disable ? service.healthcheck.test : undefined;
+    // ["CMD", "pg_isready"] and ["CMD-SHELL", "pg_isready -U postgres"] run the rest
+    const healthcheck = Array.isArray(test)
+      ? test.slice(1).map(String).join(' ') || null
+      : typeof test === 'string' ? test : null;
+
+    return {
+      name,
+      image: reference?.image || null,
+      tag: reference?.tag || null,
+      ports,
+      build,
+      volumes,
+      depends_on: dependsOn,
+      healthcheck,
+    };
+  });
+}
+
+/**
+ * Parse composer.json. `php` becomes the runtime version; platform
+ * requirements like `ext-pgsql` stay, since they name PHP extensions to install
+ * @throws Error when the file is not valid JSON
+ */
+export function parseComposerJson(content: string): ComposerManifest {
+  const data = JSON.parse(content) as {
+    require?: Record<string, string>;
+    'require-dev'?: Record<string, string>;
+    suggest?: Record<string, string>;
+  };
+  const { php, ...require } = data.require || {};
+
+  return {
+    php_version: typeof php === 'string' ? php : null,
+    dependencies: {
+      production: require,
+      development: { ...data['require-dev'] },
+      optional: data.suggest ? { suggest: Object.fromEntries(Object.keys(data.suggest).map((name) => [name, ANY_VERSION])) } : {},
+    },
+  };
+}
+
+// Packages that make a .NET project a test project
+const DOTNET_TEST_PACKAGES = ['Microsoft.NET.Test.Sdk', 'xunit', 'NUnit', 'MSTest.TestFramework'];
+
+/**
+ * Parse an SDK-style .csproj/.fsproj. Dependencies of test projects and
+ * build-only packages (PrivateAssets="all") count as development.
+ * @throws Error when the file is not well-formed XML
+ */
+export function parseDotNetProject(content: string): DotNetProject {
+  const project = parseXml(content);
+  const dependencies = emptyDependencyMap();
+  const properties = childElements(project, 'PropertyGroup');
+  const property = (name: string) =>
+    properties.map((group) => childText(group, name)).find((value) => value !== null) ?? null;
+
+  const targetFrameworks = (property('TargetFrameworks') || property('TargetFramework') || '')
+    .split(';')
+    .map((framework) => framework.trim())
+    .filter(Boolean);
+
+  const references = childElements(project, 'ItemGroup').flatMap((group) => childElements(group, 'PackageReference'));
+  const isTestProject =
+    property('IsTestProject') === 'true' ||
+    references.some((reference) => DOTNET_TEST_PACKAGES.includes(reference.attributes.Include));
+
+  for (const reference of references) {
+    const name = reference.attributes.Include;
+    if (!name) continue;
+    const version = reference.attributes.Version || childText(reference, 'Version') || 'managed';
+    const buildOnly = (reference.attributes.PrivateAssets || childText(reference, 'PrivateAssets') || '').toLowerCase() === 'all';
+    (isTestProject || buildOnly ? dependencies.development : dependencies.production)[name] = version;
+  }
+
+  return {
+    sdk: project.attributes.Sdk || null,
+    target_frameworks: targetFrameworks,
+    is_test_project: isTestProject,
+    dependencies,
+  };
+}
+
+/**
+ * Read the deps list of mix.exs. Mix files are Elixir code, so this reads
+ * the `{:name, "~> 1.0", only: :test}` tuples inside `defp deps`
+ */
+export function parseMixExs(content: string): MixProject {
+  const dependencies = emptyDependencyMap();
+  const start = content.search(/defp?\s+deps\b/);
+  const body = start === -1 ? '' : content.slice(start).split(/^\s*end\b/m)[0];
+
+  for (const match of body.matchAll(/\{\s*:(\w+)\s*,\s*(?:"([^"]*)"\s*,?)?([^{}]*)\}/g)) {
+    const [, name, version, options] = match;
+    const only = options.match(/only:\s*(\[[^\]]*\]|:\w+)/)?.[1] || '';
+    const spec = version || options.match(/(github|git|path):\s*"([^"]+)"/)?.slice(1).join(':') || ANY_VERSION;
+
+    if (/optional:\s*true/.test(options)) {
+      (dependencies.optional.optional ||= {})[name] = spec;
+    } else if (only && !only.includes(':prod')) {
+      dependencies.development[name] = spec;
+    } else {
+      dependencies.production[name] = spec;
+    }
+  }
+
+  return {
+    elixir_version: content.match(/elixir:\s*"([^"]+)"/)?.[1] || null,
+    dependencies,
+  };
+}
+
+/**
+ * Parse pubspec.yaml. SDK dependencies (`flutter: { sdk: flutter }`) are
+ * recorded with the version 'sdk'
+ * @throws Error when the file is not valid YAML
+ */
+export function parsePubspec(content: string): PubspecManifest {
+  const data = (parseYaml(content) || {}) as {
+    name?: unknown;
+    environment?: { sdk?: unknown; flutter?: unknown };
+    dependencies?: Record<string, unknown>;
+    dev_dependencies?: Record<string, unknown>;
+  };
+
+  const readDependencies = (map: Record<string, unknown> | undefined) => {
+    const dependencies: Record<string, string> = {};
+    for (const [name, spec] of Object.entries(map || {})) {
+      const detail = (spec && typeof spec === 'object' ? spec : {}) as Record<string, unknown>;
+      dependencies[name] =
+        (typeof spec === 'string' && spec) ||
+        (typeof detail.version === 'string' && detail.version) ||
+        (detail.sdk ? 'sdk' : null) ||
+        (detail.git ? 'git' : null) ||
+        (typeof detail.path === 'string' ? `path:${detail.path}` : null) ||
+        ANY_VERSION;
+    }
+    return dependencies;
+  };
+
+  return {
+    name: typeof data.name === 'string' ? data.name : null,
+    sdk_version: typeof data.environment?.sdk === 'string' ? data.environment.sdk : null,
+    flutter_version: typeof data.environment?.flutter === 'string' ? data.environment.flutter : null,
+    dependencies: {
+      production: readDependencies(data.dependencies),
+      development: readDependencies(data.dev_dependencies),
+      optional: {},
+    },
+  };
+}
+
+/**
+ * Read the `.package(...)` dependencies of Package.swift, named after the
+ * last segment of their URL or path. Manifests are Swift code, so this reads
+ * the common requirement forms (from:, exact:, branch:, revision:, ranges)
+ */
+export function parsePackageSwift(content: string): SwiftPackage {
+  const dependencies = emptyDependencyMap();
+
+  let index = content.indexOf('.package(');
+  while (index !== -1) {
+    // Find the matching parenthesis; requirements can nest calls like .upToNextMajor(from:)
+    let depth = 0;
+    let end = index + '.package'.length;
+    for (; end < content.length; end++) {
+      if (content[end] === '(') depth++;
+      else if (content[end] === ')' && --depth === 0) break;
+    }
+    const declaration = content.slice(index, end + 1);
+    index = content.indexOf('.package(', end);
+
+    const location = declaration.match(/(?:url|path):\s*"([^"]+)"/)?.[1];
+    if (!location) continue;
+    const name = location.replace(/\/+$/, '').split('/').pop()!.replace(/\.git$/, '');
+
+    const from = declaration.match(/from:\s*"([^"]+)"/)?.[1];
+    const exact = declaration.match(/exact:\s*"([^"]+)"/)?.[1];
+    const range = declaration.match(/"([^"]+)"\s*\.\.[.<]\s*"([^"]+)"/);
+    const branch = declaration.match(/branch:\s*"([^"]+)"/)?.[1];
+    const revision = declaration.match(/revision:\s*"([^"]+)"/)?.[1];
+
+    dependencies.production[name] =
+      (from && `^${from}`) ||
+      exact ||
+      (range && `>=${range[1]} <${range[2]}`) ||
+      (branch && `branch:${branch}`) ||
+      (revision && `revision:${revision}`) ||
+      (declaration.includes('path:') ? `path:${location}` : ANY_VERSION);
+  }
+
+  return {
+    tools_version: content.match(/^\/\/\s*swift-tools-version\s*:\s*([\d.]+)/m)?.[1] || null,
+    has_test_targets: /\.testTarget\s*\(/.test(content),
+    dependencies,
+  };
+}
+
+/**
+ * Libraries of a Gradle version catalog (gradle/libs.versions.toml), by alias
+ * @throws Error when the file is not valid TOML
+ */
+export function parseVersionCatalog(content: string): Record<string, VersionCatalogLibrary> {
+  const data = parseToml(content);
+  const versions = asTable(data.versions) || {};
+  const libraries: Record<string, VersionCatalogLibrary> = {};
+
+  const resolveVersion = (version: TomlValue | undefined): string => {
+    const table = asTable(version);
+    const ref = asString(table?.ref);
+    return asString(version) || (ref ? asString(versions[ref]) : null) || asString(table?.strictly) || asString(table?.prefer) || 'managed';
+  };
+
+  for (const [alias, definition] of Object.entries(asTable(data.libraries) || {})) {
+    const notation = asString(definition);
+    if (notation) {
+      const [group, name, version] = notation.split(':');
+      libraries[alias] = { module: `${group}:${name}`, version: version || 'managed' };
+      continue;
+    }
+
+    const table = asTable(definition);
+    const coordinates = asString(table?.module) || (table?.group && table?.name ? `${table.group}:${table.name}` : null);
+    if (coordinates) {
+      libraries[alias] = { module: coordinates, version: resolveVersion(table?.version) };
+    }
+  }
+
+  return libraries;
+}
+
+/**
+ * TechStack dependency fields from a dependency map
+ */
+export function toTechStackDependencies(
+  map: DependencyMap
+): Pick<TechStack, 'dependencies' | 'dependency_versions'> {
+  const optional: Record<string, string[]> = {};
+  for (const [group, dependencies] of Object.entries(map.optional)) {
+    optional[group] = Object.keys(dependencies);
+  }
+
+  return {
+    dependencies: {
+      production: Object.keys(map.production),
+      development: Object.keys(map.development),
+      ...(Object.keys(optional).length > 0 ? { optional } : {}),
+    },
+    dependency_versions: Object.assign(
+      {},
+      ...Object.values(map.optional),
+      map.development,
+      map.production
+    ),
+  };
+}
@@ -0,0 +1,254 @@
+/**
+ * Per-repository configuration
+ * Reads the optional .onboardghost.yml (or .json) at the repository root, where
+ * maintainers steer file filtering, RAG indexing and the roadmap. Invalid
+ * entries are dropped and reported so the rest of the file still applies.
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { FileTreeItem, GlossaryEntry, RepoConfig, RepoConfigTask, SetupPath } from '../types';
+import { globToRegExp, matchesGlobList } from '../utils/glob';
+import { isSensitiveFile } from './file-filter';
+
+// Looked up at the repository root; the first one present is read
+export const REPO_CONFIG_FILES = ['.onboardghost.yml', '.onboardghost.yaml', '.onboardghost.json'];
+
+const SETUP_PATHS: SetupPath[] = ['docker', 'native'];
+
+const CONFIG_KEYS = ['include', 'exclude', 'embed', 'tasks', 'skip_sections', 'setup_path', 'glossary'];
+
+const MAX_TASKS = 20;
+const MAX_GLOSSARY_TERMS = 50;
+const MAX_EMBED_FILES = 15; // On top of the critical files, to protect the vector store's free tier
+
+export interface RepoConfigResult {
+  file: string | null; // The config file found at the root
+  config: RepoConfig | null; // null when the repository has no config file or it can't be parsed
+  errors: string[]; // Entries that were dropped, e.g. `tasks[1].title: expected a non-empty string`
+}
+
+type ConfigRecord = Record<string, unknown>;
+
+function asRecord(value: unknown): ConfigRecord | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as ConfigRecord) : null;
+}
+
+function isText(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Read a list of strings; a single string counts as a list of one
+ */
+function readStrings(value: unknown, key: string, errors: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const list = Array.isArray(value) ? value : [value];
+  return list.flatMap((entry, index) => {
+    if (isText(entry)) return [entry.trim()];
+    errors.push(`${Array.isArray(value) ? `${key}[${index}]` : key}: expected a non-empty string`);
+    return [];
+  });
+}
+
+/**
+ * Read a list of globs. A trailing slash stands for everything below the
+ * directory, as in .gitignore. Each glob is compiled here so one that can't
+ * be is reported instead of failing the filtering later.
+ */
+function readGlobs(value: unknown, key: string, errors: string[]): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const list = Array.isArray(value) ? value : [value];
+  return list.flatMap((entry, index) => {
+    const path = Array.isArray(value) ? `${key}[${index}]` : key;
+    if (!isText(entry)) {
+      errors.push(`${path}: expected a non-empty string`);
+      return [];
+    }
+
+    const pattern = entry.trim().endsWith('/') ? `${entry.trim()}**` : entry.trim();
+    try {
+      globToRegExp(pattern.replace(/^!/, ''));
+      return [pattern];
+    } catch {
+      errors.push(`${path}: invalid glob`);
+      return [];
+    }
+  });
+}
+
+function readTask(value: unknown, path: string, errors: string[]): RepoConfigTask | null {
+  const task = asRecord(value);
+  if (!task) {
+    errors.push(`${path}: expected a task with section, title and description`);
+    return null;
+  }
+
+  const missing = ['section', 'title', 'description'].filter((key) => !isText(task[key]));
+  if (missing.length > 0) {
+    errors.push(`${path}: ${missing.join(', ')} must be non-empty strings`);
+    return null;
+  }
+
+  return {
+    section: (task.section as string).trim(),
+    title: (task.title as string).trim(),
+    description: (task.description as string).trim(),
+    steps: readStrings(task.steps, `${path}.steps`, errors),
+    commands: readStrings(task.commands, `${path}.commands`, errors),
+  };
+}
+
+/**
+ * Read the glossary: a map of term to definition, or a list of
+ * { term, definition } entries
+ */
+function readGlossary(value: unknown, errors: string[]): GlossaryEntry[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const record = asRecord(value);
+  const entries = record
+    ? Object.entries(record).map(([term, definition]) => ({ term, definition, path: `glossary.${term}` }))
+    : Array.isArray(value)
+      ? value.map((entry, index) => ({ term: asRecord(entry)?.term, definition: asRecord(entry)?.definition, path: `glossary[${index}]` }))
+      : null;
+  if (!entries) {
+    errors.push('glossary: expected a map of term to definition');
+    return [];
+  }
+
+  return entries.flatMap(({ term, definition, path }) => {
+    if (isText(term) && isText(definition)) return [{ term: term.trim(), definition: definition.trim() }];
+    errors.push(`${path}: expected a term with a non-empty definition`);
+    return [];
+  });
+}
+
+/**
+ * Parse and validate a config file. Unknown keys and invalid entries are
+ * reported and skipped; only a file that can't be parsed yields no config.
+ */
+export function parseRepoConfig(filePath: string, content: string): RepoConfigResult {
+  let data: unknown;
+  try {
+    data = filePath.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    return { file: filePath, config: null, errors: [`could not be parsed: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  // An empty file is a valid config that changes nothing
+  const record = data === null || data === undefined ? {} : asRecord(data);
+  if (!record) {
+    return { file: filePath, config: null, errors: ['expected a mapping of settings at the top level'] };
+  }
+
+  const errors: string[] = [];
+  for (const key of Object.keys(record)) {
+    if (!CONFIG_KEYS.includes(key)) {
+      errors.push(`${key}: unknown setting (expected one of ${CONFIG_KEYS.join(', ')})`);
+    }
+  }
+
+  const rawTasks = record.tasks === undefined || record.tasks === null ? [] : record.tasks;
+  if (!Array.isArray(rawTasks)) {
+    errors.push('tasks: expected a list of tasks');
+  } else if (rawTasks.length > MAX_TASKS) {
+    errors.push(`tasks: only the first ${MAX_TASKS} tasks are added`);
+  }
+  const tasks = (Array.isArray(rawTasks) ? rawTasks.slice(0, MAX_TASKS) : [])
+    .map((task, index) => readTask(task, `tasks[${index}]`, errors))
+    .filter((task): task is RepoConfigTask => task !== null);
+
+  let setupPath: SetupPath | null = null;
+  if (record.setup_path !== undefined && record.setup_path !== null) {
+    if (SETUP_PATHS.includes(record.setup_path as SetupPath)) {
+      setupPath = record.setup_path as SetupPath;
+    } else {
+      errors.push(`setup_path: expected ${SETUP_PATHS.join(' or ')}`);
+    }
+  }
+
+  const glossary = readGlossary(record.glossary, errors);
+  if (glossary.length > MAX_GLOSSARY_TERMS) {
+    errors.push(`glossary: only the first ${MAX_GLOSSARY_TERMS} terms are used`);
+  }
+
+  return {
+    file: filePath,
+    config: {
+      file: filePath,
+      include: readGlobs(record.include, 'include', errors),
+      exclude: readGlobs(record.exclude, 'exclude', errors),
+      embed: readGlobs(record.embed, 'embed', errors),
+      tasks,
+      skip_sections: readStrings(record.skip_sections, 'skip_sections', errors),
+      setup_path: setupPath,
+      glossary: glossary.slice(0, MAX_GLOSSARY_TERMS),
+    },
+    errors,
+  };
+}
+
+/**
+ * Reduce a section id or title to a comparable key: "Database Setup",
+ * "database-setup" and "section-database-setup" all become database-setup
+ */
+export function sectionKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .replace(/^(containerized-)?section-/, '');
+}
+
+/**
+ * Whether a section is one of the named ones (skip_sections, a task's
+ * section), matched on its id or title
+ */
+export function matchesSectionName(section: { id?: string; title: string }, names: string[]): boolean {
+  const keys = [section.title, section.id].filter((value): value is string => !!value).map(sectionKey);
+  return names.some((name) => keys.includes(sectionKey(name)));
+}
+
+/**
+ * The files the config asks to embed for RAG. Committed secrets are never
+ * embedded, whatever the globs say.
+ */
+export function selectEmbedFiles(files: FileTreeItem[], config: RepoConfig | null): FileTreeItem[] {
+  if (!config || config.embed.length === 0) {
+    return [];
+  }
+
+  return files
+    .filter((file) => file.type === 'blob' && matchesGlobList(file.path, config.embed) && !isSensitiveFile(file.path))
+    .slice(0, MAX_EMBED_FILES);
+}
+
+/**
+ * One-line summary for progress logs
+ */
+export function summarizeRepoConfig(result: RepoConfigResult): string {
+  if (!result.file) {
+    return 'no .onboardghost config';
+  }
+  if (!result.config) {
+    return `${result.file} ignored (${result.errors[0] || 'could not be read'})`;
+  }
+
+  const { config } = result;
+  const parts = [
+    config.include.length + config.exclude.length > 0 ? `${config.include.length} include / ${config.exclude.length} exclude globs` : '',
+    config.tasks.length > 0 ? `${config.tasks.length} custom task${config.tasks.length === 1 ? '' : 's'}` : '',
+    config.skip_sections.length > 0 ? `${config.skip_sections.length} skipped section${config.skip_sections.length === 1 ? '' : 's'}` : '',
+    config.setup_path ? `${config.setup_path} setup` : '',
+    result.errors.length > 0 ? `${result.errors.length} invalid entr${result.errors.length === 1 ? 'y' : 'ies'} ignored` : '',
+  ].filter(Boolean);
+  return `${result.file}: ${parts.join(', ') || 'no settings'}`;
+}
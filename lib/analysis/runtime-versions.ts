@@ -0,0 +1,283 @@
+/**
+ * Runtime version detection
+ * Reads version manager files (.nvmrc, .tool-versions, .python-version, ...)
+ * and manifest constraints, and resolves one version per runtime
+ */
+
+import { RuntimeVersion, RuntimeVersionDeclaration } from '../types';
+import { parsePyproject, parseCargoManifest, parsePomXml, parseComposerJson, parseMixExs, parsePubspec } from './manifests';
+import { parseToml, TomlTable, TomlValue } from '../utils/toml';
+import { detectCiWorkflows, ciRuntimeDeclarations } from './ci';
+
+// asdf/mise tool names → runtime
+const TOOL_VERSIONS_ALIASES: Record<string, string> = {
+  nodejs: 'node',
+  golang: 'go',
+  'dotnet-core': 'dotnet',
+};
+
+const RUNTIME_DISPLAY_NAMES: Record<string, string> = {
+  node: 'Node.js',
+  python: 'Python',
+  ruby: 'Ruby',
+  go: 'Go',
+  rust: 'Rust',
+  dotnet: '.NET SDK',
+  java: 'Java',
+  php: 'PHP',
+  elixir: 'Elixir',
+  erlang: 'Erlang/OTP',
+  dart: 'Dart',
+  flutter: 'Flutter',
+  swift: 'Swift',
+  kotlin: 'Kotlin',
+};
+
+// Runtime each primary language runs on
+const LANGUAGE_RUNTIMES: Record<string, string> = {
+  JavaScript: 'node',
+  TypeScript: 'node',
+  Python: 'python',
+  Ruby: 'ruby',
+  Go: 'go',
+  Rust: 'rust',
+  'C#': 'dotnet',
+  'F#': 'dotnet',
+  Java: 'java',
+  Kotlin: 'kotlin',
+  PHP: 'php',
+  Elixir: 'elixir',
+  Dart: 'dart',
+  Swift: 'swift',
+};
+
+interface Declaration extends RuntimeVersionDeclaration {
+  runtime: string;
+}
+
+/**
+ * First non-empty, non-comment line of a plain version file
+ */
+function readVersionFile(content: string | undefined): string | null {
+  const line = content
+    ?.split('\n')
+    .map((entry) => entry.replace(/#.*$/, '').trim())
+    .find(Boolean);
+  return line || null;
+}
+
+/**
+ * Tool versions from .tool-versions (`<tool> <version> [fallback...]`)
+ */
+function readToolVersions(content: string): Declaration[] {
+  const declarations: Declaration[] = [];
+  for (const line of content.split('\n')) {
+    const [tool, version] = line.replace(/#.*$/, '').trim().split(/\s+/);
+    if (tool && version) {
+      declarations.push({ runtime: TOOL_VERSIONS_ALIASES[tool] || tool, version, source: '.tool-versions' });
+    }
+  }
+  return declarations;
+}
+
+function isTomlTable(value: TomlValue | undefined): value is TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Parse a manifest if present; invalid files declare nothing
+ */
+function parseManifest<T>(content: string | undefined, parse: (content: string) => T): T | null {
+  if (!content) return null;
+  try {
+    return parse(content);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect every declaration, highest precedence first: dedicated version
+ * files (what nvm, pyenv, rbenv and rustup actually use), then
+ * .tool-versions, then manifest constraints, then what CI sets up
+ */
+function collectDeclarations(files: Map<string, string>): Declaration[] {
+  const declarations: Declaration[] = [];
+  const add = (runtime: string, version: string | null | undefined, source: string) => {
+    if (version) declarations.push({ runtime, version: version.trim(), source });
+  };
+
+  // Version manager files
+  add('node', readVersionFile(files.get('.nvmrc')), '.nvmrc');
+  add('node', readVersionFile(files.get('.node-version')), '.node-version');
+  add('python', readVersionFile(files.get('.python-version')), '.python-version');
+  add('ruby', readVersionFile(files.get('.ruby-version'))?.replace(/^ruby-/, ''), '.ruby-version');
+  const toolchain = parseManifest(files.get('rust-toolchain.toml'), parseToml)?.toolchain;
+  add('rust', isTomlTable(toolchain) && typeof toolchain.channel === 'string' ? toolchain.channel : null, 'rust-toolchain.toml');
+  add('rust', readVersionFile(files.get('rust-toolchain')), 'rust-toolchain');
+  add('go', files.get('go.mod')?.match(/^toolchain\s+go(\S+)/m)?.[1], 'go.mod toolchain');
+
+  const globalJson = files.get('global.json');
+  if (globalJson) {
+    try {
+      add('dotnet', JSON.parse(globalJson).sdk?.version, 'global.json sdk.version');
+    } catch {
+      // Ignore invalid global.json
+    }
+  }
+
+  const toolVersions = files.get('.tool-versions');
+  if (toolVersions) {
+    declarations.push(...readToolVersions(toolVersions));
+  }
+
+  // Manifest constraints
+  const packageJson = files.get('package.json');
+  if (packageJson) {
+    try {
+      const engines = JSON.parse(packageJson).engines;
+      add('node', typeof engines?.node === 'string' ? engines.node : null, 'package.json engines.node');
+    } catch {
+      // Ignore invalid package.json
+    }
+  }
+  const pyproject = parseManifest(files.get('pyproject.toml'), parsePyproject);
+  add('python', pyproject?.requires_python, 'pyproject.toml');
+  add('ruby', files.get('Gemfile')?.match(/^\s*ruby\s+['"]([^'"]+)['"]/m)?.[1], 'Gemfile');
+  add('java', parseManifest(files.get('pom.xml'), parsePomXml)?.java_version, 'pom.xml');
+  // rust-version and the go directive are minimums, not pins
+  const rustVersion = parseManifest(files.get('Cargo.toml'), parseCargoManifest)?.rust_version;
+  add('rust', rustVersion && `>=${rustVersion}`, 'Cargo.toml rust-version');
+  const goDirective = files.get('go.mod')?.match(/^go\s+([\d.]+)/m)?.[1];
+  add('go', goDirective && `>=${goDirective}`, 'go.mod go directive');
+  add('php', parseManifest(files.get('composer.json'), parseComposerJson)?.php_version, 'composer.json require.php');
+  add('elixir', parseManifest(files.get('mix.exs'), parseMixExs)?.elixir_version, 'mix.exs');
+  const pubspec = parseManifest(files.get('pubspec.yaml'), parsePubspec);
+  add('dart', pubspec?.sdk_version, 'pubspec.yaml environment.sdk');
+  add('flutter', pubspec?.flutter_version, 'pubspec.yaml environment.flutter');
+  // swift-tools-version is the minimum toolchain that can read the manifest
+  const toolsVersion = files.get('Package.swift')?.match(/^\/\/\s*swift-tools-version\s*:\s*([\d.]+)/m)?.[1];
+  add('swift', toolsVersion && `>=${toolsVersion}`, 'Package.swift swift-tools-version');
+
+  // CI runtimes (setup actions, build matrix, job images)
+  declarations.push(...ciRuntimeDeclarations(detectCiWorkflows(files)));
+
+  return declarations;
+}
+
+/**
+ * Numeric parts of an exact version ("v20.11.0" → [20, 11, 0]), or null for
+ * ranges and aliases
+ */
+function parseExact(version: string): number[] | null {
+  const match = version.trim().match(/^v?(\d+(?:\.\d+)*)$/);
+  return match ? match[1].split('.').map(Number) : null;
+}
+
+function compareVersions(a: number[], b: number[]): number {
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    const diff = (a[i] || 0) - (b[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Whether the leading parts both versions specify are equal ("20" and "20.11.0" agree)
+ */
+function sharesPrefix(a: number[], b: number[]): boolean {
+  return a.slice(0, Math.min(a.length, b.length)).every((part, i) => part === b[i]);
+}
+
+/**
+ * Whether an exact version satisfies a range such as ">=18 <21", "^3.11",
+ * "~> 3.2", "~=3.10" or ">=3.9,<4". Unrecognised comparators are treated
+ * as satisfied, so only clear mismatches count as conflicts.
+ */
+function satisfiesRange(version: number[], range: string): boolean {
+  return range.split('||').some((alternative) =>
+    alternative
+      .replace(/([<>=~^]+)\s+/g, '$1')
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .every((comparator) => {
+        const match = comparator.match(/^(>=|<=|>|<|\^|~>|~=|~|===?|!=)?v?(\d+(?:\.\d+)*)(?:\.[x*])*$/);
+        if (!match) return true;
+        const [, operator = '', raw] = match;
+        const bound = raw.split('.').map(Number);
+        const cmp = compareVersions(version, bound);
+
+        switch (operator) {
+          case '>=': return cmp >= 0;
+          case '>': return cmp > 0;
+          case '<=': return cmp <= 0 || sharesPrefix(version, bound);
+          case '<': return cmp < 0;
+          case '!=': return !sharesPrefix(version, bound);
+          case '^': return cmp >= 0 && version[0] === bound[0] && (bound[0] !== 0 || version[1] === bound[1]);
+          case '~': return cmp >= 0 && sharesPrefix(version, bound.slice(0, 2));
+          // Pessimistic operators pin every part but the last
+          case '~>':
+          case '~=': return cmp >= 0 && sharesPrefix(version, bound.slice(0, Math.max(1, bound.length - 1)));
+          default: return sharesPrefix(version, bound);
+        }
+      })
+  );
+}
+
+/**
+ * Whether two declarations can both hold. Aliases and range pairs are
+ * assumed compatible.
+ */
+function agrees(resolved: string, other: string): boolean {
+  const resolvedExact = parseExact(resolved);
+  const otherExact = parseExact(other);
+
+  if (resolvedExact && otherExact) return sharesPrefix(resolvedExact, otherExact);
+  if (resolvedExact) return satisfiesRange(resolvedExact, other);
+  if (otherExact) return satisfiesRange(otherExact, resolved);
+  return true;
+}
+
+/**
+ * Resolve one version per runtime. The highest-precedence exact version
+ * wins; without one, the highest-precedence declaration is used. Every
+ * declaration is kept, and the ones the resolved version contradicts are
+ * listed as conflicts.
+ * @param files - File contents keyed by path; version files are read from the root
+ */
+export function detectRuntimeVersions(files: Map<string, string>): RuntimeVersion[] {
+  const byRuntime = new Map<string, Declaration[]>();
+  for (const declaration of collectDeclarations(files)) {
+    byRuntime.set(declaration.runtime, [...(byRuntime.get(declaration.runtime) || []), declaration]);
+  }
+
+  return Array.from(byRuntime, ([runtime, declarations]) => {
+    const resolved = declarations.find((declaration) => parseExact(declaration.version)) || declarations[0];
+    const toDeclaration = ({ version, source }: Declaration) => ({ version, source });
+
+    return {
+      runtime,
+      version: resolved.version.replace(/^v(?=\d)/, ''),
+      source: resolved.source,
+      declarations: declarations.map(toDeclaration),
+      conflicts: declarations
+        .filter((declaration) => declaration !== resolved && !agrees(resolved.version, declaration.version))
+        .map(toDeclaration),
+    };
+  });
+}
+
+/**
+ * The runtime a primary language runs on, if version detection covers it
+ */
+export function runtimeForLanguage(primaryLanguage: string): string | null {
+  return LANGUAGE_RUNTIMES[primaryLanguage] || null;
+}
+
+/**
+ * Human-readable runtime version, e.g. "Node.js 20.11.0"
+ */
+export function formatRuntimeVersion(runtimeVersion: RuntimeVersion): string {
+  const name = RUNTIME_DISPLAY_NAMES[runtimeVersion.runtime] || runtimeVersion.runtime;
+  return `${name} ${runtimeVersion.version}`;
+}
@@ -0,0 +1,260 @@
+/**
+ * Runnable script extraction
+ * Lists the entry points a project declares (package.json scripts, Makefile
+ * targets, justfile recipes, Taskfile tasks, Procfile processes and
+ * pyproject scripts) with the command that runs each and what it is for
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { ProjectScript, ScriptCategory } from '../types';
+import { parseToml, TomlTable, TomlValue } from '../utils/toml';
+
+// Script files, in the order their entries are listed
+const MAKEFILES = ['GNUmakefile', 'makefile', 'Makefile'];
+const JUSTFILES = ['justfile', 'Justfile', '.justfile'];
+const TASKFILES = ['Taskfile.yml', 'Taskfile.yaml'];
+
+// Category patterns, checked in order against the name, then the body.
+// Seed comes before migrate so `db:seed` isn't read as a migration.
+const CATEGORY_PATTERNS: [ScriptCategory, RegExp, RegExp][] = [
+  ['seed', /seed/i, /\bseed\b|loaddata|db:seed/i],
+  ['migrate', /migrat|db:push|db:deploy/i, /\bmigrat|alembic\s+upgrade|prisma\s+(db\s+push|migrate)|drizzle-kit\s+(push|migrate)|diesel\s+migration|db:migrate/i],
+  ['test', /(^|[:_.-])(test|tests|spec|e2e|coverage|cov)([:_.-]|$)/i, /\b(jest|vitest|mocha|ava|playwright\s+test|cypress\s+run|pytest|tox|nox|rspec|phpunit|pest|go\s+test|cargo\s+(test|nextest)|mix\s+test|dotnet\s+test|flutter\s+test|swift\s+test|gradlew?\s+test|mvnw?\s+test)\b/i],
+  ['lint', /lint|format|fmt|prettier|typecheck|type-check|check-types|style/i, /\b(eslint|prettier|biome|stylelint|tsc\s+--noEmit|ruff|flake8|black|isort|mypy|pyright|pylint|rubocop|golangci-lint|gofmt|cargo\s+(clippy|fmt)|mix\s+(format|credo)|dotnet\s+format|dart\s+(format|analyze)|swiftlint|ktlint|detekt)\b/i],
+  ['build', /(^|[:_.-])(build|compile|bundle|dist|package|release)([:_.-]|$)/i, /\b(next|vite|webpack|rollup|tsup|esbuild|nuxt|astro|turbo)\s+build\b|\bgo\s+build\b|\bcargo\s+build\b|\btsc\b(?!\s+--noEmit)|\bdocker\s+build\b|\bpython\s+-m\s+build\b/i],
+  ['dev', /^(dev|develop|start|serve|server|run|up|watch|web|app|api|worker)([:_.-]|$)/i, /\b(next|vite|nuxt|astro|remix)\s+dev\b|\bnodemon\b|\bts-node|\btsx\s+watch|\b(runserver|uvicorn|gunicorn|flask\s+run|rails\s+s(erver)?|phx\.server|air|go\s+run|cargo\s+run|dotnet\s+(run|watch)|flutter\s+run|swift\s+run|docker\s+compose\s+up|php\s+artisan\s+serve)\b/i],
+];
+
+/**
+ * What a script is for, from its name first and its body second
+ */
+export function categorizeScript(name: string, body: string): ScriptCategory {
+  for (const [category, namePattern] of CATEGORY_PATTERNS) {
+    if (namePattern.test(name)) return category;
+  }
+  for (const [category, , bodyPattern] of CATEGORY_PATTERNS) {
+    if (bodyPattern.test(body)) return category;
+  }
+  return 'other';
+}
+
+function toScript(name: string, command: string, body: string, source: string, description?: string): ProjectScript {
+  return {
+    name,
+    command,
+    body: body.trim(),
+    directory: '',
+    source,
+    category: categorizeScript(name, body),
+    ...(description ? { description } : {}),
+  };
+}
+
+/**
+ * Command that runs a package.json script with the detected package manager
+ */
+function packageScriptCommand(packageManager: string, name: string): string {
+  switch (packageManager.split('@')[0]) {
+    case 'yarn': return `yarn ${name}`;
+    case 'pnpm': return `pnpm run ${name}`;
+    case 'bun': return `bun run ${name}`;
+    default: return `npm run ${name}`;
+  }
+}
+
+/**
+ * `scripts` of package.json
+ */
+export function parsePackageScripts(content: string, packageManager: string = 'npm'): ProjectScript[] {
+  let scripts: unknown;
+  try {
+    scripts = JSON.parse(content).scripts;
+  } catch {
+    return [];
+  }
+  if (!scripts || typeof scripts !== 'object') return [];
+
+  return Object.entries(scripts as Record<string, unknown>)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .map(([name, body]) => toScript(name, packageScriptCommand(packageManager, name), body, 'package.json'));
+}
+
+/**
+ * Explicit targets of a Makefile, with the first recipe line as the body.
+ * Pattern rules, special targets (.PHONY) and variable assignments are
+ * skipped; a `## comment` after the target is its description.
+ */
+export function parseMakefile(content: string, source: string = 'Makefile'): ProjectScript[] {
+  const scripts: ProjectScript[] = [];
+  const lines = content.replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    const match = line.match(/^([A-Za-z0-9_][\w./ -]*?)\s*::?(?!=)(.*)$/);
+    if (!match || line.startsWith('\t')) return;
+
+    let body = '';
+    for (const next of lines.slice(index + 1)) {
+      if (!next.startsWith('\t')) {
+        if (next.trim() && !next.trim().startsWith('#')) break;
+      } else if (next.trim() && !next.trim().startsWith('#')) {
+        body = next.trim().replace(/^[@+-]+/, '');
+        break;
+      }
+    }
+    const description = match[2].match(/##\s*(.+)$/)?.[1].trim();
+
+    for (const target of match[1].split(/\s+/).filter(Boolean)) {
+      if (target.includes('%') || target.includes('$') || scripts.some((script) => script.name === target)) continue;
+      scripts.push(toScript(target, `make ${target}`, body, source, description));
+    }
+  });
+
+  return scripts;
+}
+
+/**
+ * Recipes of a justfile; a comment line right above a recipe is its description
+ */
+export function parseJustfile(content: string, source: string = 'justfile'): ProjectScript[] {
+  const scripts: ProjectScript[] = [];
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (/^(set|alias|export|import|mod)\s/.test(line)) return;
+    const match = line.match(/^@?([A-Za-z_][\w-]*)(?:\s+[^:]*)?:(?!=)/);
+    // Recipes starting with _ or marked [private] are helpers
+    if (!match || match[1].startsWith('_') || lines[index - 1]?.trim() === '[private]') return;
+
+    const body = lines.slice(index + 1).find((next) => next.trim())?.match(/^\s+[@-]*(.+)$/)?.[1] || '';
+    const description = lines[index - 1]?.match(/^#\s*(.+)$/)?.[1].trim();
+    scripts.push(toScript(match[1], `just ${match[1]}`, body, source, description));
+  });
+
+  return scripts;
+}
+
+/**
+ * Tasks of a Taskfile (go-task), with the first command as the body
+ * @throws Error when the file is not valid YAML
+ */
+export function parseTaskfile(content: string, source: string = 'Taskfile.yml'): ProjectScript[] {
+  const data = parseYaml(content) as { tasks?: Record<string, unknown> } | null;
+  const tasks = data?.tasks && typeof data.tasks === 'object' ? data.tasks : {};
+
+  return Object.entries(tasks)
+    .filter(([, task]) => !(task && typeof task === 'object' && (task as { internal?: unknown }).internal === true))
+    .map(([name, task]) => {
+      const definition = (task && typeof task === 'object' && !Array.isArray(task) ? task : { cmds: task }) as {
+        desc?: unknown;
+        cmds?: unknown;
+        cmd?: unknown;
+      };
+      const commands = Array.isArray(definition.cmds) ? definition.cmds : [definition.cmd ?? definition.cmds];
+      const first = commands.find((command) => typeof command === 'string' || (command && typeof command === 'object'));
+      const body = typeof first === 'string'
+        ? first
+        : first && typeof (first as { cmd?: unknown }).cmd === 'string'
+          ? (first as { cmd: string }).cmd
+          : first && typeof (first as { task?: unknown }).task === 'string'
+            ? `task ${(first as { task: string }).task}`
+            : '';
+      return toScript(name, `task ${name}`, body, source, typeof definition.desc === 'string' ? definition.desc : undefined);
+    });
+}
+
+/**
+ * Process types of a Procfile; each runs its own command
+ */
+export function parseProcfile(content: string, source: string = 'Procfile'): ProjectScript[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.match(/^([A-Za-z0-9_-]+)\s*:\s*(.+)$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(([, name, command]) => toScript(name, command.trim(), command, source));
+}
+
+function asTable(value: TomlValue | undefined): TomlTable | null {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : null;
+}
+
+/**
+ * Script body of a PDM, Hatch or Poe task: a string, a list of commands,
+ * or a table with cmd/shell/call/composite
+ */
+function taskBody(value: TomlValue): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.filter((item) => typeof item === 'string').join(' && ');
+  const table = asTable(value);
+  const body = table?.cmd ?? table?.shell ?? table?.call ?? table?.composite ?? table?.sequence;
+  return body !== undefined ? taskBody(body) : '';
+}
+
+/**
+ * Scripts of pyproject.toml: console scripts ([project.scripts], Poetry) run
+ * through the project's package manager, and task runner entries (PDM,
+ * Hatch, Poe the Poet)
+ * @param packageManager - Detected Python package manager (uv, Poetry, ...)
+ * @throws Error when the file is not valid TOML
+ */
+export function parsePyprojectScripts(content: string, packageManager: string = 'pip'): ProjectScript[] {
+  const data = parseToml(content);
+  const tool = asTable(data.tool) || {};
+  const scripts: ProjectScript[] = [];
+  const runner = packageManager === 'Poetry' ? 'poetry run ' : packageManager === 'uv' ? 'uv run ' : '';
+
+  const consoleScripts = { ...asTable(asTable(data.project)?.scripts), ...asTable(asTable(tool.poetry)?.scripts) };
+  for (const [name, target] of Object.entries(consoleScripts)) {
+    if (typeof target === 'string') {
+      scripts.push(toScript(name, `${runner}${name}`, target, 'pyproject.toml'));
+    }
+  }
+
+  const taskRunners: [TomlTable | null, string][] = [
+    [asTable(asTable(tool.pdm)?.scripts), 'pdm run'],
+    [asTable(asTable(asTable(asTable(tool.hatch)?.envs)?.default)?.scripts), 'hatch run'],
+    // Poe is usually a dev dependency, so it runs inside the project environment
+    [asTable(asTable(tool.poe)?.tasks), `${runner}poe`],
+  ];
+  for (const [tasks, command] of taskRunners) {
+    for (const [name, task] of Object.entries(tasks || {})) {
+      // PDM keeps settings shared by all scripts under _
+      if (name === '_') continue;
+      const help = asTable(task)?.help;
+      scripts.push(toScript(name, `${command} ${name}`, taskBody(task), 'pyproject.toml', typeof help === 'string' ? help : undefined));
+    }
+  }
+
+  return scripts;
+}
+
+/**
+ * Every script declared in one directory
+ * @param files - File contents keyed by path relative to the directory
+ * @param packageManager - Detected package manager, for the run commands
+ * @param directory - The directory, relative to the repo root
+ */
+export function detectScripts(
+  files: Map<string, string>,
+  packageManager: string = 'npm',
+  directory: string = ''
+): ProjectScript[] {
+  const scripts: ProjectScript[] = [];
+  const collect = (source: string | undefined, parse: (content: string, source: string) => ProjectScript[]) => {
+    const content = source ? files.get(source) : undefined;
+    if (!source || content === undefined) return;
+    try {
+      scripts.push(...parse(content, source));
+    } catch (error) {
+      console.error(`Failed to read scripts from ${source}:`, error);
+    }
+  };
+
+  collect('package.json', (content) => parsePackageScripts(content, packageManager));
+  collect('pyproject.toml', (content) => parsePyprojectScripts(content, packageManager));
+  collect(MAKEFILES.find((name) => files.has(name)), parseMakefile);
+  collect(JUSTFILES.find((name) => files.has(name)), parseJustfile);
+  collect(TASKFILES.find((name) => files.has(name)), parseTaskfile);
+  collect('Procfile', parseProcfile);
+
+  return scripts.map((script) => ({ ...script, directory }));
+}
@@ -0,0 +1,211 @@
+/**
+ * Secret scanning
+ * Pattern and entropy rules for credentials committed to the repository,
+ * run in-process over the fetched files. Only redacted values leave this
+ * module.
+ */
+
+import { SecurityIssue } from '../types';
+import { isSensitiveFile } from './file-filter';
+
+interface SecretRule {
+  type: string;
+  pattern: RegExp; // The secret is the first group, or the whole match
+  severity: SecurityIssue['severity'];
+  recommendation: string;
+}
+
+const ROTATE = 'Revoke and rotate it, then load it from an environment variable';
+
+const SECRET_RULES: SecretRule[] = [
+  {
+    type: 'AWS Access Key ID',
+    pattern: /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/g,
+    severity: 'high',
+    recommendation: `${ROTATE}. Deactivate the key in IAM first.`,
+  },
+  {
+    type: 'AWS Secret Access Key',
+    pattern: /aws_?secret_?access_?key['"]?\s*[:=]\s*['"]?([A-Za-z0-9/+=]{40})\b/gi,
+    severity: 'high',
+    recommendation: `${ROTATE}. Deactivate the key in IAM first.`,
+  },
+  {
+    type: 'GitHub Token',
+    pattern: /\b(gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g,
+    severity: 'high',
+    recommendation: `${ROTATE}. Revoke it under GitHub Settings → Developer settings.`,
+  },
+  {
+    type: 'Stripe Live Key',
+    pattern: /\b((?:sk|rk)_live_[0-9a-zA-Z]{24,})\b/g,
+    severity: 'high',
+    recommendation: `${ROTATE}. Roll the key in the Stripe dashboard.`,
+  },
+  {
+    type: 'Stripe Test Key',
+    pattern: /\b((?:sk|rk)_test_[0-9a-zA-Z]{24,})\b/g,
+    severity: 'low',
+    recommendation: 'Test keys cannot move money but still expose test data; load it from an environment variable.',
+  },
+  {
+    type: 'Private Key',
+    pattern: /-----BEGIN ((?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?)-----/g,
+    severity: 'high',
+    recommendation: 'Remove the key from the repository, generate a new key pair and revoke the old public key wherever it is trusted.',
+  },
+  {
+    type: 'JSON Web Token',
+    pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})\b/g,
+    severity: 'medium',
+    recommendation: 'A committed token stays valid until it expires; invalidate it or rotate the signing key, and never commit tokens.',
+  },
+];
+
+// `password = "..."`, `apiKey: '...'`: reported when the name looks like a
+// secret's and the value looks random. The name is matched as one token and
+// checked separately; a keyword inside `[\w-]*` backtracks cubically on long
+// lines like `token-token-token...`.
+const ASSIGNED_VALUE = /(?<![\w-])([\w-]+)['"]?\s*[:=]\s*(['"])([^'"\s]{16,})\2/g;
+const SECRET_NAME = /secret|token|passw(or)?d|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret/i;
+
+// Bits of Shannon entropy per character above which an assigned value is a secret
+const ENTROPY_THRESHOLD = 3.5;
+
+// Names in a committed .env whose values are credentials
+const SECRET_ENV_NAME = /SECRET|TOKEN|PASSWORD|PASSWD|API_?KEY|ACCESS_?KEY|PRIVATE_?KEY|CREDENTIALS|_DSN$|DATABASE_URL|_URI$/;
+
+// Values that are documentation rather than secrets
+const PLACEHOLDER = /example|sample|dummy|placeholder|changeme|change_me|your[_-]|xxxx|<|\$\{|\{\{|process\.env|os\.environ|^\*+$/i;
+
+// Findings reported per file
+const MAX_ISSUES_PER_FILE = 20;
+
+const SEVERITY_ORDER: SecurityIssue['severity'][] = ['high', 'medium', 'low'];
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1);
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Keep the first four characters of a secret, enough to find it again
+ */
+export function redactSecret(secret: string): string {
+  if (secret.startsWith('-----BEGIN') || secret.includes('PRIVATE KEY')) return secret;
+  return `${secret.slice(0, 4)}${'*'.repeat(Math.min(Math.max(secret.length - 4, 4), 12))}`;
+}
+
+function lineAt(content: string, index: number): number {
+  return content.slice(0, index).split('\n').length;
+}
+
+/**
+ * Secrets in one file: the pattern rules, high-entropy values assigned to
+ * secret-looking names, and in a committed .env every credential value
+ */
+function scanFile(file: string, content: string): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+  const add = (issue: Omit<SecurityIssue, 'file'>) => {
+    if (!issues.some((other) => other.line === issue.line && other.type === issue.type)) {
+      issues.push({ file, ...issue });
+    }
+  };
+
+  for (const rule of SECRET_RULES) {
+    for (const match of content.matchAll(rule.pattern)) {
+      const secret = match[1] || match[0];
+      if (PLACEHOLDER.test(secret)) continue;
+      add({
+        severity: rule.severity,
+        type: rule.type,
+        line: lineAt(content, match.index!),
+        redacted_secret: redactSecret(secret),
+        recommendation: rule.recommendation,
+      });
+    }
+  }
+
+  for (const match of content.matchAll(ASSIGNED_VALUE)) {
+    const secret = match[3];
+    if (!SECRET_NAME.test(match[1]) || PLACEHOLDER.test(secret) || shannonEntropy(secret) < ENTROPY_THRESHOLD) continue;
+    const line = lineAt(content, match.index!);
+    // A pattern rule already named this secret
+    if (issues.some((issue) => issue.line === line)) continue;
+    add({
+      severity: 'medium',
+      type: 'High-entropy Secret',
+      line,
+      redacted_secret: redactSecret(secret),
+      recommendation: `${ROTATE}.`,
+    });
+  }
+
+  const fileName = file.split('/').pop() || '';
+  if (/^\.env/.test(fileName) && isSensitiveFile(file)) {
+    content.split('\n').forEach((text, index) => {
+      const match = text.trim().match(/^(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*['"]?([^'"#\s]+)/);
+      if (!match || !SECRET_ENV_NAME.test(match[1].toUpperCase()) || PLACEHOLDER.test(match[2]) || match[2].length < 8) return;
+      // Local development defaults are not credentials
+      if (/localhost|127\.0\.0\.1|^(postgres|password|secret|root|admin)$/i.test(match[2])) return;
+      if (issues.some((issue) => issue.line === index + 1)) return;
+      add({
+        severity: 'high',
+        type: 'Secret in Committed .env File',
+        line: index + 1,
+        redacted_secret: `${match[1]}=${redactSecret(match[2])}`,
+        recommendation: `${ROTATE}, and remove ${fileName} from git.`,
+      });
+    });
+  }
+
+  return issues.slice(0, MAX_ISSUES_PER_FILE);
+}
+
+/**
+ * Scan the fetched files for committed secrets. A committed .env file or
+ * private key is reported even when it holds nothing recognisable.
+ * @returns Issues ordered by severity, then by file and line
+ */
+export function scanForSecrets(files: Map<string, string>): SecurityIssue[] {
+  const issues: SecurityIssue[] = [];
+
+  for (const [file, content] of files) {
+    const found = scanFile(file, content);
+    if (found.length === 0 && isSensitiveFile(file)) {
+      issues.push({
+        severity: 'medium',
+        type: 'Committed Sensitive File',
+        file,
+        line: 1,
+        redacted_secret: '',
+        recommendation: `Remove ${file} from git (git rm --cached) and add it to .gitignore.`,
+      });
+    }
+    issues.push(...found);
+  }
+
+  return issues.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line
+  );
+}
+
+/**
+ * One-line summary of the scan for the progress log
+ */
+export function summarizeSecurityIssues(issues: SecurityIssue[]): string {
+  if (issues.length === 0) {
+    return 'No committed secrets found';
+  }
+  const high = issues.filter((issue) => issue.severity === 'high').length;
+  return `Found ${issues.length} potential secret${issues.length === 1 ? '' : 's'}${high > 0 ? ` (${high} high severity)` : ''}`;
+}
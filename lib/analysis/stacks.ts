@@ -0,0 +1,232 @@
+/**
+ * Polyglot stack discovery
+ * Finds the directories that hold a project of their own (a Next.js
+ * frontend, a Go API, Python workers, ...) and scores each detection
+ */
+
+import { DetectedStack, FileTreeItem, TechStack } from '../types';
+import { MANIFEST_EXTENSIONS } from './file-filter';
+
+// Manifest → language detectTechStack reads it for
+const STACK_MANIFESTS: Record<string, string> = {
+  'package.json': 'JavaScript',
+  'pyproject.toml': 'Python',
+  'requirements.txt': 'Python',
+  'Pipfile': 'Python',
+  'Gemfile': 'Ruby',
+  'go.mod': 'Go',
+  'Cargo.toml': 'Rust',
+  'pom.xml': 'Java',
+  'build.gradle': 'Java',
+  'build.gradle.kts': 'Kotlin',
+  'composer.json': 'PHP',
+  'mix.exs': 'Elixir',
+  'pubspec.yaml': 'Dart',
+  'Package.swift': 'Swift',
+};
+
+// Source file extensions per language
+const LANGUAGE_EXTENSIONS: Record<string, string[]> = {
+  JavaScript: ['.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte'],
+  TypeScript: ['.ts', '.tsx', '.mts', '.cts'],
+  Python: ['.py'],
+  Ruby: ['.rb'],
+  Go: ['.go'],
+  Rust: ['.rs'],
+  Java: ['.java'],
+  Kotlin: ['.kt'],
+  PHP: ['.php'],
+  'C#': ['.cs'],
+  'F#': ['.fs'],
+  Elixir: ['.ex', '.exs'],
+  Dart: ['.dart'],
+  Swift: ['.swift'],
+};
+
+// Lockfiles that belong to each language's package managers
+const LANGUAGE_LOCKFILES: Record<string, string[]> = {
+  JavaScript: ['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml', 'bun.lock', 'bun.lockb'],
+  Python: ['poetry.lock', 'uv.lock', 'Pipfile.lock'],
+  Ruby: ['Gemfile.lock'],
+  Go: ['go.sum'],
+  Rust: ['Cargo.lock'],
+  PHP: ['composer.lock'],
+  'C#': ['packages.lock.json'],
+  Elixir: ['mix.lock'],
+  Dart: ['pubspec.lock'],
+  Swift: ['Package.resolved'],
+};
+
+// Build tools that gather nested modules into one project: a module below a
+// root of the same family belongs to that root rather than standing alone
+const LANGUAGE_FAMILIES: Record<string, string> = {
+  Java: 'jvm',
+  Kotlin: 'jvm',
+  'C#': 'dotnet',
+  'F#': 'dotnet',
+};
+
+// Framework names detectTechStack falls back to when it recognises none
+const GENERIC_FRAMEWORKS = [
+  'Unknown',
+  'Vanilla JavaScript',
+  'Python Script',
+  'Ruby',
+  'Standard Library',
+  'Java SE',
+  'Plain PHP',
+  '.NET',
+  'OTP application',
+  'Dart',
+  'Swift Package',
+  'Kotlin/JVM',
+];
+
+// Source files needed for the full source-file share of the confidence
+const FULL_SOURCE_COUNT = 10;
+
+// Stacks below this confidence (a stray docs/requirements.txt, a tooling-only
+// package.json) are not treated as services of their own
+export const SERVICE_CONFIDENCE = 0.6;
+
+export interface StackLocation {
+  root: string; // Directory relative to the repo root ('' for the root)
+  language: string; // Passed to detectTechStack
+  manifests: string[]; // Manifest paths relative to the root
+  lockfiles: string[]; // Names of this language's lockfiles in the root
+  source_files: number; // Source files of the language owned by this root
+}
+
+function dirname(filePath: string): string {
+  return filePath.includes('/') ? filePath.slice(0, filePath.lastIndexOf('/')) : '';
+}
+
+function isUnder(filePath: string, root: string): boolean {
+  return root === '' || filePath === root || filePath.startsWith(`${root}/`);
+}
+
+function manifestLanguage(fileName: string): string | null {
+  if (fileName.endsWith('.fsproj')) return 'F#';
+  if (MANIFEST_EXTENSIONS.some((ext) => fileName.endsWith(ext))) return 'C#';
+  return STACK_MANIFESTS[fileName] || null;
+}
+
+function languageOf(filePath: string): string | null {
+  const match = Object.entries(LANGUAGE_EXTENSIONS).find(([, extensions]) =>
+    extensions.some((ext) => filePath.endsWith(ext))
+  );
+  return match ? match[0] : null;
+}
+
+/**
+ * Find every directory with a stack manifest among the fetched files, one
+ * location per (directory, language). Each source file counts towards the
+ * deepest root that contains it.
+ * @param files - Fetched file contents keyed by path
+ * @param tree - Analyzed files, for counting sources
+ * @param lockfiles - Lockfiles of the repository
+ * @param excludedRoots - Directories reported elsewhere (workspace packages)
+ */
+export function findStackLocations(
+  files: Map<string, string>,
+  tree: FileTreeItem[],
+  lockfiles: FileTreeItem[],
+  excludedRoots: string[] = []
+): StackLocation[] {
+  const locations = new Map<string, StackLocation>();
+
+  for (const filePath of Array.from(files.keys()).sort((a, b) => a.split('/').length - b.split('/').length)) {
+    const language = manifestLanguage(filePath.split('/').pop() || '');
+    const root = dirname(filePath);
+    if (!language || excludedRoots.includes(root)) continue;
+
+    // Modules of a multi-module JVM or .NET build join the enclosing project
+    const family = LANGUAGE_FAMILIES[language];
+    const parent = family
+      ? Array.from(locations.values()).find(
+          (location) => LANGUAGE_FAMILIES[location.language] === family && location.root !== root && isUnder(root, location.root)
+        )
+      : undefined;
+    const target = parent || locations.get(`${root}\0${language}`);
+
+    if (target) {
+      target.manifests.push(filePath);
+      continue;
+    }
+    locations.set(`${root}\0${language}`, {
+      root,
+      language,
+      manifests: [filePath],
+      lockfiles: [],
+      source_files: 0,
+    });
+  }
+
+  const all = Array.from(locations.values());
+  const deepestRoot = (filePath: string) =>
+    all
+      .map((location) => location.root)
+      .filter((root) => isUnder(filePath, root))
+      .sort((a, b) => b.length - a.length)[0];
+
+  for (const file of tree) {
+    const language = languageOf(file.path);
+    const root = deepestRoot(file.path);
+    if (!language || root === undefined) continue;
+
+    // TypeScript sources count for the JavaScript (package.json) stack, Kotlin
+    // sources for a Java build and vice versa
+    const owner = all.find(
+      (location) =>
+        location.root === root &&
+        (location.language === language ||
+          (location.language === 'JavaScript' && language === 'TypeScript') ||
+          (LANGUAGE_FAMILIES[location.language] !== undefined && LANGUAGE_FAMILIES[location.language] === LANGUAGE_FAMILIES[language]))
+    );
+    if (owner) owner.source_files++;
+  }
+
+  for (const location of all) {
+    const names = LANGUAGE_LOCKFILES[location.language] || [];
+    location.lockfiles = lockfiles
+      .filter((file) => dirname(file.path) === location.root && names.includes(file.path.split('/').pop() || ''))
+      .map((file) => file.path.split('/').pop() || '');
+  }
+
+  return all;
+}
+
+/**
+ * Confidence that a location is a real stack, from 0 to 1: the manifest
+ * alone gives 0.3; source files, a recognised framework, a lockfile and
+ * matching the repository language add the rest
+ */
+export function scoreStack(location: StackLocation, techStack: TechStack, primaryLanguage: string): number {
+  let score = 0.3;
+  if (location.lockfiles.length > 0) score += 0.15;
+  score += 0.3 * Math.min(location.source_files, FULL_SOURCE_COUNT) / FULL_SOURCE_COUNT;
+  if (!GENERIC_FRAMEWORKS.includes(techStack.framework)) score += 0.2;
+  if (location.language === primaryLanguage || (location.language === 'JavaScript' && primaryLanguage === 'TypeScript')) {
+    score += 0.05;
+  }
+  return Math.round(Math.min(score, 1) * 100) / 100;
+}
+
+/**
+ * What a stack detection is based on, for display
+ */
+export function describeStackSignals(location: StackLocation, techStack: TechStack): string[] {
+  return [
+    ...location.manifests.map((manifest) => (location.root ? manifest.slice(location.root.length + 1) : manifest)),
+    ...location.lockfiles,
+    ...(location.source_files > 0 ? [`${location.source_files} source file${location.source_files === 1 ? '' : 's'}`] : []),
+    ...(GENERIC_FRAMEWORKS.includes(techStack.framework) ? [] : [`framework: ${techStack.framework}`]),
+  ];
+}
+
+/**
+ * The stacks confident enough to get setup sections of their own
+ */
+export function getServiceStacks(stacks: DetectedStack[] | null | undefined): DetectedStack[] {
+  return (stacks || []).filter((stack) => stack.confidence >= SERVICE_CONFIDENCE);
+}
@@ -3,11 +3,47 @@
  */
 
 import { TechStack } from '../types';
+import { detectRuntimeVersions, runtimeForLanguage, formatRuntimeVersion } from './runtime-versions';
+import {
+  DependencyMap,
+  PyprojectManifest,
+  emptyDependencyMap,
+  parseRequirements,
+  parsePyproject,
+  parseCargoManifest,
+  parsePomXml,
+  parseGradleDependencies,
+  parseVersionCatalog,
+  parseComposerJson,
+  parseDotNetProject,
+  parseMixExs,
+  parsePubspec,
+  parsePackageSwift,
+  toTechStackDependencies,
+} from './manifests';
+
+// Lockfile → package manager, in order of precedence when several are committed
+// (a stale package-lock.json next to another lockfile is common)
+const NODE_LOCKFILES: [string, string][] = [
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm'],
+];
+
+const PYTHON_LOCKFILES: [string, string][] = [
+  ['uv.lock', 'uv'],
+  ['poetry.lock', 'Poetry'],
+  ['Pipfile.lock', 'Pipenv'],
+];
 
 /**
  * Detect JavaScript/TypeScript stack from package.json
+ * @param lockfiles - Names of the lockfiles next to package.json
  */
-export function detectJavaScriptStack(packageJson: any): Partial<TechStack> {
+export function detectJavaScriptStack(packageJson: any, lockfiles: string[] = []): Partial<TechStack> {
   const dependencies = {
     ...packageJson.dependencies,
     ...packageJson.devDependencies,
@@ -19,11 +55,14 @@ export function detectJavaScriptStack(packageJson: any): Partial<TechStack> {
     primary_language: 'JavaScript/TypeScript',
     framework: detectFramework(depKeys),
     runtime_version: packageJson.engines?.node || 'Node.js (version unspecified)',
-    package_manager: detectPackageManager(),
-    dependencies: {
-      production: Object.keys(packageJson.dependencies || {}),
-      development: Object.keys(packageJson.devDependencies || {}),
-    },
+    package_manager: detectPackageManager(packageJson, lockfiles),
+    ...toTechStackDependencies({
+      production: { ...packageJson.dependencies },
+      development: { ...packageJson.devDependencies },
+      optional: packageJson.optionalDependencies
+        ? { optionalDependencies: { ...packageJson.optionalDependencies } }
+        : {},
+    }),
     testing_framework: detectTestingFramework(depKeys),
     database: detectDatabase(depKeys),
     ui_library: detectUILibrary(depKeys),
@@ -46,13 +85,53 @@ function detectFramework(deps: string[]): string {
   return 'Vanilla JavaScript';
 }
 
+// package.json fields that pin a package manager
+interface PackageManagerFields {
+  packageManager?: unknown;
+  devEngines?: { packageManager?: { name?: unknown; version?: unknown } | { name?: unknown; version?: unknown }[] };
+  engines?: Record<string, unknown>;
+}
+
+/**
+ * Detect the Node.js package manager, as `name` or `name@version`.
+ * A corepack pin (the `packageManager` field, or `devEngines.packageManager`)
+ * wins since corepack enforces it; otherwise the lockfile decides, with the
+ * version taken from `engines` when it names the package manager.
+ */
+export function detectPackageManager(packageJson: PackageManagerFields, lockfiles: string[]): string {
+  // "pnpm@9.1.0+sha512.abc..." → pnpm, 9.1.0
+  if (typeof packageJson.packageManager === 'string') {
+    const [name, version] = packageJson.packageManager.split('+')[0].split('@');
+    if (name) return version ? `${name}@${version}` : name;
+  }
+
+  const devEngines = packageJson.devEngines?.packageManager;
+  const devEngine = Array.isArray(devEngines) ? devEngines[0] : devEngines;
+  if (typeof devEngine?.name === 'string') {
+    return typeof devEngine.version === 'string' ? `${devEngine.name}@${devEngine.version}` : devEngine.name;
+  }
+
+  const name = NODE_LOCKFILES.find(([lockfile]) => lockfiles.includes(lockfile))?.[1] || 'npm';
+  const version = packageJson.engines?.[name];
+  return typeof version === 'string' ? `${name}@${version}` : name;
+}
+
 /**
- * Detect package manager (check for lockfiles)
+ * Detect the Python package manager from lockfiles, then manifests
  */
-function detectPackageManager(): string {
-  // This would need to check for lockfiles in the actual implementation
-  // For now, return npm as default
-  return 'npm';
+function detectPythonPackageManager(
+  lockfiles: string[],
+  hasPipfile: boolean,
+  pyproject?: PyprojectManifest
+): string {
+  const locked = PYTHON_LOCKFILES.find(([lockfile]) => lockfiles.includes(lockfile));
+  if (locked) return locked[1];
+  if (hasPipfile) return 'Pipenv';
+  if (pyproject?.tool === 'poetry') return 'Poetry';
+  if (pyproject?.tool === 'uv') return 'uv';
+  if (pyproject?.tool === 'pdm') return 'PDM';
+  if (pyproject?.tool === 'hatch') return 'Hatch';
+  return 'pip';
 }
 
 /**
@@ -95,43 +174,33 @@ function detectUILibrary(deps: string[]): string | null {
 }
 
 /**
- * Detect Python stack from requirements.txt or pyproject.toml
+ * Detect Python stack from requirements.txt and a parsed pyproject.toml
  */
 export function detectPythonStack(
   requirementsTxt?: string,
-  pyprojectToml?: any
+  pyproject?: PyprojectManifest,
+  lockfiles: string[] = [],
+  hasPipfile = false
 ): Partial<TechStack> {
-  const dependencies = requirementsTxt
-    ? parseRequirementsTxt(requirementsTxt)
-    : [];
+  const dependencyMap: DependencyMap = pyproject?.dependencies || emptyDependencyMap();
+  if (requirementsTxt) {
+    dependencyMap.production = { ...parseRequirements(requirementsTxt), ...dependencyMap.production };
+  }
+  const fields = toTechStackDependencies(dependencyMap);
+  const allDeps = [...fields.dependencies.production, ...fields.dependencies.development];
 
   return {
     primary_language: 'Python',
-    framework: detectPythonFramework(dependencies),
-    runtime_version:
-      pyprojectToml?.tool?.poetry?.dependencies?.python || 'Python 3.x',
-    package_manager: pyprojectToml ? 'Poetry' : 'pip',
-    dependencies: {
-      production: dependencies,
-      development: [],
-    },
-    testing_framework: detectPythonTesting(dependencies),
-    database: detectPythonDatabase(dependencies),
+    framework: detectPythonFramework(fields.dependencies.production),
+    runtime_version: pyproject?.requires_python ? `Python ${pyproject.requires_python}` : 'Python 3.x',
+    package_manager: detectPythonPackageManager(lockfiles, hasPipfile, pyproject),
+    ...fields,
+    testing_framework: detectPythonTesting(allDeps),
+    database: detectPythonDatabase(fields.dependencies.production),
     ui_library: null,
   };
 }
 
-/**
- * Parse requirements.txt file
- */
-function parseRequirementsTxt(content: string): string[] {
-  return content
-    .split('\n')
-    .map((line) => line.trim())
-    .filter((line) => line && !line.startsWith('#'))
-    .map((line) => line.split('==')[0].split('>=')[0].split('<=')[0].trim());
-}
-
 /**
  * Detect Python framework
  */
@@ -158,7 +227,7 @@ function detectPythonTesting(deps: string[]): string | null {
  * Detect Python database
  */
 function detectPythonDatabase(deps: string[]): string | null {
-  if (deps.includes('psycopg2') || deps.includes('psycopg2-binary'))
+  if (deps.includes('psycopg') || deps.includes('psycopg2') || deps.includes('psycopg2-binary'))
     return 'PostgreSQL';
   if (deps.includes('pymysql') || deps.includes('mysqlclient')) return 'MySQL';
   if (deps.includes('pymongo')) return 'MongoDB';
@@ -290,37 +359,26 @@ function detectGoDatabase(deps: string[]): string | null {
 
 /**
  * Detect Rust stack from Cargo.toml
+ * @throws Error when Cargo.toml is not valid TOML
  */
 export function detectRustStack(cargoTomlContent: string): Partial<TechStack> {
-  const dependencies = parseCargoToml(cargoTomlContent);
-  
+  const manifest = parseCargoManifest(cargoTomlContent);
+  const fields = toTechStackDependencies(manifest.dependencies);
+
   return {
     primary_language: 'Rust',
-    framework: detectRustFramework(dependencies),
-    runtime_version: 'Rust (check with rustc --version)',
+    framework: detectRustFramework(fields.dependencies.production),
+    runtime_version: manifest.rust_version
+      ? `Rust ${manifest.rust_version}+`
+      : 'Rust (check with rustc --version)',
     package_manager: 'Cargo',
-    dependencies: {
-      production: dependencies,
-      development: [],
-    },
+    ...fields,
     testing_framework: 'cargo test (built-in)',
-    database: detectRustDatabase(dependencies),
+    database: detectRustDatabase(fields.dependencies.production),
     ui_library: null,
   };
 }
 
-function parseCargoToml(content: string): string[] {
-  const depPattern = /^\s*([a-zA-Z0-9_-]+)\s*=/gm;
-  const deps: string[] = [];
-  let match;
-  
-  while ((match = depPattern.exec(content)) !== null) {
-    deps.push(match[1]);
-  }
-  
-  return deps;
-}
-
 function detectRustFramework(deps: string[]): string {
   if (deps.includes('actix-web')) return 'Actix Web';
   if (deps.includes('rocket')) return 'Rocket';
@@ -342,52 +400,37 @@ function detectRustDatabase(deps: string[]): string | null {
 
 /**
  * Detect Java stack from pom.xml or build.gradle
+ * Dependencies are keyed `groupId:artifactId`
+ * @param versionCatalog - gradle/libs.versions.toml, for `libs.*` references
+ * @throws Error when pom.xml or the version catalog is invalid
  */
-export function detectJavaStack(buildFileContent: string, fileType: 'maven' | 'gradle'): Partial<TechStack> {
-  const dependencies = fileType === 'maven' 
-    ? parseMavenDependencies(buildFileContent)
-    : parseGradleDependencies(buildFileContent);
-  
+export function detectJavaStack(
+  buildFileContent: string,
+  fileType: 'maven' | 'gradle',
+  versionCatalog?: string
+): Partial<TechStack> {
+  const maven = fileType === 'maven' ? parsePomXml(buildFileContent) : null;
+  const fields = toTechStackDependencies(
+    maven
+      ? maven.dependencies
+      : parseGradleDependencies(buildFileContent, versionCatalog ? parseVersionCatalog(versionCatalog) : {})
+  );
+  const allDeps = [...fields.dependencies.production, ...fields.dependencies.development];
+
   return {
     primary_language: 'Java',
-    framework: detectJavaFramework(dependencies),
-    runtime_version: 'Java (check with java -version)',
+    framework: detectJavaFramework(fields.dependencies.production),
+    runtime_version: maven?.java_version
+      ? `Java ${maven.java_version}`
+      : 'Java (check with java -version)',
     package_manager: fileType === 'maven' ? 'Maven' : 'Gradle',
-    dependencies: {
-      production: dependencies,
-      development: [],
-    },
-    testing_framework: detectJavaTesting(dependencies),
-    database: detectJavaDatabase(dependencies),
+    ...fields,
+    testing_framework: detectJavaTesting(allDeps),
+    database: detectJavaDatabase(fields.dependencies.production),
     ui_library: null,
   };
 }
 
-function parseMavenDependencies(content: string): string[] {
-  const artifactPattern = /<artifactId>([^<]+)<\/artifactId>/g;
-  const deps: string[] = [];
-  let match;
-  
-  while ((match = artifactPattern.exec(content)) !== null) {
-    deps.push(match[1]);
-  }
-  
-  return deps;
-}
-
-function parseGradleDependencies(content: string): string[] {
-  const depPattern = /implementation\s+['"]([^'"]+)['"]/g;
-  const deps: string[] = [];
-  let match;
-  
-  while ((match = depPattern.exec(content)) !== null) {
-    const parts = match[1].split(':');
-    deps.push(parts[parts.length - 1]);
-  }
-  
-  return deps;
-}
-
 function detectJavaFramework(deps: string[]): string {
   if (deps.some(d => d.includes('spring-boot'))) return 'Spring Boot';
   if (deps.some(d => d.includes('quarkus'))) return 'Quarkus';
@@ -412,12 +455,347 @@ function detectJavaDatabase(deps: string[]): string | null {
   return null;
 }
 
+/**
+ * Detect PHP stack from composer.json
+ * @throws Error when composer.json is not valid JSON
+ */
+export function detectPhpStack(composerJsonContent: string): Partial<TechStack> {
+  const manifest = parseComposerJson(composerJsonContent);
+  const fields = toTechStackDependencies(manifest.dependencies);
+  const allDeps = [...fields.dependencies.production, ...fields.dependencies.development];
+
+  return {
+    primary_language: 'PHP',
+    framework: detectPhpFramework(fields.dependencies.production),
+    runtime_version: manifest.php_version ? `PHP ${manifest.php_version}` : 'PHP (check with php -v)',
+    package_manager: 'Composer',
+    ...fields,
+    testing_framework: detectPhpTesting(allDeps),
+    database: detectPhpDatabase(fields.dependencies.production),
+    ui_library: fields.dependencies.production.includes('livewire/livewire') ? 'Livewire' : null,
+  };
+}
+
+function detectPhpFramework(deps: string[]): string {
+  if (deps.includes('laravel/framework') || deps.includes('laravel/lumen-framework')) return 'Laravel';
+  if (deps.includes('symfony/framework-bundle') || deps.includes('symfony/symfony')) return 'Symfony';
+  if (deps.includes('slim/slim')) return 'Slim';
+  if (deps.includes('cakephp/cakephp')) return 'CakePHP';
+  if (deps.includes('yiisoft/yii2')) return 'Yii';
+  if (deps.some(d => d.startsWith('laminas/laminas-mvc'))) return 'Laminas';
+  return 'Plain PHP';
+}
+
+function detectPhpTesting(deps: string[]): string | null {
+  if (deps.includes('pestphp/pest')) return 'Pest';
+  if (deps.includes('phpunit/phpunit')) return 'PHPUnit';
+  if (deps.includes('codeception/codeception')) return 'Codeception';
+  return null;
+}
+
+function detectPhpDatabase(deps: string[]): string | null {
+  if (deps.includes('ext-pgsql') || deps.includes('ext-pdo_pgsql')) return 'PostgreSQL';
+  if (deps.includes('ext-mysqli') || deps.includes('ext-pdo_mysql')) return 'MySQL';
+  if (deps.includes('mongodb/mongodb') || deps.includes('ext-mongodb')) return 'MongoDB';
+  if (deps.includes('ext-pdo_sqlite') || deps.includes('ext-sqlite3')) return 'SQLite';
+  if (deps.includes('predis/predis') || deps.includes('ext-redis')) return 'Redis';
+  if (deps.includes('doctrine/orm')) return 'Doctrine (ORM)';
+  return null;
+}
+
+/**
+ * Detect .NET stack from the project files (.csproj/.fsproj) of a solution.
+ * Test projects contribute development dependencies and the test framework.
+ * @throws Error when a project file is not well-formed XML
+ */
+export function detectDotNetStack(projectFiles: string[], primaryLanguage: string = 'C#'): Partial<TechStack> {
+  const projects = projectFiles.map(parseDotNetProject);
+  const merged = emptyDependencyMap();
+  for (const project of projects) {
+    Object.assign(merged.production, project.dependencies.production);
+    Object.assign(merged.development, project.dependencies.development);
+  }
+  const fields = toTechStackDependencies(merged);
+  const allDeps = [...fields.dependencies.production, ...fields.dependencies.development];
+  const targetFramework = projects.flatMap((project) => project.target_frameworks)[0];
+
+  return {
+    primary_language: primaryLanguage,
+    framework: detectDotNetFramework(projects.map((project) => project.sdk), fields.dependencies.production),
+    runtime_version: targetFramework
+      ? `.NET ${formatTargetFramework(targetFramework)}`
+      : '.NET (check with dotnet --version)',
+    package_manager: 'NuGet (dotnet CLI)',
+    ...fields,
+    testing_framework: detectDotNetTesting(allDeps),
+    database: detectDotNetDatabase(fields.dependencies.production),
+    ui_library: null,
+  };
+}
+
+/**
+ * "net8.0" → "8.0", "netcoreapp3.1" → "Core 3.1", "net48" → "Framework 4.8"
+ */
+function formatTargetFramework(targetFramework: string): string {
+  const modern = targetFramework.match(/^net(\d+\.\d+)/);
+  if (modern) return modern[1];
+  const core = targetFramework.match(/^netcoreapp(\d+\.\d+)/);
+  if (core) return `Core ${core[1]}`;
+  const framework = targetFramework.match(/^net(\d)(\d+)$/);
+  if (framework) return `Framework ${framework[1]}.${framework[2].split('').join('.')}`;
+  return targetFramework;
+}
+
+function detectDotNetFramework(sdks: (string | null)[], deps: string[]): string {
+  if (sdks.includes('Microsoft.NET.Sdk.BlazorWebAssembly')) return 'Blazor WebAssembly';
+  if (sdks.includes('Microsoft.NET.Sdk.Web') || deps.some(d => d.startsWith('Microsoft.AspNetCore.'))) return 'ASP.NET Core';
+  if (sdks.includes('Microsoft.NET.Sdk.Worker')) return '.NET Worker Service';
+  if (deps.includes('Microsoft.Maui.Controls')) return '.NET MAUI';
+  if (deps.includes('Avalonia')) return 'Avalonia';
+  return '.NET';
+}
+
+function detectDotNetTesting(deps: string[]): string | null {
+  if (deps.includes('xunit') || deps.includes('xunit.v3')) return 'xUnit';
+  if (deps.includes('NUnit')) return 'NUnit';
+  if (deps.includes('MSTest.TestFramework') || deps.includes('MSTest')) return 'MSTest';
+  return null;
+}
+
+function detectDotNetDatabase(deps: string[]): string | null {
+  if (deps.some(d => d.startsWith('Npgsql'))) return 'PostgreSQL';
+  if (deps.some(d => d.startsWith('Pomelo.EntityFrameworkCore.MySql') || d.startsWith('MySql.') || d === 'MySqlConnector')) return 'MySQL';
+  if (deps.includes('Microsoft.EntityFrameworkCore.SqlServer') || deps.includes('Microsoft.Data.SqlClient')) return 'SQL Server';
+  if (deps.includes('MongoDB.Driver')) return 'MongoDB';
+  if (deps.some(d => d.includes('Sqlite'))) return 'SQLite';
+  if (deps.includes('StackExchange.Redis')) return 'Redis';
+  if (deps.includes('Microsoft.EntityFrameworkCore')) return 'Entity Framework Core (ORM)';
+  return null;
+}
+
+/**
+ * Detect Elixir stack from mix.exs
+ */
+export function detectElixirStack(mixExsContent: string): Partial<TechStack> {
+  const project = parseMixExs(mixExsContent);
+  const fields = toTechStackDependencies(project.dependencies);
+  const deps = fields.dependencies.production;
+
+  return {
+    primary_language: 'Elixir',
+    framework: detectElixirFramework(deps),
+    runtime_version: project.elixir_version
+      ? `Elixir ${project.elixir_version}`
+      : 'Elixir (check with elixir --version)',
+    package_manager: 'Mix (Hex)',
+    ...fields,
+    testing_framework: 'ExUnit (built-in)',
+    database: detectElixirDatabase(deps),
+    ui_library: deps.includes('phoenix_live_view') ? 'Phoenix LiveView' : null,
+  };
+}
+
+function detectElixirFramework(deps: string[]): string {
+  if (deps.includes('phoenix')) return 'Phoenix';
+  if (deps.includes('nerves')) return 'Nerves';
+  if (deps.includes('plug_cowboy') || deps.includes('bandit')) return 'Plug';
+  return 'OTP application';
+}
+
+function detectElixirDatabase(deps: string[]): string | null {
+  if (deps.includes('postgrex')) return 'PostgreSQL';
+  if (deps.includes('myxql')) return 'MySQL';
+  if (deps.includes('ecto_sqlite3')) return 'SQLite';
+  if (deps.includes('mongodb_driver')) return 'MongoDB';
+  if (deps.includes('redix')) return 'Redis';
+  if (deps.includes('ecto_sql') || deps.includes('ecto')) return 'Ecto (ORM)';
+  return null;
+}
+
+/**
+ * Detect Dart/Flutter stack from pubspec.yaml
+ * @throws Error when pubspec.yaml is not valid YAML
+ */
+export function detectDartStack(pubspecContent: string): Partial<TechStack> {
+  const manifest = parsePubspec(pubspecContent);
+  const fields = toTechStackDependencies(manifest.dependencies);
+  const deps = fields.dependencies.production;
+  const allDeps = [...deps, ...fields.dependencies.development];
+  const isFlutter = deps.includes('flutter');
+
+  return {
+    primary_language: 'Dart',
+    framework: detectDartFramework(deps),
+    runtime_version: isFlutter && manifest.flutter_version
+      ? `Flutter ${manifest.flutter_version}`
+      : manifest.sdk_version
+        ? `Dart ${manifest.sdk_version}`
+        : 'Dart (check with dart --version)',
+    package_manager: isFlutter ? 'flutter pub' : 'dart pub',
+    ...fields,
+    testing_framework: detectDartTesting(allDeps),
+    database: detectDartDatabase(deps),
+    ui_library: isFlutter ? 'Flutter widgets' : null,
+  };
+}
+
+function detectDartFramework(deps: string[]): string {
+  if (deps.includes('flutter')) return 'Flutter';
+  if (deps.includes('dart_frog')) return 'Dart Frog';
+  if (deps.includes('serverpod')) return 'Serverpod';
+  if (deps.includes('shelf')) return 'Shelf';
+  return 'Dart';
+}
+
+function detectDartTesting(deps: string[]): string | null {
+  if (deps.includes('flutter_test')) return 'flutter_test';
+  if (deps.includes('test')) return 'package:test';
+  return null;
+}
+
+function detectDartDatabase(deps: string[]): string | null {
+  if (deps.includes('postgres')) return 'PostgreSQL';
+  if (deps.includes('mysql_client') || deps.includes('mysql1')) return 'MySQL';
+  if (deps.includes('mongo_dart')) return 'MongoDB';
+  if (deps.includes('cloud_firestore')) return 'Firestore';
+  if (deps.includes('sqflite') || deps.includes('drift') || deps.includes('sqlite3')) return 'SQLite';
+  if (deps.includes('redis')) return 'Redis';
+  if (deps.includes('hive') || deps.includes('isar')) return 'Embedded NoSQL store';
+  return null;
+}
+
+/**
+ * Detect Swift stack from Package.swift
+ * Dependencies are named after their repository (vapor, fluent-postgres-driver)
+ */
+export function detectSwiftStack(packageSwiftContent: string): Partial<TechStack> {
+  const manifest = parsePackageSwift(packageSwiftContent);
+  const fields = toTechStackDependencies(manifest.dependencies);
+  const deps = fields.dependencies.production;
+
+  return {
+    primary_language: 'Swift',
+    framework: detectSwiftFramework(deps),
+    runtime_version: manifest.tools_version
+      ? `Swift ${manifest.tools_version}+`
+      : 'Swift (check with swift --version)',
+    package_manager: 'Swift Package Manager',
+    ...fields,
+    testing_framework: deps.includes('swift-testing')
+      ? 'Swift Testing'
+      : manifest.has_test_targets
+        ? 'XCTest'
+        : null,
+    database: detectSwiftDatabase(deps),
+    ui_library: null,
+  };
+}
+
+function detectSwiftFramework(deps: string[]): string {
+  if (deps.includes('vapor')) return 'Vapor';
+  if (deps.includes('hummingbird')) return 'Hummingbird';
+  if (deps.includes('Kitura')) return 'Kitura';
+  return 'Swift Package';
+}
+
+function detectSwiftDatabase(deps: string[]): string | null {
+  if (deps.includes('fluent-postgres-driver') || deps.includes('postgres-nio') || deps.includes('postgres-kit')) return 'PostgreSQL';
+  if (deps.includes('fluent-mysql-driver') || deps.includes('mysql-nio')) return 'MySQL';
+  if (deps.includes('fluent-mongo-driver') || deps.includes('MongoKitten')) return 'MongoDB';
+  if (deps.includes('fluent-sqlite-driver') || deps.includes('GRDB.swift') || deps.includes('SQLite.swift')) return 'SQLite';
+  if (deps.includes('redis') || deps.includes('RediStack')) return 'Redis';
+  if (deps.includes('fluent')) return 'Fluent (ORM)';
+  return null;
+}
+
+/**
+ * Detect Kotlin stack from Gradle Kotlin scripts
+ * Dependencies are keyed `groupId:artifactId`
+ * @param buildScripts - build.gradle.kts of the root and its modules
+ * @param versionCatalog - gradle/libs.versions.toml, for `libs.*` references
+ * @throws Error when the version catalog is not valid TOML
+ */
+export function detectKotlinStack(buildScripts: string[], versionCatalog?: string): Partial<TechStack> {
+  const catalog = versionCatalog ? parseVersionCatalog(versionCatalog) : {};
+  const merged = emptyDependencyMap();
+  for (const script of buildScripts) {
+    const dependencies = parseGradleDependencies(script, catalog);
+    Object.assign(merged.production, dependencies.production);
+    Object.assign(merged.development, dependencies.development);
+  }
+  const fields = toTechStackDependencies(merged);
+  const deps = fields.dependencies.production;
+  const allDeps = [...deps, ...fields.dependencies.development];
+
+  const scripts = buildScripts.join('\n');
+  const kotlinVersion =
+    scripts.match(/kotlin\(\s*"[\w.]+"\s*\)\s*version\s*"([^"]+)"/)?.[1] ||
+    scripts.match(/id\(\s*"org\.jetbrains\.kotlin\.[\w.]+"\s*\)\s*version\s*"([^"]+)"/)?.[1];
+  const jvmVersion =
+    scripts.match(/jvmToolchain\(\s*(\d+)\s*\)/)?.[1] ||
+    scripts.match(/JavaLanguageVersion\.of\(\s*(\d+)\s*\)/)?.[1];
+  const isAndroid = /id\(\s*"com\.android\.(application|library)"\s*\)|alias\(\s*libs\.plugins\.android\./.test(scripts);
+
+  return {
+    primary_language: 'Kotlin',
+    framework: detectKotlinFramework(deps, isAndroid),
+    runtime_version: [
+      kotlinVersion ? `Kotlin ${kotlinVersion}` : 'Kotlin (version set by the Gradle plugin)',
+      jvmVersion ? `JVM ${jvmVersion}` : null,
+    ].filter(Boolean).join(', '),
+    package_manager: 'Gradle',
+    ...fields,
+    testing_framework: detectKotlinTesting(allDeps),
+    database: detectKotlinDatabase(deps),
+    ui_library: deps.some(d => d.startsWith('androidx.compose') || d.startsWith('org.jetbrains.compose'))
+      ? 'Jetpack Compose'
+      : null,
+  };
+}
+
+function detectKotlinFramework(deps: string[], isAndroid: boolean): string {
+  if (deps.some(d => d.startsWith('io.ktor:ktor-server'))) return 'Ktor';
+  if (isAndroid) return 'Android';
+  if (deps.some(d => d.includes('spring-boot'))) return 'Spring Boot';
+  if (deps.some(d => d.includes('micronaut'))) return 'Micronaut';
+  if (deps.some(d => d.includes('quarkus'))) return 'Quarkus';
+  return 'Kotlin/JVM';
+}
+
+function detectKotlinTesting(deps: string[]): string | null {
+  if (deps.some(d => d.startsWith('io.kotest:'))) return 'Kotest';
+  if (deps.some(d => d.includes('junit'))) return 'JUnit';
+  if (deps.some(d => d.includes('kotlin-test'))) return 'kotlin.test';
+  return null;
+}
+
+function detectKotlinDatabase(deps: string[]): string | null {
+  return (
+    detectJavaDatabase(deps) ||
+    (deps.some(d => d.startsWith('org.jetbrains.exposed:')) ? 'Exposed (ORM)' : null) ||
+    (deps.some(d => d.startsWith('androidx.room:')) ? 'SQLite (Room)' : null)
+  );
+}
+
+/**
+ * Contents of every fetched file whose name passes the test, root first
+ */
+function filesNamed(files: Map<string, string>, test: (fileName: string) => boolean): string[] {
+  return Array.from(files)
+    .filter(([filePath]) => test(filePath.split('/').pop() || ''))
+    .sort(([a], [b]) => a.split('/').length - b.split('/').length)
+    .map(([, content]) => content);
+}
+
 /**
  * Main tech stack detection function
+ * @param files - File contents keyed by path; manifests are read from the root
+ * @param lockfiles - Names of the lockfiles at the same root
  */
 export async function detectTechStack(
   files: Map<string, string>,
-  primaryLanguage: string
+  primaryLanguage: string,
+  lockfiles: string[] = []
 ): Promise<TechStack> {
   let partialStack: Partial<TechStack> = {};
 
@@ -427,7 +805,7 @@ export async function detectTechStack(
     if (packageJsonContent) {
       try {
         const packageJson = JSON.parse(packageJsonContent);
-        partialStack = detectJavaScriptStack(packageJson);
+        partialStack = detectJavaScriptStack(packageJson, lockfiles);
       } catch (error) {
         console.error('Failed to parse package.json:', error);
       }
@@ -439,13 +817,13 @@ export async function detectTechStack(
 
     if (pyprojectToml) {
       try {
-        pyprojectData = undefined;
+        pyprojectData = parsePyproject(pyprojectToml);
       } catch (error) {
         console.error('Failed to parse pyproject.toml:', error);
       }
     }
 
-    partialStack = detectPythonStack(requirementsTxt, pyprojectData);
+    partialStack = detectPythonStack(requirementsTxt, pyprojectData, lockfiles, files.has('Pipfile'));
   } else if (primaryLanguage === 'Ruby') {
     const gemfile = files.get('Gemfile');
     if (gemfile) {
@@ -459,28 +837,90 @@ export async function detectTechStack(
   } else if (primaryLanguage === 'Rust') {
     const cargoToml = files.get('Cargo.toml');
     if (cargoToml) {
-      partialStack = detectRustStack(cargoToml);
+      try {
+        partialStack = detectRustStack(cargoToml);
+      } catch (error) {
+        console.error('Failed to parse Cargo.toml:', error);
+      }
     }
   } else if (primaryLanguage === 'Java') {
     const pomXml = files.get('pom.xml');
     const buildGradle = files.get('build.gradle') || files.get('build.gradle.kts');
     
-    if (pomXml) {
-      partialStack = detectJavaStack(pomXml, 'maven');
-    } else if (buildGradle) {
-      partialStack = detectJavaStack(buildGradle, 'gradle');
+    try {
+      if (pomXml) {
+        partialStack = detectJavaStack(pomXml, 'maven');
+      } else if (buildGradle) {
+        partialStack = detectJavaStack(buildGradle, 'gradle', files.get('gradle/libs.versions.toml'));
+      }
+    } catch (error) {
+      console.error('Failed to parse pom.xml:', error);
+    }
+  } else if (primaryLanguage === 'Kotlin') {
+    const buildScripts = filesNamed(files, (name) => name === 'build.gradle.kts' || name === 'build.gradle');
+    if (buildScripts.length > 0) {
+      try {
+        partialStack = detectKotlinStack(buildScripts, files.get('gradle/libs.versions.toml'));
+      } catch (error) {
+        console.error('Failed to parse gradle/libs.versions.toml:', error);
+      }
+    }
+  } else if (primaryLanguage === 'PHP') {
+    const composerJson = files.get('composer.json');
+    if (composerJson) {
+      try {
+        partialStack = detectPhpStack(composerJson);
+      } catch (error) {
+        console.error('Failed to parse composer.json:', error);
+      }
+    }
+  } else if (primaryLanguage === 'C#' || primaryLanguage === 'F#') {
+    const projectFiles = filesNamed(files, (name) => name.endsWith('.csproj') || name.endsWith('.fsproj'));
+    if (projectFiles.length > 0) {
+      try {
+        partialStack = detectDotNetStack(projectFiles, primaryLanguage);
+      } catch (error) {
+        console.error('Failed to parse .NET project file:', error);
+      }
+    }
+  } else if (primaryLanguage === 'Elixir') {
+    const mixExs = files.get('mix.exs');
+    if (mixExs) {
+      partialStack = detectElixirStack(mixExs);
+    }
+  } else if (primaryLanguage === 'Dart') {
+    const pubspec = files.get('pubspec.yaml');
+    if (pubspec) {
+      try {
+        partialStack = detectDartStack(pubspec);
+      } catch (error) {
+        console.error('Failed to parse pubspec.yaml:', error);
+      }
+    }
+  } else if (primaryLanguage === 'Swift') {
+    const packageSwift = files.get('Package.swift');
+    if (packageSwift) {
+      partialStack = detectSwiftStack(packageSwift);
     }
   }
 
+  // Version files take over from the manifest-only guess for the main runtime
+  const runtimeVersions = detectRuntimeVersions(files);
+  const mainRuntime = runtimeVersions.find((entry) => entry.runtime === runtimeForLanguage(primaryLanguage));
+
   // Fill in defaults for missing fields
   return {
     primary_language: partialStack.primary_language || primaryLanguage,
     framework: partialStack.framework || 'Unknown',
-    runtime_version: partialStack.runtime_version || 'Unknown',
+    runtime_version: mainRuntime
+      ? formatRuntimeVersion(mainRuntime)
+      : partialStack.runtime_version || 'Unknown',
     package_manager: partialStack.package_manager || 'Unknown',
     dependencies: partialStack.dependencies || { production: [], development: [] },
+    dependency_versions: partialStack.dependency_versions || {},
     testing_framework: partialStack.testing_framework || null,
     database: partialStack.database || null,
     ui_library: partialStack.ui_library || null,
+    runtime_versions: runtimeVersions,
   };
 }
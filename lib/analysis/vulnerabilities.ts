@@ -0,0 +1,183 @@
+/**
+ * Offline vulnerability check
+ * Matches lockfile-resolved versions against the OSV advisory snapshot in
+ * lib/data/osv-advisories.json. Nothing is fetched during analysis; refresh
+ * the snapshot with `npm run refresh-advisories`. The snapshot covers the
+ * seed list in scripts/advisory-packages.json rather than all of OSV, so
+ * other packages are not checked.
+ * The snapshot shipped in the repository is a hand-written stub with a few
+ * well-known advisories and a placeholder generated_at, so the check finds
+ * almost nothing until the snapshot has been refreshed.
+ */
+
+import { VulnerabilityFinding, VulnerabilitySeverity } from '../types';
+import { LockedPackage, compareVersions } from './lockfiles';
+import snapshot from '../data/osv-advisories.json';
+
+// The subset of the OSV schema the snapshot keeps
+export interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+}
+
+export interface OsvAdvisory {
+  id: string;
+  aliases?: string[];
+  summary?: string;
+  affected: {
+    package: { ecosystem: string; name: string };
+    ranges?: { type: string; events: OsvEvent[] }[];
+    versions?: string[];
+  }[];
+  database_specific?: { severity?: string };
+  references?: { type: string; url: string }[];
+}
+
+export interface AdvisorySnapshot {
+  generated_at: string;
+  source: string;
+  vulns: OsvAdvisory[];
+}
+
+// GitHub advisory severities as OSV records them
+const SEVERITY_LABELS: Record<string, VulnerabilitySeverity> = {
+  CRITICAL: 'critical',
+  HIGH: 'high',
+  MODERATE: 'medium',
+  MEDIUM: 'medium',
+  LOW: 'low',
+};
+
+export const SEVERITY_ORDER: VulnerabilitySeverity[] = ['critical', 'high', 'medium', 'low'];
+
+/**
+ * Registry names compare case-insensitively in PyPI (where -, _ and . are
+ * also equivalent), NuGet and Packagist
+ */
+function normalizePackageName(ecosystem: string, name: string): string {
+  if (ecosystem === 'PyPI') return name.toLowerCase().replace(/[-_.]+/g, '-');
+  if (ecosystem === 'NuGet' || ecosystem === 'Packagist') return name.toLowerCase();
+  return name;
+}
+
+/**
+ * Whether a version falls in an OSV range: walking the events in version
+ * order, `introduced` opens the range and `fixed` or `last_affected` closes it
+ */
+function inRange(version: string, events: OsvEvent[]): boolean {
+  const boundary = (event: OsvEvent) => event.introduced ?? event.fixed ?? event.last_affected ?? '0';
+  const ordered = [...events].sort((a, b) => compareVersions(boundary(a), boundary(b)));
+
+  let affected = false;
+  for (const event of ordered) {
+    if (event.introduced !== undefined && compareVersions(version, event.introduced) >= 0) affected = true;
+    else if (event.fixed !== undefined && compareVersions(version, event.fixed) >= 0) affected = false;
+    else if (event.last_affected !== undefined && compareVersions(version, event.last_affected) > 0) affected = false;
+  }
+  return affected;
+}
+
+/**
+ * Index the snapshot by ecosystem and package name
+ */
+function indexAdvisories(advisories: OsvAdvisory[]): Map<string, OsvAdvisory[]> {
+  const index = new Map<string, OsvAdvisory[]>();
+  for (const advisory of advisories) {
+    for (const { package: pkg } of advisory.affected) {
+      const key = `${pkg.ecosystem}\0${normalizePackageName(pkg.ecosystem, pkg.name)}`;
+      const entries = index.get(key) || [];
+      if (!entries.includes(advisory)) entries.push(advisory);
+      index.set(key, entries);
+    }
+  }
+  return index;
+}
+
+/**
+ * Match locked packages against the advisories
+ * @param directDependencies - Names declared in the project's manifests
+ * @param advisories - Defaults to the bundled snapshot
+ * @returns Findings, most severe first; direct dependencies before transitive ones
+ */
+export function findVulnerabilities(
+  packages: LockedPackage[],
+  directDependencies: string[] = [],
+  advisories: OsvAdvisory[] = (snapshot as AdvisorySnapshot).vulns
+): VulnerabilityFinding[] {
+  const index = indexAdvisories(advisories);
+  const findings: VulnerabilityFinding[] = [];
+
+  for (const pkg of packages) {
+    const name = normalizePackageName(pkg.ecosystem, pkg.name);
+    for (const advisory of index.get(`${pkg.ecosystem}\0${name}`) || []) {
+      const affected = advisory.affected.filter(
+        (entry) => entry.package.ecosystem === pkg.ecosystem && normalizePackageName(entry.package.ecosystem, entry.package.name) === name
+      );
+      const ranges = affected.flatMap((entry) => (entry.ranges || []).filter((range) => range.type !== 'GIT'));
+      const isAffected =
+        affected.some((entry) => entry.versions?.includes(pkg.version)) ||
+        ranges.some((range) => inRange(pkg.version, range.events));
+      if (!isAffected) continue;
+
+      const duplicate = findings.some(
+        (finding) => finding.advisory_id === advisory.id && finding.package === pkg.name && finding.version === pkg.version
+      );
+      if (duplicate) continue;
+
+      findings.push({
+        advisory_id: advisory.id,
+        aliases: advisory.aliases || [],
+        summary: advisory.summary || advisory.id,
+        severity: SEVERITY_LABELS[(advisory.database_specific?.severity || '').toUpperCase()] || 'medium',
+        ecosystem: pkg.ecosystem,
+        package: pkg.name,
+        version: pkg.version,
+        fixed_versions: ranges.flatMap((range) => range.events.flatMap((event) => (event.fixed ? [event.fixed] : []))),
+        lockfile: pkg.lockfile,
+        direct: directDependencies.some((dependency) => normalizePackageName(pkg.ecosystem, dependency) === name),
+        dev: pkg.dev,
+        url: advisory.references?.find((reference) => reference.type === 'ADVISORY')?.url || advisory.references?.[0]?.url || null,
+      });
+    }
+  }
+
+  return findings.sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      Number(b.direct) - Number(a.direct) ||
+      a.package.localeCompare(b.package)
+  );
+}
+
+/**
+ * The release to upgrade to: the lowest fix at or above the installed
+ * version, so the upgrade stays on the installed major line where possible
+ */
+export function recommendedFix(finding: VulnerabilityFinding): string | null {
+  const fixes = finding.fixed_versions
+    .filter((fixed) => compareVersions(fixed, finding.version) > 0)
+    .sort(compareVersions);
+  return fixes[0] || null;
+}
+
+/**
+ * Date of the bundled snapshot, for messages
+ */
+export function getAdvisorySnapshotDate(): string {
+  return (snapshot as AdvisorySnapshot).generated_at;
+}
+
+/**
+ * One-line summary for progress messages
+ */
+export function summarizeVulnerabilities(findings: VulnerabilityFinding[]): string {
+  if (findings.length === 0) {
+    return 'no known vulnerable dependencies';
+  }
+  const counts = SEVERITY_ORDER.map((severity) => [severity, findings.filter((finding) => finding.severity === severity).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([severity, count]) => `${count} ${severity}`);
+  const packages = new Set(findings.map((finding) => `${finding.ecosystem}:${finding.package}`)).size;
+  return `${findings.length} known vulnerabilit${findings.length === 1 ? 'y' : 'ies'} in ${packages} package${packages === 1 ? '' : 's'} (${counts.join(', ')})`;
+}
@@ -0,0 +1,254 @@
+/**
+ * Monorepo workspace detection
+ * Reads the workspace declarations of npm/yarn/pnpm, Lerna, Turborepo, Nx,
+ * Cargo and go.work, and lists the package directories they cover
+ */
+
+import { FileTreeItem, Workspace, WorkspacePackage, WorkspaceTool, WorkspaceEcosystem } from '../types';
+import { matchesGlobList, normalizeGlobPath } from '../utils/glob';
+
+// Manifest that marks a package directory, per ecosystem
+export const PACKAGE_MANIFESTS: Record<WorkspaceEcosystem, string> = {
+  node: 'package.json',
+  rust: 'Cargo.toml',
+  go: 'go.mod',
+};
+
+// Nx project directories when nx.json doesn't set workspaceLayout
+const NX_DEFAULT_DIRS = ['apps', 'libs', 'packages'];
+
+// Lerna's default when lerna.json lists no packages
+const LERNA_DEFAULT_PACKAGES = ['packages/*'];
+
+export interface WorkspacePackageLocation {
+  path: string; // Package directory relative to the repo root
+  ecosystem: WorkspaceEcosystem;
+  manifest_path: string;
+}
+
+export interface WorkspaceLayout {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackageLocation[];
+}
+
+function parseJson(content: string | undefined): Record<string, unknown> | null {
+  if (!content) return null;
+  try {
+    const parsed = JSON.parse(content);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+/**
+ * `workspaces` from package.json: an array, or `{ packages: [...] }` (Yarn classic)
+ */
+function readPackageJsonWorkspaces(packageJson: Record<string, unknown>): string[] {
+  const workspaces = packageJson.workspaces;
+  if (Array.isArray(workspaces)) {
+    return toStringArray(workspaces);
+  }
+  if (workspaces && typeof workspaces === 'object') {
+    return toStringArray((workspaces as { packages?: unknown }).packages);
+  }
+  return [];
+}
+
+/**
+ * The `packages:` list of pnpm-workspace.yaml
+ */
+function readPnpmWorkspaces(content: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of content.split('\n')) {
+    const trimmed = line.replace(/#.*$/, '').trimEnd();
+    if (!trimmed.trim()) continue;
+
+    if (/^packages\s*:/.test(trimmed)) {
+      inPackages = true;
+      continue;
+    }
+    if (inPackages) {
+      const item = trimmed.match(/^\s*-\s*['"]?([^'"]+)['"]?\s*$/);
+      if (item) {
+        patterns.push(item[1]);
+      } else if (!/^\s/.test(trimmed)) {
+        break; // Next top-level key
+      }
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * A string array assigned to `key` inside the `[workspace]` table of Cargo.toml
+ */
+function readCargoWorkspaceArray(content: string, key: 'members' | 'exclude'): string[] {
+  const section = content.match(/^\[workspace\]\s*$([\s\S]*?)(?=^\[|(?![\s\S]))/m)?.[1];
+  const array = section?.match(new RegExp(`^\\s*${key}\\s*=\\s*\\[([\\s\\S]*?)\\]`, 'm'))?.[1];
+  if (!array) return [];
+  return Array.from(array.matchAll(/["']([^"']+)["']/g), (match) => match[1]);
+}
+
+/**
+ * Module directories from the `use` directives of go.work
+ */
+function readGoWorkModules(content: string): string[] {
+  const modules: string[] = [];
+  const withoutComments = content.replace(/\/\/.*$/gm, '');
+
+  for (const block of withoutComments.matchAll(/^\s*use\s*\(([\s\S]*?)\)/gm)) {
+    modules.push(...block[1].split('\n').map((line) => line.trim()).filter(Boolean));
+  }
+  for (const single of withoutComments.matchAll(/^\s*use\s+([^\s(]+)\s*$/gm)) {
+    modules.push(single[1]);
+  }
+
+  return modules.map((dir) => normalizeGlobPath(dir.replace(/^["'`]|["'`]$/g, '')));
+}
+
+/**
+ * Package directories: folders (other than the root) holding the ecosystem's
+ * manifest that match the workspace patterns
+ */
+function findPackageDirectories(
+  tree: FileTreeItem[],
+  ecosystem: WorkspaceEcosystem,
+  patterns: string[]
+): WorkspacePackageLocation[] {
+  const manifest = PACKAGE_MANIFESTS[ecosystem];
+  const normalized = patterns.map((pattern) =>
+    pattern.startsWith('!') ? `!${normalizeGlobPath(pattern.slice(1))}` : normalizeGlobPath(pattern)
+  );
+
+  return tree
+    .filter((file) => file.type === 'blob' && file.path.endsWith(`/${manifest}`))
+    .map((file) => ({ path: file.path.slice(0, -(manifest.length + 1)), manifest_path: file.path }))
+    .filter((candidate) => matchesGlobList(candidate.path, normalized))
+    .map((candidate) => ({ ...candidate, ecosystem }));
+}
+
+/**
+ * Detect workspace tooling and the packages it declares
+ * @param files - Fetched critical files keyed by repo-relative path
+ * @param tree - Files to look for package manifests in
+ * @returns null when the repository is not a monorepo
+ */
+export function detectWorkspaces(files: Map<string, string>, tree: FileTreeItem[]): WorkspaceLayout | null {
+  const tools: WorkspaceTool[] = [];
+  const nodePatterns: string[] = [];
+  const packages: WorkspacePackageLocation[] = [];
+
+  // JavaScript package managers
+  const packageJson = parseJson(files.get('package.json'));
+  const npmWorkspaces = packageJson ? readPackageJsonWorkspaces(packageJson) : [];
+  if (npmWorkspaces.length > 0) {
+    const packageManager = typeof packageJson?.packageManager === 'string' ? packageJson.packageManager : '';
+    tools.push(packageManager.startsWith('yarn@') ? 'yarn' : packageManager.startsWith('pnpm@') ? 'pnpm' : 'npm');
+    nodePatterns.push(...npmWorkspaces);
+  }
+
+  const pnpmWorkspace = files.get('pnpm-workspace.yaml');
+  if (pnpmWorkspace !== undefined) {
+    if (!tools.includes('pnpm')) tools.push('pnpm');
+    nodePatterns.push(...readPnpmWorkspaces(pnpmWorkspace));
+  }
+
+  const lerna = parseJson(files.get('lerna.json'));
+  if (lerna) {
+    tools.push('lerna');
+    const lernaPackages = toStringArray(lerna.packages);
+    if (lernaPackages.length > 0) {
+      nodePatterns.push(...lernaPackages);
+    } else if (nodePatterns.length === 0) {
+      nodePatterns.push(...LERNA_DEFAULT_PACKAGES);
+    }
+  }
+
+  // Task runners on top of the package manager's workspaces
+  if (files.has('turbo.json')) {
+    tools.push('turborepo');
+  }
+
+  const nx = parseJson(files.get('nx.json'));
+  if (nx) {
+    tools.push('nx');
+    if (nodePatterns.length === 0) {
+      const layout = (nx.workspaceLayout || {}) as { appsDir?: unknown; libsDir?: unknown };
+      const dirs = [layout.appsDir, layout.libsDir].filter((dir): dir is string => typeof dir === 'string');
+      nodePatterns.push(...(dirs.length > 0 ? dirs : NX_DEFAULT_DIRS).map((dir) => `${dir}/**`));
+    }
+  }
+
+  if (nodePatterns.length > 0) {
+    packages.push(...findPackageDirectories(tree, 'node', nodePatterns));
+  }
+
+  // Cargo workspaces
+  const cargoToml = files.get('Cargo.toml');
+  const cargoMembers = cargoToml ? readCargoWorkspaceArray(cargoToml, 'members') : [];
+  if (cargoToml && cargoMembers.length > 0) {
+    tools.push('cargo');
+    const excluded = readCargoWorkspaceArray(cargoToml, 'exclude').map((dir) => `!${dir}`);
+    packages.push(...findPackageDirectories(tree, 'rust', [...cargoMembers, ...excluded]));
+  }
+
+  // Go multi-module repos
+  const goWork = files.get('go.work');
+  if (goWork !== undefined) {
+    const modules = readGoWorkModules(goWork).filter((dir) => dir !== '' && dir !== '.');
+    if (modules.length > 0) {
+      tools.push('go');
+      packages.push(...findPackageDirectories(tree, 'go', modules));
+    }
+  }
+
+  // A directory can hold manifests of two ecosystems; keep the first
+  const seen = new Set<string>();
+  const unique = packages
+    .filter((pkg) => !seen.has(pkg.path) && seen.add(pkg.path))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  if (tools.length === 0 || unique.length === 0) {
+    return null;
+  }
+
+  return { tools, packages: unique };
+}
+
+/**
+ * Name a package from its manifest, falling back to its directory
+ */
+export function readPackageName(location: WorkspacePackageLocation, manifest: string | undefined): string {
+  if (manifest) {
+    if (location.ecosystem === 'node') {
+      const name = parseJson(manifest)?.name;
+      if (typeof name === 'string' && name) return name;
+    } else if (location.ecosystem === 'rust') {
+      const packageSection = manifest.match(/^\[package\]\s*$([\s\S]*?)(?=^\[|(?![\s\S]))/m)?.[1];
+      const name = packageSection?.match(/^\s*name\s*=\s*["']([^"']+)["']/m)?.[1];
+      if (name) return name;
+    } else {
+      const name = manifest.match(/^\s*module\s+(\S+)/m)?.[1];
+      if (name) return name;
+    }
+  }
+
+  return location.path;
+}
+
+/**
+ * Packages the roadmap covers: the selected ones, or all of them
+ */
+export function getCoveredPackages(workspace: Workspace | null | undefined): WorkspacePackage[] {
+  if (!workspace) return [];
+  const selected = workspace.selected_packages;
+  return selected ? workspace.packages.filter((pkg) => selected.includes(pkg.path)) : workspace.packages;
+}
@@ -0,0 +1,381 @@
+/**
+ * Bitbucket Cloud API client for repository operations
+ */
+
+import { retryWithBackoff } from '../utils/retry';
+import { BitbucketAPIError } from '../utils/errors';
+import { validateRepositorySize } from '../utils/validation';
+import { RepositoryMetadata, FileTreeItem } from '../types';
+import {
+  RepositoryProvider,
+  RepositoryIssue,
+  CommitComparison,
+  FileTreeResult,
+} from '../providers/types';
+
+const BITBUCKET_API_BASE = 'https://api.bitbucket.org/2.0';
+
+// The src endpoint lists nested directories up to this depth in one pass
+const TREE_MAX_DEPTH = 50;
+const MAX_TREE_PAGES = 300;
+const MAX_COMPARE_PAGES = 5;
+
+// Bitbucket reports languages in lowercase; map to the names GitHub uses
+const LANGUAGE_NAMES: Record<string, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+  ruby: 'Ruby',
+  go: 'Go',
+  rust: 'Rust',
+  java: 'Java',
+  kotlin: 'Kotlin',
+  php: 'PHP',
+  'c#': 'C#',
+  'c++': 'C++',
+  c: 'C',
+  swift: 'Swift',
+  dart: 'Dart',
+  elixir: 'Elixir',
+  scala: 'Scala',
+  html: 'HTML',
+  css: 'CSS',
+  shell: 'Shell',
+};
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketRepository {
+  full_name: string;
+  name: string;
+  slug: string;
+  description: string;
+  is_private: boolean;
+  language: string;
+  size: number; // bytes
+  created_on: string;
+  updated_on: string;
+  mainbranch?: { name: string };
+  workspace: { slug: string };
+  links: { html: { href: string } };
+}
+
+interface BitbucketTreeEntry {
+  type: 'commit_file' | 'commit_directory';
+  path: string;
+  size?: number;
+  commit?: { hash: string };
+  links?: { self?: { href: string } };
+}
+
+export interface BitbucketClientOptions {
+  token?: string;
+}
+
+export class BitbucketClient implements RepositoryProvider {
+  readonly name = 'bitbucket' as const;
+  private token?: string;
+
+  constructor(options?: BitbucketClientOptions) {
+    this.token = options?.token;
+  }
+
+  /**
+   * Get headers for Bitbucket API requests
+   * Tokens of the form `username:app_password` use basic auth,
+   * anything else is sent as a bearer (OAuth or access) token.
+   */
+  private getHeaders(): HeadersInit {
+    const headers: HeadersInit = {
+      'Accept': 'application/json',
+      'User-Agent': 'OnboardGhost',
+    };
+
+    if (this.token) {
+      headers['Authorization'] = this.token.includes(':')
+        ? `Basic ${Buffer.from(this.token).toString('base64')}`
+        : `Bearer ${this.token}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Make a request to Bitbucket API with error handling
+   */
+  private async fetchResponse(url: string): Promise<Response> {
+    console.log(`[Bitbucket API] GET ${url.replace(BITBUCKET_API_BASE, '')}`);
+    const response = await fetch(url, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+
+      if (response.status === 404 || response.status === 401) {
+        throw new BitbucketAPIError(
+          'Repository not found or private. Provide a Bitbucket access token to access private repos.',
+          404,
+          { url, body: errorBody }
+        );
+      }
+
+      if (response.status === 403 || response.status === 429) {
+        throw new BitbucketAPIError(
+          'Bitbucket API rate limit exceeded or insufficient permissions',
+          response.status,
+          { body: errorBody }
+        );
+      }
+
+      throw new BitbucketAPIError(
+        `Bitbucket API error: ${response.statusText}`,
+        response.status,
+        { body: errorBody }
+      );
+    }
+
+    return response;
+  }
+
+  private async request<T>(url: string): Promise<T> {
+    const response = await this.fetchResponse(url);
+    return response.json();
+  }
+
+  private repoUrl(owner: string, repo: string): string {
+    return `${BITBUCKET_API_BASE}/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  }
+
+  /**
+   * Fetch repository metadata
+   * Retries up to 3 times on errors (rate limiting)
+   */
+  async getRepositoryMetadata(
+    owner: string,
+    repo: string
+  ): Promise<RepositoryMetadata> {
+    const data = await retryWithBackoff(
+      () => this.request<BitbucketRepository>(this.repoUrl(owner, repo)),
+      3,
+      1000
+    );
+
+    const sizeKB = Math.round(data.size / 1024);
+    validateRepositorySize(sizeKB);
+
+    // Transform Bitbucket API response to our RepositoryMetadata format
+    // Bitbucket has no stars, and forks are only available as a paginated list
+    const metadata: RepositoryMetadata = {
+      id: data.full_name,
+      provider: 'bitbucket',
+      owner: data.workspace.slug,
+      name: data.slug,
+      url: data.links.html.href,
+      description: data.description || '',
+      stars: 0,
+      forks: 0,
+      default_branch: data.mainbranch?.name || 'main',
+      created_at: new Date(data.created_on),
+      updated_at: new Date(data.updated_on),
+      language: LANGUAGE_NAMES[data.language] || data.language || 'Unknown',
+      size: sizeKB,
+      is_private: data.is_private,
+      analyzed_at: new Date(),
+      analysis_duration: 0, // Will be updated after analysis
+    };
+
+    return metadata;
+  }
+
+  /**
+   * Resolve a branch, tag or commit SHA to the commit SHA it points at
+   */
+  async resolveRef(owner: string, repo: string, ref: string): Promise<string> {
+    const url = `${this.repoUrl(owner, repo)}/commit/${encodeURIComponent(ref)}`;
+
+    try {
+      const data = await this.request<{ hash: string }>(url);
+      return data.hash;
+    } catch (error) {
+      if (error instanceof BitbucketAPIError && error.statusCode === 404) {
+        throw new BitbucketAPIError(
+          `Branch, tag or commit "${ref}" not found in ${owner}/${repo}`,
+          404,
+          { ref }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compare two commits and list the paths that changed between them.
+   * The ahead/behind status is derived from the merge base.
+   */
+  async compareCommits(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+  ): Promise<CommitComparison> {
+    if (base === head) {
+      return { status: 'identical', total_commits: 0, changed_files: [], files_truncated: false };
+    }
+
+    const repoUrl = this.repoUrl(owner, repo);
+    const mergeBase = await this.request<{ hash: string }>(`${repoUrl}/merge-base/${head}..${base}`);
+
+    // Commits reachable from head but not base (first page only)
+    const commits = await this.request<BitbucketPage<unknown>>(
+      `${repoUrl}/commits?include=${encodeURIComponent(head)}&exclude=${encodeURIComponent(base)}&pagelen=100`
+    );
+
+    // Bitbucket ranges read source..destination, i.e. head..base
+    const changedFiles = new Set<string>();
+    let nextUrl: string | undefined = `${repoUrl}/diffstat/${head}..${base}?topic=false`;
+    let pages = 0;
+
+    while (nextUrl && pages < MAX_COMPARE_PAGES) {
+      const page: BitbucketPage<{ old: { path: string } | null; new: { path: string } | null }> =
+        await this.request(nextUrl);
+      pages++;
+      for (const entry of page.values) {
+        if (entry.new) changedFiles.add(entry.new.path);
+        if (entry.old) changedFiles.add(entry.old.path);
+      }
+      nextUrl = page.next;
+    }
+
+    return {
+      status: mergeBase.hash === base ? 'ahead' : mergeBase.hash === head ? 'behind' : 'diverged',
+      total_commits: commits.values.length,
+      changed_files: Array.from(changedFiles),
+      files_truncated: nextUrl !== undefined,
+    };
+  }
+
+  /**
+   * Fetch file tree recursively, following pagination
+   * Listings carry no blob hashes, so each file is identified by its git
+   * revision path (`<commit>:<path>`)
+   * @param ref - Commit SHA (preferred) or branch/tag name
+   */
+  async getFileTree(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<FileTreeResult> {
+    const files: FileTreeItem[] = [];
+    let nextUrl: string | undefined =
+      `${this.repoUrl(owner, repo)}/src/${encodeURIComponent(ref)}/?max_depth=${TREE_MAX_DEPTH}&pagelen=100`;
+    let pages = 0;
+
+    while (nextUrl && pages < MAX_TREE_PAGES) {
+      const page: BitbucketPage<BitbucketTreeEntry> = await this.request(nextUrl);
+      pages++;
+
+      for (const entry of page.values) {
+        files.push({
+          path: entry.path,
+          type: entry.type === 'commit_directory' ? 'tree' : 'blob',
+          size: entry.size || 0,
+          sha: `${entry.commit?.hash || ref}:${entry.path}`,
+          url: entry.links?.self?.href || '',
+        });
+      }
+
+      nextUrl = page.next;
+    }
+
+    const incomplete = nextUrl !== undefined;
+    if (incomplete) {
+      console.warn(`[Bitbucket API] Stopped tree listing for ${owner}/${repo} after ${pages} pages`);
+    }
+
+    return {
+      sha: ref,
+      files,
+      truncated: incomplete,
+      fallback_traversal: false,
+      subtree_requests: 0,
+      incomplete,
+    };
+  }
+
+  /**
+   * Fetch file content
+   */
+  async getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): Promise<string> {
+    const commit = ref || (await this.getRepositoryMetadata(owner, repo)).default_branch;
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const url = `${this.repoUrl(owner, repo)}/src/${encodeURIComponent(commit)}/${encodedPath}`;
+
+    const response = await this.fetchResponse(url);
+    return response.text();
+  }
+
+  /**
+   * Search repository issues
+   * Returns no results when the issue tracker is disabled
+   */
+  async searchIssues(
+    owner: string,
+    repo: string,
+    query: string
+  ): Promise<RepositoryIssue[]> {
+    const q = `title ~ "${query.replace(/"/g, '\\"')}"`;
+    const url = `${this.repoUrl(owner, repo)}/issues?q=${encodeURIComponent(q)}&sort=-votes&pagelen=3`;
+
+    try {
+      const page = await this.request<BitbucketPage<{
+        title: string;
+        state: string;
+        content?: { raw: string };
+        links: { html: { href: string } };
+      }>>(url);
+      return page.values.map((issue) => ({
+        title: issue.title,
+        url: issue.links.html.href,
+        state: issue.state,
+        body: issue.content?.raw || '',
+      }));
+    } catch (error) {
+      if (error instanceof BitbucketAPIError && error.statusCode === 404) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate access token
+   */
+  async validateToken(): Promise<boolean> {
+    if (!this.token) {
+      return false;
+    }
+
+    try {
+      await this.request<unknown>(`${BITBUCKET_API_BASE}/user`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Create a Bitbucket client instance
+ */
+export function createBitbucketClient(token?: string): BitbucketClient {
+  return new BitbucketClient({ token });
+}
@@ -0,0 +1,5 @@
+/**
+ * Bitbucket module exports
+ */
+
+export * from './client';
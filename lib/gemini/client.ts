@@ -14,18 +14,109 @@ import {
   SecurityIssue,
   RepositoryMetadata,
   Roadmap,
+  RoadmapSection,
 } from '../types/roadmap';
+import {
+  Workspace,
+  DetectedStack,
+  ProjectScript,
+  ScriptCategory,
+  CiWorkflow,
+  ContainerSetup,
+  RoadmapVariant,
+  VulnerabilityFinding,
+  LicenseReport,
+  RepoConfig,
+  EnvScanCoverage,
+} from '../types';
+import { getCoveredPackages } from '../analysis/workspaces';
+import { getServiceStacks } from '../analysis/stacks';
+import { getSetupJobs } from '../analysis/ci';
+import { generateEnvTemplate } from '../analysis/env-vars';
+import { formatRuntimeVersion } from '../analysis/runtime-versions';
+import { recommendedFix, getAdvisorySnapshotDate } from '../analysis/vulnerabilities';
+import { matchesSectionName } from '../analysis/repo-config';
+
+const ROADMAP_JSON_RULES = `CRITICAL JSON RULES:
+1. ALWAYS include 2-3 steps per task (not empty array)
+2. ALWAYS include 1-2 commands per task (EXCEPT for overview/understanding tasks)
+3. Include code_blocks for .env files and config files (NOT for overview tasks)
+4. Include 2-3 helpful tips per task
+5. Make descriptions detailed and project-specific
+6. CRITICAL: Keep all text on ONE LINE - no newlines in description, details, or text fields
+7. CRITICAL: Replace any quotes in text with single quotes or remove them
+8. Use \\n ONLY in code_blocks content field
+9. Overview/Understanding tasks should focus on EXPLANATION only - no commands or code blocks
+10. If text is long, keep it concise - aim for under 150 characters per field`;
+
+// Install command per detected package manager
+const INSTALL_COMMANDS: Record<string, string> = {
+  npm: 'npm install',
+  yarn: 'yarn install',
+  pnpm: 'pnpm install',
+  bun: 'bun install',
+  Poetry: 'poetry install',
+  uv: 'uv sync',
+  Pipenv: 'pipenv install --dev',
+  pip: 'pip install -r requirements.txt',
+  Composer: 'composer install',
+  'NuGet (dotnet CLI)': 'dotnet restore',
+  'Mix (Hex)': 'mix deps.get',
+  'flutter pub': 'flutter pub get',
+  'dart pub': 'dart pub get',
+  'Swift Package Manager': 'swift package resolve',
+  Gradle: './gradlew build',
+};
+
+// Script categories in setup order; 'other' scripts are listed last
+const SCRIPT_CATEGORY_ORDER: ScriptCategory[] = ['dev', 'build', 'test', 'lint', 'migrate', 'seed', 'other'];
+
+// Scripts listed in the prompt, to keep it small for repos with many targets
+const MAX_PROMPT_SCRIPTS = 40;
+
+// CI jobs and commands per job listed in the prompt
+const MAX_PROMPT_CI_JOBS = 8;
+const MAX_PROMPT_CI_COMMANDS = 10;
+
+// Variables read in code but missing from .env.example listed in the prompt
+const MAX_PROMPT_MISSING_ENV_VARS = 15;
+
+// Variables in the .env template given to the model
+const MAX_PROMPT_TEMPLATE_ENV_VARS = 40;
+
+// Vulnerability findings listed in the prompt, most severe first
+const MAX_PROMPT_VULNERABILITIES = 12;
+
+// Package managers corepack can provision at a pinned version
+const COREPACK_MANAGERS = ['npm', 'yarn', 'pnpm'];
 
 interface AnalysisData {
-  tech_stack: TechStack;
+  tech_stack: TechStack; // Repository root; shared setup in a monorepo
+  stacks?: DetectedStack[]; // Every stack found, most confident first
+  scripts?: ProjectScript[]; // Runnable entry points from package.json, Makefile, justfile...
+  ci_workflows?: CiWorkflow[]; // GitHub Actions, GitLab CI and CircleCI configs
+  containers?: ContainerSetup | null;
+  variant?: RoadmapVariant; // 'containerized' sets everything up in containers
+  workspace?: Workspace | null;
   database: DatabaseRequirement[];
   env_vars: EnvironmentVariable[];
+  env_scan_coverage?: EnvScanCoverage; // Source files the scan for reads in code covered
   purpose: ProjectPurpose;
   setup_instructions?: string;
   security_issues?: SecurityIssue[];
+  vulnerabilities?: VulnerabilityFinding[]; // Locked versions with known advisories
+  license_report?: LicenseReport;
+  repo_config?: RepoConfig | null; // The maintainers' .onboardghost config
   repository_metadata: RepositoryMetadata;
 }
 
+export interface SectionRegenerationRequest {
+  existing_sections: RoadmapSection[];
+  section_ids: string[]; // Sections to regenerate (unknown IDs are added as new sections)
+  changed_files: string[];
+  change_summary: string;
+}
+
 export class GeminiClient {
   private genAI: GoogleGenerativeAI;
   private model: any;
@@ -138,7 +229,7 @@ Return ONLY valid JSON in this exact format (no markdown, no code blocks):
 
 === CRITICAL: PROJECT-SPECIFIC REQUIREMENTS ===
 Repository: ${analysisData.repository_metadata?.owner || 'unknown'}/${analysisData.repository_metadata?.name || 'unknown'}
-Primary Language: ${analysisData.repository_metadata?.language || 'Unknown'}
+${analysisData.repository_metadata?.url ? `Repository URL: ${analysisData.repository_metadata.url}\n` : ''}${this.buildRefLine(analysisData.repository_metadata)}Primary Language: ${analysisData.repository_metadata?.language || 'Unknown'}
 Framework: ${analysisData.tech_stack?.framework || 'None'}
 Database: ${analysisData.database && analysisData.database.length > 0 ? analysisData.database[0].type : 'None'}
 Project Type: ${analysisData.purpose?.project_type || 'Unknown'}
@@ -265,17 +356,7 @@ Focus on these ESSENTIAL fields: steps, commands, code_blocks, description, tips
   ]
 }
 
-CRITICAL JSON RULES:
-1. ALWAYS include 2-3 steps per task (not empty array)
-2. ALWAYS include 1-2 commands per task (EXCEPT for overview/understanding tasks)
-3. Include code_blocks for .env files and config files (NOT for overview tasks)
-4. Include 2-3 helpful tips per task
-5. Make descriptions detailed and project-specific
-6. CRITICAL: Keep all text on ONE LINE - no newlines in description, details, or text fields
-7. CRITICAL: Replace any quotes in text with single quotes or remove them
-8. Use \\n ONLY in code_blocks content field
-9. Overview/Understanding tasks should focus on EXPLANATION only - no commands or code blocks
-10. If text is long, keep it concise - aim for under 150 characters per field`;
+${ROADMAP_JSON_RULES}`;
 
     try {
       const result = await retryWithBackoff(
@@ -325,6 +406,114 @@ CRITICAL JSON RULES:
     }
   }
 
+  /**
+   * Describe the analyzed ref when it is not the default branch, so the
+   * clone tasks check out the same commit the roadmap was built from
+   */
+  private buildRefLine(metadata?: RepositoryMetadata): string {
+    if (!metadata?.ref || metadata.ref === metadata.default_branch) {
+      return '';
+    }
+    const commit = metadata.commit_sha ? ` (commit ${metadata.commit_sha.slice(0, 12)})` : '';
+    return `Checked-out Ref: ${metadata.ref}${commit} - the clone task MUST include "git checkout ${metadata.ref}"\n`;
+  }
+
+  /**
+   * Regenerate only the given roadmap sections after an incremental analysis.
+   * Other sections are passed as context so the result stays consistent.
+   */
+  async regenerateSections(
+    analysisData: AnalysisData,
+    request: SectionRegenerationRequest
+  ): Promise<RoadmapSection[]> {
+    const projectContext = this.buildProjectContext(analysisData);
+    const exampleTask = this.buildExampleTask(analysisData);
+    const targets = request.existing_sections.filter((s) => request.section_ids.includes(s.id));
+    const newSectionIds = request.section_ids.filter(
+      (id) => !request.existing_sections.some((s) => s.id === id)
+    );
+    const outline = request.existing_sections.map((section) => ({
+      id: section.id,
+      title: section.title,
+      tasks: section.tasks.map((task) => ({ id: task.id, title: task.title })),
+    }));
+
+    const prompt = `You previously generated a PERSONALIZED local setup guide for THIS SPECIFIC PROJECT.
+The repository has changed since then. Update ONLY the sections listed below; every other section stays exactly as it is.
+
+=== PROJECT ===
+Repository: ${analysisData.repository_metadata?.owner || 'unknown'}/${analysisData.repository_metadata?.name || 'unknown'}
+${this.buildRefLine(analysisData.repository_metadata)}Framework: ${analysisData.tech_stack?.framework || 'None'}
+Project Purpose: ${analysisData.purpose?.purpose || 'Not specified'}
+
+${projectContext}
+
+=== WHAT CHANGED ===
+${request.change_summary}
+Changed files: ${request.changed_files.slice(0, 40).join(', ')}${request.changed_files.length > 40 ? ` (+${request.changed_files.length - 40} more)` : ''}
+
+=== FULL ROADMAP OUTLINE (for context and depends_on references) ===
+${JSON.stringify(outline)}
+
+=== SECTIONS TO REGENERATE (current version) ===
+${JSON.stringify(targets)}
+${newSectionIds.length > 0 ? `\n=== NEW SECTIONS TO ADD ===\n${newSectionIds.join(', ')} - create these sections; they did not exist before\n` : ''}
+=== RULES FOR UPDATING ===
+- Return ONLY the sections listed above, keeping each section's "id".
+- Keep a task's "id" when the task still applies (even if its content changes); give brand-new tasks new ids that do not appear in the outline.
+- Drop tasks that no longer apply to the project.
+- "depends_on" may reference any task id in the outline.
+
+=== PROJECT-SPECIFIC EXAMPLE TASK ===
+${exampleTask}
+
+=== OUTPUT STRUCTURE ===
+Return ONLY valid JSON (no markdown, no code blocks):
+{
+  "sections": [
+    {
+      "id": "section-id",
+      "title": "...",
+      "description": "...",
+      "tasks": [ { "id": "...", "title": "...", "description": "...", "steps": [], "commands": [], "code_blocks": [], "tips": [], "difficulty": "beginner" } ]
+    }
+  ]
+}
+
+${ROADMAP_JSON_RULES}`;
+
+    try {
+      const result = await retryWithBackoff(
+        async () => {
+          const response = await this.model.generateContent(prompt);
+          return response.response.text();
+        },
+        3,
+        3000
+      );
+
+      const cleanedResult = this.cleanJsonResponse(result);
+
+      let parsed;
+      try {
+        parsed = JSON.parse(cleanedResult);
+      } catch (parseError) {
+        console.error('[Gemini] JSON parse failed, attempting repair...', parseError);
+        parsed = JSON.parse(this.repairJson(cleanedResult));
+      }
+
+      this.validateRoadmapStructure(parsed);
+
+      // Ignore anything Gemini returned that was not asked for
+      return (parsed.sections as RoadmapSection[]).filter((section) =>
+        request.section_ids.includes(section.id)
+      );
+    } catch (error) {
+      console.error('Failed to regenerate roadmap sections:', error);
+      throw new GeminiAPIError('Failed to regenerate roadmap sections', error);
+    }
+  }
+
   /**
    * Build project-specific context for the prompt
    */
@@ -351,10 +540,177 @@ CRITICAL JSON RULES:
 - Uses Django ORM for database operations
 - Settings in settings.py control configuration
 - Manage.py is the main CLI tool for commands`);
+      } else if (framework.includes('Laravel')) {
+        contexts.push(`
+🐘 Laravel Project Specifics:
+- Copy .env.example to .env, then run php artisan key:generate
+- php artisan migrate creates the database schema
+- php artisan serve runs the app on port 8000
+- Front-end assets are built with npm (Vite) when package.json exists`);
+      } else if (framework.includes('ASP.NET Core')) {
+        contexts.push(`
+🟣 ASP.NET Core Project Specifics:
+- Requires the .NET SDK matching the project's TargetFramework
+- dotnet run --project <web project> starts the app; ports are in Properties/launchSettings.json
+- Local secrets belong in dotnet user-secrets, not appsettings.json
+- dotnet ef database update applies Entity Framework migrations`);
+      } else if (framework.includes('Phoenix')) {
+        contexts.push(`
+🔥 Phoenix Project Specifics:
+- Requires Elixir and Erlang/OTP
+- mix setup installs dependencies and creates the database
+- mix phx.server runs the app on port 4000
+- Database settings live in config/dev.exs`);
+      } else if (framework.includes('Flutter')) {
+        contexts.push(`
+🦋 Flutter Project Specifics:
+- Requires the Flutter SDK; flutter doctor checks platform toolchains
+- flutter run needs a device, emulator or simulator
+- flutter test runs the widget and unit tests`);
       }
       // Add more frameworks as needed
     }
 
+    // Package manager context: the detected tool, not npm by default
+    const packageManager = analysisData.tech_stack?.package_manager;
+    if (packageManager && packageManager !== 'Unknown') {
+      const [name, version] = packageManager.split('@');
+      const installCommand = INSTALL_COMMANDS[name];
+      const lines = [`- Use ${name} for every install and script command${installCommand ? ` (e.g. \`${installCommand}\`)` : ''}; do not mix in other package managers`];
+      if (version && COREPACK_MANAGERS.includes(name)) {
+        lines.push(`- Version ${version} is pinned: run \`corepack enable\` so the pinned version is used`);
+      } else if (version) {
+        lines.push(`- Required version: ${version}`);
+      }
+
+      contexts.push(`
+🧰 Package manager: ${packageManager}
+${lines.join('\n')}`);
+    }
+
+    // Runtime versions context: exact versions for the prerequisite tasks
+    const runtimeVersions = analysisData.tech_stack?.runtime_versions || [];
+    if (runtimeVersions.length > 0) {
+      const versionLines = runtimeVersions.map((entry) => {
+        const conflicts = entry.conflicts.map((conflict) => `${conflict.source} says ${conflict.version}`);
+        return `- ${formatRuntimeVersion(entry)} (from ${entry.source})${conflicts.length > 0 ? `; conflicts: ${conflicts.join(', ')}` : ''}`;
+      });
+
+      contexts.push(`
+🔢 Runtime versions:
+${versionLines.join('\n')}
+- Prerequisite tasks must install these exact versions and name the file they come from (e.g. \`nvm use\` reads .nvmrc, \`asdf install\` reads .tool-versions)
+- Where files conflict, use the resolved version and mention the conflicting file in a tip`);
+    }
+
+    // Monorepo context: shared root setup plus the packages the user works on
+    const packages = getCoveredPackages(analysisData.workspace);
+    if (analysisData.workspace && packages.length > 0) {
+      const skipped = analysisData.workspace.packages.length - packages.length;
+      const packageLines = packages.map((pkg) => {
+        const stack = pkg.tech_stack;
+        return `- ${pkg.path} (${pkg.name}): ${stack.framework}, ${stack.primary_language}, ${stack.package_manager}, runtime ${stack.runtime_version}`;
+      });
+
+      contexts.push(`
+📦 Monorepo (${analysisData.workspace.tools.join(', ')}):
+- Install and configure from the repository root first (shared setup), using the workspace tooling
+- Then add one section per package below with its own dev, build and test commands, run from the root where the tooling allows it (e.g. workspace filters)
+${packageLines.join('\n')}${skipped > 0 ? `\n- ${skipped} other packages exist; do NOT include tasks for them` : ''}`);
+    }
+
+    // Polyglot context: one setup per service, each with its own toolchain
+    const services = getServiceStacks(analysisData.stacks);
+    if (services.length > 1) {
+      const serviceLines = services.map((service) => {
+        const stack = service.tech_stack;
+        const tests = stack.testing_framework ? `, tests with ${stack.testing_framework}` : '';
+        return `- ${service.root || '(repository root)'}: ${stack.framework}, ${stack.primary_language}, ${stack.package_manager}, runtime ${stack.runtime_version}${tests}`;
+      });
+      const others = (analysisData.stacks || []).filter((stack) => !services.includes(stack));
+
+      contexts.push(`
+🧩 Services (${services.length} stacks in this repository):
+- Give EACH service below its own setup section: install its dependencies and start it from its own directory (cd into it first)
+- Never run one service's package manager or commands in another service's directory
+- Prerequisites must cover every service's runtime
+${serviceLines.join('\n')}${others.length > 0 ? `\n- Also found, likely tooling or docs (mention only if needed): ${others.map((stack) => `${stack.root || '(root)'} (${stack.tech_stack.primary_language})`).join(', ')}` : ''}`);
+    }
+
+    // Scripts context: the project's real entry points
+    const scripts = analysisData.scripts || [];
+    if (scripts.length > 0) {
+      const ordered = SCRIPT_CATEGORY_ORDER.flatMap((category) =>
+        scripts.filter((script) => script.category === category)
+      );
+      const scriptLines = ordered.slice(0, MAX_PROMPT_SCRIPTS).map((script) => {
+        const where = script.directory ? ` (in ${script.directory}/)` : '';
+        const description = script.description ? ` - ${script.description}` : '';
+        return `- [${script.category}] ${script.command}${where} from ${script.source}${description}`;
+      });
+      const omitted = ordered.length - scriptLines.length;
+
+      contexts.push(`
+▶️ Project Scripts:
+- Use these exact commands for starting, building, testing, linting, migrating and seeding; do NOT invent commands the project does not define
+${scriptLines.join('\n')}${omitted > 0 ? `\n- ${omitted} more scripts not listed` : ''}`);
+    }
+
+    // CI context: what a clean machine needs to build and test the project
+    const ciJobs = getSetupJobs(analysisData.ci_workflows || []);
+    if (ciJobs.length > 0) {
+      const jobLines = ciJobs.slice(0, MAX_PROMPT_CI_JOBS).map(({ workflow, job }) => {
+        const details = [
+          job.runtimes.length > 0 ? `runtimes ${job.runtimes.map((runtime) => `${runtime.runtime} ${runtime.versions.join('/')}`).join(', ')}` : '',
+          job.services.length > 0 ? `services ${job.services.map((service) => service.image).join(', ')}` : '',
+          job.env.length > 0 ? `env ${job.env.join(', ')}` : '',
+        ].filter(Boolean);
+        const commands = job.commands.slice(0, MAX_PROMPT_CI_COMMANDS).join('; ');
+        return `- ${job.name} (${workflow.file})${details.length > 0 ? `: ${details.join('; ')}` : ''}${commands ? `\n  runs: ${commands}` : ''}`;
+      });
+      const providers = Array.from(new Set(ciJobs.map(({ workflow }) => workflow.provider)));
+
+      contexts.push(`
+🔁 CI (${providers.join(', ')}):
+- CI builds and tests this project on a clean machine: mirror its runtimes, services and install/test commands in Prerequisites, Install and Verify tasks, adapted for local use
+- Skip CI-only steps (checkout, caching, artifact uploads, secrets); env vars CI sets must come from .env locally
+${jobLines.join('\n')}${ciJobs.length > MAX_PROMPT_CI_JOBS ? `\n- ${ciJobs.length - MAX_PROMPT_CI_JOBS} more CI jobs not listed` : ''}`);
+    }
+
+    // Container context: dev container, compose services and Dockerfiles
+    const containers = analysisData.containers;
+    if (containers) {
+      const lines: string[] = [];
+      const devcontainer = containers.devcontainer;
+      if (devcontainer) {
+        const base = devcontainer.image || devcontainer.dockerfile || (devcontainer.service && `compose service "${devcontainer.service}"`);
+        lines.push(`- Dev container (${devcontainer.file})${base ? `: ${base}` : ''}${devcontainer.features.length > 0 ? `; features ${devcontainer.features.join(', ')}` : ''}${devcontainer.forward_ports.length > 0 ? `; forwards ports ${devcontainer.forward_ports.join(', ')}` : ''}${devcontainer.post_create_command ? `; postCreateCommand: ${devcontainer.post_create_command}` : ''}`);
+      }
+      for (const service of containers.services) {
+        const details = [
+          service.build !== null ? `built from ${service.build}` : service.image,
+          service.ports.length > 0 ? `ports ${service.ports.join(', ')}` : '',
+          service.depends_on.length > 0 ? `depends on ${service.depends_on.join(', ')}` : '',
+          service.healthcheck ? `healthcheck: ${service.healthcheck}` : '',
+          service.volumes.length > 0 ? `volumes ${service.volumes.join(', ')}` : '',
+        ].filter(Boolean);
+        lines.push(`- Compose service "${service.name}" (${containers.compose_file}): ${details.join('; ')}`);
+      }
+      for (const dockerfile of containers.dockerfiles) {
+        const details = [
+          `FROM ${dockerfile.base_images.join(' → ')}`,
+          dockerfile.exposed_ports.length > 0 ? `EXPOSE ${dockerfile.exposed_ports.join(' ')}` : '',
+          dockerfile.build_args.length > 0 ? `build args ${dockerfile.build_args.join(', ')}` : '',
+          dockerfile.command ? `runs: ${dockerfile.command}` : '',
+        ].filter(Boolean);
+        lines.push(`- ${dockerfile.file}: ${details.join('; ')}`);
+      }
+
+      contexts.push(`
+🐳 Containers:
+${lines.join('\n')}`);
+    }
+
     // Database-specific context
     if (analysisData.database && analysisData.database.length > 0) {
       const db = analysisData.database[0];
@@ -373,13 +729,99 @@ CRITICAL JSON RULES:
     if (analysisData.env_vars && analysisData.env_vars.length > 0) {
       const categories = this.categorizeEnvVars(analysisData.env_vars);
       const criticalVars = this.getCriticalVars(analysisData.env_vars);
+      // Analyses from before the source scan have no sources and came from the example file
+      const hasExample = analysisData.env_vars.some((v) => !v.sources || v.sources.includes('env_example'));
+      const missing = analysisData.env_vars
+        .filter((v) => v.missing_from_example)
+        .slice(0, MAX_PROMPT_MISSING_ENV_VARS)
+        .map((v) => `  - ${v.name}${v.required ? ' (required)' : ''}: read at ${(v.usages || []).slice(0, 3).map((u) => `${u.file}:${u.line}`).join(', ')}`);
+      const coverage = analysisData.env_scan_coverage;
+      const partialScan = coverage && coverage.scanned_files < coverage.candidate_files
+        ? ` (only ${coverage.scanned_files} of ${coverage.candidate_files} source files were scanned; others may read more)`
+        : '';
       
       contexts.push(`
 🔐 Configuration:
 - Total environment variables: ${analysisData.env_vars.length}
 - Categories: ${categories.join(', ')}
 - Critical variables: ${criticalVars.join(', ')}
-- Configuration file: .env (create from .env.example)`);
+- Configuration file: ${hasExample ? '.env (create from .env.example)' : '.env (no .env.example exists; list every variable below in the code block)'}${missing.length > 0 ? `
+- Read in code but missing from ${hasExample ? '.env.example' : 'any example file'}${partialScan} (add them to .env too):
+${missing.join('\n')}` : ''}`);
+
+      // A typed schema gives exact constraints: hand the model the generated .env
+      if (analysisData.env_vars.some((v) => v.sources?.includes('schema'))) {
+        const template = generateEnvTemplate(
+          analysisData.env_vars.slice(0, MAX_PROMPT_TEMPLATE_ENV_VARS).map((v) => ({ ...v, description: v.description || '' }))
+        );
+        contexts.push(`
+📄 .env template (from the project's typed env schema; use it for the .env code block):
+${template}`);
+      }
+    }
+
+    // Secret scan findings; their section is added after generation
+    if (analysisData.security_issues && analysisData.security_issues.length > 0) {
+      const files = Array.from(new Set(analysisData.security_issues.map((issue) => issue.file)));
+      contexts.push(`
+🔒 Security:
+- ${analysisData.security_issues.length} committed secret(s) found in: ${files.slice(0, 10).join(', ')}
+- A "Security hygiene" section covering them is added automatically: do NOT generate one
+- Never copy values from these files into code blocks; use placeholders`);
+    }
+
+    // Known vulnerable dependency versions from the offline advisory snapshot
+    if (analysisData.vulnerabilities && analysisData.vulnerabilities.length > 0) {
+      const findings = analysisData.vulnerabilities;
+      const lines = findings.slice(0, MAX_PROMPT_VULNERABILITIES).map((finding) => {
+        const fix = recommendedFix(finding);
+        const kind = [finding.direct ? 'direct' : 'transitive', finding.dev ? 'dev' : ''].filter(Boolean).join(', ');
+        return `- [${finding.severity}] ${finding.package}@${finding.version} (${finding.ecosystem}, ${kind}, ${finding.lockfile}): ${finding.summary} (${finding.advisory_id})${fix ? `; fixed in ${fix}` : '; no fixed release'}`;
+      });
+      contexts.push(`
+🛡️ Known Vulnerabilities (advisory snapshot of ${getAdvisorySnapshotDate().slice(0, 10)}):
+- For critical/high findings in direct dependencies with a fix, add an "Upgrade vulnerable dependencies" task after installing, using the project's package manager to upgrade to the fixed version, and verify the app still runs
+- For the rest, add a warning to the install task so the developer is aware; do NOT tell them to upgrade transitive packages by hand
+${lines.join('\n')}${findings.length > MAX_PROMPT_VULNERABILITIES ? `\n- ${findings.length - MAX_PROMPT_VULNERABILITIES} more findings not listed` : ''}`);
+    }
+
+    // License report; its section is added after generation
+    const licenseReport = analysisData.license_report;
+    if (licenseReport && (licenseReport.project || licenseReport.checked_dependencies > 0)) {
+      contexts.push(`
+⚖️ Licensing:
+- Project license: ${licenseReport.project?.spdx_id || 'none detected'}${licenseReport.flagged_count > 0 ? `; ${licenseReport.flagged_count} dependencies with copyleft, proprietary or unrecognized licenses` : ''}
+- A "Licensing" section covering them is added automatically: do NOT generate one`);
+    }
+
+    // The maintainers' config; its tasks are added after generation
+    const repoConfig = analysisData.repo_config;
+    if (repoConfig) {
+      const notes = [
+        repoConfig.setup_path === 'native' && analysisData.variant !== 'containerized'
+          ? '- The maintainers prefer a native setup: install runtimes and databases on the host, and do NOT make Docker a requirement'
+          : '',
+        repoConfig.setup_path === 'docker' && analysisData.variant !== 'containerized'
+          ? '- The maintainers prefer Docker: run databases and auxiliary services with Docker Compose rather than installing them on the host'
+          : '',
+        repoConfig.skip_sections.length > 0
+          ? `- Do NOT generate these sections: ${repoConfig.skip_sections.join(', ')}`
+          : '',
+        repoConfig.tasks.length > 0
+          ? `- These tasks are added automatically: do NOT generate them again\n${repoConfig.tasks.map((task) => `  - ${task.title} (${task.section})`).join('\n')}`
+          : '',
+      ].filter(Boolean);
+      if (notes.length > 0) {
+        contexts.push(`
+🧭 Maintainer Preferences (${repoConfig.file}):
+${notes.join('\n')}`);
+      }
+
+      if (repoConfig.glossary.length > 0) {
+        contexts.push(`
+📖 Project Glossary (use these terms as defined, and explain them the first time a task uses one):
+${repoConfig.glossary.map(({ term, definition }) => `- ${term}: ${definition}`).join('\n')}`);
+      }
     }
 
     return contexts.join('\n\n');
@@ -391,17 +833,25 @@ CRITICAL JSON RULES:
   private buildSectionGuidance(analysisData: AnalysisData): string {
     const hasEnv = analysisData.env_vars && analysisData.env_vars.length > 0;
     const hasDb = analysisData.database && analysisData.database.length > 0;
-    const framework = analysisData.tech_stack?.framework || '';
-    const hasDocker = framework.toLowerCase().includes('docker') ||
-      analysisData.tech_stack?.dependencies?.development?.some?.((d) => d.toLowerCase().includes('docker'));
+    const hasDocker = (analysisData.containers?.services.length || 0) > 0;
+    const skipSections = analysisData.repo_config?.skip_sections || [];
+    if (analysisData.variant === 'containerized' && analysisData.containers?.supports_containerized) {
+      return this.buildContainerizedSectionGuidance(analysisData.containers, hasEnv, hasDb, skipSections);
+    }
+    const services = getServiceStacks(analysisData.stacks);
+    const runtimes = Array.from(new Set(services.map((service) => service.tech_stack.primary_language)));
 
     // Build a richer, intelligently-ordered section list
     const sections: { title: string; tasks: number; why: string }[] = [
       { title: 'Project Orientation', tasks: 2, why: 'Understand what this project does and how the code is organized' },
-      { title: 'Prerequisites & Tooling', tasks: 2, why: 'Verify required runtimes and CLI tools are installed' },
+      services.length > 1
+        ? { title: 'Prerequisites & Tooling', tasks: runtimes.length, why: `Install the runtime of every service: ${runtimes.join(', ')}` }
+        : { title: 'Prerequisites & Tooling', tasks: 2, why: 'Verify required runtimes and CLI tools are installed' },
       { title: 'Get the Code', tasks: 1, why: 'Clone the repository and explore the directory layout' },
-      { title: 'Install Dependencies', tasks: 2, why: 'Install packages and confirm the install succeeded' },
     ];
+    if (services.length <= 1) {
+      sections.push({ title: 'Install Dependencies', tasks: 2, why: 'Install packages and confirm the install succeeded' });
+    }
 
     if (hasEnv) {
       sections.push({ title: 'Environment Configuration', tasks: 2, why: 'Create .env from example and obtain the required secrets/keys' });
@@ -412,13 +862,26 @@ CRITICAL JSON RULES:
     if (hasDocker) {
       sections.push({ title: 'Containerized Services', tasks: 1, why: 'Bring up auxiliary services with Docker Compose if available' });
     }
-    sections.push({ title: 'Run the Application', tasks: 2, why: 'Start the dev server and verify the app loads' });
+    if (services.length > 1) {
+      // One install-and-run section per service instead of a single one for the first stack
+      for (const service of services) {
+        const stack = service.tech_stack;
+        sections.push({
+          title: `Install & Run: ${service.root || 'Repository root'} (${stack.framework})`,
+          tasks: 2,
+          why: `Install ${stack.package_manager} dependencies in ${service.root || 'the root'}/ and start the ${stack.primary_language} service`,
+        });
+      }
+    } else {
+      sections.push({ title: 'Run the Application', tasks: 2, why: 'Start the dev server and verify the app loads' });
+    }
     sections.push({ title: 'Verify Your Setup', tasks: 2, why: 'Run tests / smoke-check key flows to confirm everything works' });
     sections.push({ title: 'Where to Go Next', tasks: 1, why: 'Pointers into the codebase: entry points, key files, and contribution flow' });
 
+    // Sections the maintainers' config skips are left out of the list
     return `
 === REQUIRED SECTIONS (intelligently ordered for THIS project) ===
-${sections.map((s, i) => `${i + 1}. ${s.title} — ${s.why} (~${s.tasks} task${s.tasks === 1 ? '' : 's'})`).join('\n')}
+${sections.filter((s) => !matchesSectionName(s, skipSections)).map((s, i) => `${i + 1}. ${s.title} — ${s.why} (~${s.tasks} task${s.tasks === 1 ? '' : 's'})`).join('\n')}
 
 === ORDERING RULES ===
 - Each task within a section MUST list its prerequisites in "depends_on" using prior task IDs.
@@ -430,6 +893,57 @@ ${sections.map((s, i) => `${i + 1}. ${s.title} — ${s.why} (~${s.tasks} task${s
 `;
   }
 
+  /**
+   * Section list for the containerized variant: nothing but Docker (and an
+   * editor for the dev container) is installed on the host
+   */
+  private buildContainerizedSectionGuidance(
+    containers: ContainerSetup,
+    hasEnv: boolean,
+    hasDb: boolean,
+    skipSections: string[]
+  ): string {
+    const devcontainer = containers.devcontainer;
+    const appServices = containers.services.filter((service) => service.build !== null).map((service) => service.name);
+    const sections: { title: string; tasks: number; why: string }[] = [
+      { title: 'Project Orientation', tasks: 2, why: 'Understand what this project does and how the code is organized' },
+      {
+        title: 'Prerequisites & Tooling',
+        tasks: 2,
+        why: devcontainer
+          ? 'Install Docker and VS Code with the Dev Containers extension (or the devcontainer CLI); no language runtimes on the host'
+          : 'Install Docker with Compose v2; no language runtimes or databases on the host',
+      },
+      { title: 'Get the Code', tasks: 1, why: 'Clone the repository and explore the directory layout' },
+    ];
+    if (hasEnv) {
+      sections.push({ title: 'Environment Configuration', tasks: 2, why: 'Create .env from example; containers read it at startup' });
+    }
+    sections.push(
+      devcontainer
+        ? { title: 'Open in Dev Container', tasks: 2, why: `Reopen the folder in the container defined by ${devcontainer.file} and wait for${devcontainer.post_create_command ? ` "${devcontainer.post_create_command}"` : ' the setup'} to finish` }
+        : { title: 'Build & Start Containers', tasks: 2, why: `Run docker compose up --build${appServices.length > 0 ? ` (builds ${appServices.join(', ')})` : ''} and wait for healthchecks to pass` }
+    );
+    if (hasDb) {
+      sections.push({ title: 'Database Setup', tasks: 2, why: 'Run migrations and seed data inside the containers (docker compose exec or the dev container terminal)' });
+    }
+    sections.push({ title: 'Verify Your Setup', tasks: 2, why: 'Open the forwarded ports and run the tests inside the container' });
+    sections.push({ title: 'Where to Go Next', tasks: 1, why: 'Pointers into the codebase: entry points, key files, and contribution flow' });
+
+    return `
+=== CONTAINERIZED VARIANT ===
+This roadmap sets the project up ENTIRELY in containers. Do NOT install language runtimes, package managers or databases on the host; every install, run, migrate and test command runs inside a container.
+
+=== REQUIRED SECTIONS ===
+${sections.filter((s) => !matchesSectionName(s, skipSections)).map((s, i) => `${i + 1}. ${s.title} — ${s.why} (~${s.tasks} task${s.tasks === 1 ? '' : 's'})`).join('\n')}
+
+=== ORDERING RULES ===
+- Each task within a section MUST list its prerequisites in "depends_on" using prior task IDs.
+- Aim for 10-14 total tasks; each task should take 2-15 minutes.
+- The FIRST task should always be a sub-2-minute "Read the README" or "Skim the directory tree" win to build momentum.
+`;
+  }
+
   /**
    * Build a project-specific example task
    */
@@ -575,7 +1089,7 @@ ${sections.map((s, i) => `${i + 1}. ${s.title} — ${s.why} (~${s.tasks} task${s
   ],
   "commands": [
     {
-      "command": "git clone https://github.com/${analysisData.repository_metadata?.owner || 'owner'}/${repoName}.git",
+      "command": "git clone ${analysisData.repository_metadata?.url || `https://github.com/${analysisData.repository_metadata?.owner || 'owner'}/${repoName}`}.git",
       "description": "Clone the repository",
       "expected_output": "Repository cloned successfully",
       "os": "all"
@@ -0,0 +1,152 @@
+/**
+ * Tests for GitHub Enterprise host configuration
+ * Run with: npm test hosts
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import { findGitHubHost, getDefaultGitHubHost, getEnterpriseHosts, GITHUB_DOTCOM } from '../hosts';
+import { createProviderForUrl } from '../../providers';
+import { parseRepositoryUrl } from '../../utils/url';
+import { ValidationError } from '../../utils/errors';
+
+describe('GitHub Hosts', () => {
+  // A plain-HTTP stand-in for a GitHub Enterprise Server
+  const requests: string[] = [];
+  let server: http.Server;
+  let origin: string;
+  const env = { ...process.env };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url === '/api/v3/repos/acme/widget') {
+        res.end(JSON.stringify({
+          name: 'widget',
+          owner: { login: 'acme' },
+          html_url: `${origin}/acme/widget`,
+          description: 'Internal widget service',
+          stargazers_count: 0,
+          forks_count: 0,
+          default_branch: 'main',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-06-01T00:00:00Z',
+          language: 'Go',
+          size: 120,
+          private: true,
+        }));
+      } else if (req.url === '/login/oauth/access_token') {
+        res.end(JSON.stringify({ access_token: 'stand-in-token', token_type: 'bearer' }));
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ message: 'Not Found' }));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+    process.env.NEXT_PUBLIC_GITHUB_ENTERPRISE_HOSTS = `${origin}, github.acme.internal, ghe.example.com=https://api.ghe.example.com/`;
+    delete process.env.GITHUB_HOST;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  describe('getEnterpriseHosts', () => {
+    it('should keep an explicit http origin and default the API to /api/v3', () => {
+      const [standIn] = getEnterpriseHosts();
+
+      expect(standIn).toEqual({
+        host: new URL(origin).host,
+        webUrl: origin,
+        apiUrl: `${origin}/api/v3`,
+        enterprise: true,
+      });
+    });
+
+    it('should use https for bare hostnames and honour an explicit API URL', () => {
+      const [, bare, withApi] = getEnterpriseHosts();
+
+      expect(bare.webUrl).toBe('https://github.acme.internal');
+      expect(bare.apiUrl).toBe('https://github.acme.internal/api/v3');
+      expect(withApi.apiUrl).toBe('https://api.ghe.example.com');
+    });
+
+    it('should skip entries that are not URLs', () => {
+      process.env.NEXT_PUBLIC_GITHUB_ENTERPRISE_HOSTS = 'http://, github.acme.internal';
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(getEnterpriseHosts().map((host) => host.host)).toEqual(['github.acme.internal']);
+      warn.mockRestore();
+    });
+  });
+
+  describe('findGitHubHost', () => {
+    it('should find github.com without an allowlist', () => {
+      process.env.NEXT_PUBLIC_GITHUB_ENTERPRISE_HOSTS = '';
+
+      expect(findGitHubHost('github.com')).toBe(GITHUB_DOTCOM);
+      expect(findGitHubHost('https://github.com')).toBe(GITHUB_DOTCOM);
+    });
+
+    it('should only allow the http origin that is listed', () => {
+      const port = Number(new URL(origin).port);
+
+      expect(findGitHubHost(origin)?.apiUrl).toBe(`${origin}/api/v3`);
+      expect(findGitHubHost(`http://127.0.0.1:${port + 1}`)).toBeNull();
+      expect(findGitHubHost('evil.example.com')).toBeNull();
+    });
+
+    it('should reject repository URLs whose scheme differs from the allowlisted origin', () => {
+      expect(parseRepositoryUrl(`${origin}/acme/widget`).host).toBe(new URL(origin).host);
+      expect(() => parseRepositoryUrl(`${origin.replace('http:', 'https:')}/acme/widget`)).toThrow();
+      expect(() => parseRepositoryUrl('http://github.acme.internal/acme/widget')).toThrow();
+    });
+  });
+
+  describe('getDefaultGitHubHost', () => {
+    it('should default to github.com', () => {
+      expect(getDefaultGitHubHost()).toBe(GITHUB_DOTCOM);
+    });
+
+    it('should throw when GITHUB_HOST is not allowlisted', () => {
+      process.env.GITHUB_HOST = 'github.other.internal';
+
+      expect(() => getDefaultGitHubHost()).toThrow(ValidationError);
+    });
+
+    it('should send OAuth requests to the enterprise host', async () => {
+      process.env.GITHUB_HOST = origin;
+      const { webUrl } = getDefaultGitHubHost();
+
+      const authorizeUrl = new URL(`${webUrl}/login/oauth/authorize`);
+      expect(authorizeUrl.origin).toBe(origin);
+
+      const response = await fetch(`${webUrl}/login/oauth/access_token`, { method: 'POST', headers: { Accept: 'application/json' } });
+      expect((await response.json()).access_token).toBe('stand-in-token');
+      expect(requests).toEqual(['POST /login/oauth/access_token']);
+    });
+  });
+
+  describe('API base', () => {
+    it('should read an enterprise repository through its /api/v3 base', async () => {
+      const { client, host } = createProviderForUrl(`${origin}/acme/widget`);
+
+      const metadata = await client.getRepositoryMetadata('acme', 'widget');
+
+      expect(host).toBe(new URL(origin).host);
+      expect(metadata.name).toBe('widget');
+      expect(metadata.url).toBe(`${origin}/acme/widget`);
+      expect(requests).toEqual(['GET /api/v3/repos/acme/widget']);
+    });
+  });
+});
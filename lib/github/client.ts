@@ -2,29 +2,90 @@
  * GitHub API client for repository operations
  */
 
-import { retryWithBackoff } from '../utils/retry';
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { retryWithBackoff, mapWithConcurrency } from '../utils/retry';
 import { GitHubAPIError } from '../utils/errors';
 import { validateRepositorySize } from '../utils/validation';
-import { RepositoryMetadata } from '../types';
+import { RepositoryMetadata, FileTreeItem } from '../types';
+import { extractTarGz } from '../utils/tar';
+import {
+  shouldAnalyzeFile,
+  isCiConfigFile,
+  isLockfile,
+  isSensitiveFile,
+  MAX_FILE_SIZE,
+  MAX_LOCKFILE_SIZE,
+} from '../analysis/file-filter';
+import {
+  RepositoryProvider,
+  RepositoryIssue,
+  CommitComparison,
+  FileTreeResult,
+  FileFetchStrategy,
+  RateLimitBudget,
+} from '../providers/types';
+import { GITHUB_DOTCOM } from './hosts';
+import { getRequestScheduler, RequestScheduler } from './scheduler';
 
-const GITHUB_API_BASE = 'https://api.github.com';
+// Fallback traversal limits for trees GitHub truncates
+const TREE_TRAVERSAL_CONCURRENCY = 4;
+const MAX_SUBTREE_REQUESTS = 300;
+
+interface GitHubTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+  url: string;
+}
+
+interface GitHubTreeResponse {
+  sha: string;
+  url: string;
+  tree: GitHubTreeEntry[];
+  truncated: boolean;
+}
+
+// GitHub's compare API lists at most this many changed files
+const MAX_COMPARE_FILES = 300;
 
 export interface GitHubClientOptions {
   token?: string;
+  apiBaseUrl?: string; // GitHub Enterprise Server API, e.g. https://github.acme.com/api/v3
+  fetchStrategy?: FileFetchStrategy;
 }
 
-export class GitHubClient {
+export class GitHubClient implements RepositoryProvider {
+  readonly name = 'github' as const;
   private token?: string;
+  private apiBaseUrl: string;
+  private fetchStrategy: FileFetchStrategy;
+  private scheduler: RequestScheduler;
+  // Archive snapshots by `owner/repo@ref`, downloaded on first content lookup
+  private archives = new Map<string, Promise<Map<string, string>>>();
 
   constructor(options?: GitHubClientOptions) {
     this.token = options?.token;
+    this.apiBaseUrl = options?.apiBaseUrl || GITHUB_DOTCOM.apiUrl;
+    this.fetchStrategy = options?.fetchStrategy || 'per-file';
+    this.scheduler = getRequestScheduler(this.apiBaseUrl, this.token);
+  }
+
+  /**
+   * Choose how getFileContent reads files: one contents request per file,
+   * or a single tarball download per ref served from memory
+   */
+  setFetchStrategy(strategy: FileFetchStrategy): void {
+    this.fetchStrategy = strategy;
   }
 
   /**
    * Get headers for GitHub API requests
    */
-  private getHeaders(): HeadersInit {
-    const headers: HeadersInit = {
+  private getHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
       'Accept': 'application/vnd.github.v3+json',
       'User-Agent': 'OnboardGhost',
     };
@@ -36,14 +97,21 @@ export class GitHubClient {
     return headers;
   }
 
+  /**
+   * Remaining core API budget, shared with other clients using the same token
+   */
+  getRateLimit(): RateLimitBudget | null {
+    return this.scheduler.getBudget();
+  }
+
   /**
    * Make a request to GitHub API with error handling
+   * The scheduler waits out rate limits; conditional requests revalidate
+   * cached responses with their ETag
    */
-  private async request<T>(url: string): Promise<T> {
-    console.log(`[GitHub API] GET ${url.replace(GITHUB_API_BASE, '')}`);
-    const response = await fetch(url, {
-      headers: this.getHeaders(),
-    });
+  private async fetchResponse(url: string, conditional = false): Promise<Response> {
+    console.log(`[GitHub API] GET ${url.replace(this.apiBaseUrl, '')}`);
+    const response = await this.scheduler.fetch(url, this.getHeaders(), { conditional });
 
     if (!response.ok) {
       const errorBody = await response.text();
@@ -56,13 +124,15 @@ export class GitHubClient {
         );
       }
 
-      if (response.status === 403) {
-        // Rate limit or forbidden
+      if (response.status === 403 || response.status === 429) {
+        // Rate limit the scheduler couldn't wait out, or forbidden
         const rateLimitRemaining = response.headers.get('X-RateLimit-Remaining');
         const rateLimitReset = response.headers.get('X-RateLimit-Reset');
         
         throw new GitHubAPIError(
-          'GitHub API rate limit exceeded or insufficient permissions',
+          rateLimitReset && rateLimitRemaining === '0'
+            ? `GitHub API rate limit exceeded; resets at ${new Date(Number(rateLimitReset) * 1000).toISOString()}`
+            : 'GitHub API rate limit exceeded or insufficient permissions',
           403,
           { rateLimitRemaining, rateLimitReset, body: errorBody }
         );
@@ -75,18 +145,27 @@ export class GitHubClient {
       );
     }
 
+    return response;
+  }
+
+  /**
+   * @param conditional - Revalidate with the ETag cache; off for file contents,
+   * which are read once per analysis and would only crowd the cache
+   */
+  private async request<T>(url: string, conditional = true): Promise<T> {
+    const response = await this.fetchResponse(url, conditional);
     return response.json();
   }
 
   /**
    * Fetch repository metadata
-   * Retries up to 3 times on 403 errors (rate limiting)
+   * Retries up to 3 times on errors; rate limits are waited out by the scheduler
    */
   async getRepositoryMetadata(
     owner: string,
     repo: string
   ): Promise<RepositoryMetadata> {
-    const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}`;
+    const url = `${this.apiBaseUrl}/repos/${owner}/${repo}`;
 
     const data = await retryWithBackoff(
       () => this.request<any>(url),
@@ -100,6 +179,7 @@ export class GitHubClient {
     // Transform GitHub API response to our RepositoryMetadata format
     const metadata: RepositoryMetadata = {
       id: `${owner}/${repo}`,
+      provider: 'github',
       owner: data.owner.login,
       name: data.name,
       url: data.html_url,
@@ -119,42 +199,229 @@ export class GitHubClient {
     return metadata;
   }
 
+  /**
+   * Resolve a branch, tag or commit SHA to the commit SHA it points at
+   */
+  async resolveRef(owner: string, repo: string, ref: string): Promise<string> {
+    const encodedRef = ref.split('/').map(encodeURIComponent).join('/');
+    const url = `${this.apiBaseUrl}/repos/${owner}/${repo}/commits/${encodedRef}`;
+
+    try {
+      const data = await this.request<{ sha: string }>(url);
+      return data.sha;
+    } catch (error) {
+      if (error instanceof GitHubAPIError && (error.statusCode === 404 || error.statusCode === 422)) {
+        throw new GitHubAPIError(
+          `Branch, tag or commit "${ref}" not found in ${owner}/${repo}`,
+          404,
+          { ref }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compare two commits and list the paths that changed between them
+   */
+  async compareCommits(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+  ): Promise<CommitComparison> {
+    const url = `${this.apiBaseUrl}/repos/${owner}/${repo}/compare/${base}...${head}`;
+    const data = await this.request<{
+      status: CommitComparison['status'];
+      total_commits: number;
+      files?: { filename: string; previous_filename?: string }[];
+    }>(url);
+
+    const files = data.files || [];
+    const changedFiles = new Set<string>();
+    for (const file of files) {
+      changedFiles.add(file.filename);
+      if (file.previous_filename) {
+        changedFiles.add(file.previous_filename);
+      }
+    }
+
+    return {
+      status: data.status,
+      total_commits: data.total_commits,
+      changed_files: Array.from(changedFiles),
+      files_truncated: files.length >= MAX_COMPARE_FILES,
+    };
+  }
+
   /**
    * Fetch file tree recursively
+   * Falls back to walking subtrees when GitHub truncates the listing
+   * @param ref - Commit SHA (preferred) or branch/tag name
    */
   async getFileTree(
     owner: string,
     repo: string,
-    branch: string = 'main'
-  ): Promise<any> {
-    // Try 'main' first, fallback to 'master'
-    try {
-      const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`;
-      return await this.request<any>(url);
-    } catch (error) {
-      if (error instanceof GitHubAPIError && error.statusCode === 404 && branch === 'main') {
-        // Try 'master' branch
-        const url = `${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/master?recursive=1`;
-        return await this.request<any>(url);
+    ref: string
+  ): Promise<FileTreeResult> {
+    const url = `${this.apiBaseUrl}/repos/${owner}/${repo}/git/trees/${ref}?recursive=1`;
+    const data = await this.request<GitHubTreeResponse>(url);
+
+    if (!data.truncated) {
+      return {
+        sha: data.sha,
+        files: toFileTreeItems(data.tree, ''),
+        truncated: false,
+        fallback_traversal: false,
+        subtree_requests: 0,
+        incomplete: false,
+      };
+    }
+
+    console.log(`[GitHub API] Tree for ${owner}/${repo} is truncated, walking subtrees`);
+    const walked = await this.walkTruncatedTree(owner, repo, data.sha);
+
+    return {
+      sha: data.sha,
+      files: walked.files,
+      truncated: true,
+      fallback_traversal: true,
+      subtree_requests: walked.requests,
+      incomplete: walked.incomplete,
+    };
+  }
+
+  /**
+   * Walk a truncated tree one level at a time.
+   * Each directory is fetched recursively; directories that are themselves
+   * truncated are listed non-recursively and their children queued for the
+   * next level.
+   */
+  private async walkTruncatedTree(
+    owner: string,
+    repo: string,
+    rootSha: string
+  ): Promise<{ files: FileTreeItem[]; requests: number; incomplete: boolean }> {
+    const treesUrl = `${this.apiBaseUrl}/repos/${owner}/${repo}/git/trees`;
+    const files: FileTreeItem[] = [];
+    let requests = 0;
+    let incomplete = false;
+
+    // Every request, including a level-by-level listing of a truncated
+    // subtree, comes out of the same budget
+    const spend = () => {
+      if (requests >= MAX_SUBTREE_REQUESTS) {
+        incomplete = true;
+        return false;
       }
-      throw error;
+      requests++;
+      return true;
+    };
+
+    const listLevel = async (sha: string, prefix: string) => {
+      if (!spend()) return [];
+      const level = await this.request<GitHubTreeResponse>(`${treesUrl}/${sha}`);
+      files.push(...toFileTreeItems(level.tree, prefix));
+      return level.tree
+        .filter((entry) => entry.type === 'tree')
+        .map((entry) => ({ sha: entry.sha, prefix: `${prefix}${entry.path}/` }));
+    };
+
+    let pending = await listLevel(rootSha, '');
+
+    while (pending.length > 0) {
+      const nextLevel = await mapWithConcurrency(
+        pending,
+        TREE_TRAVERSAL_CONCURRENCY,
+        async (dir) => {
+          if (!spend()) return [];
+          const subtree = await this.request<GitHubTreeResponse>(
+            `${treesUrl}/${dir.sha}?recursive=1`
+          );
+          if (!subtree.truncated) {
+            files.push(...toFileTreeItems(subtree.tree, dir.prefix));
+            return [];
+          }
+          return listLevel(dir.sha, dir.prefix);
+        }
+      );
+
+      pending = nextLevel.flat();
+    }
+
+    if (incomplete) {
+      console.warn(
+        `[GitHub API] Stopped tree traversal for ${owner}/${repo} after ${requests} requests`
+      );
     }
+
+    return { files, requests, incomplete };
+  }
+
+  /**
+   * Download the tarball for a ref once and keep the files the analysis can
+   * read: analyzed and critical files (see shouldAnalyzeFile), CI configs and
+   * sensitive files for the secret scan up to MAX_FILE_SIZE, and lockfiles up
+   * to MAX_LOCKFILE_SIZE
+   */
+  private loadArchive(owner: string, repo: string, ref: string): Promise<Map<string, string>> {
+    const key = `${owner}/${repo}@${ref}`;
+    let archive = this.archives.get(key);
+
+    if (!archive) {
+      archive = (async () => {
+        const url = `${this.apiBaseUrl}/repos/${owner}/${repo}/tarball/${encodeURIComponent(ref)}`;
+        const response = await this.fetchResponse(url);
+        if (!response.body) {
+          throw new GitHubAPIError('Archive download returned no body', 502, { url });
+        }
+
+        const files = await extractTarGz(
+          Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>),
+          {
+            stripComponents: 1, // owner-repo-sha/
+            filter: (path, size) =>
+              (size <= MAX_FILE_SIZE && (shouldAnalyzeFile(path, size) || isCiConfigFile(path) || isSensitiveFile(path))) ||
+              (isLockfile(path) && size <= MAX_LOCKFILE_SIZE),
+          }
+        );
+        console.log(`[GitHub API] Archive ${owner}/${repo}@${ref.slice(0, 12)}: kept ${files.size} files`);
+        return files;
+      })();
+      this.archives.set(key, archive);
+    }
+
+    return archive;
   }
 
   /**
    * Fetch file content
+   * In archive mode, files missing from the snapshot (or a failed download)
+   * fall back to a contents request
    */
   async getFileContent(
     owner: string,
     repo: string,
     path: string,
-    branch?: string
+    ref?: string
   ): Promise<string> {
-    const url = branch
-      ? `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}?ref=${branch}`
-      : `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}`;
+    if (this.fetchStrategy === 'archive' && ref) {
+      try {
+        const content = (await this.loadArchive(owner, repo, ref)).get(path);
+        if (content !== undefined) {
+          return content;
+        }
+      } catch (error) {
+        console.warn(`[GitHub API] Archive download failed, switching to per-file requests:`, error);
+        this.fetchStrategy = 'per-file';
+      }
+    }
 
-    const data = await this.request<any>(url);
+    const url = ref
+      ? `${this.apiBaseUrl}/repos/${owner}/${repo}/contents/${path}?ref=${encodeURIComponent(ref)}`
+      : `${this.apiBaseUrl}/repos/${owner}/${repo}/contents/${path}`;
+
+    const data = await this.request<any>(url, false);
 
     if (data.encoding === 'base64') {
       return Buffer.from(data.content, 'base64').toString('utf-8');
@@ -170,12 +437,19 @@ export class GitHubClient {
     owner: string,
     repo: string,
     query: string
-  ): Promise<any[]> {
+  ): Promise<RepositoryIssue[]> {
     const searchQuery = `repo:${owner}/${repo} ${query}`;
-    const url = `${GITHUB_API_BASE}/search/issues?q=${encodeURIComponent(searchQuery)}&sort=reactions-+1&per_page=3`;
+    const url = `${this.apiBaseUrl}/search/issues?q=${encodeURIComponent(searchQuery)}&sort=reactions-+1&per_page=3`;
 
-    const data = await this.request<any>(url);
-    return data.items || [];
+    const data = await this.request<{
+      items?: { title: string; html_url: string; state: string; body: string | null }[];
+    }>(url);
+    return (data.items || []).map((item) => ({
+      title: item.title,
+      url: item.html_url,
+      state: item.state,
+      body: item.body || '',
+    }));
   }
 
   /**
@@ -187,7 +461,7 @@ export class GitHubClient {
     }
 
     try {
-      const url = `${GITHUB_API_BASE}/user`;
+      const url = `${this.apiBaseUrl}/user`;
       await this.request<any>(url);
       return true;
     } catch (error) {
@@ -196,9 +470,25 @@ export class GitHubClient {
   }
 }
 
+/**
+ * Convert GitHub tree entries to FileTreeItems, prefixing subtree paths.
+ * Submodule entries ('commit') are skipped.
+ */
+function toFileTreeItems(entries: GitHubTreeEntry[], prefix: string): FileTreeItem[] {
+  return entries
+    .filter((entry) => entry.type === 'blob' || entry.type === 'tree')
+    .map((entry) => ({
+      path: `${prefix}${entry.path}`,
+      type: entry.type as FileTreeItem['type'],
+      size: entry.size || 0,
+      sha: entry.sha,
+      url: entry.url,
+    }));
+}
+
 /**
  * Create a GitHub client instance
  */
-export function createGitHubClient(token?: string): GitHubClient {
-  return new GitHubClient({ token });
+export function createGitHubClient(token?: string, apiBaseUrl?: string): GitHubClient {
+  return new GitHubClient({ token, apiBaseUrl });
 }
@@ -0,0 +1,95 @@
+/**
+ * GitHub host configuration for github.com and GitHub Enterprise Server
+ */
+
+import { ValidationError } from '../utils/errors';
+
+export interface GitHubHost {
+  host: string; // hostname[:port], used in repoIds
+  webUrl: string; // Origin repository URLs start with
+  apiUrl: string; // REST API base
+  enterprise: boolean;
+}
+
+export const GITHUB_DOTCOM: GitHubHost = {
+  host: 'github.com',
+  webUrl: 'https://github.com',
+  apiUrl: 'https://api.github.com',
+  enterprise: false,
+};
+
+/**
+ * Parse one allowlist entry: `hostname`, `origin` or `origin=apiUrl`.
+ * Bare hostnames use https; an explicit origin allows an HTTP stand-in.
+ * The API defaults to `${origin}/api/v3`, the GitHub Enterprise Server layout.
+ */
+function parseHostEntry(entry: string): GitHubHost | null {
+  const [web, api] = entry.split('=').map((part) => part.trim());
+
+  try {
+    const url = new URL(/^https?:\/\//.test(web) ? web : `https://${web}`);
+    return {
+      host: url.host,
+      webUrl: url.origin,
+      apiUrl: (api || `${url.origin}/api/v3`).replace(/\/+$/, ''),
+      enterprise: true,
+    };
+  } catch {
+    console.warn(`[GitHub] Ignoring invalid enterprise host entry: ${entry}`);
+    return null;
+  }
+}
+
+/**
+ * Enterprise hosts allowed by NEXT_PUBLIC_GITHUB_ENTERPRISE_HOSTS (comma-separated)
+ * The variable is public so the dashboard validates the same URLs as the API
+ */
+export function getEnterpriseHosts(): GitHubHost[] {
+  return (process.env.NEXT_PUBLIC_GITHUB_ENTERPRISE_HOSTS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(parseHostEntry)
+    .filter((host): host is GitHubHost => host !== null);
+}
+
+/**
+ * Find github.com or an allowlisted enterprise host by hostname[:port] or origin
+ */
+export function findGitHubHost(hostOrOrigin: string): GitHubHost | null {
+  let host = hostOrOrigin;
+  if (hostOrOrigin.includes('://')) {
+    try {
+      host = new URL(hostOrOrigin).host;
+    } catch {
+      return null;
+    }
+  }
+
+  if (host === GITHUB_DOTCOM.host) {
+    return GITHUB_DOTCOM;
+  }
+
+  return getEnterpriseHosts().find((candidate) => candidate.host === host) || null;
+}
+
+/**
+ * The deployment's own GitHub host (GITHUB_HOST), used for OAuth and the
+ * user's stored token. Defaults to github.com.
+ * @throws ValidationError if GITHUB_HOST is not allowlisted
+ */
+export function getDefaultGitHubHost(): GitHubHost {
+  const configured = process.env.GITHUB_HOST;
+  if (!configured) {
+    return GITHUB_DOTCOM;
+  }
+
+  const host = findGitHubHost(configured);
+  if (!host) {
+    throw new ValidationError(
+      `GITHUB_HOST "${configured}" must be github.com or listed in NEXT_PUBLIC_GITHUB_ENTERPRISE_HOSTS`
+    );
+  }
+
+  return host;
+}
@@ -3,3 +3,5 @@
  */
 
 export * from './client';
+export * from './hosts';
+export * from './scheduler';
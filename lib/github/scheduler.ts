@@ -0,0 +1,264 @@
+/**
+ * Rate-limit-aware request scheduling for the GitHub REST API
+ * Tracks the budget GitHub reports in X-RateLimit-* headers, pauses until the
+ * reset time (or Retry-After) when a limit is hit, and revalidates cached
+ * responses with If-None-Match so unchanged resources come back as a 304,
+ * which doesn't count against the primary rate limit
+ */
+
+import { createHash } from 'crypto';
+import { sleep } from '../utils/retry';
+import { GitHubAPIError } from '../utils/errors';
+import { RateLimitBudget } from '../providers/types';
+
+// Longer pauses fail fast instead of stalling the analysis
+const MAX_WAIT_MS = 2 * 60 * 1000;
+// GitHub asks clients to wait at least a minute after a secondary limit without Retry-After
+const SECONDARY_LIMIT_WAIT_MS = 60 * 1000;
+const MAX_RATE_LIMIT_RETRIES = 3;
+
+// ETag cache bounds, per scheduler; bodies are measured in characters
+const MAX_ETAG_ENTRIES = 500;
+const MAX_CACHED_BODY_LENGTH = 1024 * 1024;
+const MAX_ETAG_CACHE_LENGTH = 8 * 1024 * 1024;
+
+// Schedulers kept for reuse: idle ones are dropped, and at most MAX_SCHEDULERS
+// are kept, which bounds all ETag caches together to MAX_SCHEDULERS × 8 MB
+const SCHEDULER_IDLE_MS = 15 * 60 * 1000;
+const MAX_SCHEDULERS = 16;
+
+// Pause key for secondary limits, which apply across resources
+const ALL_RESOURCES = '*';
+
+interface CachedResponse {
+  etag: string;
+  body: string;
+}
+
+export interface ScheduledRequestOptions {
+  conditional?: boolean; // Send If-None-Match and serve 304s from the ETag cache
+}
+
+/**
+ * The rate limit resource a request counts against
+ */
+function resourceFor(url: string): string {
+  return new URL(url).pathname.includes('/search/') ? 'search' : 'core';
+}
+
+export class RequestScheduler {
+  private budgets = new Map<string, RateLimitBudget>();
+  private pausedUntil = new Map<string, number>();
+  private etags = new Map<string, CachedResponse>();
+  private cachedLength = 0;
+  private lastUsedAt = Date.now();
+
+  /**
+   * When the scheduler last sent a request (or was created)
+   */
+  getLastUsedAt(): number {
+    return this.lastUsedAt;
+  }
+
+  /**
+   * Remaining budget from the most recent response for a resource
+   */
+  getBudget(resource: string = 'core'): RateLimitBudget | null {
+    return this.budgets.get(resource) || null;
+  }
+
+  /**
+   * Send a GET request once the budget allows it.
+   * Rate-limited responses are retried after the pause GitHub asks for;
+   * when that pause is too long the response is returned for the caller
+   * to turn into an error.
+   */
+  async fetch(
+    url: string,
+    headers: Record<string, string>,
+    options: ScheduledRequestOptions = {}
+  ): Promise<Response> {
+    const resource = resourceFor(url);
+    this.lastUsedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForCapacity(resource);
+
+      const cached = options.conditional ? this.etags.get(url) : undefined;
+      const response = await fetch(url, {
+        headers: cached ? { ...headers, 'If-None-Match': cached.etag } : headers,
+      });
+      this.recordBudget(response.headers);
+
+      if (response.status === 304 && cached) {
+        // Refresh recency so frequently revalidated entries survive eviction
+        this.etags.delete(url);
+        this.etags.set(url, cached);
+        return new Response(cached.body, { status: 200, headers: response.headers });
+      }
+
+      if (response.ok) {
+        const etag = response.headers.get('ETag');
+        if (!options.conditional || !etag) {
+          return response;
+        }
+        const body = await response.text();
+        this.storeETag(url, etag, body);
+        return new Response(body, { status: response.status, headers: response.headers });
+      }
+
+      if (response.status !== 403 && response.status !== 429) {
+        return response;
+      }
+
+      const pause = await this.rateLimitPause(response);
+      if (!pause || pause.ms > MAX_WAIT_MS || attempt >= MAX_RATE_LIMIT_RETRIES) {
+        return response;
+      }
+
+      console.warn(
+        `[GitHub API] ${pause.secondary ? 'Secondary' : 'Primary'} rate limit hit, pausing ${Math.ceil(pause.ms / 1000)}s`
+      );
+      this.pausedUntil.set(pause.secondary ? ALL_RESOURCES : resource, Date.now() + pause.ms);
+    }
+  }
+
+  /**
+   * Wait out an active pause or an exhausted budget
+   * @throws GitHubAPIError if the budget resets too far in the future
+   */
+  private async waitForCapacity(resource: string): Promise<void> {
+    const budget = this.budgets.get(resource);
+    const exhaustedUntil = budget && budget.remaining === 0
+      ? new Date(budget.reset_at).getTime()
+      : 0;
+    const until = Math.max(
+      this.pausedUntil.get(resource) || 0,
+      this.pausedUntil.get(ALL_RESOURCES) || 0,
+      exhaustedUntil
+    );
+
+    const wait = until - Date.now();
+    if (wait <= 0) {
+      return;
+    }
+
+    if (wait > MAX_WAIT_MS) {
+      throw new GitHubAPIError(
+        `GitHub API rate limit exceeded; resets at ${new Date(until).toISOString()}`,
+        403,
+        { resource, rateLimit: budget || null }
+      );
+    }
+
+    await sleep(wait);
+  }
+
+  /**
+   * How long GitHub asks us to wait, or null for a 403 that isn't a rate limit
+   */
+  private async rateLimitPause(
+    response: Response
+  ): Promise<{ ms: number; secondary: boolean } | null> {
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      return { ms: Number(retryAfter) * 1000, secondary: true };
+    }
+
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (response.headers.get('X-RateLimit-Remaining') === '0' && reset) {
+      // One extra second covers clock skew against GitHub's reset time
+      return { ms: Math.max(0, Number(reset) * 1000 - Date.now()) + 1000, secondary: false };
+    }
+
+    const body = await response.clone().text();
+    if (response.status === 429 || /secondary rate limit/i.test(body)) {
+      return { ms: SECONDARY_LIMIT_WAIT_MS, secondary: true };
+    }
+
+    return null;
+  }
+
+  private recordBudget(headers: Headers): void {
+    const limit = headers.get('X-RateLimit-Limit');
+    const remaining = headers.get('X-RateLimit-Remaining');
+    const reset = headers.get('X-RateLimit-Reset');
+    if (limit === null || remaining === null || reset === null) {
+      return;
+    }
+
+    const resource = headers.get('X-RateLimit-Resource') || 'core';
+    this.budgets.set(resource, {
+      resource,
+      limit: Number(limit),
+      remaining: Number(remaining),
+      used: Number(headers.get('X-RateLimit-Used') || Number(limit) - Number(remaining)),
+      reset_at: new Date(Number(reset) * 1000).toISOString(),
+    });
+  }
+
+  private storeETag(url: string, etag: string, body: string): void {
+    this.deleteETag(url);
+    if (body.length > MAX_CACHED_BODY_LENGTH) {
+      return;
+    }
+
+    this.etags.set(url, { etag, body });
+    this.cachedLength += body.length;
+    // Maps iterate in insertion order, so the first key is the least recent
+    while (this.etags.size > MAX_ETAG_ENTRIES || this.cachedLength > MAX_ETAG_CACHE_LENGTH) {
+      this.deleteETag(this.etags.keys().next().value as string);
+    }
+  }
+
+  private deleteETag(url: string): void {
+    const cached = this.etags.get(url);
+    if (cached) {
+      this.cachedLength -= cached.body.length;
+      this.etags.delete(url);
+    }
+  }
+}
+
+// Budgets and ETags belong to a token on a host, so clients sharing both share a scheduler
+const schedulers = new Map<string, RequestScheduler>();
+
+/**
+ * Drop schedulers idle for SCHEDULER_IDLE_MS, then the least recently used
+ * beyond MAX_SCHEDULERS, keeping the one just handed out. Clients still
+ * holding an evicted one keep using it; it is just no longer shared.
+ */
+function evictSchedulers(keep: string): void {
+  const now = Date.now();
+  for (const [key, scheduler] of schedulers) {
+    if (key !== keep && now - scheduler.getLastUsedAt() > SCHEDULER_IDLE_MS) {
+      schedulers.delete(key);
+    }
+  }
+
+  const byLastUse = Array.from(schedulers)
+    .filter(([key]) => key !== keep)
+    .sort(([, a], [, b]) => a.getLastUsedAt() - b.getLastUsedAt());
+  for (const [key] of byLastUse.slice(0, Math.max(0, byLastUse.length + 1 - MAX_SCHEDULERS))) {
+    schedulers.delete(key);
+  }
+}
+
+/**
+ * Get the shared scheduler for an API host and token
+ */
+export function getRequestScheduler(apiBaseUrl: string, token?: string): RequestScheduler {
+  const tokenKey = token
+    ? createHash('sha256').update(token).digest('hex').slice(0, 16)
+    : 'anonymous';
+  const key = `${apiBaseUrl}|${tokenKey}`;
+
+  let scheduler = schedulers.get(key);
+  if (!scheduler) {
+    scheduler = new RequestScheduler();
+    schedulers.set(key, scheduler);
+  }
+  evictSchedulers(key);
+
+  return scheduler;
+}
@@ -0,0 +1,364 @@
+/**
+ * GitLab API client for repository operations
+ */
+
+import { retryWithBackoff } from '../utils/retry';
+import { GitLabAPIError } from '../utils/errors';
+import { validateRepositorySize } from '../utils/validation';
+import { RepositoryMetadata, FileTreeItem } from '../types';
+import {
+  RepositoryProvider,
+  RepositoryIssue,
+  CommitComparison,
+  FileTreeResult,
+} from '../providers/types';
+
+const GITLAB_API_BASE = 'https://gitlab.com/api/v4';
+
+// The tree endpoint returns at most 100 entries per page
+const TREE_PAGE_SIZE = 100;
+const MAX_TREE_PAGES = 300;
+
+// GitLab stops listing diffs after this many files (diff_max_files default)
+const MAX_COMPARE_FILES = 1000;
+
+interface GitLabProject {
+  id: number;
+  name: string;
+  path: string;
+  path_with_namespace: string;
+  web_url: string;
+  description: string | null;
+  star_count: number;
+  forks_count: number;
+  default_branch: string;
+  created_at: string;
+  last_activity_at: string;
+  visibility: 'public' | 'internal' | 'private';
+  namespace: { full_path: string };
+  statistics?: { repository_size: number }; // bytes, only with reporter access
+}
+
+interface GitLabTreeEntry {
+  id: string;
+  name: string;
+  type: 'blob' | 'tree' | 'commit';
+  path: string;
+  mode: string;
+}
+
+export interface GitLabClientOptions {
+  token?: string;
+}
+
+export class GitLabClient implements RepositoryProvider {
+  readonly name = 'gitlab' as const;
+  private token?: string;
+
+  constructor(options?: GitLabClientOptions) {
+    this.token = options?.token;
+  }
+
+  /**
+   * Get headers for GitLab API requests
+   */
+  private getHeaders(): HeadersInit {
+    const headers: HeadersInit = {
+      'Accept': 'application/json',
+      'User-Agent': 'OnboardGhost',
+    };
+
+    // Personal, project and OAuth tokens are all accepted as bearer tokens
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Make a request to GitLab API with error handling
+   */
+  private async fetchResponse(url: string): Promise<Response> {
+    console.log(`[GitLab API] GET ${url.replace(GITLAB_API_BASE, '')}`);
+    const response = await fetch(url, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+
+      if (response.status === 404 || response.status === 401) {
+        throw new GitLabAPIError(
+          'Project not found or private. Provide a GitLab access token to access private projects.',
+          404,
+          { url, body: errorBody }
+        );
+      }
+
+      if (response.status === 403 || response.status === 429) {
+        const rateLimitRemaining = response.headers.get('RateLimit-Remaining');
+        const rateLimitReset = response.headers.get('RateLimit-Reset');
+
+        throw new GitLabAPIError(
+          'GitLab API rate limit exceeded or insufficient permissions',
+          response.status,
+          { rateLimitRemaining, rateLimitReset, body: errorBody }
+        );
+      }
+
+      throw new GitLabAPIError(
+        `GitLab API error: ${response.statusText}`,
+        response.status,
+        { body: errorBody }
+      );
+    }
+
+    return response;
+  }
+
+  private async request<T>(url: string): Promise<T> {
+    const response = await this.fetchResponse(url);
+    return response.json();
+  }
+
+  /**
+   * Projects are addressed by their URL-encoded full path
+   */
+  private projectUrl(owner: string, repo: string): string {
+    return `${GITLAB_API_BASE}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+  }
+
+  /**
+   * Fetch repository metadata
+   * Retries up to 3 times on errors (rate limiting)
+   */
+  async getRepositoryMetadata(
+    owner: string,
+    repo: string
+  ): Promise<RepositoryMetadata> {
+    const projectUrl = this.projectUrl(owner, repo);
+
+    const [data, languages] = await retryWithBackoff(
+      () => Promise.all([
+        this.request<GitLabProject>(`${projectUrl}?statistics=true`),
+        this.request<Record<string, number>>(`${projectUrl}/languages`),
+      ]),
+      3,
+      1000
+    );
+
+    // Statistics are omitted without reporter access; size is then unknown
+    const sizeKB = Math.round((data.statistics?.repository_size || 0) / 1024);
+    validateRepositorySize(sizeKB);
+
+    // Languages come back as { name: percentage }; the largest share is primary
+    const language = Object.entries(languages).sort((a, b) => b[1] - a[1])[0]?.[0];
+
+    // Transform GitLab API response to our RepositoryMetadata format
+    const metadata: RepositoryMetadata = {
+      id: data.path_with_namespace,
+      provider: 'gitlab',
+      owner: data.namespace.full_path,
+      name: data.path,
+      url: data.web_url,
+      description: data.description || '',
+      stars: data.star_count,
+      forks: data.forks_count,
+      default_branch: data.default_branch,
+      created_at: new Date(data.created_at),
+      updated_at: new Date(data.last_activity_at),
+      language: language || 'Unknown',
+      size: sizeKB,
+      is_private: data.visibility !== 'public',
+      analyzed_at: new Date(),
+      analysis_duration: 0, // Will be updated after analysis
+    };
+
+    return metadata;
+  }
+
+  /**
+   * Resolve a branch, tag or commit SHA to the commit SHA it points at
+   */
+  async resolveRef(owner: string, repo: string, ref: string): Promise<string> {
+    const url = `${this.projectUrl(owner, repo)}/repository/commits/${encodeURIComponent(ref)}`;
+
+    try {
+      const data = await this.request<{ id: string }>(url);
+      return data.id;
+    } catch (error) {
+      if (error instanceof GitLabAPIError && error.statusCode === 404) {
+        throw new GitLabAPIError(
+          `Branch, tag or commit "${ref}" not found in ${owner}/${repo}`,
+          404,
+          { ref }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Compare two commits and list the paths that changed between them.
+   * GitLab's compare API has no ahead/behind status, so it is derived from
+   * the merge base.
+   */
+  async compareCommits(
+    owner: string,
+    repo: string,
+    base: string,
+    head: string
+  ): Promise<CommitComparison> {
+    if (base === head) {
+      return { status: 'identical', total_commits: 0, changed_files: [], files_truncated: false };
+    }
+
+    const projectUrl = this.projectUrl(owner, repo);
+    const mergeBase = await this.request<{ id: string }>(
+      `${projectUrl}/repository/merge_base?refs[]=${encodeURIComponent(base)}&refs[]=${encodeURIComponent(head)}`
+    );
+
+    const data = await this.request<{
+      commits: unknown[];
+      diffs: { old_path: string; new_path: string }[];
+      compare_timeout: boolean;
+    }>(
+      `${projectUrl}/repository/compare?from=${encodeURIComponent(base)}&to=${encodeURIComponent(head)}`
+    );
+
+    const changedFiles = new Set<string>();
+    for (const diff of data.diffs) {
+      changedFiles.add(diff.new_path);
+      changedFiles.add(diff.old_path);
+    }
+
+    return {
+      status: mergeBase.id === base ? 'ahead' : mergeBase.id === head ? 'behind' : 'diverged',
+      total_commits: data.commits.length,
+      changed_files: Array.from(changedFiles),
+      files_truncated: data.compare_timeout || data.diffs.length >= MAX_COMPARE_FILES,
+    };
+  }
+
+  /**
+   * Fetch file tree recursively, following keyset pagination
+   * GitLab does not report blob sizes in tree listings, so sizes are null (unknown)
+   * @param ref - Commit SHA (preferred) or branch/tag name
+   */
+  async getFileTree(
+    owner: string,
+    repo: string,
+    ref: string
+  ): Promise<FileTreeResult> {
+    const files: FileTreeItem[] = [];
+    let nextUrl: string | null =
+      `${this.projectUrl(owner, repo)}/repository/tree?ref=${encodeURIComponent(ref)}` +
+      `&recursive=true&per_page=${TREE_PAGE_SIZE}&pagination=keyset`;
+    let pages = 0;
+
+    while (nextUrl && pages < MAX_TREE_PAGES) {
+      const response = await this.fetchResponse(nextUrl);
+      const entries: GitLabTreeEntry[] = await response.json();
+      pages++;
+
+      for (const entry of entries) {
+        // Submodule entries ('commit') are skipped
+        if (entry.type === 'blob' || entry.type === 'tree') {
+          files.push({
+            path: entry.path,
+            type: entry.type,
+            size: null,
+            sha: entry.id,
+            url: `${this.projectUrl(owner, repo)}/repository/blobs/${entry.id}`,
+          });
+        }
+      }
+
+      nextUrl = parseNextLink(response.headers.get('Link'));
+    }
+
+    const incomplete = nextUrl !== null;
+    if (incomplete) {
+      console.warn(`[GitLab API] Stopped tree listing for ${owner}/${repo} after ${pages} pages`);
+    }
+
+    return {
+      sha: ref,
+      files,
+      truncated: incomplete,
+      fallback_traversal: false,
+      subtree_requests: 0,
+      incomplete,
+    };
+  }
+
+  /**
+   * Fetch file content
+   */
+  async getFileContent(
+    owner: string,
+    repo: string,
+    path: string,
+    ref?: string
+  ): Promise<string> {
+    const fileUrl = `${this.projectUrl(owner, repo)}/repository/files/${encodeURIComponent(path)}/raw`;
+    const url = ref ? `${fileUrl}?ref=${encodeURIComponent(ref)}` : fileUrl;
+
+    const response = await this.fetchResponse(url);
+    return response.text();
+  }
+
+  /**
+   * Search project issues
+   */
+  async searchIssues(
+    owner: string,
+    repo: string,
+    query: string
+  ): Promise<RepositoryIssue[]> {
+    const url = `${this.projectUrl(owner, repo)}/issues?search=${encodeURIComponent(query)}&order_by=popularity&per_page=3`;
+
+    const issues = await this.request<
+      { title: string; web_url: string; state: string; description: string | null }[]
+    >(url);
+    return issues.map((issue) => ({
+      title: issue.title,
+      url: issue.web_url,
+      state: issue.state,
+      body: issue.description || '',
+    }));
+  }
+
+  /**
+   * Validate access token
+   */
+  async validateToken(): Promise<boolean> {
+    if (!this.token) {
+      return false;
+    }
+
+    try {
+      await this.request<unknown>(`${GITLAB_API_BASE}/user`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Extract the rel="next" URL from a Link header
+ */
+function parseNextLink(linkHeader: string | null): string | null {
+  if (!linkHeader) return null;
+  const match = linkHeader.split(',').find((part) => /rel="next"/.test(part));
+  return match?.match(/<([^>]+)>/)?.[1] || null;
+}
+
+/**
+ * Create a GitLab client instance
+ */
+export function createGitLabClient(token?: string): GitLabClient {
+  return new GitLabClient({ token });
+}
@@ -0,0 +1,5 @@
+/**
+ * GitLab module exports
+ */
+
+export * from './client';
@@ -7,8 +7,12 @@ type Events = {
       repoUrl: string;
       userId: string;
       githubToken: string | null;
+      providerToken?: string | null; // Token for GitLab, Bitbucket or a GitHub host other than GITHUB_HOST
       saveProgress: boolean;
       repoId: string;
+      ref?: string | null;
+      baseSha?: string | null; // Previously analyzed commit, enables incremental mode
+      packages?: string[] | null; // Workspace package paths the roadmap covers
     }
   }
 };
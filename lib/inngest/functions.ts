@@ -1,12 +1,18 @@
 import { inngest } from "./client";
 import { adminDb } from '@/lib/firebase/admin';
-import { createGitHubClient } from '@/lib/github';
+import { createRepositoryProvider, selectProviderToken } from '@/lib/providers';
 import { createGeminiClient } from '@/lib/gemini';
-import { filterFileTree, getFilteringStats } from '@/lib/analysis/file-filter';
-import { detectTechStack } from '@/lib/analysis/tech-stack';
-import { detectDatabaseRequirements } from '@/lib/analysis/database';
-import { extractEnvironmentVariables } from '@/lib/analysis/env-vars';
-import { parseGitHubUrl } from '@/lib/utils/url';
+import { filterFileTree, getFilteringStats, isAnalysisInputFile, isGeneratedContent } from '@/lib/analysis/file-filter';
+import { fetchCriticalFiles, fetchFileRules, fetchRepoConfig, runStaticAnalysis, extractProjectDocs, applyFetchStrategy, analyzeLicenses, getEnvScanFiles, measureEnvScanCoverage } from '@/lib/pipeline/static-analysis';
+import { planIncrementalAnalysis, findAffectedSections, IncrementalPlan } from '@/lib/pipeline/incremental';
+import { normalizeGeneratedSections, countRoadmapTasks, calculateRoadmapProgress, mergeRegeneratedSections, prefixRoadmapIds, unprefixRoadmapIds, applyAnalysisSections, offersContainerizedVariant, GeneratedSection } from '@/lib/pipeline/roadmap';
+import { scanForSecrets, summarizeSecurityIssues } from '@/lib/analysis/secrets';
+import { summarizeVulnerabilities } from '@/lib/analysis/vulnerabilities';
+import { summarizeLicenseReport } from '@/lib/analysis/licenses';
+import { REPO_CONFIG_FILES, selectEmbedFiles, summarizeRepoConfig } from '@/lib/analysis/repo-config';
+import type { EnvironmentVariable } from '@/lib/types';
+import type { RoadmapSection } from '@/lib/types/roadmap';
+import { parseRepositoryUrl } from '@/lib/utils/url';
 import { transformRoadmapForUI } from '@/lib/utils/roadmap-transformer';
 
 // Helper function to remove undefined values
@@ -24,6 +30,11 @@ function removeUndefined(obj: any): any {
   return obj;
 }
 
+// RAG chunk IDs are `${repoId}-${sanitized path}-chunk-${line}`
+function chunkIdPrefix(repoId: string, filePath: string): string {
+  return `${repoId}-${filePath.replace(/[^a-zA-Z0-9-]/g, '-')}-chunk-`;
+}
+
 export const analyzeRepositoryFunction = inngest.createFunction(
   { 
     id: "analyze-repository",
@@ -31,25 +42,32 @@ export const analyzeRepositoryFunction = inngest.createFunction(
     triggers: [{ event: "repo/analyze" }] 
   },
   async ({ event, step }) => {
-    const { repoUrl, userId, githubToken, saveProgress = true, repoId } = event.data;
+    const { repoUrl, userId, githubToken, providerToken, saveProgress = true, repoId, ref, baseSha, packages } = event.data;
     const startTime = Date.now();
 
-    const { owner, repo } = parseGitHubUrl(repoUrl);
-    const githubClient = createGitHubClient(githubToken);
+    const { provider, host, owner, repo } = parseRepositoryUrl(repoUrl);
+    const repoClient = createRepositoryProvider(
+      provider,
+      selectProviderToken({ provider, host }, githubToken, providerToken),
+      host
+    );
     const geminiClient = createGeminiClient();
 
     // Utility to update progress in Firebase
-    const updateProgress = async (stepNum: number, stepName: string, status: string, message: string) => {
+    const updateProgress = async (stepNum: number, stepName: string, status: string, message: string, details?: Record<string, unknown>) => {
       await step.run(`update-progress-${stepNum}-${status}`, async () => {
         const progressRef = adminDb.collection('analysis_progress').doc(repoId);
-        const logEntry = { timestamp: new Date(), step: stepNum, message };
+        const logEntry = { timestamp: new Date(), step: stepNum, message, ...(details ? { details } : {}) };
         const currentDoc = await progressRef.get();
         const currentLogs = currentDoc.exists ? (currentDoc.data()?.logs || []) : [];
+        // A fresh invocation may not have made any API calls yet; keep the last known budget
+        const rateLimit = repoClient.getRateLimit?.() || currentDoc.data()?.rate_limit || null;
         await progressRef.set({
           current_step: stepNum,
           step_name: stepName,
           step_status: status,
           logs: [...currentLogs, logEntry],
+          rate_limit: rateLimit,
           updated_at: new Date(),
         });
       });
@@ -58,51 +76,151 @@ export const analyzeRepositoryFunction = inngest.createFunction(
     // Step 1: Repository Access
     await updateProgress(1, 'Repository Access', 'in-progress', 'Fetching repository metadata...');
     const metadata = await step.run("fetch-metadata", async () => {
-      return await githubClient.getRepositoryMetadata(owner, repo);
+      const repoMetadata = await repoClient.getRepositoryMetadata(owner, repo);
+      const requestedRef = ref || repoMetadata.default_branch;
+      const commitSha = await repoClient.resolveRef(owner, repo, requestedRef);
+      return { ...repoMetadata, ref: requestedRef, commit_sha: commitSha };
     });
-    await updateProgress(1, 'Repository Access', 'completed', `Repository: ${metadata.name}`);
+    await updateProgress(1, 'Repository Access', 'completed', `Repository: ${metadata.name} @ ${metadata.ref} (${metadata.commit_sha.slice(0, 7)})`);
 
     // Step 2: File Tree Filtering
     await updateProgress(2, 'File Tree Filtering', 'in-progress', 'Fetching file tree...');
     const fileData = await step.run("filter-files", async () => {
-      const fileTreeData = await githubClient.getFileTree(owner, repo, metadata.default_branch);
-      const allFiles = fileTreeData.tree.map((item: any) => ({
-        path: item.path, type: item.type, size: item.size || 0, sha: item.sha, url: item.url,
-      }));
-      const filteredFiles = filterFileTree(allFiles);
+      const fileTree = await repoClient.getFileTree(owner, repo, metadata.commit_sha);
+      const repoConfig = await fetchRepoConfig(repoClient, owner, repo, metadata.commit_sha, fileTree.files);
+      const filteredFiles = filterFileTree(
+        fileTree.files,
+        await fetchFileRules(repoClient, owner, repo, metadata.commit_sha, fileTree.files),
+        repoConfig.config
+      );
       const stats = getFilteringStats(filteredFiles);
-      return { filteredFiles, stats };
+      const traversal = fileTree.fallback_traversal
+        ? { fallbackTraversal: true, subtreeRequests: fileTree.subtree_requests, incompleteTree: fileTree.incomplete }
+        : null;
+      return { filteredFiles, stats, traversal, repoConfig, embedFiles: selectEmbedFiles(fileTree.files, repoConfig.config) };
     });
-    await updateProgress(2, 'File Tree Filtering', 'completed', `Filtered ${fileData.filteredFiles.total_files} files`);
+
+    // Small repos are read from one archive download. Each step runs in its own
+    // invocation with a new client, so only the static analysis step uses the
+    // archive; the plan only needs the mode to know which files the env scan reads.
+    const fetchStrategy = applyFetchStrategy(repoClient, metadata.size);
+
+    // Incremental mode: diff the previously analyzed commit against the new head.
+    // Falls back to a full analysis when the previous result can't be reused.
+    const incremental = baseSha ? await step.run("plan-incremental", async () => {
+      if (baseSha === metadata.commit_sha) return null;
+
+      const [repoDoc, roadmapDoc] = await Promise.all([
+        adminDb.collection('repositories').doc(repoId).get(),
+        adminDb.collection('roadmaps').doc(repoId).get(),
+      ]);
+      const previousRepo = repoDoc.data();
+      const previousRoadmap = roadmapDoc.data();
+      if (!previousRepo?.tech_stack || !previousRoadmap?.sections || previousRepo.commit_sha !== baseSha) {
+        return null;
+      }
+
+      // Skipped sections were dropped from the stored roadmap, so bringing one
+      // back takes a full generation
+      const skipSections = (config: { skip_sections?: string[] } | null | undefined) =>
+        [...(config?.skip_sections || [])].sort().join('\n');
+      if (skipSections(previousRepo.repo_config) !== skipSections(fileData.repoConfig.config)) {
+        return null;
+      }
+
+      const comparison = await repoClient.compareCommits(owner, repo, baseSha, metadata.commit_sha);
+      if (comparison.status !== 'ahead' || comparison.files_truncated) {
+        return null;
+      }
+
+      return {
+        plan: planIncrementalAnalysis(baseSha, metadata.commit_sha, comparison.changed_files, previousRoadmap.sections, [
+          ...getEnvScanFiles(fileData.filteredFiles, fetchStrategy).map((file) => file.path),
+          ...(previousRepo.environment_variables || []).flatMap((variable: EnvironmentVariable) => (variable.usages || []).map((usage) => usage.file)),
+        ]),
+        previous: {
+          techStack: previousRepo.tech_stack,
+          stacks: previousRepo.stacks || [],
+          scripts: previousRepo.scripts || [],
+          ciWorkflows: previousRepo.ci_workflows || [],
+          containers: previousRepo.containers || null,
+          workspace: previousRepo.workspace || null,
+          databaseRequirements: previousRepo.database_requirements || [],
+          environmentVariables: previousRepo.environment_variables || [],
+          vulnerabilities: previousRepo.vulnerabilities || [],
+          projectPurpose: previousRepo.project_purpose || null,
+        },
+        previousSections: previousRoadmap.sections,
+        previousContainerizedSections: previousRoadmap.variants?.containerized?.sections || null,
+      };
+    }) : null;
+
+    // An invalid config is logged here; the valid part of it still applies
+    const configErrors = fileData.repoConfig.errors.length > 0
+      ? { configFile: fileData.repoConfig.file, configErrors: fileData.repoConfig.errors }
+      : null;
+    const incrementalDetails = incremental
+      ? { changedInputs: incremental.plan.changed_inputs, sectionsToRegenerate: incremental.plan.sections_to_regenerate }
+      : null;
+    await updateProgress(
+      2,
+      'File Tree Filtering',
+      'completed',
+      `${incremental ? `Incremental update: ${incremental.plan.changed_files.length} files changed since ${incremental.plan.base_sha.slice(0, 7)}. ` : ''}${fileData.traversal
+        ? `Filtered ${fileData.filteredFiles.total_files} files (tree was truncated by GitHub, used fallback traversal)`
+        : `Filtered ${fileData.filteredFiles.total_files} files`}${fileData.repoConfig.file ? `; ${summarizeRepoConfig(fileData.repoConfig)}` : ''}`,
+      fileData.traversal || configErrors || incrementalDetails
+        ? { ...fileData.stats, ...fileData.traversal, ...configErrors, ...incrementalDetails }
+        : undefined
+    );
+    const repoConfig = fileData.repoConfig.config;
 
     // Step 3: Static Analysis
-    await updateProgress(3, 'Static Analysis', 'in-progress', 'Analyzing tech stack...');
+    await updateProgress(3, 'Static Analysis', 'in-progress', 'Analyzing tech stack...', { fetchStrategy });
     const staticAnalysis = await step.run("static-analysis", async () => {
-      const criticalFilesContent = new Map<string, string>();
-      for (const file of fileData.filteredFiles.critical_files.slice(0, 10)) {
-        try {
-          const content = await githubClient.getFileContent(owner, repo, file.path, metadata.default_branch);
-          criticalFilesContent.set(file.path.split('/').pop() || file.path, content);
-        } catch (error) {}
-      }
-      const techStack = await detectTechStack(criticalFilesContent, metadata.language);
-      const allDeps = [...techStack.dependencies.production, ...techStack.dependencies.development];
-      const databaseRequirements = detectDatabaseRequirements(allDeps, fileData.filteredFiles.files);
-      const envExampleContent = criticalFilesContent.get('.env.example') || criticalFilesContent.get('.env.sample') || '';
-      const environmentVariables = extractEnvironmentVariables(envExampleContent);
+      const criticalFilesContent = await fetchCriticalFiles(
+        repoClient, owner, repo, metadata.commit_sha, fileData.filteredFiles, fetchStrategy
+      );
+      const result = await runStaticAnalysis(
+        criticalFilesContent,
+        fileData.filteredFiles,
+        metadata.language,
+        incremental ? { result: incremental.previous, rerun: incremental.plan.rerun } : undefined,
+        packages
+      );
+      // The secret scan and license check read the same files, so they run here rather than re-fetching later
       return {
-        techStack,
-        databaseRequirements,
-        environmentVariables,
-        readmeContent: criticalFilesContent.get('README.md') || '',
-        packageJsonData: criticalFilesContent.has('package.json') ? JSON.parse(criticalFilesContent.get('package.json')!) : undefined
+        ...result,
+        ...extractProjectDocs(criticalFilesContent),
+        envScanCoverage: measureEnvScanCoverage(criticalFilesContent, fileData.filteredFiles),
+        securityIssues: scanForSecrets(criticalFilesContent),
+        licenseReport: await analyzeLicenses(repoClient, criticalFilesContent, result),
       };
     });
-    await updateProgress(3, 'Static Analysis', 'completed', 'Static Analysis complete');
+    await updateProgress(
+      3,
+      'Static Analysis',
+      'completed',
+      staticAnalysis.workspace
+        ? `Static Analysis complete: monorepo with ${staticAnalysis.workspace.packages.length} packages`
+        : staticAnalysis.stacks.length > 1
+          ? `Static Analysis complete: ${staticAnalysis.stacks.length} stacks (${staticAnalysis.stacks.map((stack) => stack.root || 'root').join(', ')})`
+          : 'Static Analysis complete',
+      {
+        licenses: summarizeLicenseReport(staticAnalysis.licenseReport),
+        envScan: staticAnalysis.envScanCoverage,
+        ...(staticAnalysis.workspace
+          ? { workspaceTools: staticAnalysis.workspace.tools, selectedPackages: staticAnalysis.workspace.selected_packages }
+          : {}),
+      }
+    );
 
     // Step 4: Project Purpose Extraction
     await updateProgress(4, 'Project Purpose', 'in-progress', 'Analyzing project purpose...');
     const projectPurpose = await step.run("project-purpose", async () => {
+      if (incremental && !incremental.plan.rerun.purpose && incremental.previous.projectPurpose) {
+        return incremental.previous.projectPurpose;
+      }
       if (staticAnalysis.readmeContent) {
         return await geminiClient.extractProjectPurpose(
           staticAnalysis.readmeContent,
@@ -120,8 +238,13 @@ export const analyzeRepositoryFunction = inngest.createFunction(
     });
     await updateProgress(4, 'Project Purpose', 'completed', 'Project purpose analyzed');
 
-    // Step 5: Skip Security Scan
-    await updateProgress(5, 'Security Scan', 'completed', 'Skipped');
+    // Step 5: Security Scan (run with the static analysis)
+    await updateProgress(
+      5,
+      'Security Scan',
+      'completed',
+      `${summarizeSecurityIssues(staticAnalysis.securityIssues)}; ${summarizeVulnerabilities(staticAnalysis.vulnerabilities)}`
+    );
     
     // Step 6: RAG Embedding Upload
     await updateProgress(6, 'RAG Indexing', 'in-progress', 'Embedding repository codebase for QA...');
@@ -135,16 +258,35 @@ export const analyzeRepositoryFunction = inngest.createFunction(
           return;
         }
 
+        // A handful of files: per-file requests are cheaper than downloading the archive again
+        repoClient.setFetchStrategy?.('per-file');
+
         const MAX_FILES = 15; // Limit to protect free tier
         const chunksToUpload = [];
 
-        // Focus on critical source files for RAG
-        const ragFiles = fileData.filteredFiles.critical_files.slice(0, MAX_FILES);
+        // Focus on critical source files for RAG, plus the files the repo config asks for
+        const embedPaths = new Set(fileData.embedFiles.map((file) => file.path));
+        let ragFiles = [
+          ...fileData.embedFiles,
+          ...fileData.filteredFiles.critical_files.slice(0, MAX_FILES).filter((file) => !embedPaths.has(file.path)),
+        ];
+
+        // Incremental mode: drop chunks of changed files and re-embed only those
+        // (and every embedded file when the config itself changed)
+        if (incremental) {
+          const changedFiles = new Set(incremental.plan.changed_files);
+          const configChanged = REPO_CONFIG_FILES.some((name) => changedFiles.has(name));
+          for (const filePath of incremental.plan.changed_files.filter((path) => isAnalysisInputFile(path) || embedPaths.has(path))) {
+            await vectorIndex.delete({ prefix: chunkIdPrefix(repoId, filePath) });
+          }
+          ragFiles = ragFiles.filter((file) => changedFiles.has(file.path) || (configChanged && embedPaths.has(file.path)));
+        }
         
         for (const file of ragFiles) {
           try {
-            const content = await githubClient.getFileContent(owner, repo, file.path, metadata.default_branch);
-            if (!content) continue;
+            const content = await repoClient.getFileContent(owner, repo, file.path, metadata.commit_sha);
+            // Files the config names are embedded even when they look generated
+            if (!content || (isGeneratedContent(content) && !embedPaths.has(file.path))) continue;
             
             // Simple chunking strategy (grouping by roughly 80 lines)
             const lines = content.split('\n');
@@ -159,7 +301,7 @@ export const analyzeRepositoryFunction = inngest.createFunction(
                   
                   if (embedding && embedding.length > 0) {
                     chunksToUpload.push({
-                       id: `${repoId}-${file.path.replace(/[^a-zA-Z0-9-]/g, '-')}-chunk-${i}`,
+                       id: `${chunkIdPrefix(repoId, file.path)}${i}`,
                        vector: embedding,
                        metadata: { repoId, filePath: file.path, text: text.slice(0, 8000) } // keep metadata size reasonable
                     });
@@ -187,47 +329,117 @@ export const analyzeRepositoryFunction = inngest.createFunction(
 
     // Step 7: AI Roadmap Generation
     await updateProgress(7, 'Roadmap Generation', 'in-progress', 'Generating onboarding roadmap...');
-    const generatedRoadmap = await step.run("generate-roadmap", async () => {
-      const geminiMetadata = {
+    const analysisData = {
+      tech_stack: staticAnalysis.techStack,
+      stacks: staticAnalysis.stacks,
+      scripts: staticAnalysis.scripts,
+      ci_workflows: staticAnalysis.ciWorkflows,
+      containers: staticAnalysis.containers,
+      workspace: staticAnalysis.workspace,
+      database: staticAnalysis.databaseRequirements,
+      env_vars: staticAnalysis.environmentVariables,
+      env_scan_coverage: staticAnalysis.envScanCoverage,
+      purpose: projectPurpose,
+      setup_instructions: staticAnalysis.readmeContent.slice(0, 1000),
+      security_issues: staticAnalysis.securityIssues,
+      vulnerabilities: staticAnalysis.vulnerabilities,
+      license_report: staticAnalysis.licenseReport,
+      repo_config: repoConfig,
+      repository_metadata: {
         owner: metadata.owner,
         name: metadata.name,
+        url: metadata.url,
         description: metadata.description,
         language: metadata.language,
         size_kb: metadata.size,
         stars: metadata.stars,
         default_branch: metadata.default_branch,
-      };
+        ref: metadata.ref,
+        commit_sha: metadata.commit_sha,
+      },
+    };
 
-      const roadmapData = await geminiClient.generateRoadmap({
-        tech_stack: staticAnalysis.techStack,
-        database: staticAnalysis.databaseRequirements,
-        env_vars: staticAnalysis.environmentVariables,
-        purpose: projectPurpose,
-        setup_instructions: staticAnalysis.readmeContent.slice(0, 1000),
-        security_issues: [],
-        repository_metadata: geminiMetadata,
+    // Incremental mode: regenerate only the sections whose inputs changed,
+    // leaving every other section (and its task IDs) untouched
+    const regenerateChangedSections = async (
+      previousSections: RoadmapSection[],
+      plan: IncrementalPlan,
+      variant?: 'containerized'
+    ) => {
+      const sectionIds = findAffectedSections(previousSections, plan.changed_inputs);
+
+      // Inputs that appeared since the last analysis may need a section of their own
+      if (staticAnalysis.databaseRequirements.length > 0 && findAffectedSections(previousSections, ['database']).length === 0) {
+        sectionIds.push('section-database');
+      }
+      if (staticAnalysis.environmentVariables.length > 0 && findAffectedSections(previousSections, ['env_vars']).length === 0) {
+        sectionIds.push('section-environment');
+      }
+
+      if (sectionIds.length === 0) {
+        return previousSections;
+      }
+      const regenerated = await geminiClient.regenerateSections({ ...analysisData, variant }, {
+        existing_sections: previousSections,
+        section_ids: sectionIds,
+        changed_files: plan.changed_files,
+        change_summary: `Changed analysis inputs: ${plan.changed_inputs.join(', ') || 'none'}`,
       });
+      return mergeRegeneratedSections<RoadmapSection | GeneratedSection>(previousSections, normalizeGeneratedSections(regenerated));
+    };
 
-      const transformedSections = roadmapData.sections.map((section: any) => ({
-        ...section,
-        goals: [],
-        tasks: section.tasks.map((task: any) => ({
-          ...task,
-          instructions: task.instructions || '',
-          code_snippet: task.code_blocks?.[0]?.content || null,
-          difficulty: task.difficulty === 'beginner' ? 'easy' : task.difficulty === 'intermediate' ? 'medium' : 'hard',
-          completion_criteria: task.verification?.how_to_verify || '',
-        })),
-      }));
+    const generatedRoadmap = await step.run("generate-roadmap", async () => {
+      const sections = applyAnalysisSections(
+        incremental
+          ? await regenerateChangedSections(incremental.previousSections, incremental.plan)
+          : normalizeGeneratedSections((await geminiClient.generateRoadmap(analysisData)).sections),
+        staticAnalysis.securityIssues,
+        staticAnalysis.licenseReport,
+        repoConfig
+      );
 
       return {
         repo_id: metadata.id,
         repository_name: metadata.name,
-        sections: transformedSections,
-        total_tasks: roadmapData.sections.reduce((sum: number, section: any) => sum + section.tasks.length, 0),
+        sections,
+        total_tasks: countRoadmapTasks(sections),
       };
     });
-    await updateProgress(7, 'Roadmap Generation', 'completed', `Generated ${generatedRoadmap.total_tasks} tasks`);
+
+    // Containerized variant, offered as an alternative. It is regenerated like
+    // the default roadmap when a previous version exists, so its task IDs (and
+    // the progress on them) stay stable too.
+    const containerizedRoadmap = offersContainerizedVariant(staticAnalysis.containers, repoConfig)
+      ? await step.run("generate-containerized-roadmap", async () => {
+          const sections = prefixRoadmapIds(
+            applyAnalysisSections(
+              incremental?.previousContainerizedSections
+                ? await regenerateChangedSections(
+                    unprefixRoadmapIds(incremental.previousContainerizedSections, 'containerized'),
+                    incremental.plan,
+                    'containerized'
+                  )
+                : normalizeGeneratedSections(
+                    (await geminiClient.generateRoadmap({ ...analysisData, variant: 'containerized' })).sections
+                  ),
+              staticAnalysis.securityIssues,
+              staticAnalysis.licenseReport,
+              repoConfig
+            ),
+            'containerized'
+          );
+
+          return {
+            repo_id: metadata.id,
+            repository_name: metadata.name,
+            sections,
+            total_tasks: countRoadmapTasks(sections),
+          };
+        })
+      : null;
+    await updateProgress(7, 'Roadmap Generation', 'completed',
+      `Generated ${generatedRoadmap.total_tasks} tasks${containerizedRoadmap ? ` (+${containerizedRoadmap.total_tasks} in the containerized variant)` : ''}`
+    );
 
     // Step 8: Complete & Store Results
     await step.run("finalize-storage", async () => {
@@ -237,27 +449,63 @@ export const analyzeRepositoryFunction = inngest.createFunction(
       const repoData = removeUndefined({
         ...metadata,
         tech_stack: staticAnalysis.techStack,
+        stacks: staticAnalysis.stacks,
+        scripts: staticAnalysis.scripts,
+        ci_workflows: staticAnalysis.ciWorkflows,
+        containers: staticAnalysis.containers,
+        workspace: staticAnalysis.workspace,
         database_requirements: staticAnalysis.databaseRequirements,
         environment_variables: staticAnalysis.environmentVariables,
-        security_issues: [],
+        security_issues: staticAnalysis.securityIssues,
+        vulnerabilities: staticAnalysis.vulnerabilities,
+        license_report: staticAnalysis.licenseReport,
+        repo_config: repoConfig,
         project_purpose: projectPurpose,
         gemini_file_uris: [],
+        analysis_mode: incremental ? 'incremental' : 'full',
+        incremental_base_sha: incremental ? incremental.plan.base_sha : null,
         analysis_duration: duration,
         analyzed_at: new Date(),
       });
       await repoRef.set(repoData);
 
       const roadmapRef = adminDb.collection('roadmaps').doc(repoId);
+      const preferredRoadmap = containerizedRoadmap && repoConfig?.setup_path === 'docker' ? containerizedRoadmap : generatedRoadmap;
       const enrichedRoadmap = transformRoadmapForUI(generatedRoadmap as any);
       
       const roadmapData = removeUndefined({
         ...enrichedRoadmap,
+        // Alternative roadmaps, selected with get-roadmap's `variant`
+        variants: containerizedRoadmap
+          ? { containerized: transformRoadmapForUI(containerizedRoadmap) }
+          : {},
+        // Shown when get-roadmap is not asked for a variant
+        preferred_variant: preferredRoadmap === containerizedRoadmap ? 'containerized' : 'default',
         generated_at: new Date(),
       });
       await roadmapRef.set(roadmapData);
 
       if (saveProgress && userId) {
         const progressRef = adminDb.collection('user_progress').doc(userId).collection('repos').doc(repoId);
+        const progressDoc = await progressRef.get();
+
+        // Incremental updates keep task IDs stable, so existing progress carries
+        // over; tasks that were dropped no longer count
+        if (incremental && progressDoc.exists) {
+          const taskIds = new Set(
+            [...generatedRoadmap.sections, ...(containerizedRoadmap?.sections || [])].flatMap((section) => section.tasks.map((task: { id: string }) => task.id))
+          );
+          const completedTasks = ((progressDoc.data()?.completed_tasks || []) as string[]).filter((id) => taskIds.has(id));
+          const percentage = calculateRoadmapProgress(completedTasks, preferredRoadmap.sections);
+          await progressRef.set({
+            completed_tasks: completedTasks,
+            overall_progress_percentage: percentage,
+            ghost_solidness: percentage,
+            last_activity: new Date(),
+          }, { merge: true });
+          return;
+        }
+
         await progressRef.set({
           user_id: userId,
           repo_id: repoId,
@@ -0,0 +1,5 @@
+/**
+ * Local repository source exports
+ */
+
+export * from './source';
@@ -0,0 +1,92 @@
+/**
+ * Tests for the Repository Analyzer
+ * Run with: npm test analyzer
+ */
+
+import path from 'path';
+import { RepositoryAnalyzer, AnalyzerGeminiClient, AnalysisProgress } from '../analyzer';
+import { LocalRepositorySource } from '../../local';
+import type { Roadmap } from '../../types';
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'sample-api');
+
+type AnalysisData = Parameters<AnalyzerGeminiClient['generateRoadmap']>[0];
+
+/**
+ * Gemini stand-in: one section with one task, and the analysis data it was given
+ */
+function createStubGeminiClient() {
+  const roadmapRequests: AnalysisData[] = [];
+  const client: AnalyzerGeminiClient = {
+    extractProjectPurpose: async () => ({
+      purpose: 'Stores notes in PostgreSQL',
+      features: ['Notes API'],
+      target_users: 'Developers',
+      project_type: 'API',
+    }),
+    generateRoadmap: async (analysisData: AnalysisData): Promise<Roadmap> => {
+      roadmapRequests.push(analysisData);
+      return {
+        repository_name: 'sample-api',
+        total_tasks: 1,
+        estimated_completion_time: '30 minutes',
+        sections: [
+          {
+            id: 'section-install',
+            title: 'Install dependencies',
+            description: 'Get the API running',
+            tasks: [
+              {
+                id: 'task-install',
+                title: 'Install packages',
+                description: { summary: 'Install the packages', why_needed: 'The API needs them', learning_goal: 'npm' },
+                steps: [],
+                commands: [],
+                code_blocks: [],
+                references: [],
+                tips: [],
+                warnings: [],
+                verification: { how_to_verify: 'Run npm start', expected_result: 'The server listens', troubleshooting: [] },
+                difficulty: 'beginner',
+                estimated_time: '5 minutes',
+                depends_on: [],
+              },
+            ],
+          },
+        ],
+      };
+    },
+  };
+  return { client, roadmapRequests };
+}
+
+describe('Repository Analyzer', () => {
+  describe('analyzeSource', () => {
+    it('should analyze a local directory end to end without network access', async () => {
+      const { client, roadmapRequests } = createStubGeminiClient();
+      const progress: AnalysisProgress[] = [];
+      const analyzer = new RepositoryAnalyzer(undefined, (update) => progress.push(update), client);
+      const source = new LocalRepositorySource(FIXTURE);
+
+      const analysis = await analyzer.analyzeSource(source, source.owner, source.repo);
+
+      expect(analysis.repository.name).toBe('sample-api');
+      expect(analysis.tech_stack.framework).toBe('Express.js');
+      expect(analysis.database.map((database) => database.type)).toContain('PostgreSQL');
+      expect(analysis.environment_variables.map((variable) => variable.name)).toEqual(
+        expect.arrayContaining(['DATABASE_URL', 'PORT', 'SESSION_SECRET'])
+      );
+      expect(analysis.project_purpose.purpose).toBe('Stores notes in PostgreSQL');
+
+      // The roadmap is built from the stub's sections and the static analysis
+      expect(roadmapRequests).toHaveLength(1);
+      expect(roadmapRequests[0].tech_stack).toEqual(analysis.tech_stack);
+      expect(analysis.roadmap.sections.map((section) => section.id)).toContain('section-install');
+      expect(analysis.roadmap.total_tasks).toBe(
+        analysis.roadmap.sections.reduce((sum, section) => sum + section.tasks.length, 0)
+      );
+
+      expect(progress[progress.length - 1]).toMatchObject({ step: 8, status: 'completed' });
+    }, 30000);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Tests for Commit-based Cache Validation
+ * Run with: npm test cache
+ */
+
+import { evaluateCachedAnalysis, CachedAnalysisInfo } from '../cache';
+import type { RepositoryProvider } from '../../providers/types';
+
+const ANALYZED_SHA = 'a'.repeat(40);
+const HEAD_SHA = 'b'.repeat(40);
+
+const CACHED = { ref: 'main', default_branch: 'main', commit_sha: ANALYZED_SHA, has_roadmap: true };
+
+/**
+ * Provider stand-in whose head is HEAD_SHA, with the given files changed since ANALYZED_SHA
+ */
+function providerWithChanges(changedFiles: string[]): RepositoryProvider {
+  return {
+    resolveRef: async () => HEAD_SHA,
+    compareCommits: async () => ({
+      status: 'ahead',
+      total_commits: 1,
+      changed_files: changedFiles,
+      files_truncated: false,
+    }),
+  } as unknown as RepositoryProvider;
+}
+
+async function statusAfter(changedFiles: string[], cached: CachedAnalysisInfo = CACHED) {
+  return (await evaluateCachedAnalysis(providerWithChanges(changedFiles), 'acme', 'widget', cached)).status;
+}
+
+describe('Commit-based Cache Validation', () => {
+  describe('evaluateCachedAnalysis', () => {
+    it('should serve the analysis when the head is the analyzed commit', async () => {
+      const provider = { resolveRef: async () => ANALYZED_SHA } as unknown as RepositoryProvider;
+
+      expect((await evaluateCachedAnalysis(provider, 'acme', 'widget', CACHED)).status).toBe('hit');
+    });
+
+    it('should mark it stale when no changed path feeds the analysis', async () => {
+      const decision = await evaluateCachedAnalysis(
+        providerWithChanges(['docs/guide.md', 'src/server.test.ts', 'assets/logo.png']),
+        'acme',
+        'widget',
+        CACHED
+      );
+
+      expect(decision).toMatchObject({ status: 'stale', analyzed_sha: ANALYZED_SHA, head_sha: HEAD_SHA });
+    });
+
+    it('should leave head_sha unset when the head could not be resolved', async () => {
+      const provider = {
+        resolveRef: async () => {
+          throw new Error('rate limited');
+        },
+      } as unknown as RepositoryProvider;
+      const decision = await evaluateCachedAnalysis(provider, 'acme', 'widget', CACHED);
+
+      expect(decision.status).toBe('stale');
+      expect(decision.head_sha).toBeUndefined();
+    });
+
+    it('should refresh when a non-manifest input changed', async () => {
+      const decision = await evaluateCachedAnalysis(
+        providerWithChanges(['docs/guide.md', 'README.md', 'Dockerfile']),
+        'acme',
+        'widget',
+        CACHED
+      );
+
+      expect(decision.status).toBe('refresh');
+      expect(decision.relevant_changes).toEqual(['README.md', 'Dockerfile']);
+    });
+
+    it('should refresh when a file the config embeds changed', async () => {
+      const cached = { ...CACHED, embed_globs: ['docs/**'] };
+
+      expect(await statusAfter(['docs/guide.md'], cached)).toBe('refresh');
+      expect(await statusAfter(['notes/todo.md'], cached)).toBe('stale');
+    });
+
+    it('should refresh when a manifest changed', async () => {
+      const decision = await evaluateCachedAnalysis(providerWithChanges(['package.json']), 'acme', 'widget', CACHED);
+
+      expect(decision.status).toBe('refresh');
+      expect(decision.relevant_changes).toEqual(['package.json']);
+    });
+
+    it('should refresh when the repo config changed', async () => {
+      expect(await statusAfter(['.onboardghost.yml'])).toBe('refresh');
+      expect(await statusAfter(['.onboardghost.json'])).toBe('refresh');
+    });
+
+    it('should refresh when ignore or attribute rules changed', async () => {
+      expect(await statusAfter(['.gitignore'])).toBe('refresh');
+      expect(await statusAfter(['packages/web/.gitignore'])).toBe('refresh');
+      expect(await statusAfter(['.gitattributes'])).toBe('refresh');
+    });
+
+    it('should refresh when a source file the env scan reads changed', async () => {
+      expect(await statusAfter(['src/server.ts'])).toBe('refresh');
+      expect(await statusAfter(['app/settings.py'])).toBe('refresh');
+      expect(await statusAfter(['src/server.test.ts'])).toBe('stale');
+    });
+
+    it('should refresh when a .env file or private key is committed', async () => {
+      expect(await statusAfter(['.env'])).toBe('refresh');
+      expect(await statusAfter(['deploy/id_rsa'])).toBe('refresh');
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import express from 'express';
+import pg from 'pg';
+
+const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+const app = express();
+
+app.use(express.json());
+app.use((req, res, next) => {
+  req.sessionSecret = process.env.SESSION_SECRET;
+  next();
+});
+
+app.get('/notes', async (req, res) => {
+  const { rows } = await pool.query('SELECT * FROM notes');
+  res.json(rows);
+});
+
+app.listen(process.env.PORT || 3000);
@@ -0,0 +1,88 @@
+/**
+ * Tests for Incremental Re-analysis Planning
+ * Run with: npm test incremental
+ */
+
+import { classifyChangedFile, findAffectedSections, planIncrementalAnalysis } from '../incremental';
+
+const SECTIONS = [
+  { id: 'section-orientation', title: 'Project Orientation' },
+  { id: 'section-prerequisites', title: 'Prerequisites & Tooling' },
+  { id: 'section-environment', title: 'Environment Configuration' },
+  { id: 'section-database', title: 'Database Setup' },
+  { id: 'section-run', title: 'Run the Application' },
+  { id: 'section-security-hygiene', title: 'Security hygiene' },
+  { id: 'section-licensing', title: 'Licensing' },
+  { id: 'section-config-team-setup', title: 'Team setup' },
+];
+
+describe('Incremental Re-analysis Planning', () => {
+  describe('classifyChangedFile', () => {
+    it('should map manifests, lockfiles and version files to the tech stack', () => {
+      expect(classifyChangedFile('package.json')).toEqual(['tech_stack', 'database']);
+      expect(classifyChangedFile('pnpm-lock.yaml')).toEqual(['tech_stack']);
+      expect(classifyChangedFile('.nvmrc')).toEqual(['tech_stack']);
+    });
+
+    it('should treat the repo config as affecting every input', () => {
+      expect(classifyChangedFile('.onboardghost.yml')).toEqual(['tech_stack', 'database', 'env_vars', 'purpose', 'tooling']);
+    });
+
+    it('should map database paths, env examples, docs and filtering rules', () => {
+      expect(classifyChangedFile('db/migrations/001_init.sql')).toEqual(['database']);
+      expect(classifyChangedFile('.env.example')).toEqual(['env_vars']);
+      expect(classifyChangedFile('README.md')).toEqual(['purpose']);
+      expect(classifyChangedFile('web/.gitignore')).toEqual(['tech_stack', 'env_vars']);
+      expect(classifyChangedFile('.env.production')).toEqual(['secrets']);
+    });
+
+    it('should count source files only when the env scan reads them', () => {
+      expect(classifyChangedFile('src/config.ts')).toEqual([]);
+      expect(classifyChangedFile('src/config.ts', ['src/config.ts'])).toEqual(['env_vars']);
+    });
+  });
+
+  describe('findAffectedSections', () => {
+    it('should match sections on id and title', () => {
+      expect(findAffectedSections(SECTIONS, ['database'])).toEqual(['section-database']);
+      expect(findAffectedSections(SECTIONS, ['purpose'])).toEqual(['section-orientation']);
+    });
+
+    it('should never return the sections built in code', () => {
+      expect(findAffectedSections(SECTIONS, ['env_vars'])).toEqual(['section-environment']);
+      expect(findAffectedSections(SECTIONS, ['tech_stack', 'database', 'env_vars', 'purpose', 'tooling'])).toEqual([
+        'section-orientation',
+        'section-prerequisites',
+        'section-environment',
+        'section-database',
+        'section-run',
+      ]);
+    });
+  });
+
+  describe('planIncrementalAnalysis', () => {
+    it('should re-run only the analyzers and sections the changes feed', () => {
+      const plan = planIncrementalAnalysis('abc1234', 'def5678', ['.env.example', 'src/app.ts', 'docs/guide.md'], SECTIONS);
+
+      expect(plan.base_sha).toBe('abc1234');
+      expect(plan.head_sha).toBe('def5678');
+      expect(plan.changed_inputs).toEqual(['env_vars']);
+      expect(plan.rerun).toEqual({ tech_stack: false, database: false, env_vars: true, purpose: false });
+      expect(plan.sections_to_regenerate).toEqual(['section-environment']);
+    });
+
+    it('should plan nothing when no input changed', () => {
+      const plan = planIncrementalAnalysis('abc1234', 'def5678', ['src/app.ts'], SECTIONS);
+
+      expect(plan.changed_inputs).toEqual([]);
+      expect(plan.sections_to_regenerate).toEqual([]);
+    });
+
+    it('should pass the env scan files through to the classification', () => {
+      const plan = planIncrementalAnalysis('abc1234', 'def5678', ['src/app.ts'], SECTIONS, ['src/app.ts']);
+
+      expect(plan.rerun.env_vars).toBe(true);
+      expect(plan.sections_to_regenerate).toEqual(['section-environment']);
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for Roadmap Assembly
+ * Run with: npm test roadmap
+ */
+
+import { calculateRoadmapProgress, isBuiltSection, mergeRegeneratedSections, prefixRoadmapIds, unprefixRoadmapIds } from '../roadmap';
+
+describe('Roadmap Assembly', () => {
+  describe('mergeRegeneratedSections', () => {
+    const existing = [
+      { id: 'section-orientation', version: 1 },
+      { id: 'section-environment', version: 1 },
+      { id: 'section-next', version: 1 },
+    ];
+
+    it('should replace regenerated sections in place and keep the rest', () => {
+      const merged = mergeRegeneratedSections(existing, [{ id: 'section-environment', version: 2 }]);
+
+      expect(merged).toEqual([
+        { id: 'section-orientation', version: 1 },
+        { id: 'section-environment', version: 2 },
+        { id: 'section-next', version: 1 },
+      ]);
+      expect(merged[0]).toBe(existing[0]);
+    });
+
+    it('should insert new sections before the final one', () => {
+      const merged = mergeRegeneratedSections(existing, [{ id: 'section-database', version: 2 }]);
+
+      expect(merged.map((section) => section.id)).toEqual([
+        'section-orientation',
+        'section-environment',
+        'section-database',
+        'section-next',
+      ]);
+    });
+
+    it('should add to an empty roadmap', () => {
+      expect(mergeRegeneratedSections([], [{ id: 'section-database', version: 2 }])).toEqual([
+        { id: 'section-database', version: 2 },
+      ]);
+    });
+  });
+
+  describe('prefixRoadmapIds', () => {
+    it('should round-trip section, task and dependency IDs', () => {
+      const sections = [
+        { id: 'section-run', tasks: [{ id: 'task-build' }, { id: 'task-start', depends_on: ['task-build'] }] },
+      ];
+      const prefixed = prefixRoadmapIds(sections, 'containerized');
+
+      expect(prefixed[0].id).toBe('containerized-section-run');
+      expect(prefixed[0].tasks[1]).toEqual({ id: 'containerized-task-start', depends_on: ['containerized-task-build'] });
+      expect(unprefixRoadmapIds(prefixed, 'containerized')).toEqual(sections);
+    });
+  });
+
+  describe('isBuiltSection', () => {
+    it('should recognize the sections built from analysis results and the config', () => {
+      expect(isBuiltSection('section-security-hygiene')).toBe(true);
+      expect(isBuiltSection('section-licensing')).toBe(true);
+      expect(isBuiltSection('section-config-team-setup')).toBe(true);
+      expect(isBuiltSection('section-environment')).toBe(false);
+    });
+  });
+
+  describe('calculateRoadmapProgress', () => {
+    it('should count only the tasks of the given roadmap', () => {
+      const sections = [{ tasks: [{ id: 'task-a' }, { id: 'task-b' }, { id: 'task-c' }, { id: 'task-d' }] }];
+
+      expect(calculateRoadmapProgress(['task-a', 'containerized-task-a', 'task-gone'], sections)).toBe(25);
+      expect(calculateRoadmapProgress(['task-a'], [])).toBe(0);
+    });
+  });
+});
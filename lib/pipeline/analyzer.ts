@@ -1,15 +1,19 @@
 /**
  * Repository analysis pipeline orchestrator
- * Executes 8-step analysis process
+ * Executes 8-step analysis process. Always analyzes the whole repository:
+ * incremental re-analysis needs the stored roadmap of the previous run, so
+ * only the Inngest pipeline, which stores its results, offers it.
  */
 
-import { createGitHubClient } from '../github';
-import { createGeminiClient } from '../gemini';
+import { createProviderForUrl, RepositorySource } from '../providers';
+import { createGeminiClient, GeminiClient } from '../gemini';
 import { filterFileTree, getFilteringStats } from '../analysis/file-filter';
-import { detectTechStack } from '../analysis/tech-stack';
-import { detectDatabaseRequirements, mergeDatabaseRequirements } from '../analysis/database';
-import { extractEnvironmentVariables } from '../analysis/env-vars';
-import { parseGitHubUrl } from '../utils/url';
+import { fetchCriticalFiles, fetchFileRules, fetchRepoConfig, runStaticAnalysis, extractProjectDocs, applyFetchStrategy, analyzeLicenses, measureEnvScanCoverage } from './static-analysis';
+import { scanForSecrets, summarizeSecurityIssues } from '../analysis/secrets';
+import { summarizeVulnerabilities } from '../analysis/vulnerabilities';
+import { summarizeLicenseReport } from '../analysis/licenses';
+import { summarizeRepoConfig } from '../analysis/repo-config';
+import { normalizeGeneratedSections, countRoadmapTasks, prefixRoadmapIds, applyAnalysisSections, offersContainerizedVariant } from './roadmap';
 import { withTimeout } from '../utils/retry';
 import { AnalysisTimeoutError } from '../utils/errors';
 import {
@@ -17,6 +21,7 @@ import {
   CompleteAnalysis,
   FileTreeItem,
   ProjectPurpose,
+  OnboardingRoadmap,
 } from '../types';
 
 const ANALYSIS_TIMEOUT = 5 * 60 * 1000; // 5 minutes
@@ -31,13 +36,20 @@ export interface AnalysisProgress {
 
 export type ProgressCallback = (progress: AnalysisProgress) => void;
 
+/**
+ * The Gemini calls the pipeline makes; tests can pass a stub
+ */
+export type AnalyzerGeminiClient = Pick<GeminiClient, 'extractProjectPurpose' | 'generateRoadmap'>;
+
 export class RepositoryAnalyzer {
-  private githubToken?: string;
+  private token?: string; // Access token for the repository's provider
   private onProgress?: ProgressCallback;
+  private geminiClient?: AnalyzerGeminiClient;
 
-  constructor(githubToken?: string, onProgress?: ProgressCallback) {
-    this.githubToken = githubToken;
+  constructor(token?: string, onProgress?: ProgressCallback, geminiClient?: AnalyzerGeminiClient) {
+    this.token = token;
     this.onProgress = onProgress;
+    this.geminiClient = geminiClient;
   }
 
   private reportProgress(
@@ -69,13 +81,42 @@ export class RepositoryAnalyzer {
 
   /**
    * Main analysis pipeline
+   * @param packages - Workspace package paths the roadmap covers (all by default)
+   */
+  async analyze(repoUrl: string, ref?: string, packages?: string[]): Promise<CompleteAnalysis> {
+    // Parse URL and pick the GitHub, GitLab or Bitbucket client
+    const { provider, owner, repo, client: repoClient } = createProviderForUrl(repoUrl, this.token);
+    console.log(`[Parser] Provider: ${provider}, Owner: ${owner}, Repo: ${repo}`);
+
+    return this.runWithTimeout(repoUrl, repoClient, owner, repo, ref, packages);
+  }
+
+  /**
+   * Run the pipeline against an injected source, e.g. a LocalRepositorySource
    */
-  async analyze(repoUrl: string): Promise<CompleteAnalysis> {
+  async analyzeSource(
+    source: RepositorySource,
+    owner: string,
+    repo: string,
+    ref?: string,
+    packages?: string[]
+  ): Promise<CompleteAnalysis> {
+    return this.runWithTimeout(`${owner}/${repo}`, source, owner, repo, ref, packages);
+  }
+
+  private async runWithTimeout(
+    label: string,
+    repoClient: RepositorySource,
+    owner: string,
+    repo: string,
+    ref?: string,
+    packages?: string[]
+  ): Promise<CompleteAnalysis> {
     const startTime = Date.now();
 
     try {
       return await withTimeout(
-        this.executeAnalysis(repoUrl, startTime),
+        this.executeAnalysis(label, repoClient, owner, repo, startTime, ref, packages),
         ANALYSIS_TIMEOUT,
         'Analysis timeout exceeded'
       );
@@ -88,91 +129,105 @@ export class RepositoryAnalyzer {
   }
 
   private async executeAnalysis(
-    repoUrl: string,
-    startTime: number
+    label: string,
+    repoClient: RepositorySource,
+    owner: string,
+    repo: string,
+    startTime: number,
+    ref?: string,
+    packages?: string[]
   ): Promise<CompleteAnalysis> {
     console.log('\n' + '='.repeat(80));
     console.log('🚀 STARTING REPOSITORY ANALYSIS');
     console.log('='.repeat(80));
-    console.log(`📦 Repository: ${repoUrl}`);
+    console.log(`📦 Repository: ${label}`);
     console.log(`⏰ Started at: ${new Date().toISOString()}`);
     console.log('='.repeat(80) + '\n');
     
-    // Parse URL
-    const { owner, repo } = parseGitHubUrl(repoUrl);
-    console.log(`[Parser] Owner: ${owner}, Repo: ${repo}`);
-    
-    const githubClient = createGitHubClient(this.githubToken);
-    const geminiClient = createGeminiClient();
+    const geminiClient = this.geminiClient || createGeminiClient();
 
     // Step 1: Repository Access
     this.reportProgress(1, 'Repository Access', 'in-progress', 'Fetching repository metadata...');
-    const metadata = await githubClient.getRepositoryMetadata(owner, repo);
+    const metadata = await repoClient.getRepositoryMetadata(owner, repo);
+    metadata.ref = ref || metadata.default_branch;
+    const commitSha = await repoClient.resolveRef(owner, repo, metadata.ref);
+    metadata.commit_sha = commitSha;
     this.reportProgress(1, 'Repository Access', 'completed', `Repository: ${metadata.name}`, {
       stars: metadata.stars,
       language: metadata.language,
+      ref: metadata.ref,
+      commitSha,
     });
 
     // Step 2: File Tree Filtering
     this.reportProgress(2, 'File Tree Filtering', 'in-progress', 'Fetching file tree...');
-    const fileTreeData = await githubClient.getFileTree(owner, repo, metadata.default_branch);
-    const allFiles: FileTreeItem[] = fileTreeData.tree.map((item: any) => ({
-      path: item.path,
-      type: item.type,
-      size: item.size || 0,
-      sha: item.sha,
-      url: item.url,
-    }));
-
-    const filteredFiles = filterFileTree(allFiles);
+    const fileTree = await repoClient.getFileTree(owner, repo, commitSha);
+    const allFiles: FileTreeItem[] = fileTree.files;
+
+    // The repository's .onboardghost config; invalid entries are logged, not fatal
+    const configResult = await fetchRepoConfig(repoClient, owner, repo, commitSha, allFiles);
+    const repoConfig = configResult.config;
+    const filteredFiles = filterFileTree(allFiles, await fetchFileRules(repoClient, owner, repo, commitSha, allFiles), repoConfig);
     const stats = getFilteringStats(filteredFiles);
     this.reportProgress(2, 'File Tree Filtering', 'completed', 
-      `Filtered ${filteredFiles.total_files} files → ${filteredFiles.analyzed_files} relevant files (${stats.reductionPercentage}% reduction)`,
-      stats
+      `Filtered ${filteredFiles.total_files} files → ${filteredFiles.analyzed_files} relevant files (${stats.reductionPercentage}% reduction)${configResult.file ? `. ${summarizeRepoConfig(configResult)}` : ''}`,
+      {
+        ...stats,
+        ...(fileTree.fallback_traversal
+          ? {
+              fallbackTraversal: true,
+              subtreeRequests: fileTree.subtree_requests,
+              incompleteTree: fileTree.incomplete,
+            }
+          : {}),
+        ...(configResult.errors.length > 0 ? { configFile: configResult.file, configErrors: configResult.errors } : {}),
+      }
     );
 
     // Step 3: Static Analysis
-    this.reportProgress(3, 'Static Analysis', 'in-progress', 'Analyzing tech stack...');
+    const fetchStrategy = applyFetchStrategy(repoClient, metadata.size);
+    this.reportProgress(3, 'Static Analysis', 'in-progress', 'Analyzing tech stack...', { fetchStrategy });
     
     // Fetch critical files content
-    const criticalFilesContent = new Map<string, string>();
-    for (const file of filteredFiles.critical_files.slice(0, 10)) { // Limit to first 10
-      try {
-        const content = await githubClient.getFileContent(owner, repo, file.path, metadata.default_branch);
-        criticalFilesContent.set(file.path.split('/').pop() || file.path, content);
-      } catch (error) {
-        console.error(`Failed to fetch ${file.path}:`, error);
-      }
-    }
-
-    // Detect tech stack
-    const techStack = await detectTechStack(criticalFilesContent, metadata.language);
-    
-    // Detect database requirements
-    const allDeps = [
-      ...techStack.dependencies.production,
-      ...techStack.dependencies.development,
-    ];
-    const databaseRequirements = detectDatabaseRequirements(allDeps, filteredFiles.files);
+    const criticalFilesContent = await fetchCriticalFiles(
+      repoClient, owner, repo, commitSha, filteredFiles, fetchStrategy
+    );
+    const envScanCoverage = measureEnvScanCoverage(criticalFilesContent, filteredFiles);
 
-    // Extract environment variables
-    const envExampleContent = criticalFilesContent.get('.env.example') || criticalFilesContent.get('.env.sample') || '';
-    const environmentVariables = extractEnvironmentVariables(envExampleContent);
+    // Detect tech stack (per workspace package), database requirements and environment variables
+    const {
+      techStack,
+      stacks,
+      scripts,
+      ciWorkflows,
+      containers,
+      workspace,
+      databaseRequirements,
+      environmentVariables,
+      vulnerabilities,
+    } = await runStaticAnalysis(
+      criticalFilesContent,
+      filteredFiles,
+      metadata.language,
+      undefined,
+      packages
+    );
+    const licenseReport = await analyzeLicenses(repoClient, criticalFilesContent, { techStack, stacks, workspace });
 
     this.reportProgress(3, 'Static Analysis', 'completed', 
-      `Detected: ${techStack.framework}, ${databaseRequirements.length} databases, ${environmentVariables.length} env vars`
+      `Detected: ${techStack.framework}, ${databaseRequirements.length} databases, ${environmentVariables.length} env vars (${envScanCoverage.scanned_files} of ${envScanCoverage.candidate_files} source files scanned). ${summarizeLicenseReport(licenseReport)}`,
+      {
+        envScan: envScanCoverage,
+        ...(workspace
+          ? { workspaceTools: workspace.tools, packages: workspace.packages.length, selectedPackages: workspace.selected_packages }
+          : {}),
+        ...(stacks.length > 1 ? { stacks: stacks.map((stack) => `${stack.root || '.'}: ${stack.tech_stack.framework} (${stack.confidence})`) } : {}),
+      }
     );
 
     // Step 4: Project Purpose Extraction
     this.reportProgress(4, 'Project Purpose', 'in-progress', 'Analyzing project purpose...');
-    const readmeContent = criticalFilesContent.get('README.md') || '';
-    const packageJson = criticalFilesContent.get('package.json');
-    let packageJsonData;
-    try {
-      packageJsonData = packageJson ? JSON.parse(packageJson) : undefined;
-    } catch (e) {
-      packageJsonData = undefined;
-    }
+    const { readmeContent, packageJsonData } = extractProjectDocs(criticalFilesContent);
 
     let projectPurpose: ProjectPurpose;
     if (readmeContent) {
@@ -192,8 +247,13 @@ export class RepositoryAnalyzer {
     }
     this.reportProgress(4, 'Project Purpose', 'completed', projectPurpose.purpose);
 
-    // Step 5: Skip Security Scan (optional, requires Docker)
-    this.reportProgress(5, 'Security Scan', 'completed', 'Skipped (optional feature)');
+    // Step 5: Security Scan (in-process, over the fetched files; the
+    // vulnerability check ran with the static analysis)
+    this.reportProgress(5, 'Security Scan', 'in-progress', 'Scanning for committed secrets...');
+    const securityIssues = scanForSecrets(criticalFilesContent);
+    this.reportProgress(5, 'Security Scan', 'completed',
+      `${summarizeSecurityIssues(securityIssues)}; ${summarizeVulnerabilities(vulnerabilities)}`
+    );
 
     // Step 6: Skip File Upload (will implement later)
     this.reportProgress(6, 'File Upload', 'completed', 'Skipped (will be implemented for chat)');
@@ -205,55 +265,73 @@ export class RepositoryAnalyzer {
     const geminiMetadata = {
       owner: metadata.owner,
       name: metadata.name,
+      url: metadata.url,
       description: metadata.description,
       language: metadata.language,
       size_kb: metadata.size, // Convert from 'size' to 'size_kb'
       stars: metadata.stars,
       default_branch: metadata.default_branch,
+      ref: metadata.ref,
+      commit_sha: commitSha,
     };
 
-    const roadmapData = await geminiClient.generateRoadmap({
+    const analysisData = {
       tech_stack: techStack,
+      stacks,
+      scripts,
+      ci_workflows: ciWorkflows,
+      containers,
+      workspace,
       database: databaseRequirements,
       env_vars: environmentVariables,
+      env_scan_coverage: envScanCoverage,
       purpose: projectPurpose,
       setup_instructions: readmeContent.slice(0, 1000),
-      security_issues: [],
+      security_issues: securityIssues,
+      vulnerabilities,
+      license_report: licenseReport,
+      repo_config: repoConfig,
       repository_metadata: geminiMetadata,
-    });
+    };
+    const roadmapData = await geminiClient.generateRoadmap(analysisData);
 
     // Pass through roadmap data - transformer will handle normalization
-    const transformedSections = roadmapData.sections.map((section: any) => ({
-      ...section, // Keep all fields from Gemini
-      goals: [], // Add goals field for OnboardingRoadmap interface
-      tasks: section.tasks.map((task: any) => ({
-        ...task, // Keep ALL fields from Gemini (steps, commands, code_blocks, etc.)
-        // Add legacy fields for backward compatibility
-        instructions: task.instructions || '',
-        code_snippet: task.code_blocks?.[0]?.content || null,
-        difficulty: task.difficulty === 'beginner' ? 'easy' as const :
-                   task.difficulty === 'intermediate' ? 'medium' as const : 'hard' as const,
-        completion_criteria: task.verification?.how_to_verify || '',
-      })),
-    }));
-
-    const roadmap = {
+    const transformedSections = applyAnalysisSections(normalizeGeneratedSections(roadmapData.sections), securityIssues, licenseReport, repoConfig);
+
+    const roadmap: OnboardingRoadmap = {
       repo_id: metadata.id,
       generated_at: new Date(),
       sections: transformedSections,
-      total_tasks: roadmapData.sections.reduce(
-        (sum: number, section: any) => sum + section.tasks.length,
-        0
-      ),
+      total_tasks: countRoadmapTasks(transformedSections),
     };
+
+    // Containerized variant, when the repo can be set up entirely in containers
+    // and its config doesn't ask for a native setup
+    let containerizedRoadmap: OnboardingRoadmap | null = null;
+    if (offersContainerizedVariant(containers, repoConfig)) {
+      const variantData = await geminiClient.generateRoadmap({ ...analysisData, variant: 'containerized' });
+      const variantSections = applyAnalysisSections(normalizeGeneratedSections(variantData.sections), securityIssues, licenseReport, repoConfig);
+      containerizedRoadmap = {
+        repo_id: metadata.id,
+        generated_at: new Date(),
+        sections: prefixRoadmapIds(variantSections, 'containerized'),
+        total_tasks: countRoadmapTasks(variantSections),
+      };
+    }
     this.reportProgress(7, 'Roadmap Generation', 'completed', 
-      `Generated ${roadmap.sections.length} sections with ${roadmap.total_tasks} tasks`
+      `Generated ${roadmap.sections.length} sections with ${roadmap.total_tasks} tasks`,
+      containerizedRoadmap
+        ? { variants: ['default', 'containerized'], preferredVariant: repoConfig?.setup_path === 'docker' ? 'containerized' : 'default' }
+        : undefined
     );
 
     // Step 8: Complete
     const duration = Math.round((Date.now() - startTime) / 1000);
     metadata.analysis_duration = duration;
-    this.reportProgress(8, 'Complete', 'completed', `Analysis completed in ${duration}s`);
+    const rateLimit = repoClient.getRateLimit?.();
+    this.reportProgress(8, 'Complete', 'completed', `Analysis completed in ${duration}s`,
+      rateLimit ? { rateLimit } : undefined
+    );
     
     console.log('\n' + '='.repeat(80));
     console.log('🎉 ANALYSIS COMPLETE!');
@@ -268,11 +346,20 @@ export class RepositoryAnalyzer {
     return {
       repository: metadata,
       tech_stack: techStack,
+      stacks,
+      scripts,
+      ci_workflows: ciWorkflows,
+      containers,
+      workspace,
       database: databaseRequirements,
       environment_variables: environmentVariables,
-      security_issues: [],
+      security_issues: securityIssues,
+      vulnerabilities,
+      license_report: licenseReport,
+      repo_config: repoConfig,
       project_purpose: projectPurpose,
       roadmap,
+      containerized_roadmap: containerizedRoadmap,
       uploaded_files: {
         total: 0,
         gemini_uris: [],
@@ -291,8 +378,9 @@ export class RepositoryAnalyzer {
  * Create analyzer instance
  */
 export function createAnalyzer(
-  githubToken?: string,
-  onProgress?: ProgressCallback
+  token?: string,
+  onProgress?: ProgressCallback,
+  geminiClient?: AnalyzerGeminiClient
 ): RepositoryAnalyzer {
-  return new RepositoryAnalyzer(githubToken, onProgress);
+  return new RepositoryAnalyzer(token, onProgress, geminiClient);
 }
@@ -0,0 +1,145 @@
+/**
+ * Commit-based cache validation for stored analyses
+ * A cached analysis is reused until a commit touches a file it depends on
+ */
+
+import { RepositoryProvider } from '../providers/types';
+import { classifyChangedFile } from './incremental';
+import { isEnvScanFile } from '../analysis/env-vars';
+import { matchesGlobList } from '../utils/glob';
+import { AppError } from '../utils/errors';
+
+export type CacheStatus = 'miss' | 'hit' | 'stale' | 'refresh';
+
+export interface CacheDecision {
+  status: CacheStatus;
+  reason: string;
+  analyzed_sha?: string;
+  head_sha?: string;
+  relevant_changes?: string[];
+}
+
+export interface CachedAnalysisInfo {
+  ref?: string;
+  default_branch?: string;
+  commit_sha?: string;
+  has_roadmap: boolean;
+  embed_globs?: string[]; // The repo config's `embed` globs, whose files are embedded for RAG
+}
+
+// Max relevant paths echoed back in the decision
+const MAX_REPORTED_CHANGES = 10;
+
+/**
+ * Decide whether a stored analysis can be served for the current head of its ref
+ * - hit: head commit is the analyzed commit
+ * - stale: head moved, but no changed path feeds the analysis (head_sha is set
+ *   only when the head was resolved, so callers can record it as analyzed)
+ * - refresh: head moved and the analysis inputs changed (or cannot be verified)
+ */
+export async function evaluateCachedAnalysis(
+  repoClient: RepositoryProvider,
+  owner: string,
+  repo: string,
+  cached: CachedAnalysisInfo | null,
+  requestedRef?: string | null
+): Promise<CacheDecision> {
+  if (!cached) {
+    return { status: 'miss', reason: 'No previous analysis for this repository and ref' };
+  }
+
+  if (!cached.has_roadmap) {
+    return { status: 'refresh', reason: 'Previous analysis has no roadmap' };
+  }
+
+  if (!cached.commit_sha) {
+    return { status: 'refresh', reason: 'Previous analysis did not record a commit SHA' };
+  }
+
+  const ref = requestedRef || cached.ref || cached.default_branch;
+  if (!ref) {
+    return { status: 'refresh', reason: 'Previous analysis did not record a ref' };
+  }
+
+  let headSha: string;
+  try {
+    headSha = await repoClient.resolveRef(owner, repo, ref);
+  } catch (error) {
+    if (error instanceof AppError && error.statusCode === 404) {
+      throw error;
+    }
+    // Provider unreachable or rate limited: serve what we have rather than fail
+    return {
+      status: 'stale',
+      reason: `Could not resolve the head commit of ${ref}; serving the analysis of ${cached.commit_sha.slice(0, 7)}`,
+      analyzed_sha: cached.commit_sha,
+    };
+  }
+
+  if (headSha === cached.commit_sha) {
+    return {
+      status: 'hit',
+      reason: `Head of ${ref} is still ${headSha.slice(0, 7)}`,
+      analyzed_sha: cached.commit_sha,
+      head_sha: headSha,
+    };
+  }
+
+  const base = {
+    analyzed_sha: cached.commit_sha,
+    head_sha: headSha,
+  };
+
+  let comparison;
+  try {
+    comparison = await repoClient.compareCommits(owner, repo, cached.commit_sha, headSha);
+  } catch {
+    return {
+      ...base,
+      status: 'refresh',
+      reason: `Could not compare ${cached.commit_sha.slice(0, 7)}...${headSha.slice(0, 7)} (history may have been rewritten)`,
+    };
+  }
+
+  if (comparison.status !== 'ahead') {
+    return {
+      ...base,
+      status: 'refresh',
+      reason: `Head of ${ref} has ${comparison.status} from the analyzed commit`,
+    };
+  }
+
+  if (comparison.files_truncated) {
+    return {
+      ...base,
+      status: 'refresh',
+      reason: `Too many files changed across ${comparison.total_commits} commits to check individually`,
+    };
+  }
+
+  // The same classification the incremental planner uses: a path is an input
+  // when it feeds any analysis input. Which sources the env scan read is not
+  // recorded, so any of them counts, as does any file the config embeds.
+  const relevantChanges = comparison.changed_files.filter(
+    (filePath) =>
+      classifyChangedFile(filePath).length > 0 ||
+      isEnvScanFile(filePath) ||
+      matchesGlobList(filePath, cached.embed_globs || [])
+  );
+  if (relevantChanges.length === 0) {
+    return {
+      ...base,
+      status: 'stale',
+      reason: `${comparison.changed_files.length} files changed in ${comparison.total_commits} commits, none of them analysis inputs`,
+    };
+  }
+
+  return {
+    ...base,
+    status: 'refresh',
+    reason: `Analysis inputs changed: ${relevantChanges.slice(0, MAX_REPORTED_CHANGES).join(', ')}${
+      relevantChanges.length > MAX_REPORTED_CHANGES ? ` (+${relevantChanges.length - MAX_REPORTED_CHANGES} more)` : ''
+    }`,
+    relevant_changes: relevantChanges,
+  };
+}
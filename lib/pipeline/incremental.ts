@@ -0,0 +1,171 @@
+/**
+ * Incremental re-analysis planning
+ * Maps the files changed between two commits to the analyzers, RAG chunks
+ * and roadmap sections that depend on them
+ */
+
+import { LOCKFILES, RUNTIME_VERSION_FILES, isAnalysisInputFile, isCiConfigFile, isManifestFile, isSensitiveFile } from '../analysis/file-filter';
+import { GITIGNORE_FILE, GITATTRIBUTES_FILE } from '../analysis/file-rules';
+import { REPO_CONFIG_FILES } from '../analysis/repo-config';
+import { StaticAnalyzerSelection } from './static-analysis';
+import { isBuiltSection } from './roadmap';
+
+export type AnalysisInput = 'tech_stack' | 'database' | 'env_vars' | 'purpose' | 'tooling' | 'secrets';
+
+export interface IncrementalPlan {
+  base_sha: string;
+  head_sha: string;
+  changed_files: string[];
+  changed_inputs: AnalysisInput[];
+  rerun: StaticAnalyzerSelection & { purpose: boolean };
+  sections_to_regenerate: string[];
+}
+
+const ENV_EXAMPLE_FILES = ['.env.example', '.env.sample'];
+
+const DATABASE_PATH_PATTERNS = [
+  '/migrations/',
+  '/migrate/',
+  '/seeds/',
+  '/seed/',
+  'prisma/schema.prisma',
+  'docker-compose.yml',
+  'docker-compose.yaml',
+  '/compose.yml',
+  '/compose.yaml',
+];
+
+// Roadmap sections are matched on id + title; unmatched sections are kept as-is
+const SECTION_INPUTS: { pattern: RegExp; inputs: AnalysisInput[] }[] = [
+  { pattern: /orient|understand|overview|purpose|next/, inputs: ['purpose'] },
+  { pattern: /prereq|tooling|runtime/, inputs: ['tech_stack', 'tooling'] },
+  { pattern: /install|dependenc/, inputs: ['tech_stack'] },
+  { pattern: /env|config|secret/, inputs: ['env_vars'] },
+  { pattern: /database|\bdb\b|migrat|seed/, inputs: ['database'] },
+  { pattern: /docker|container/, inputs: ['database', 'tooling'] },
+  { pattern: /\brun\b|verify|test/, inputs: ['tech_stack', 'tooling'] },
+];
+
+/**
+ * Classify which analysis inputs a changed path feeds
+ * @param envScanFiles - Source files the env scan reads (see getEnvScanFiles)
+ */
+export function classifyChangedFile(filePath: string, envScanFiles: string[] = []): AnalysisInput[] {
+  const inputs = new Set<AnalysisInput>();
+  const fileName = filePath.split('/').pop() || '';
+
+  if (isManifestFile(filePath)) {
+    inputs.add('tech_stack');
+    inputs.add('database');
+  }
+
+  // Lockfiles decide the package manager, version files the runtime versions
+  if (LOCKFILES.includes(fileName) || RUNTIME_VERSION_FILES.includes(fileName)) {
+    inputs.add('tech_stack');
+  }
+
+  // CI setup actions pin runtime versions and its service containers add databases
+  if (isCiConfigFile(filePath)) {
+    inputs.add('tech_stack');
+    inputs.add('database');
+  }
+
+  // .gitignore and .gitattributes decide which files are analyzed at all
+  if (fileName === GITIGNORE_FILE || filePath === GITATTRIBUTES_FILE) {
+    inputs.add('tech_stack');
+    inputs.add('env_vars');
+  }
+
+  // The .onboardghost config steers filtering and every generated section
+  if (REPO_CONFIG_FILES.includes(filePath)) {
+    for (const input of ['tech_stack', 'database', 'env_vars', 'purpose', 'tooling'] as const) {
+      inputs.add(input);
+    }
+  }
+
+  if (DATABASE_PATH_PATTERNS.some((pattern) => `/${filePath}`.includes(pattern))) {
+    inputs.add('database');
+  }
+
+  if (ENV_EXAMPLE_FILES.includes(fileName)) {
+    inputs.add('env_vars');
+  }
+
+  if (filePath === 'README.md' || filePath === 'CONTRIBUTING.md') {
+    inputs.add('purpose');
+  }
+
+  // Remaining critical files (build/test config, Dockerfile, ...) shape the run/verify steps
+  if (inputs.size === 0 && isAnalysisInputFile(filePath)) {
+    inputs.add('tooling');
+  }
+
+  // Only the source files the env scan reads can change the variables it finds
+  if (envScanFiles.includes(filePath)) {
+    inputs.add('env_vars');
+  }
+
+  // Committed .env files and keys are what the secret scan reports
+  if (isSensitiveFile(filePath)) {
+    inputs.add('secrets');
+  }
+
+  return Array.from(inputs);
+}
+
+/**
+ * Find the roadmap sections whose inputs are among the changed ones
+ * Sections built in code (security hygiene, licensing, the config's own) are
+ * rebuilt on every run, so they are never among them
+ */
+export function findAffectedSections(
+  sections: { id: string; title: string }[],
+  changedInputs: AnalysisInput[]
+): string[] {
+  return sections
+    .filter((section) => {
+      if (isBuiltSection(section.id)) return false;
+      const key = `${section.id} ${section.title}`.toLowerCase();
+      return SECTION_INPUTS.some(
+        ({ pattern, inputs }) =>
+          pattern.test(key) && inputs.some((input) => changedInputs.includes(input))
+      );
+    })
+    .map((section) => section.id);
+}
+
+/**
+ * Build the incremental plan for the files changed between two commits
+ * @param envScanFiles - Source files the env scan reads at the new head, plus
+ * those the previous analysis found variables in
+ */
+export function planIncrementalAnalysis(
+  baseSha: string,
+  headSha: string,
+  changedFiles: string[],
+  sections: { id: string; title: string }[],
+  envScanFiles: string[] = []
+): IncrementalPlan {
+  const changedInputs = new Set<AnalysisInput>();
+  for (const filePath of changedFiles) {
+    for (const input of classifyChangedFile(filePath, envScanFiles)) {
+      changedInputs.add(input);
+    }
+  }
+
+  const inputs = Array.from(changedInputs);
+
+  return {
+    base_sha: baseSha,
+    head_sha: headSha,
+    changed_files: changedFiles,
+    changed_inputs: inputs,
+    rerun: {
+      tech_stack: changedInputs.has('tech_stack'),
+      database: changedInputs.has('database'),
+      env_vars: changedInputs.has('env_vars'),
+      purpose: changedInputs.has('purpose'),
+    },
+    sections_to_regenerate: findAffectedSections(sections, inputs),
+  };
+}
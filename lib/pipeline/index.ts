@@ -3,3 +3,7 @@
  */
 
 export * from './analyzer';
+export * from './cache';
+export * from './static-analysis';
+export * from './incremental';
+export * from './roadmap';
@@ -0,0 +1,471 @@
+/**
+ * Roadmap assembly helpers shared by the analyzer and the Inngest pipeline
+ */
+
+import type { RawSection, RawTask } from '../utils/roadmap-transformer';
+import type { SecurityIssue, LicenseReport, LicenseCategory, RepoConfig, RepoConfigTask, ContainerSetup, RoadmapTask } from '../types';
+import { isSensitiveFile } from '../analysis/file-filter';
+import { matchesSectionName, sectionKey } from '../analysis/repo-config';
+
+export interface GeneratedTask extends Omit<RawTask, 'difficulty'> {
+  difficulty: RoadmapTask['difficulty'];
+  instructions: string;
+  code_snippet: string | null;
+  completion_criteria: string;
+}
+
+export interface GeneratedSection extends Omit<RawSection, 'tasks'> {
+  goals: string[];
+  tasks: GeneratedTask[];
+}
+
+/**
+ * Add the legacy task fields the OnboardingRoadmap interface expects while
+ * keeping everything Gemini returned (steps, commands, code_blocks, ...)
+ */
+export function normalizeGeneratedSections(sections: RawSection[]): GeneratedSection[] {
+  return sections.map((section) => ({
+    ...section, // Keep all fields from Gemini
+    goals: [], // Add goals field for OnboardingRoadmap interface
+    tasks: section.tasks.map((task) => ({
+      ...task, // Keep ALL fields from Gemini (steps, commands, code_blocks, etc.)
+      // Add legacy fields for backward compatibility
+      instructions: (task as { instructions?: string }).instructions || '',
+      code_snippet: task.code_blocks?.[0]?.content || null,
+      difficulty: task.difficulty === 'beginner' ? 'easy' :
+                 task.difficulty === 'intermediate' ? 'medium' : 'hard',
+      completion_criteria: task.verification?.how_to_verify || '',
+    })),
+  }));
+}
+
+/**
+ * Count tasks across all sections
+ */
+export function countRoadmapTasks(sections: { tasks: unknown[] }[]): number {
+  return sections.reduce((sum, section) => sum + section.tasks.length, 0);
+}
+
+/**
+ * Percentage of a roadmap's tasks that are completed. Progress holds one list
+ * of completed IDs for every variant, so IDs from other variants (or of tasks
+ * no longer in the roadmap) are not counted.
+ */
+export function calculateRoadmapProgress(
+  completedTasks: string[],
+  sections: { tasks: { id: string }[] }[]
+): number {
+  const taskIds = new Set(sections.flatMap((section) => section.tasks.map((task) => task.id)));
+  const completed = completedTasks.filter((id) => taskIds.has(id)).length;
+  return taskIds.size > 0 ? Math.round((completed / taskIds.size) * 100) : 0;
+}
+
+/**
+ * Replace regenerated sections in place, leaving every other section (and
+ * its task IDs) untouched. Sections with new IDs are inserted before the
+ * final section, which is usually the "where to go next" wrap-up.
+ */
+export function mergeRegeneratedSections<T extends { id: string }>(
+  existingSections: T[],
+  regeneratedSections: T[]
+): T[] {
+  const regeneratedById = new Map(regeneratedSections.map((section) => [section.id, section]));
+
+  const merged = existingSections.map((section) => {
+    const replacement = regeneratedById.get(section.id);
+    if (!replacement) {
+      return section;
+    }
+    regeneratedById.delete(section.id);
+    return replacement;
+  });
+
+  const added = Array.from(regeneratedById.values());
+  if (added.length === 0) {
+    return merged;
+  }
+
+  const insertAt = Math.max(0, merged.length - 1);
+  return [...merged.slice(0, insertAt), ...added, ...merged.slice(insertAt)];
+}
+
+function mapRoadmapIds<T extends { id: string; tasks: { id: string; depends_on?: string[] }[] }>(
+  sections: T[],
+  mapId: (id: string) => string
+): T[] {
+  return sections.map((section) => ({
+    ...section,
+    id: mapId(section.id),
+    tasks: section.tasks.map((task) => ({
+      ...task,
+      id: mapId(task.id),
+      ...(task.depends_on ? { depends_on: task.depends_on.map(mapId) } : {}),
+    })),
+  }));
+}
+
+/**
+ * Prefix section and task IDs (and depends_on references) so a roadmap
+ * variant's tasks never share progress with the default roadmap
+ */
+export function prefixRoadmapIds<T extends { id: string; tasks: { id: string; depends_on?: string[] }[] }>(
+  sections: T[],
+  prefix: string
+): T[] {
+  return mapRoadmapIds(sections, (id) => `${prefix}-${id}`);
+}
+
+/**
+ * Undo prefixRoadmapIds, so a stored variant can be regenerated like the
+ * default roadmap and prefixed again
+ */
+export function unprefixRoadmapIds<T extends { id: string; tasks: { id: string; depends_on?: string[] }[] }>(
+  sections: T[],
+  prefix: string
+): T[] {
+  return mapRoadmapIds(sections, (id) => (id.startsWith(`${prefix}-`) ? id.slice(prefix.length + 1) : id));
+}
+
+export const SECURITY_HYGIENE_SECTION_ID = 'section-security-hygiene';
+
+// Findings listed in the task; the rest are summarized
+const MAX_LISTED_FINDINGS = 15;
+
+/**
+ * The "Security hygiene" section for the secrets the scan found. It is built
+ * here rather than by Gemini so the findings are listed exactly and the
+ * redacted values are the only ones that reach the roadmap.
+ */
+export function buildSecurityHygieneSection(issues: SecurityIssue[]): GeneratedSection {
+  const committedFiles = Array.from(
+    new Set(issues.filter((issue) => isSensitiveFile(issue.file)).map((issue) => issue.file))
+  );
+  const mustRotate = issues.some((issue) => issue.severity === 'high');
+  const findings = [
+    ...issues
+      .slice(0, MAX_LISTED_FINDINGS)
+      .map((issue) => `- **${issue.type}** in \`${issue.file}:${issue.line}\`${issue.redacted_secret ? ` (\`${issue.redacted_secret}\`)` : ''}`),
+    ...(issues.length > MAX_LISTED_FINDINGS ? [`- ...and ${issues.length - MAX_LISTED_FINDINGS} more`] : []),
+  ].join('\n');
+
+  const [section] = normalizeGeneratedSections([
+    {
+      id: SECURITY_HYGIENE_SECTION_ID,
+      title: 'Security hygiene',
+      description: 'Secrets committed to the repository that should be removed before you build on it',
+      tasks: [
+        {
+          id: 'task-security-hygiene',
+          title: 'Handle committed secrets',
+          description: {
+            summary: `The secret scan found ${issues.length} committed secret${issues.length === 1 ? '' : 's'} or sensitive file${issues.length === 1 ? '' : 's'}.`,
+            why_needed: 'Anything committed is readable by everyone with access to the repository, including its history.',
+            learning_goal: 'Keep credentials in environment variables and out of git.',
+          },
+          steps: [
+            { order: 1, action: 'Review the findings', details: findings, os_specific: null },
+            ...(mustRotate
+              ? [{ order: 2, action: 'Rotate exposed credentials', details: 'Ask a maintainer to revoke every key marked above and issue a new one; treat them as compromised.', os_specific: null }]
+              : []),
+            { order: mustRotate ? 3 : 2, action: 'Load secrets from the environment', details: 'Replace each hard-coded value with an environment variable and add it to `.env.example` without its value.', os_specific: null },
+            ...(committedFiles.length > 0
+              ? [{ order: mustRotate ? 4 : 3, action: 'Untrack sensitive files', details: `Stop tracking ${committedFiles.map((file) => `\`${file}\``).join(', ')} and ignore them.`, os_specific: null }]
+              : []),
+          ],
+          commands: committedFiles.flatMap((file) => [
+            { command: `git rm --cached ${file}`, description: `Stop tracking ${file} (the local copy stays)`, expected_output: `rm '${file}'`, os: 'all' as const },
+            { command: `echo "${file}" >> .gitignore`, description: `Keep ${file} out of future commits`, expected_output: '', os: 'all' as const },
+          ]),
+          warnings: [
+            {
+              text: 'Removing a secret in a new commit does **not** remove it from git history; rotating it is the only fix.',
+              severity: 'critical',
+              os_specific: false,
+              emphasis: ['does **not** remove it from git history'],
+            },
+          ],
+          verification: {
+            how_to_verify: 'Search the working tree for the prefixes listed above, e.g. `git grep -n "<prefix>"`',
+            expected_result: 'No matches outside `.env`, and `git status` does not list any `.env` file',
+            troubleshooting: [],
+          },
+          difficulty: 'beginner',
+          estimated_time: '15-30 minutes',
+        },
+      ],
+    },
+  ]);
+  return section;
+}
+
+/**
+ * Add, replace or drop the "Security hygiene" section to match the latest
+ * scan, keeping every other section as it is
+ */
+export function applySecurityHygiene<T extends { id: string }>(
+  sections: T[],
+  issues: SecurityIssue[]
+): (T | GeneratedSection)[] {
+  const rest: (T | GeneratedSection)[] = sections.filter((section) => section.id !== SECURITY_HYGIENE_SECTION_ID);
+  return issues.length > 0 ? mergeRegeneratedSections(rest, [buildSecurityHygieneSection(issues)]) : rest;
+}
+
+export const LICENSING_SECTION_ID = 'section-licensing';
+
+// Flagged dependencies listed in the task; the rest are summarized
+const MAX_LISTED_LICENSES = 15;
+
+// What each category asks of someone building on the code
+const LICENSE_CATEGORY_NOTES: Record<LicenseCategory, string> = {
+  'public-domain': 'public domain: no conditions',
+  permissive: 'permissive: keep the copyright notice',
+  'weak-copyleft': 'weak copyleft: changes to the licensed files must be shared under the same license',
+  copyleft: 'copyleft: software distributed with it must be released under the same license',
+  'network-copyleft': 'network copyleft: also applies when users only reach it over a network',
+  proprietary: 'proprietary: not licensed for reuse',
+  unknown: 'unrecognized: read the license before relying on it',
+};
+
+/**
+ * The "Licensing" section for the license report. Built here rather than by
+ * Gemini so the licenses are listed exactly as detected.
+ * @returns null when neither the project nor its dependencies have license data
+ */
+export function buildLicensingSection(report: LicenseReport): GeneratedSection | null {
+  if (!report.project && report.nested.length === 0 && report.checked_dependencies === 0) {
+    return null;
+  }
+
+  const project = report.project;
+  const projectLine = project
+    ? `**${project.spdx_id || 'Unrecognized license'}** (${LICENSE_CATEGORY_NOTES[project.category]}), from \`${project.file}\``
+    : 'No license file or declared license: all rights are reserved by default';
+  const nestedLines = report.nested.map(
+    (license) => `- \`${license.file}\`: **${license.spdx_id || 'unrecognized'}** (${license.category})`
+  );
+
+  const tasks: RawTask[] = [
+    {
+      id: 'task-licensing-project',
+      title: 'Know the project license',
+      description: {
+        summary: `This project is licensed under ${project?.spdx_id || (project ? 'an unrecognized license' : 'no license')}.`,
+        why_needed: 'The license decides what you may copy, reuse and redistribute, and under which terms your contributions are accepted.',
+        learning_goal: 'Know the terms your contributions are released under.',
+      },
+      steps: [
+        { order: 1, action: 'Read the license', details: projectLine, os_specific: null },
+        ...(nestedLines.length > 0
+          ? [{ order: 2, action: 'Note packages licensed differently', details: nestedLines.join('\n'), os_specific: null }]
+          : []),
+      ],
+      commands: [],
+      warnings: [
+        ...(report.declared_mismatch && project
+          ? [{
+              text: `The manifest declares \`${project.declared}\` but \`${project.file}\` contains ${project.spdx_id}; ask a maintainer which applies.`,
+              severity: 'important' as const,
+              os_specific: false,
+              emphasis: [],
+            }]
+          : []),
+        ...(!project
+          ? [{
+              text: 'Without a license, nobody outside the copyright holders may reuse this code; check before copying it elsewhere.',
+              severity: 'important' as const,
+              os_specific: false,
+              emphasis: [],
+            }]
+          : []),
+      ],
+      verification: {
+        how_to_verify: project ? `Open \`${project.file}\`` : 'Check the README for licensing terms',
+        expected_result: 'You can say which license applies to your contributions',
+        troubleshooting: [],
+      },
+      difficulty: 'beginner',
+      estimated_time: '2-5 minutes',
+    },
+  ];
+
+  if (report.checked_dependencies > 0) {
+    const summary = report.dependency_licenses
+      .slice(0, 8)
+      .map(({ license, count }) => `${license} (${count})`)
+      .join(', ');
+    const flagged = [
+      ...report.flagged_dependencies
+        .slice(0, MAX_LISTED_LICENSES)
+        .map((dependency) => `- **${dependency.package}@${dependency.version}**: ${dependency.license} (${dependency.category}${dependency.direct ? ', direct' : ''}${dependency.dev ? ', dev only' : ''})`),
+      ...(report.flagged_count > MAX_LISTED_LICENSES ? [`- ...and ${report.flagged_count - MAX_LISTED_LICENSES} more`] : []),
+    ].join('\n');
+
+    tasks.push({
+      id: 'task-licensing-dependencies',
+      title: 'Review dependency licenses',
+      description: {
+        summary: `${report.checked_dependencies} installed packages have a known license${report.flagged_count > 0 ? `; ${report.flagged_count} are copyleft, proprietary or unrecognized` : ''}.`,
+        why_needed: 'Dependencies bring their own license terms into everything built and shipped from this repository.',
+        learning_goal: 'Know which licenses you pull in and which ones need a second look.',
+      },
+      steps: [
+        { order: 1, action: 'Skim the license mix', details: summary, os_specific: null },
+        ...(flagged
+          ? [{ order: 2, action: 'Review flagged licenses', details: flagged, os_specific: null }]
+          : []),
+        {
+          order: flagged ? 3 : 2,
+          action: 'Check before adding dependencies',
+          details: 'Ask a maintainer before adding a copyleft or unlicensed package; dev-only tools matter less than what ships.',
+          os_specific: null,
+        },
+      ],
+      commands: [],
+      warnings: report.unchecked_dependencies > 0
+        ? [{
+            text: `${report.unchecked_dependencies} locked packages have no license on record and were not checked.`,
+            severity: 'minor',
+            os_specific: false,
+            emphasis: [],
+          }]
+        : [],
+      verification: {
+        how_to_verify: 'Compare the flagged packages with the project license above',
+        expected_result: 'Every flagged package is either dev-only or approved for use',
+        troubleshooting: [],
+      },
+      difficulty: 'beginner',
+      estimated_time: '5-10 minutes',
+      depends_on: ['task-licensing-project'],
+    });
+  }
+
+  const [section] = normalizeGeneratedSections([
+    {
+      id: LICENSING_SECTION_ID,
+      title: 'Licensing',
+      description: 'The license of this project and of the packages it depends on',
+      tasks,
+    },
+  ]);
+  return section;
+}
+
+/**
+ * Add, replace or drop the "Licensing" section to match the latest report,
+ * keeping every other section as it is
+ */
+export function applyLicensing<T extends { id: string }>(
+  sections: T[],
+  report: LicenseReport
+): (T | GeneratedSection)[] {
+  const rest: (T | GeneratedSection)[] = sections.filter((section) => section.id !== LICENSING_SECTION_ID);
+  const section = buildLicensingSection(report);
+  return section ? mergeRegeneratedSections(rest, [section]) : rest;
+}
+
+// IDs of what applyRepoConfig adds, so a re-run can replace it
+const REPO_CONFIG_SECTION_PREFIX = 'section-config-';
+const REPO_CONFIG_TASK_PREFIX = 'task-config-';
+
+/**
+ * The maintainers' tasks from the config, with IDs derived from their titles
+ * so progress survives reordering them
+ */
+function buildRepoConfigTasks(tasks: RepoConfigTask[]): GeneratedTask[] {
+  const seen = new Map<string, number>();
+  const rawTasks: RawTask[] = tasks.map((task) => {
+    const key = sectionKey(task.title) || 'task';
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+
+    return {
+      id: `${REPO_CONFIG_TASK_PREFIX}${key}${count > 1 ? `-${count}` : ''}`,
+      title: task.title,
+      description: {
+        summary: task.description,
+        why_needed: 'The maintainers ask every new contributor to do this.',
+        learning_goal: '',
+      },
+      steps: task.steps.map((action, index) => ({ order: index + 1, action, details: '', os_specific: null })),
+      commands: task.commands.map((command) => ({ command, description: '', expected_output: '', os: 'all' as const })),
+      difficulty: 'beginner',
+    };
+  });
+
+  const [section] = normalizeGeneratedSections([{ id: '', title: '', tasks: rawTasks }]);
+  return section.tasks;
+}
+
+/**
+ * Apply the repository's .onboardghost config: drop the sections it skips and
+ * add its custom tasks to the section they name (matched on id or title), or
+ * to a new section. Tasks and sections from a previous run are replaced.
+ */
+export function applyRepoConfig<T extends { id: string; title: string; tasks: { id: string }[] }>(
+  sections: T[],
+  config: RepoConfig | null
+): (T | GeneratedSection)[] {
+  const rest: (T | GeneratedSection)[] = sections
+    .filter((section) => !section.id.startsWith(REPO_CONFIG_SECTION_PREFIX))
+    .map((section) => ({ ...section, tasks: section.tasks.filter((task) => !task.id.startsWith(REPO_CONFIG_TASK_PREFIX)) }) as typeof section)
+    .filter((section) => !config || !matchesSectionName(section, config.skip_sections));
+  if (!config || config.tasks.length === 0) {
+    return rest;
+  }
+
+  const tasks = buildRepoConfigTasks(config.tasks);
+  const tasksBySection = new Map<string, GeneratedTask[]>();
+  config.tasks.forEach((task, index) => {
+    const target = rest.find((section) => matchesSectionName(section, [task.section]));
+    const key = target ? target.id : task.section;
+    tasksBySection.set(key, [...(tasksBySection.get(key) || []), tasks[index]]);
+  });
+
+  const merged = rest.map((section) => {
+    const added = tasksBySection.get(section.id);
+    tasksBySection.delete(section.id);
+    return added ? ({ ...section, tasks: [...section.tasks, ...added] } as typeof section) : section;
+  });
+  const added: GeneratedSection[] = Array.from(tasksBySection, ([title, sectionTasks]) => ({
+    id: `${REPO_CONFIG_SECTION_PREFIX}${sectionKey(title) || 'tasks'}`,
+    title,
+    description: 'Added by the maintainers of this repository',
+    goals: [],
+    tasks: sectionTasks,
+  }));
+  return mergeRegeneratedSections(merged, added);
+}
+
+/**
+ * Whether a section is built from analysis results or the repository config
+ * rather than by Gemini; these are rebuilt on every run, never regenerated
+ */
+export function isBuiltSection(sectionId: string): boolean {
+  return (
+    sectionId === SECURITY_HYGIENE_SECTION_ID ||
+    sectionId === LICENSING_SECTION_ID ||
+    sectionId.startsWith(REPO_CONFIG_SECTION_PREFIX)
+  );
+}
+
+/**
+ * Whether to offer the containerized variant: the repo must support it and
+ * the maintainers must not have asked for a native setup
+ */
+export function offersContainerizedVariant(containers: ContainerSetup | null, config: RepoConfig | null): boolean {
+  return !!containers?.supports_containerized && config?.setup_path !== 'native';
+}
+
+/**
+ * Add the sections built from analysis results rather than by Gemini:
+ * "Security hygiene" and "Licensing", then apply the repository config
+ */
+export function applyAnalysisSections<T extends { id: string; title: string; tasks: { id: string }[] }>(
+  sections: T[],
+  issues: SecurityIssue[],
+  licenseReport: LicenseReport,
+  repoConfig: RepoConfig | null = null
+): (T | GeneratedSection)[] {
+  return applyRepoConfig(applyLicensing(applySecurityHygiene(sections, issues), licenseReport), repoConfig);
+}
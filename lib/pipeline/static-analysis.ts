@@ -0,0 +1,608 @@
+/**
+ * Static analysis step shared by the analyzer and the Inngest pipeline
+ */
+
+import { RepositorySource, FileFetchStrategy } from '../providers/types';
+import { detectTechStack, detectPackageManager } from '../analysis/tech-stack';
+import {
+  detectDatabaseRequirements,
+  detectDatabaseFromDockerCompose,
+  detectDatabaseFromCiServices,
+  mergeDatabaseRequirements,
+} from '../analysis/database';
+import {
+  extractEnvironmentVariables,
+  extractEnvVarsFromReadme,
+  extractEnvVarsFromDockerCompose,
+  mergeEnvironmentVariables,
+  scanEnvVarUsage,
+  selectEnvScanFiles,
+} from '../analysis/env-vars';
+import { parseEnvSchemas, applyEnvSchema } from '../analysis/env-schema';
+import {
+  MANIFEST_FILES,
+  RUNTIME_VERSION_FILES,
+  COMPOSE_FILES,
+  SCRIPT_FILES,
+  LICENSE_FILES,
+  EXCLUDED_DIRECTORIES,
+  MAX_LOCKFILE_SIZE,
+  isManifestFile,
+  isDockerfile,
+  isGeneratedContent,
+} from '../analysis/file-filter';
+import { FileRules, GITIGNORE_FILE, GITATTRIBUTES_FILE, buildFileRules } from '../analysis/file-rules';
+import { detectWorkspaces, readPackageName, getCoveredPackages, PACKAGE_MANIFESTS } from '../analysis/workspaces';
+import { findStackLocations, scoreStack, describeStackSignals } from '../analysis/stacks';
+import { detectScripts } from '../analysis/scripts';
+import { detectCiWorkflows } from '../analysis/ci';
+import { detectContainerSetup } from '../analysis/containers';
+import { parseLockfile, PARSEABLE_LOCKFILES, LockedPackage } from '../analysis/lockfiles';
+import { findVulnerabilities } from '../analysis/vulnerabilities';
+import { buildLicenseReport, readInstalledLicenses } from '../analysis/licenses';
+import { REPO_CONFIG_FILES, RepoConfigResult, parseRepoConfig } from '../analysis/repo-config';
+import { mapWithConcurrency } from '../utils/retry';
+import {
+  TechStack,
+  DetectedStack,
+  ProjectScript,
+  CiWorkflow,
+  ContainerSetup,
+  DatabaseRequirement,
+  EnvironmentVariable,
+  EnvScanCoverage,
+  VulnerabilityFinding,
+  LicenseReport,
+  FileTreeItem,
+  FilteredFileTree,
+  Workspace,
+  WorkspaceEcosystem,
+} from '../types';
+
+const MAX_CRITICAL_FILES = 10;
+const MAX_WORKSPACE_PACKAGES = 40;
+const MAX_NESTED_MANIFESTS = 20; // Manifests below the root, for polyglot repos
+const MAX_STACKS = 12;
+const MAX_CI_FILES = 10;
+const MAX_SENSITIVE_FILES = 10; // Committed .env files and keys, for the secret scan
+const MAX_LOCKFILES = 8;
+const MAX_NESTED_GITIGNORES = 10;
+const ENV_SCAN_CONCURRENCY = 8;
+
+// Language detectTechStack reads each ecosystem's manifest for
+const ECOSYSTEM_LANGUAGES: Record<WorkspaceEcosystem, string> = {
+  node: 'JavaScript',
+  rust: 'Rust',
+  go: 'Go',
+};
+
+// Repos up to this size (as reported by the provider, history included) are
+// read from a single archive download instead of per-file content requests
+export const ARCHIVE_MODE_MAX_SIZE_KB = 50 * 1024;
+
+export interface StaticAnalysisResult {
+  techStack: TechStack;
+  stacks: DetectedStack[];
+  scripts: ProjectScript[];
+  ciWorkflows: CiWorkflow[];
+  containers: ContainerSetup | null;
+  workspace: Workspace | null;
+  databaseRequirements: DatabaseRequirement[];
+  environmentVariables: EnvironmentVariable[];
+  vulnerabilities: VulnerabilityFinding[];
+}
+
+/**
+ * Which analyzers to re-run when a previous result is available
+ */
+export interface StaticAnalyzerSelection {
+  tech_stack: boolean;
+  database: boolean;
+  env_vars: boolean;
+}
+
+/**
+ * Pick archive or per-file mode from the repo size and apply it to the client
+ * Returns the mode in effect; providers without an archive mode read per file
+ */
+export function applyFetchStrategy(
+  repoClient: RepositorySource,
+  repoSizeKB: number
+): FileFetchStrategy {
+  if (!repoClient.setFetchStrategy) {
+    return 'per-file';
+  }
+
+  const strategy: FileFetchStrategy = repoSizeKB <= ARCHIVE_MODE_MAX_SIZE_KB ? 'archive' : 'per-file';
+  repoClient.setFetchStrategy(strategy);
+  return strategy;
+}
+
+/**
+ * Fetch the repository's .gitattributes and .gitignore files (the root one
+ * and the shallowest nested ones) and build the file filtering rules
+ */
+export async function fetchFileRules(
+  repoClient: RepositorySource,
+  owner: string,
+  repo: string,
+  ref: string,
+  files: FileTreeItem[]
+): Promise<FileRules> {
+  const ruleFiles = files
+    .filter((file) => {
+      const fileName = file.path.split('/').pop();
+      return (
+        file.type === 'blob' &&
+        (fileName === GITIGNORE_FILE || file.path === GITATTRIBUTES_FILE) &&
+        !EXCLUDED_DIRECTORIES.some((dir) => file.path.includes(dir))
+      );
+    })
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+    .slice(0, MAX_NESTED_GITIGNORES + 2);
+
+  const contents = new Map<string, string>();
+  for (const file of ruleFiles) {
+    try {
+      contents.set(file.path, await repoClient.getFileContent(owner, repo, file.path, ref));
+    } catch (error) {
+      console.error(`Failed to fetch ${file.path}:`, error);
+    }
+  }
+  return buildFileRules(contents);
+}
+
+/**
+ * Fetch and validate the repository's .onboardghost config. A config that
+ * can't be read is reported in the result rather than failing the analysis.
+ */
+export async function fetchRepoConfig(
+  repoClient: RepositorySource,
+  owner: string,
+  repo: string,
+  ref: string,
+  files: FileTreeItem[]
+): Promise<RepoConfigResult> {
+  const configFile = REPO_CONFIG_FILES.find((name) => files.some((file) => file.type === 'blob' && file.path === name));
+  if (!configFile) {
+    return { file: null, config: null, errors: [] };
+  }
+
+  try {
+    return parseRepoConfig(configFile, await repoClient.getFileContent(owner, repo, configFile, ref));
+  } catch (error) {
+    console.error(`Failed to fetch ${configFile}:`, error);
+    return { file: configFile, config: null, errors: ['could not be read'] };
+  }
+}
+
+function isNestedInput(filePath: string): boolean {
+  return isManifestFile(filePath) || isDockerfile(filePath) || SCRIPT_FILES.includes(filePath.split('/').pop() || '');
+}
+
+/**
+ * The source files fetchCriticalFiles reads for environment variables: all of
+ * them in archive mode, where they are in memory already, else the ones
+ * selectEnvScanFiles ranks first
+ */
+export function getEnvScanFiles(filteredFiles: FilteredFileTree, fetchStrategy: FileFetchStrategy): FileTreeItem[] {
+  return selectEnvScanFiles(filteredFiles.code_files, fetchStrategy === 'archive' ? Infinity : undefined);
+}
+
+/**
+ * How many of the source files in the scanned languages the env scan read
+ */
+export function measureEnvScanCoverage(
+  criticalFilesContent: Map<string, string>,
+  filteredFiles: FilteredFileTree
+): EnvScanCoverage {
+  const candidates = selectEnvScanFiles(filteredFiles.code_files, Infinity);
+  return {
+    scanned_files: candidates.filter((file) => criticalFilesContent.has(file.path)).length,
+    candidate_files: candidates.length,
+  };
+}
+
+/**
+ * Fetch the content of critical files, keyed by repo-relative path.
+ * Root manifests, version and compose files come first; in a monorepo the manifest
+ * of every workspace package is fetched as well, then CI configs, the source
+ * files scanned for environment variable reads, the committed .env files and
+ * keys the secret scan reads and the lockfiles.
+ */
+export async function fetchCriticalFiles(
+  repoClient: RepositorySource,
+  owner: string,
+  repo: string,
+  ref: string,
+  filteredFiles: FilteredFileTree,
+  fetchStrategy: FileFetchStrategy = 'per-file'
+): Promise<Map<string, string>> {
+  const criticalFiles = filteredFiles.critical_files;
+  const criticalFilesContent = new Map<string, string>();
+
+  const fetchFile = async (filePath: string) => {
+    try {
+      const content = await repoClient.getFileContent(owner, repo, filePath, ref);
+      criticalFilesContent.set(filePath, content);
+    } catch (error) {
+      console.error(`Failed to fetch ${filePath}:`, error);
+    }
+  };
+
+  // Root manifests, version, compose, script, container and license files are small and
+  // drive detection, so they don't count against the cap; the rest are fetched shallowest first
+  const isRootInput = (file: FileTreeItem) =>
+    MANIFEST_FILES.includes(file.path) ||
+    LICENSE_FILES.includes(file.path) ||
+    (!file.path.includes('/') && (isManifestFile(file.path) || isDockerfile(file.path))) ||
+    RUNTIME_VERSION_FILES.includes(file.path) ||
+    COMPOSE_FILES.includes(file.path) ||
+    SCRIPT_FILES.includes(file.path) ||
+    file.path.startsWith('.devcontainer');
+  const byDepth = criticalFiles
+    .filter((file) => !isRootInput(file))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+  for (const file of [...criticalFiles.filter(isRootInput), ...byDepth.slice(0, MAX_CRITICAL_FILES)]) {
+    await fetchFile(file.path);
+  }
+
+  const layout = detectWorkspaces(criticalFilesContent, criticalFiles);
+  for (const pkg of layout?.packages.slice(0, MAX_WORKSPACE_PACKAGES) || []) {
+    if (!criticalFilesContent.has(pkg.manifest_path)) {
+      await fetchFile(pkg.manifest_path);
+    }
+  }
+
+  // Manifests, scripts and Dockerfiles of services in subdirectories (frontend/, api/, workers/...)
+  const nestedManifests = criticalFiles
+    .filter((file) => isNestedInput(file.path) && !criticalFilesContent.has(file.path))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+    .slice(0, MAX_NESTED_MANIFESTS);
+  for (const file of nestedManifests) {
+    await fetchFile(file.path);
+  }
+
+  for (const file of filteredFiles.ci_files.slice(0, MAX_CI_FILES)) {
+    await fetchFile(file.path);
+  }
+
+  const envScanFiles = getEnvScanFiles(filteredFiles, fetchStrategy).filter((file) => !criticalFilesContent.has(file.path));
+  await mapWithConcurrency(envScanFiles, ENV_SCAN_CONCURRENCY, async (file) => {
+    await fetchFile(file.path);
+    // Generated code (API clients, protobuf output) only adds noise to the env scan
+    if (isGeneratedContent(criticalFilesContent.get(file.path) || '')) {
+      criticalFilesContent.delete(file.path);
+    }
+  });
+
+  for (const file of filteredFiles.sensitive_files.slice(0, MAX_SENSITIVE_FILES)) {
+    await fetchFile(file.path);
+  }
+
+  // Lockfiles for the vulnerability check, shallowest first; huge ones are skipped
+  // (those of unknown size are kept)
+  const lockfiles = filteredFiles.lockfiles
+    .filter((file) => PARSEABLE_LOCKFILES.includes(file.path.split('/').pop() || '') && (file.size === null || file.size <= MAX_LOCKFILE_SIZE))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)
+    .slice(0, MAX_LOCKFILES);
+  for (const file of lockfiles) {
+    await fetchFile(file.path);
+  }
+
+  return criticalFilesContent;
+}
+
+/**
+ * Fetched files directly inside a directory ('' for the root), keyed by name
+ */
+function filesDirectlyIn(criticalFilesContent: Map<string, string>, dir: string): Map<string, string> {
+  const prefix = dir ? `${dir}/` : '';
+  const files = new Map<string, string>();
+  for (const [filePath, content] of criticalFilesContent) {
+    if (filePath.startsWith(prefix) && !filePath.slice(prefix.length).includes('/')) {
+      files.set(filePath.slice(prefix.length), content);
+    }
+  }
+  return files;
+}
+
+/**
+ * Names of the lockfiles directly inside a directory ('' for the root)
+ */
+function lockfilesIn(lockfiles: FileTreeItem[], dir: string): string[] {
+  const prefix = dir ? `${dir}/` : '';
+  return lockfiles
+    .map((file) => file.path)
+    .filter((filePath) => filePath.startsWith(prefix) && !filePath.slice(prefix.length).includes('/'))
+    .map((filePath) => filePath.slice(prefix.length));
+}
+
+/**
+ * Detect the workspace packages and a tech stack for each, from the
+ * manifests fetched by fetchCriticalFiles
+ */
+export async function detectWorkspace(
+  criticalFilesContent: Map<string, string>,
+  criticalFiles: FileTreeItem[],
+  lockfiles: FileTreeItem[] = []
+): Promise<Workspace | null> {
+  const layout = detectWorkspaces(criticalFilesContent, criticalFiles);
+  if (!layout) {
+    return null;
+  }
+
+  // Node workspace packages are installed from the root, with its package manager
+  let rootPackageManager: string | null = null;
+  try {
+    const rootPackageJson = criticalFilesContent.get('package.json');
+    rootPackageManager = rootPackageJson
+      ? detectPackageManager(JSON.parse(rootPackageJson), lockfilesIn(lockfiles, ''))
+      : null;
+  } catch {
+    rootPackageManager = null;
+  }
+
+  const packages = [];
+  for (const location of layout.packages.slice(0, MAX_WORKSPACE_PACKAGES)) {
+    // detectTechStack looks files up by name, so re-key the package's own files
+    const packageFiles = filesDirectlyIn(criticalFilesContent, location.path);
+
+    const techStack = await detectTechStack(
+      packageFiles,
+      ECOSYSTEM_LANGUAGES[location.ecosystem],
+      lockfilesIn(lockfiles, location.path)
+    );
+    if (location.ecosystem === 'node' && rootPackageManager) {
+      techStack.package_manager = rootPackageManager;
+    }
+
+    packages.push({
+      name: readPackageName(location, packageFiles.get(PACKAGE_MANIFESTS[location.ecosystem])),
+      path: location.path,
+      ecosystem: location.ecosystem,
+      tech_stack: techStack,
+    });
+  }
+
+  // package.json `workspaces` alone reads as npm; the lockfile can say otherwise
+  const managerName = rootPackageManager?.split('@')[0];
+  const tools = layout.tools.map((tool) =>
+    tool === 'npm' && (managerName === 'yarn' || managerName === 'pnpm') ? managerName : tool
+  );
+
+  return { tools: Array.from(new Set(tools)), packages, selected_packages: null };
+}
+
+/**
+ * Detect a tech stack for every directory with a manifest of its own, so a
+ * repository with a Next.js frontend, a Go API and Python workers reports
+ * all three. Workspace packages are left to detectWorkspace.
+ * @returns Stacks, most confident first
+ */
+export async function detectStacks(
+  criticalFilesContent: Map<string, string>,
+  filteredFiles: FilteredFileTree,
+  primaryLanguage: string,
+  workspace: Workspace | null
+): Promise<DetectedStack[]> {
+  const locations = findStackLocations(
+    criticalFilesContent,
+    filteredFiles.files,
+    filteredFiles.lockfiles,
+    workspace?.packages.map((pkg) => pkg.path) || []
+  );
+
+  const stacks: DetectedStack[] = [];
+  for (const location of locations.slice(0, MAX_STACKS)) {
+    // detectTechStack looks files up by name, so re-key the files under the root
+    const prefix = location.root ? `${location.root}/` : '';
+    const stackFiles = new Map<string, string>();
+    for (const [filePath, content] of criticalFilesContent) {
+      if (filePath.startsWith(prefix)) {
+        stackFiles.set(filePath.slice(prefix.length), content);
+      }
+    }
+
+    const techStack = await detectTechStack(stackFiles, location.language, lockfilesIn(filteredFiles.lockfiles, location.root));
+    stacks.push({
+      root: location.root,
+      confidence: scoreStack(location, techStack, primaryLanguage),
+      signals: describeStackSignals(location, techStack),
+      tech_stack: techStack,
+    });
+  }
+
+  return stacks.sort((a, b) => b.confidence - a.confidence || a.root.split('/').length - b.root.split('/').length);
+}
+
+/**
+ * Collect the scripts of the root, every stack and the covered workspace
+ * packages, each run with its own package manager
+ */
+export function collectScripts(
+  criticalFilesContent: Map<string, string>,
+  techStack: TechStack,
+  stacks: DetectedStack[],
+  workspace: Workspace | null
+): ProjectScript[] {
+  const directories = new Map<string, string>([['', techStack.package_manager]]);
+  for (const stack of stacks) {
+    if (!directories.has(stack.root)) directories.set(stack.root, stack.tech_stack.package_manager);
+  }
+  for (const pkg of getCoveredPackages(workspace)) {
+    // Node workspace packages were already given the root package manager
+    if (!directories.has(pkg.path)) directories.set(pkg.path, pkg.tech_stack.package_manager);
+  }
+
+  return Array.from(directories).flatMap(([dir, packageManager]) =>
+    detectScripts(filesDirectlyIn(criticalFilesContent, dir), packageManager, dir)
+  );
+}
+
+/**
+ * Limit the roadmap to the packages a user works on.
+ * Unknown and repeated paths are ignored; an empty selection covers every package.
+ */
+export function selectWorkspacePackages(
+  workspace: Workspace | null,
+  packagePaths?: string[] | null
+): Workspace | null {
+  if (!workspace) {
+    return null;
+  }
+
+  const selected = Array.from(new Set(packagePaths || [])).filter((path) =>
+    workspace.packages.some((pkg) => pkg.path === path)
+  );
+  return { ...workspace, selected_packages: selected.length > 0 ? selected : null };
+}
+
+/**
+ * Packages every fetched lockfile resolves
+ */
+function collectLockedPackages(criticalFilesContent: Map<string, string>): LockedPackage[] {
+  return Array.from(criticalFilesContent).flatMap(([filePath, content]) => parseLockfile(filePath, content));
+}
+
+/**
+ * Dependency names declared in the root, service and workspace package manifests
+ */
+function collectDeclaredDependencies(techStack: TechStack, stacks: DetectedStack[], workspace: Workspace | null): string[] {
+  return [techStack, ...[...getCoveredPackages(workspace), ...stacks].map(({ tech_stack }) => tech_stack)].flatMap(
+    ({ dependencies }) => [...dependencies.production, ...dependencies.development]
+  );
+}
+
+/**
+ * Run tech stack, database and env var detection.
+ * With a previous result, only the selected analyzers are re-run and the
+ * rest of the previous result is carried over unchanged.
+ * @param packagePaths - Workspace packages the roadmap covers (all by default)
+ */
+export async function runStaticAnalysis(
+  criticalFilesContent: Map<string, string>,
+  filteredFiles: FilteredFileTree,
+  primaryLanguage: string,
+  previous?: { result: StaticAnalysisResult; rerun: StaticAnalyzerSelection },
+  packagePaths?: string[] | null
+): Promise<StaticAnalysisResult> {
+  const rerun = previous?.rerun || { tech_stack: true, database: true, env_vars: true };
+
+  // Detect tech stack, per workspace package in a monorepo
+  const techStack = rerun.tech_stack || !previous
+    ? await detectTechStack(criticalFilesContent, primaryLanguage, lockfilesIn(filteredFiles.lockfiles, ''))
+    : previous.result.techStack;
+  const workspace = selectWorkspacePackages(
+    rerun.tech_stack || !previous
+      ? await detectWorkspace(criticalFilesContent, filteredFiles.critical_files, filteredFiles.lockfiles)
+      : previous.result.workspace,
+    packagePaths
+  );
+  const stacks = rerun.tech_stack || !previous
+    ? await detectStacks(criticalFilesContent, filteredFiles, primaryLanguage, workspace)
+    : previous.result.stacks;
+  // Script, CI, container and lockfiles are always fetched, so they are cheap to re-read
+  const scripts = collectScripts(criticalFilesContent, techStack, stacks, workspace);
+  const ciWorkflows = detectCiWorkflows(criticalFilesContent);
+  const containers = detectContainerSetup(criticalFilesContent);
+  const vulnerabilities = findVulnerabilities(
+    collectLockedPackages(criticalFilesContent),
+    collectDeclaredDependencies(techStack, stacks, workspace)
+  );
+  const composeFile = COMPOSE_FILES.find((name) => criticalFilesContent.has(name));
+
+  // Detect database requirements
+  let databaseRequirements: DatabaseRequirement[];
+  if (rerun.database || !previous) {
+    const allDeps = [
+      ...techStack.dependencies.production,
+      ...techStack.dependencies.development,
+      ...[...getCoveredPackages(workspace), ...stacks].flatMap(({ tech_stack }) => [
+        ...tech_stack.dependencies.production,
+        ...tech_stack.dependencies.development,
+      ]),
+    ];
+    // Services in the compose file add databases and pin their versions
+    databaseRequirements = mergeDatabaseRequirements(
+      detectDatabaseRequirements(allDeps, filteredFiles.files),
+      composeFile ? detectDatabaseFromDockerCompose(criticalFilesContent.get(composeFile)!, composeFile) : [],
+      detectDatabaseFromCiServices(ciWorkflows)
+    );
+  } else {
+    databaseRequirements = previous.result.databaseRequirements;
+  }
+
+  // Extract environment variables
+  let environmentVariables: EnvironmentVariable[];
+  if (rerun.env_vars || !previous) {
+    const envExampleContent =
+      criticalFilesContent.get('.env.example') || criticalFilesContent.get('.env.sample') || '';
+    // Reads in code, README mentions and compose environments complete the example file;
+    // a typed schema (zod, envalid, pydantic) has the final say on constraints
+    const detected = mergeEnvironmentVariables(
+      extractEnvironmentVariables(envExampleContent),
+      scanEnvVarUsage(criticalFilesContent),
+      extractEnvVarsFromReadme(criticalFilesContent.get('README.md') || ''),
+      composeFile ? extractEnvVarsFromDockerCompose(criticalFilesContent.get(composeFile)!) : []
+    );
+    environmentVariables = applyEnvSchema(detected, parseEnvSchemas(criticalFilesContent));
+  } else {
+    environmentVariables = previous.result.environmentVariables;
+  }
+
+  return {
+    techStack,
+    stacks,
+    scripts,
+    ciWorkflows,
+    containers,
+    workspace,
+    databaseRequirements,
+    environmentVariables,
+    vulnerabilities,
+  };
+}
+
+/**
+ * Build the license report from the fetched license files, manifests and
+ * lockfiles. Sources with a working tree also have installed manifests
+ * (node_modules, vendor) for packages whose lockfile records no license.
+ */
+export async function analyzeLicenses(
+  repoClient: RepositorySource,
+  criticalFilesContent: Map<string, string>,
+  result: Pick<StaticAnalysisResult, 'techStack' | 'stacks' | 'workspace'>
+): Promise<LicenseReport> {
+  const lockedPackages = collectLockedPackages(criticalFilesContent);
+  const installedLicenses = repoClient.readInstalledFile
+    ? await readInstalledLicenses(lockedPackages, repoClient.readInstalledFile.bind(repoClient))
+    : undefined;
+
+  return buildLicenseReport(
+    criticalFilesContent,
+    lockedPackages,
+    collectDeclaredDependencies(result.techStack, result.stacks, result.workspace),
+    installedLicenses
+  );
+}
+
+/**
+ * Pull the README and parsed package.json out of the fetched critical files
+ */
+export function extractProjectDocs(criticalFilesContent: Map<string, string>): {
+  readmeContent: string;
+  packageJsonData?: { description?: string; [key: string]: unknown };
+} {
+  const readmeContent = criticalFilesContent.get('README.md') || '';
+  const packageJson = criticalFilesContent.get('package.json');
+
+  let packageJsonData;
+  try {
+    packageJsonData = packageJson ? JSON.parse(packageJson) : undefined;
+  } catch {
+    packageJsonData = undefined;
+  }
+
+  return { readmeContent, packageJsonData };
+}
@@ -0,0 +1,66 @@
+/**
+ * Repository provider selection
+ */
+
+import { createGitHubClient, findGitHubHost, getDefaultGitHubHost, GITHUB_DOTCOM } from '../github';
+import { createGitLabClient } from '../gitlab';
+import { createBitbucketClient } from '../bitbucket';
+import { parseRepositoryUrl, ParsedRepositoryUrl } from '../utils/url';
+import { ValidationError } from '../utils/errors';
+import { RepositoryProvider, ProviderName } from './types';
+
+export * from './types';
+
+/**
+ * Create the client for a provider
+ * GitLab and Bitbucket fall back to a server-side token from the environment
+ * @param host - GitHub host (github.com or an allowlisted enterprise host)
+ */
+export function createRepositoryProvider(
+  provider: ProviderName,
+  token?: string | null,
+  host: string = GITHUB_DOTCOM.host
+): RepositoryProvider {
+  switch (provider) {
+    case 'gitlab':
+      return createGitLabClient(token || process.env.GITLAB_TOKEN || undefined);
+    case 'bitbucket':
+      return createBitbucketClient(token || process.env.BITBUCKET_TOKEN || undefined);
+    case 'github':
+    default: {
+      const githubHost = findGitHubHost(host);
+      if (!githubHost) {
+        throw new ValidationError(`GitHub host ${host} is not in the enterprise allowlist`);
+      }
+      return createGitHubClient(token || undefined, githubHost.apiUrl);
+    }
+  }
+}
+
+/**
+ * Pick the token to send to a repository's host.
+ * The user's GitHub OAuth token only ever goes to the deployment's GitHub
+ * host (GITHUB_HOST); any other host gets the request's providerToken.
+ */
+export function selectProviderToken(
+  parsed: Pick<ParsedRepositoryUrl, 'provider' | 'host'>,
+  githubToken?: string | null,
+  providerToken?: string | null
+): string | null {
+  if (parsed.provider === 'github' && parsed.host === getDefaultGitHubHost().host) {
+    return githubToken || providerToken || null;
+  }
+  return providerToken || null;
+}
+
+/**
+ * Parse a repository URL and create the matching provider client
+ * @throws Error if URL is invalid
+ */
+export function createProviderForUrl(
+  url: string,
+  token?: string | null
+): ParsedRepositoryUrl & { client: RepositoryProvider } {
+  const parsed = parseRepositoryUrl(url);
+  return { ...parsed, client: createRepositoryProvider(parsed.provider, token, parsed.host) };
+}
@@ -0,0 +1,75 @@
+/**
+ * Repository provider interface shared by the GitHub, GitLab and Bitbucket clients
+ */
+
+import { RepositoryMetadata, FileTreeItem, ProviderName, RateLimitBudget } from '../types';
+
+export type { ProviderName, RateLimitBudget };
+
+export interface CommitComparison {
+  status: 'identical' | 'ahead' | 'behind' | 'diverged';
+  total_commits: number;
+  changed_files: string[]; // Includes previous paths of renamed files
+  files_truncated: boolean; // More files changed than the API lists
+}
+
+export interface FileTreeResult {
+  sha: string;
+  files: FileTreeItem[];
+  truncated: boolean; // The provider truncated the recursive listing
+  fallback_traversal: boolean; // Subtrees were walked individually
+  subtree_requests: number;
+  incomplete: boolean; // Fallback traversal hit its request limit
+}
+
+// How file contents are read: one request per file, or one archive per ref
+export type FileFetchStrategy = 'per-file' | 'archive';
+
+export interface RepositoryIssue {
+  title: string;
+  url: string;
+  state: string;
+  body: string;
+}
+
+/**
+ * Operations the analysis pipeline needs from a hosted repository.
+ * `owner` is the GitHub owner, GitLab namespace (may contain '/') or
+ * Bitbucket workspace.
+ */
+export interface RepositoryProvider {
+  readonly name: ProviderName;
+
+  getRepositoryMetadata(owner: string, repo: string): Promise<RepositoryMetadata>;
+
+  resolveRef(owner: string, repo: string, ref: string): Promise<string>;
+
+  compareCommits(owner: string, repo: string, base: string, head: string): Promise<CommitComparison>;
+
+  getFileTree(owner: string, repo: string, ref: string): Promise<FileTreeResult>;
+
+  getFileContent(owner: string, repo: string, path: string, ref?: string): Promise<string>;
+
+  searchIssues(owner: string, repo: string, query: string): Promise<RepositoryIssue[]>;
+
+  validateToken(): Promise<boolean>;
+
+  // Providers without an archive mode always read per file
+  setFetchStrategy?(strategy: FileFetchStrategy): void;
+
+  // Providers that track their request budget; null until a response reports it
+  getRateLimit?(): RateLimitBudget | null;
+}
+
+/**
+ * The subset of provider operations RepositoryAnalyzer reads a repository
+ * through; also implemented by LocalRepositorySource
+ */
+export type RepositorySource = Pick<
+  RepositoryProvider,
+  'getRepositoryMetadata' | 'resolveRef' | 'getFileTree' | 'getFileContent' | 'setFetchStrategy' | 'getRateLimit'
+> & {
+  // Sources with a working tree, where installed dependencies (node_modules,
+  // vendor) can be read; resolves to null when the file is not there
+  readInstalledFile?(filePath: string): Promise<string | null>;
+};
@@ -1,7 +1,21 @@
 // Core Data Models for OnboardGhost
 
+import type { TaskDescription, Tip, Warning } from './roadmap';
+
+export type ProviderName = 'github' | 'gitlab' | 'bitbucket';
+
+// API request budget as last reported by the provider
+export interface RateLimitBudget {
+  resource: string; // e.g. GitHub's 'core' or 'search'
+  limit: number;
+  remaining: number;
+  used: number;
+  reset_at: string; // ISO timestamp
+}
+
 export interface RepositoryMetadata {
   id: string; // Firebase document ID
+  provider?: ProviderName; // Absent on analyses stored before GitLab/Bitbucket support
   owner: string;
   name: string;
   url: string;
@@ -9,6 +23,8 @@ export interface RepositoryMetadata {
   stars: number;
   forks: number;
   default_branch: string;
+  ref?: string; // Branch, tag or SHA the analysis was requested for
+  commit_sha?: string; // Commit the ref resolved to at analysis time
   created_at: Date;
   updated_at: Date;
   language: string;
@@ -26,10 +42,139 @@ export interface TechStack {
   dependencies: {
     production: string[];
     development: string[];
+    optional?: Record<string, string[]>; // Extras, features or optional groups, by name
   };
+  dependency_versions?: Record<string, string>; // Declared version spec per dependency
   testing_framework: string | null;
   database: string | null;
   ui_library: string | null;
+  runtime_versions?: RuntimeVersion[];
+}
+
+export interface RuntimeVersionDeclaration {
+  version: string; // As written: an exact version, a range or an alias like lts/*
+  source: string; // File (and field) it was read from
+}
+
+export interface RuntimeVersion {
+  runtime: string; // node, python, ruby, go, rust, dotnet, or the asdf tool name
+  version: string; // Resolved version
+  source: string; // Where the resolved version came from
+  declarations: RuntimeVersionDeclaration[]; // Highest precedence first
+  conflicts: RuntimeVersionDeclaration[]; // Declarations the resolved version doesn't satisfy
+}
+
+// A project of its own inside the repository, e.g. a frontend, an API or workers
+export interface DetectedStack {
+  root: string; // Directory relative to the repo root ('' for the root)
+  confidence: number; // 0-1, from the manifest, lockfile, source files and framework found
+  signals: string[]; // What the detection is based on, e.g. 'go.mod', 'go.sum', '24 source files'
+  tech_stack: TechStack;
+}
+
+export type ScriptCategory = 'dev' | 'build' | 'test' | 'lint' | 'migrate' | 'seed' | 'other';
+
+// An entry point the project declares: a package.json script, Makefile target,
+// justfile recipe, Taskfile task, Procfile process or pyproject script
+export interface ProjectScript {
+  name: string;
+  command: string; // What to type to run it, e.g. 'pnpm run dev' or 'make test'
+  body: string; // What it executes (first command for multi-line recipes)
+  directory: string; // Directory to run it from, relative to the repo root ('' for the root)
+  source: string; // File it is declared in
+  category: ScriptCategory;
+  description?: string;
+}
+
+export type CiProvider = 'GitHub Actions' | 'GitLab CI' | 'CircleCI';
+
+// A runtime a CI job sets up, from a setup action, the build matrix or its image
+export interface CiRuntime {
+  runtime: string; // node, python, ... as in RuntimeVersion
+  versions: string[]; // Several for a build matrix
+  source: string; // e.g. 'actions/setup-node' or 'image node:20'
+}
+
+// A container a CI job starts next to it, e.g. a database
+export interface CiService {
+  name: string;
+  image: string; // Image reference with tag, e.g. 'postgres:16'
+}
+
+export interface CiJob {
+  name: string;
+  runtimes: CiRuntime[];
+  setup_actions: string[]; // Setup actions used, without the ref, e.g. 'pnpm/action-setup'
+  services: CiService[];
+  env: string[]; // Names of the env vars the job sets
+  commands: string[]; // Shell commands it runs, in order
+}
+
+export interface CiWorkflow {
+  provider: CiProvider;
+  file: string;
+  jobs: CiJob[];
+}
+
+// .devcontainer/devcontainer.json; paths are relative to the repo root
+export interface DevContainer {
+  file: string;
+  name: string | null;
+  image: string | null;
+  dockerfile: string | null;
+  compose_files: string[];
+  service: string | null; // Compose service the editor attaches to
+  features: string[]; // Feature IDs, e.g. ghcr.io/devcontainers/features/node:1
+  forward_ports: string[];
+  post_create_command: string | null;
+  extensions: string[]; // VS Code extensions installed in the container
+}
+
+export interface DockerfileSummary {
+  file: string;
+  base_images: string[]; // FROM image of every stage, first to last
+  exposed_ports: string[];
+  build_args: string[]; // ARG names
+  workdir: string | null;
+  command: string | null; // CMD or ENTRYPOINT of the final stage
+}
+
+export interface ContainerService {
+  name: string;
+  image: string | null; // Image reference with tag
+  build: string | null; // Build context, for services built from a Dockerfile
+  ports: string[];
+  volumes: string[];
+  depends_on: string[];
+  healthcheck: string | null; // Healthcheck test command
+}
+
+export interface ContainerSetup {
+  devcontainer: DevContainer | null;
+  dockerfiles: DockerfileSummary[];
+  compose_file: string | null;
+  services: ContainerService[];
+  supports_containerized: boolean; // A dev container, or a compose file that builds the app
+}
+
+export type RoadmapVariant = 'default' | 'containerized';
+
+// Monorepo tooling that declares workspace packages
+export type WorkspaceTool = 'npm' | 'yarn' | 'pnpm' | 'lerna' | 'turborepo' | 'nx' | 'cargo' | 'go';
+
+export type WorkspaceEcosystem = 'node' | 'rust' | 'go';
+
+export interface WorkspacePackage {
+  name: string; // From the package manifest, or the directory path
+  path: string; // Package directory relative to the repo root
+  ecosystem: WorkspaceEcosystem;
+  tech_stack: TechStack;
+}
+
+export interface Workspace {
+  tools: WorkspaceTool[];
+  packages: WorkspacePackage[];
+  selected_packages: string[] | null; // Package paths the roadmap covers; null covers all
 }
 
 export interface DatabaseRequirement {
@@ -42,12 +187,37 @@ export interface DatabaseRequirement {
   setup_guide: string;
 }
 
+export type EnvVarSource = 'env_example' | 'code' | 'readme' | 'compose' | 'schema';
+
+// Value formats a typed env schema (zod, envalid, pydantic) can enforce
+export type EnvVarFormat = 'url' | 'email' | 'port' | 'number' | 'boolean' | 'json' | 'host';
+
+// A place the code reads an environment variable
+export interface EnvVarUsage {
+  file: string;
+  line: number;
+}
+
+// How much of the source the env var scan read
+export interface EnvScanCoverage {
+  scanned_files: number;
+  candidate_files: number; // Source files in the scanned languages, outside tests
+}
+
 export interface EnvironmentVariable {
   name: string;
   description: string;
   required: boolean;
   example_value: string;
   category: 'database' | 'api_key' | 'server' | 'general';
+  sources?: EnvVarSource[]; // Where it was found; absent on analyses before the source scan
+  usages?: EnvVarUsage[]; // Where the code reads it
+  missing_from_example?: boolean; // Read in code but not listed in .env.example
+  // From a typed env schema; absent when the project has none
+  default_value?: string | null; // Applied when the variable is unset
+  allowed_values?: string[]; // Enum or choices
+  format?: EnvVarFormat | null;
+  declared_in?: string; // Schema location, file:line
 }
 
 export interface SecurityIssue {
@@ -59,6 +229,93 @@ export interface SecurityIssue {
   recommendation: string;
 }
 
+export type VulnerabilitySeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// A locked package version with a known advisory
+export interface VulnerabilityFinding {
+  advisory_id: string; // OSV id, e.g. GHSA-35jh-r3h4-6jhm
+  aliases: string[]; // CVE ids
+  summary: string;
+  severity: VulnerabilitySeverity;
+  ecosystem: string; // OSV ecosystem: npm, PyPI, crates.io, ...
+  package: string;
+  version: string; // Version the lockfile resolves
+  fixed_versions: string[]; // Releases that fix it, one per affected range
+  lockfile: string;
+  direct: boolean; // Declared in a manifest rather than pulled in transitively
+  dev: boolean; // Development-only, when the lockfile says so
+  url: string | null;
+}
+
+// From least to most restrictive; 'unknown' when no SPDX license matched
+export type LicenseCategory =
+  | 'public-domain'
+  | 'permissive'
+  | 'weak-copyleft' // LGPL, MPL, EPL: copyleft on the library's own files
+  | 'copyleft' // GPL
+  | 'network-copyleft' // AGPL, SSPL: also triggered by serving it over a network
+  | 'proprietary' // npm's UNLICENSED
+  | 'unknown';
+
+export interface ProjectLicense {
+  spdx_id: string | null; // SPDX expression; null when the license text matched no known license
+  category: LicenseCategory;
+  file: string; // License file or manifest it was read from
+  matched_by: 'spdx-identifier' | 'text' | 'manifest';
+  declared: string | null; // What the manifest declares, as written
+}
+
+export interface DependencyLicense {
+  package: string;
+  version: string;
+  ecosystem: string; // OSV ecosystem: npm, PyPI, crates.io, ...
+  license: string; // SPDX expression where recognized, else as declared
+  category: LicenseCategory;
+  source: 'lockfile' | 'installed'; // Installed manifests are only read in local checkouts
+  direct: boolean;
+  dev: boolean;
+}
+
+export interface LicenseReport {
+  project: ProjectLicense | null; // Repository root
+  nested: ProjectLicense[]; // Packages and services licensed differently from the root
+  declared_mismatch: boolean; // The root manifest declares a different license than the license file
+  dependency_licenses: { license: string; category: LicenseCategory; count: number }[]; // Most common first
+  flagged_dependencies: DependencyLicense[]; // Copyleft, proprietary or unrecognized; most restrictive first
+  flagged_count: number; // Before flagged_dependencies was capped
+  checked_dependencies: number;
+  unchecked_dependencies: number; // Locked packages with no license on record
+}
+
+// Setup the maintainers want newcomers to follow: 'docker' leads with the
+// containerized roadmap, 'native' leaves it out
+export type SetupPath = 'docker' | 'native';
+
+export interface RepoConfigTask {
+  section: string; // Section id or title; a new section is added when none matches
+  title: string;
+  description: string;
+  steps: string[];
+  commands: string[];
+}
+
+export interface GlossaryEntry {
+  term: string;
+  definition: string;
+}
+
+// The optional .onboardghost.yml (or .json) at the repository root
+export interface RepoConfig {
+  file: string;
+  include: string[]; // Globs analyzed even when filtering would skip them
+  exclude: string[]; // Globs never analyzed; wins over include
+  embed: string[]; // Globs always embedded for RAG
+  tasks: RepoConfigTask[];
+  skip_sections: string[]; // Section ids or titles left out of the roadmap
+  setup_path: SetupPath | null;
+  glossary: GlossaryEntry[];
+}
+
 export interface ProjectPurpose {
   purpose: string;
   features: string[];
@@ -80,16 +337,17 @@ export interface RoadmapSection {
   tasks: RoadmapTask[];
 }
 
+// Legacy task fields; generated tasks keep Gemini's richer ones alongside
 export interface RoadmapTask {
   id: string;
   title: string;
-  description: string;
+  description?: string | TaskDescription;
   instructions: string;
-  code_snippet?: string;
+  code_snippet?: string | null;
   difficulty: 'easy' | 'medium' | 'hard';
   completion_criteria: string;
-  tips: string[];
-  warnings: string[];
+  tips?: (string | Tip)[];
+  warnings?: (string | Warning)[];
 }
 
 export interface UserProgress {
@@ -130,17 +388,31 @@ export interface AnalysisProgress {
   step_name: string;
   step_status: 'pending' | 'in-progress' | 'completed' | 'failed';
   logs: AnalysisLog[];
+  rate_limit?: RateLimitBudget | null; // Provider API budget, when the provider reports one
   updated_at: Date;
 }
 
 export interface FileTreeItem {
   path: string;
   type: 'blob' | 'tree';
-  size: number;
+  size: number | null; // Bytes; null when the provider's listing doesn't report it
   sha: string;
   url: string;
 }
 
+// Why file filtering skipped a file
+export type FileExclusionReason =
+  | 'excluded_directory'
+  | 'excluded_extension'
+  | 'too_large'
+  | 'unsupported_type' // Not a code or critical file
+  | 'lockfile' // Kept in lockfiles, not analyzed
+  | 'gitignore'
+  | 'linguist_generated' // .gitattributes
+  | 'linguist_vendored' // .gitattributes
+  | 'generated_name' // protobuf output, *.generated.ts, minified bundles...
+  | 'repo_config'; // exclude globs in .onboardghost.yml
+
 export interface FilteredFileTree {
   total_files: number;
   analyzed_files: number;
@@ -148,6 +420,10 @@ export interface FilteredFileTree {
   files: FileTreeItem[];
   critical_files: FileTreeItem[];
   code_files: FileTreeItem[];
+  lockfiles: FileTreeItem[]; // Their names identify the package manager; their versions feed the vulnerability check
+  ci_files: FileTreeItem[]; // CI configs, read for the setup a clean machine needs
+  sensitive_files: FileTreeItem[]; // Committed .env files and private keys, scanned for secrets
+  excluded_by_reason: Partial<Record<FileExclusionReason, number>>; // Files only; directories aren't counted
 }
 
 export interface GeminiFileUpload {
@@ -158,12 +434,21 @@ export interface GeminiFileUpload {
 
 export interface CompleteAnalysis {
   repository: RepositoryMetadata;
-  tech_stack: TechStack;
+  tech_stack: TechStack; // Root of the repository (shared setup in a monorepo)
+  stacks: DetectedStack[]; // Every stack found, most confident first
+  scripts: ProjectScript[];
+  ci_workflows: CiWorkflow[];
+  containers: ContainerSetup | null;
+  workspace: Workspace | null;
   database: DatabaseRequirement[];
   environment_variables: EnvironmentVariable[];
   security_issues: SecurityIssue[];
+  vulnerabilities: VulnerabilityFinding[]; // From the bundled advisory snapshot, most severe first
+  license_report: LicenseReport;
+  repo_config: RepoConfig | null;
   project_purpose: ProjectPurpose;
   roadmap: OnboardingRoadmap;
+  containerized_roadmap: OnboardingRoadmap | null; // Offered when containers.supports_containerized
   uploaded_files: {
     total: number;
     gemini_uris: string[];
@@ -182,6 +467,8 @@ export interface AnalyzeRepoRequest {
   repoUrl: string;
   userId: string;
   githubToken?: string;
+  ref?: string; // Defaults to the repository's default branch
+  packages?: string[]; // Workspace package paths to cover; defaults to all
 }
 
 export interface AnalyzeRepoResponse {
@@ -3,6 +3,8 @@
  * Provides rich, structured data for personalized setup guides
  */
 
+import type { RuntimeVersion } from './index';
+
 export interface RoadmapTask {
   id: string;
   title: string;
@@ -122,10 +124,13 @@ export interface TechStack {
   dependencies: {
     production: string[];
     development: string[];
+    optional?: Record<string, string[]>; // Extras, features or optional groups, by name
   };
+  dependency_versions?: Record<string, string>; // Declared version spec per dependency
   testing_framework: string | null;
   database: string | null;
   ui_library: string | null;
+  runtime_versions?: RuntimeVersion[];
 }
 
 export interface DatabaseRequirement {
@@ -143,6 +148,13 @@ export interface EnvironmentVariable {
   required: boolean;
   example_value: string;
   category: 'database' | 'api_key' | 'server' | 'general';
+  sources?: ('env_example' | 'code' | 'readme' | 'compose' | 'schema')[];
+  usages?: { file: string; line: number }[];
+  missing_from_example?: boolean;
+  default_value?: string | null;
+  allowed_values?: string[];
+  format?: 'url' | 'email' | 'port' | 'number' | 'boolean' | 'json' | 'host' | null;
+  declared_in?: string;
 }
 
 export interface SecurityIssue {
@@ -156,9 +168,12 @@ export interface SecurityIssue {
 export interface RepositoryMetadata {
   owner: string;
   name: string;
+  url?: string; // Web URL on GitHub, GitLab or Bitbucket
   description?: string;
   language: string;
   size_kb: number;
   stars?: number;
   default_branch?: string;
+  ref?: string;
+  commit_sha?: string;
 }
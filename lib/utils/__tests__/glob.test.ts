@@ -0,0 +1,91 @@
+/**
+ * Tests for Glob Matching
+ * Run with: npm test glob
+ */
+
+import { globToRegExp, matchesGlob, matchesGlobList, normalizeGlobPath } from '../glob';
+
+describe('Glob Matching', () => {
+  describe('normalizeGlobPath', () => {
+    it('should drop leading ./ and / and trailing slashes', () => {
+      expect(normalizeGlobPath('./packages/*/')).toBe('packages/*');
+      expect(normalizeGlobPath('/apps//')).toBe('apps');
+    });
+  });
+
+  describe('matchesGlob', () => {
+    it('should keep * and ? within one path segment', () => {
+      expect(matchesGlob('packages/web', 'packages/*')).toBe(true);
+      expect(matchesGlob('packages/web/src', 'packages/*')).toBe(false);
+      expect(matchesGlob('v1.ts', 'v?.ts')).toBe(true);
+      expect(matchesGlob('v/.ts', 'v?.ts')).toBe(false);
+    });
+
+    it('should let ** match zero or more segments', () => {
+      expect(matchesGlob('src/index.ts', 'src/**/*.ts')).toBe(true);
+      expect(matchesGlob('src/a/b/index.ts', 'src/**/*.ts')).toBe(true);
+      expect(matchesGlob('lib/index.ts', 'src/**/*.ts')).toBe(false);
+      expect(matchesGlob('docs/a/b.md', 'docs/**')).toBe(true);
+      expect(matchesGlob('a/b/c/fixtures', '**/fixtures')).toBe(true);
+    });
+
+    it('should expand braces, including nested ones', () => {
+      expect(matchesGlob('apps/web', '{apps,packages}/*')).toBe(true);
+      expect(matchesGlob('packages/ui', '{apps,packages}/*')).toBe(true);
+      expect(matchesGlob('tools/cli', '{apps,packages}/*')).toBe(false);
+      expect(matchesGlob('src/a.tsx', 'src/*.{js,ts{,x}}')).toBe(true);
+      expect(matchesGlob('src/a.ts', 'src/*.{js,ts{,x}}')).toBe(true);
+    });
+
+    it('should match character classes, negated with !', () => {
+      expect(matchesGlob('file1.txt', 'file[0-9].txt')).toBe(true);
+      expect(matchesGlob('filea.txt', 'file[!0-9].txt')).toBe(true);
+      expect(matchesGlob('file1.txt', 'file[!0-9].txt')).toBe(false);
+    });
+
+    it('should match unbalanced braces and invalid classes literally', () => {
+      expect(matchesGlob('a{b', 'a{b')).toBe(true);
+      expect(matchesGlob('a}b', 'a}b')).toBe(true);
+      expect(matchesGlob('x{a,b', 'x{a,b')).toBe(true);
+      expect(matchesGlob('xa', 'x{a,b')).toBe(false);
+      expect(matchesGlob('[z-a].log', '[z-a].log')).toBe(true);
+      expect(matchesGlob('[abc', '[abc')).toBe(true);
+    });
+
+    it('should escape regular expression characters in literals', () => {
+      expect(matchesGlob('a+b(1).js', 'a+b(1).js')).toBe(true);
+      expect(matchesGlob('aab(1).js', 'a+b(1).js')).toBe(false);
+      expect(matchesGlob('file-js', 'file.js')).toBe(false);
+    });
+  });
+
+  describe('globToRegExp', () => {
+    it('should never throw on malformed patterns', () => {
+      for (const pattern of ['{', '}', '[', ']', '[]', '{a,{b}', '\\', '(', '***']) {
+        expect(() => globToRegExp(pattern)).not.toThrow();
+      }
+    });
+
+    it('should reuse compiled patterns and recompile evicted ones', () => {
+      const first = globToRegExp('src/**/*.ts');
+      expect(globToRegExp('./src/**/*.ts')).toBe(first);
+
+      for (let i = 0; i < 1000; i++) globToRegExp(`generated-${i}/*`);
+
+      const recompiled = globToRegExp('src/**/*.ts');
+      expect(recompiled).not.toBe(first);
+      expect(recompiled.test('src/lib/index.ts')).toBe(true);
+    });
+  });
+
+  describe('matchesGlobList', () => {
+    it('should let the last matching entry win', () => {
+      const patterns = ['packages/*', '!packages/legacy', 'packages/legacy-*'];
+
+      expect(matchesGlobList('packages/web', patterns)).toBe(true);
+      expect(matchesGlobList('packages/legacy', patterns)).toBe(false);
+      expect(matchesGlobList('packages/legacy-api', patterns)).toBe(true);
+      expect(matchesGlobList('apps/web', patterns)).toBe(false);
+    });
+  });
+});
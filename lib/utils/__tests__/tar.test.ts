@@ -0,0 +1,129 @@
+/**
+ * Tests for the Tar Reader
+ * Run with: npm test tar
+ */
+
+import { Readable } from 'stream';
+import { gzipSync } from 'zlib';
+import { extractTarGz } from '../tar';
+
+interface TestEntry {
+  name: string;
+  content?: string;
+  type?: string; // '0' file, '5' directory, '2' symlink, 'x' pax, 'L' GNU long name
+  prefix?: string; // ustar prefix field
+  base256Size?: boolean;
+}
+
+function header(entry: TestEntry, size: number): Buffer {
+  const block = Buffer.alloc(512);
+  block.write(entry.name.slice(0, 100), 0);
+  block.write('0000644\0', 100);
+  if (entry.base256Size) {
+    block[124] = 0x80;
+    block.writeUInt32BE(size, 132);
+  } else {
+    block.write(`${size.toString(8).padStart(11, '0')}\0`, 124);
+  }
+  block.write(entry.type || '0', 156);
+  block.write('ustar\0', 257);
+  block.write('00', 263);
+  if (entry.prefix) block.write(entry.prefix, 345);
+  return block;
+}
+
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  let length = body.length + 1;
+  while (`${length}${body}`.length !== length) length++;
+  return `${length}${body}`;
+}
+
+/**
+ * A gzipped tar of the entries, streamed in small chunks so headers and data
+ * straddle chunk boundaries
+ */
+function archive(entries: TestEntry[]): Readable {
+  const blocks = entries.flatMap((entry) => {
+    const data = Buffer.from(entry.content || '');
+    const padding = Buffer.alloc((512 - (data.length % 512)) % 512);
+    return [header(entry, data.length), data, padding];
+  });
+  const gzipped = gzipSync(Buffer.concat([...blocks, Buffer.alloc(1024)]));
+  const chunks: Buffer[] = [];
+  for (let i = 0; i < gzipped.length; i += 7) chunks.push(gzipped.subarray(i, i + 7));
+  return Readable.from(chunks);
+}
+
+describe('Tar Reader', () => {
+  describe('extractTarGz', () => {
+    it('should return regular files and strip leading path segments', async () => {
+      const files = await extractTarGz(
+        archive([
+          { name: 'acme-widget-abc123/', type: '5' },
+          { name: 'acme-widget-abc123/package.json', content: '{"name":"widget"}' },
+          { name: 'acme-widget-abc123/src/index.ts', content: 'export {};\n'.repeat(100) },
+          { name: 'acme-widget-abc123/link', type: '2' },
+        ]),
+        { stripComponents: 1 }
+      );
+
+      expect(Array.from(files.keys())).toEqual(['package.json', 'src/index.ts']);
+      expect(files.get('package.json')).toBe('{"name":"widget"}');
+      expect(files.get('src/index.ts')).toBe('export {};\n'.repeat(100));
+    });
+
+    it('should keep only the files the filter accepts, passing their size', async () => {
+      const seen: [string, number][] = [];
+      const files = await extractTarGz(
+        archive([
+          { name: 'README.md', content: '# Widget' },
+          { name: 'assets/logo.svg', content: '<svg/>' },
+        ]),
+        {
+          filter: (path, size) => {
+            seen.push([path, size]);
+            return path.endsWith('.md');
+          },
+        }
+      );
+
+      expect(seen).toEqual([['README.md', 8], ['assets/logo.svg', 6]]);
+      expect(Array.from(files.keys())).toEqual(['README.md']);
+    });
+
+    it('should join the ustar prefix and read base-256 sizes', async () => {
+      const files = await extractTarGz(
+        archive([{ name: 'deep.ts', prefix: 'very/long/directory', content: 'deep', base256Size: true }])
+      );
+
+      expect(files.get('very/long/directory/deep.ts')).toBe('deep');
+    });
+
+    it('should apply pax and GNU long names to the next entry only', async () => {
+      const longPath = `${'nested/'.repeat(20)}file.ts`;
+      const files = await extractTarGz(
+        archive([
+          { name: 'PaxHeader', type: 'x', content: paxRecord('path', longPath) },
+          { name: 'truncated-name', content: 'from pax' },
+          { name: '././@LongLink', type: 'L', content: `${longPath}.gnu\0` },
+          { name: 'truncated-name-2', content: 'from gnu' },
+          { name: 'short.ts', content: 'short' },
+        ])
+      );
+
+      expect(files.get(longPath)).toBe('from pax');
+      expect(files.get(`${longPath}.gnu`)).toBe('from gnu');
+      expect(files.get('short.ts')).toBe('short');
+      expect(files.size).toBe(3);
+    });
+
+    it('should return nothing for an empty archive', async () => {
+      expect((await extractTarGz(archive([]))).size).toBe(0);
+    });
+
+    it('should reject data that is not gzipped', async () => {
+      await expect(extractTarGz(Readable.from([Buffer.from('not a tarball')]))).rejects.toThrow();
+    });
+  });
+});
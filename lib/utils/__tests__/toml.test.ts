@@ -0,0 +1,131 @@
+/**
+ * Tests for the TOML Parser
+ * Run with: npm test toml
+ */
+
+import { parseToml } from '../toml';
+
+describe('TOML Parser', () => {
+  describe('parseToml', () => {
+    it('should read tables, arrays of tables and dotted keys', () => {
+      const doc = parseToml(`
+[project]
+name = "sample"
+urls.homepage = "https://example.com"
+
+[[bin]]
+name = "first"
+
+[[bin]]
+name = "second"
+
+[tool.poetry.dependencies]
+python = "^3.11"
+`);
+
+      expect(doc.project).toEqual({ name: 'sample', urls: { homepage: 'https://example.com' } });
+      expect(doc.bin).toEqual([{ name: 'first' }, { name: 'second' }]);
+      expect(doc.tool).toEqual({ poetry: { dependencies: { python: '^3.11' } } });
+    });
+
+    it('should add subtables to the last element of an array of tables', () => {
+      const doc = parseToml(`
+[[package]]
+name = "a"
+
+[[package]]
+name = "b"
+
+[package.source]
+registry = "crates-io"
+`);
+
+      expect(doc.package).toEqual([{ name: 'a' }, { name: 'b', source: { registry: 'crates-io' } }]);
+    });
+
+    it('should read every string form', () => {
+      const doc = parseToml([
+        'basic = "tab\\tquote\\" \\u00e9"',
+        "literal = 'C:\\Users\\sample'",
+        'multi = """',
+        'first',
+        'second"""',
+        'folded = """one \\',
+        '    two"""',
+        "raw = '''",
+        "keep \\n as is'''",
+        'quotes = """ends with ""quotes"""""',
+      ].join('\n'));
+
+      expect(doc.basic).toBe('tab\tquote" é');
+      expect(doc.literal).toBe('C:\\Users\\sample');
+      expect(doc.multi).toBe('first\nsecond');
+      expect(doc.folded).toBe('one two');
+      expect(doc.raw).toBe('keep \\n as is');
+      expect(doc.quotes).toBe('ends with ""quotes""');
+    });
+
+    it('should read numbers, booleans and dates', () => {
+      const doc = parseToml([
+        'int = +1_000',
+        'hex = 0xff',
+        'oct = 0o17',
+        'bin = 0b101',
+        'float = -3.5e2',
+        'infinity = -inf',
+        'flag = false',
+        'released = 1979-05-27T07:32:00Z',
+        'local = 1979-05-27 07:32:00',
+      ].join('\n'));
+
+      expect(doc).toEqual({
+        int: 1000,
+        hex: 255,
+        oct: 15,
+        bin: 5,
+        float: -350,
+        infinity: -Infinity,
+        flag: false,
+        released: '1979-05-27T07:32:00Z',
+        local: '1979-05-27 07:32:00',
+      });
+    });
+
+    it('should read multi-line arrays with comments and inline tables', () => {
+      const doc = parseToml(`
+dependencies = [
+  "requests>=2.31", # HTTP
+  "pydantic",
+]
+serde = { version = "1.0", features = ["derive"] }
+empty = {}
+`);
+
+      expect(doc.dependencies).toEqual(['requests>=2.31', 'pydantic']);
+      expect(doc.serde).toEqual({ version: '1.0', features: ['derive'] });
+      expect(doc.empty).toEqual({});
+    });
+
+    it('should keep keys like __proto__ as plain data', () => {
+      const doc = parseToml('"constructor" = 1\n[__proto__]\npolluted = true');
+
+      expect(Object.keys(doc)).toEqual(['constructor', '__proto__']);
+      expect(Object.getPrototypeOf(doc)).toBe(Object.prototype);
+      expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+    });
+
+    it('should ignore a byte order mark and CRLF line endings', () => {
+      expect(parseToml('\uFEFFname = "a"\r\nversion = "1"\r\n')).toEqual({ name: 'a', version: '1' });
+    });
+
+    it('should report invalid documents with their line number', () => {
+      expect(() => parseToml('a = 1\na = 2')).toThrow('Invalid TOML (line 2): duplicate key');
+      expect(() => parseToml('name = "unterminated\n')).toThrow('unterminated string');
+      expect(() => parseToml('a = 1\n[a.b]')).toThrow("'a' is not a table");
+      expect(() => parseToml('[t]\n[[t]]')).toThrow('is not an array of tables');
+      expect(() => parseToml('a = 1 b = 2')).toThrow('expected a new line');
+      expect(() => parseToml('a = "\\q"')).toThrow('invalid escape');
+      expect(() => parseToml('a = [1 2]')).toThrow("expected ',' or ']'");
+    });
+  });
+});
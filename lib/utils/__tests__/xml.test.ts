@@ -0,0 +1,71 @@
+/**
+ * Tests for the XML Reader
+ * Run with: npm test xml
+ */
+
+import { childElements, childText, parseXml } from '../xml';
+
+describe('XML Reader', () => {
+  describe('parseXml', () => {
+    it('should read a pom.xml with namespaces, comments and a declaration', () => {
+      const root = parseXml(`<?xml version="1.0" encoding="UTF-8"?>
+<!-- generated -->
+<project xmlns="http://maven.apache.org/POM/4.0.0" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <artifactId>sample</artifactId>
+  <dependencies>
+    <dependency><groupId>org.postgresql</groupId><artifactId>postgresql</artifactId></dependency>
+    <dependency><groupId>junit</groupId><artifactId>junit</artifactId><scope>test</scope></dependency>
+  </dependencies>
+</project>`);
+
+      expect(root.name).toBe('project');
+      expect(root.attributes.xsi).toBe('http://www.w3.org/2001/XMLSchema-instance');
+      expect(childText(root, 'artifactId')).toBe('sample');
+      expect(childElements(childElements(root, 'dependencies')[0], 'dependency').map((dep) => childText(dep, 'artifactId'))).toEqual([
+        'postgresql',
+        'junit',
+      ]);
+    });
+
+    it('should drop namespace prefixes from element and attribute names', () => {
+      const root = parseXml('<m:root m:id="1"><m:child/></m:root>');
+
+      expect(root.name).toBe('root');
+      expect(root.attributes).toEqual({ id: '1' });
+      expect(root.children.map((child) => child.name)).toEqual(['child']);
+    });
+
+    it('should decode entities and keep CDATA as written', () => {
+      const root = parseXml(`<a title='x &amp; y'>&lt;b&gt; &#65;&#x42; &unknown;<![CDATA[<raw & text>]]></a>`);
+
+      expect(root.attributes.title).toBe('x & y');
+      expect(root.text).toBe('<b> AB &unknown;<raw & text>');
+    });
+
+    it('should skip a DOCTYPE with an internal subset', () => {
+      const root = parseXml('<!DOCTYPE note [<!ENTITY x "y">]><note>text</note>');
+
+      expect(root.name).toBe('note');
+      expect(root.text).toBe('text');
+    });
+
+    it('should reject documents that are not well-formed', () => {
+      expect(() => parseXml('<a><b></a>')).toThrow('unexpected </a>');
+      expect(() => parseXml('<a>')).toThrow('unclosed <a>');
+      expect(() => parseXml('</a>')).toThrow('unexpected </a>');
+      expect(() => parseXml('<a attr=unquoted></a>')).toThrow('malformed tag');
+      expect(() => parseXml('<!-- only a comment')).toThrow("missing '-->'");
+      expect(() => parseXml('just text')).toThrow('no root element');
+    });
+  });
+
+  describe('childText', () => {
+    it('should return null for a missing element or parent', () => {
+      const root = parseXml('<project><version> 1.0 </version></project>');
+
+      expect(childText(root, 'version')).toBe('1.0');
+      expect(childText(root, 'name')).toBeNull();
+      expect(childText(undefined, 'name')).toBeNull();
+    });
+  });
+});
@@ -21,6 +21,27 @@ export class GitHubAPIError extends AppError {
   }
 }
 
+export class GitLabAPIError extends AppError {
+  constructor(message: string, statusCode: number, details?: unknown) {
+    super(message, 'GITLAB_API_ERROR', statusCode, details);
+    this.name = 'GitLabAPIError';
+  }
+}
+
+export class BitbucketAPIError extends AppError {
+  constructor(message: string, statusCode: number, details?: unknown) {
+    super(message, 'BITBUCKET_API_ERROR', statusCode, details);
+    this.name = 'BitbucketAPIError';
+  }
+}
+
+export class LocalRepositoryError extends AppError {
+  constructor(message: string, statusCode: number, details?: unknown) {
+    super(message, 'LOCAL_REPOSITORY_ERROR', statusCode, details);
+    this.name = 'LocalRepositoryError';
+  }
+}
+
 export class GeminiAPIError extends AppError {
   constructor(message: string, details?: any) {
     super(message, 'GEMINI_API_ERROR', 500, details);
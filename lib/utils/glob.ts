@@ -0,0 +1,138 @@
+/**
+ * Glob matching for repository-relative paths
+ * Supports `*`, `**`, `?`, `[abc]` and `{a,b}`; paths always use '/'
+ */
+
+// Compiled patterns, least recently used first; patterns come from every
+// analyzed repository's config, so the cache is capped
+const patternCache = new Map<string, RegExp>();
+const MAX_CACHED_PATTERNS = 500;
+
+/**
+ * Normalize a pattern or path: drop a leading `./` or `/` and trailing slashes
+ */
+export function normalizeGlobPath(value: string): string {
+  return value.trim().replace(/^\.\//, '').replace(/^\/+/, '').replace(/\/+$/, '');
+}
+
+/**
+ * Positions of the braces that pair up; an unclosed `{` or a stray `}` is
+ * matched literally
+ */
+function findBracePairs(pattern: string): Set<number> {
+  const open: number[] = [];
+  const paired = new Set<number>();
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '{') {
+      open.push(i);
+    } else if (pattern[i] === '}' && open.length > 0) {
+      paired.add(open.pop()!);
+      paired.add(i);
+    }
+  }
+  return paired;
+}
+
+/**
+ * Read the character class opening at `start`; `[!abc]` negates like `[^abc]`
+ * @returns null for an unclosed or invalid class (e.g. the range `z-a`),
+ * whose `[` is then matched literally
+ */
+export function readCharacterClass(pattern: string, start: number): { source: string; end: number } | null {
+  const end = pattern.indexOf(']', start + 2);
+  if (end === -1) {
+    return null;
+  }
+
+  const source = `[${pattern.slice(start + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+  try {
+    new RegExp(source);
+    return { source, end };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compile a glob to an anchored regular expression
+ * `**` matches any number of path segments (including none), `*` and `?`
+ * never cross a '/'
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const normalized = normalizeGlobPath(pattern);
+  const cached = patternCache.get(normalized);
+  if (cached) {
+    patternCache.delete(normalized);
+    patternCache.set(normalized, cached);
+    return cached;
+  }
+
+  let source = '';
+  let braceDepth = 0;
+  const bracePairs = findBracePairs(normalized);
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    const characterClass = char === '[' ? readCharacterClass(normalized, i) : null;
+
+    if (char === '*') {
+      if (normalized[i + 1] === '*') {
+        // `**/` matches zero or more whole segments; a trailing `**` matches the rest
+        if (normalized[i + 2] === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (characterClass) {
+      source += characterClass.source;
+      i = characterClass.end;
+    } else if (char === '{' && bracePairs.has(i)) {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && bracePairs.has(i)) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(`^${source}$`);
+  patternCache.set(normalized, regex);
+  // Maps iterate in insertion order, so the first key is the least recent
+  if (patternCache.size > MAX_CACHED_PATTERNS) {
+    patternCache.delete(patternCache.keys().next().value as string);
+  }
+  return regex;
+}
+
+/**
+ * Whether a path matches a glob
+ */
+export function matchesGlob(filePath: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(normalizeGlobPath(filePath));
+}
+
+/**
+ * Whether a path matches a list of globs, where `!pattern` entries exclude
+ * paths; the last matching entry wins
+ */
+export function matchesGlobList(filePath: string, patterns: string[]): boolean {
+  let matched = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!');
+    if (matchesGlob(filePath, negated ? pattern.slice(1) : pattern)) {
+      matched = !negated;
+    }
+  }
+  return matched;
+}
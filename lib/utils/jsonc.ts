@@ -0,0 +1,39 @@
+/**
+ * JSON with comments, as used by devcontainer.json and tsconfig.json
+ * Line and block comments and trailing commas are removed before JSON.parse
+ */
+
+/**
+ * Parse a JSONC document
+ * @throws Error when the document is not valid once comments are removed
+ */
+export function parseJsonc(content: string): unknown {
+  let output = '';
+  let pos = 0;
+
+  while (pos < content.length) {
+    const char = content[pos];
+
+    if (char === '"') {
+      // Copy strings verbatim so "//" inside them survives
+      let end = pos + 1;
+      while (end < content.length && content[end] !== '"') {
+        end += content[end] === '\\' ? 2 : 1;
+      }
+      output += content.slice(pos, end + 1);
+      pos = end + 1;
+    } else if (content.startsWith('//', pos)) {
+      const end = content.indexOf('\n', pos);
+      pos = end === -1 ? content.length : end;
+    } else if (content.startsWith('/*', pos)) {
+      const end = content.indexOf('*/', pos + 2);
+      if (end === -1) throw new Error('Invalid JSONC: unterminated comment');
+      pos = end + 2;
+    } else {
+      output += char;
+      pos++;
+    }
+  }
+
+  return JSON.parse(output.replace(/,(\s*[}\]])/g, '$1'));
+}
@@ -1,3 +1,64 @@
+import type { ProviderName } from '../types';
+import { GITHUB_DOTCOM, findGitHubHost } from '../github/hosts';
+
+/**
+ * Short, stable hash of a workspace package selection (FNV-1a).
+ * Runs in the browser too, so no node:crypto.
+ */
+function hashPackageSelection(packages: string[]): string {
+  let hash = 0x811c9dc5;
+  for (const char of [...packages].sort().join('\n')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
+
+/**
+ * Build the repoId used as the Firestore document key for an analysis.
+ * A non-default ref gets its own document (`owner-repo@ref`); slashes in
+ * refs become `~`, which git does not allow in ref names.
+ * Repos not on github.com are prefixed with the provider or, for GitHub
+ * Enterprise, the host (`gitlab:owner-repo`, `github.acme.com:owner-repo`),
+ * and nested GitLab namespaces use `~` as well.
+ * A roadmap limited to some workspace packages gets a `^hash` suffix of the
+ * selection selectWorkspacePackages kept
+ * (`^` is not allowed in ref names either).
+ */
+export function buildRepoId(
+  owner: string,
+  repo: string,
+  ref?: string | null,
+  source: { provider: ProviderName; host: string } = { provider: 'github', host: GITHUB_DOTCOM.host },
+  packages?: string[] | null
+): string {
+  const prefix = source.provider !== 'github'
+    ? `${source.provider}:`
+    : source.host !== GITHUB_DOTCOM.host ? `${source.host}:` : '';
+  const base = `${prefix}${owner.replace(/\//g, '~')}-${repo}`;
+  const withRef = ref ? `${base}@${ref.replace(/\//g, '~')}` : base;
+  return packages && packages.length > 0 ? `${withRef}^${hashPackageSelection(packages)}` : withRef;
+}
+
+/**
+ * Split the provider or enterprise host prefix off a repoId, dropping any
+ * package selection suffix.
+ * Hosts may carry a port, so the prefix ends at the LAST ':'
+ * (owners, repo names and refs never contain one).
+ */
+function splitSource(repoId: string): { provider: ProviderName; host: string; rest: string } {
+  repoId = repoId.split("^")[0];
+  const colonIdx = repoId.lastIndexOf(":");
+  if (colonIdx < 0) {
+    return { provider: "github", host: GITHUB_DOTCOM.host, rest: repoId };
+  }
+  const prefix = repoId.slice(0, colonIdx);
+  const rest = repoId.slice(colonIdx + 1);
+  if (prefix === "gitlab") return { provider: "gitlab", host: "gitlab.com", rest };
+  if (prefix === "bitbucket") return { provider: "bitbucket", host: "bitbucket.org", rest };
+  return { provider: "github", host: prefix, rest };
+}
+
 /**
  * Convert a stored repoId (owner-repo) back into a display name.
  * The dashboard creates repoIds with `owner-repo` (single hyphen split),
@@ -5,10 +66,13 @@
  */
 export function repoIdToDisplayName(repoId: string | undefined | null): string {
   if (!repoId) return "repository";
+  repoId = splitSource(repoId).rest;
   // First try splitting on first '-'
   const dashIdx = repoId.indexOf("-");
   if (dashIdx > 0) {
-    return `${repoId.slice(0, dashIdx)}/${repoId.slice(dashIdx + 1)}`;
+    const name = `${repoId.slice(0, dashIdx).replace(/~/g, "/")}/${repoId.slice(dashIdx + 1)}`;
+    const atIdx = name.indexOf("@");
+    return atIdx > 0 ? `${name.slice(0, atIdx)}@${name.slice(atIdx + 1).replace(/~/g, "/")}` : name;
   }
   // Legacy underscore
   if (repoId.includes("_")) {
@@ -20,20 +84,35 @@ export function repoIdToDisplayName(repoId: string | undefined | null): string {
 
 export function repoIdToOwnerAvatar(repoId: string | undefined | null): string | null {
   if (!repoId) return null;
-  const dashIdx = repoId.indexOf("-");
-  const owner = dashIdx > 0 ? repoId.slice(0, dashIdx) : repoId;
+  // Only GitHub (and GitHub Enterprise) serves avatars by owner name
+  const source = splitSource(repoId);
+  const githubHost = source.provider === "github" ? findGitHubHost(source.host) : null;
+  if (!githubHost) return null;
+  const dashIdx = source.rest.indexOf("-");
+  const owner = dashIdx > 0 ? source.rest.slice(0, dashIdx) : source.rest;
   if (!owner) return null;
-  return `https://github.com/${owner}.png?size=80`;
+  return `${githubHost.webUrl}/${owner}.png?size=80`;
 }
 
 /** Returns "owner/repo" suitable for linking to https://github.com/owner/repo */
 export function repoIdToOwnerRepo(repoId: string | undefined | null): string | null {
   if (!repoId) return null;
+  // Drop the ref suffix added by buildRepoId
+  repoId = splitSource(repoId.split("@")[0]).rest;
   const dashIdx = repoId.indexOf("-");
-  if (dashIdx > 0) return `${repoId.slice(0, dashIdx)}/${repoId.slice(dashIdx + 1)}`;
+  if (dashIdx > 0) return `${repoId.slice(0, dashIdx).replace(/~/g, "/")}/${repoId.slice(dashIdx + 1)}`;
   if (repoId.includes("_")) {
     const parts = repoId.split("_");
     return parts.slice(1).join("/") || null;
   }
   return null;
 }
+
+/** Returns the web URL of the repository a repoId was built from */
+export function repoIdToRepoUrl(repoId: string | undefined | null): string | null {
+  const ownerRepo = repoIdToOwnerRepo(repoId);
+  if (!repoId || !ownerRepo) return null;
+  const { provider, host } = splitSource(repoId);
+  const webUrl = provider === "github" ? findGitHubHost(host)?.webUrl : undefined;
+  return `${webUrl || `https://${host}`}/${ownerRepo}`;
+}
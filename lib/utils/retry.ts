@@ -54,12 +54,18 @@ export async function withTimeout<T>(
   timeoutMs: number,
   errorMessage: string
 ): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise<T>((_, reject) =>
-      setTimeout(() => reject(new Error(errorMessage)), timeoutMs)
-    ),
-  ]);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<T>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(errorMessage)), timeoutMs);
+      }),
+    ]);
+  } finally {
+    // A pending timer would keep a CLI process alive until it fires
+    clearTimeout(timer);
+  }
 }
 
 /**
@@ -81,3 +87,32 @@ export async function continueOnError<T>(
     return fallback;
   }
 }
+
+/**
+ * Maps over items with at most `concurrency` calls in flight at once
+ * @param items - Items to process
+ * @param concurrency - Maximum number of concurrent calls
+ * @param fn - Async mapper
+ * @returns Results in the same order as the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const workers = Array.from(
+    { length: Math.max(1, Math.min(concurrency, items.length)) },
+    async () => {
+      while (nextIndex < items.length) {
+        const index = nextIndex++;
+        results[index] = await fn(items[index], index);
+      }
+    }
+  );
+
+  await Promise.all(workers);
+  return results;
+}
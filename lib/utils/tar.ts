@@ -0,0 +1,164 @@
+/**
+ * Minimal streaming reader for gzipped tar archives
+ * Supports ustar, pax extended headers and GNU long names, which covers
+ * the archives GitHub and `git archive` produce
+ */
+
+import { Readable } from 'stream';
+import { createGunzip } from 'zlib';
+
+const BLOCK_SIZE = 512;
+
+export interface TarExtractOptions {
+  stripComponents?: number; // Leading path segments to drop (GitHub adds `owner-repo-sha/`)
+  filter?: (path: string, size: number) => boolean; // Which regular files to keep
+}
+
+interface TarEntry {
+  path: string;
+  type: string;
+  size: number;
+  remaining: number;
+  padding: number;
+  keep: boolean;
+  chunks: Buffer[];
+}
+
+/**
+ * Read a NUL-terminated string field from a header block
+ */
+function readString(header: Buffer, offset: number, length: number): string {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? field.length : end).toString('utf-8');
+}
+
+/**
+ * Read a numeric field: octal text, or base-256 when the high bit is set
+ */
+function readNumber(header: Buffer, offset: number, length: number): number {
+  if (header[offset] & 0x80) {
+    let value = 0;
+    for (let i = offset + 1; i < offset + length; i++) {
+      value = value * 256 + header[i];
+    }
+    return value;
+  }
+  return parseInt(readString(header, offset, length).trim() || '0', 8);
+}
+
+/**
+ * Parse pax extended header records (`<len> <key>=<value>\n`)
+ */
+function parsePaxRecords(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString('utf-8'), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString('utf-8');
+    const equals = record.indexOf('=');
+    if (equals > 0) {
+      records[record.slice(0, equals)] = record.slice(equals + 1);
+    }
+    offset += length;
+  }
+
+  return records;
+}
+
+/**
+ * Stream a .tar.gz and return the kept regular files as UTF-8 text, keyed by path
+ */
+export async function extractTarGz(
+  source: Readable,
+  options: TarExtractOptions = {}
+): Promise<Map<string, string>> {
+  const stripComponents = options.stripComponents || 0;
+  const files = new Map<string, string>();
+
+  let buffer: Buffer = Buffer.alloc(0);
+  let entry: TarEntry | null = null;
+  let nextPath: string | null = null; // From a pax 'x' or GNU 'L' entry
+  let nextSize: number | null = null;
+
+  const finishEntry = (finished: TarEntry) => {
+    const data = Buffer.concat(finished.chunks);
+
+    if (finished.type === 'x') {
+      const records = parsePaxRecords(data);
+      nextPath = records.path ?? nextPath;
+      nextSize = records.size !== undefined ? Number(records.size) : nextSize;
+    } else if (finished.type === 'L') {
+      nextPath = readString(data, 0, data.length);
+    } else if (finished.keep) {
+      files.set(finished.path, data.toString('utf-8'));
+    }
+  };
+
+  for await (const chunk of source.pipe(createGunzip())) {
+    buffer = buffer.length > 0 ? Buffer.concat([buffer, chunk as Buffer]) : (chunk as Buffer);
+
+    while (true) {
+      if (entry) {
+        // Entry data, then padding up to the next block boundary
+        if (entry.remaining > 0) {
+          const take = Math.min(entry.remaining, buffer.length);
+          if (entry.keep || entry.type === 'x' || entry.type === 'L') {
+            entry.chunks.push(buffer.subarray(0, take));
+          }
+          entry.remaining -= take;
+          buffer = buffer.subarray(take);
+          if (entry.remaining > 0) break;
+        }
+        if (buffer.length < entry.padding) break;
+        buffer = buffer.subarray(entry.padding);
+        finishEntry(entry);
+        entry = null;
+        continue;
+      }
+
+      if (buffer.length < BLOCK_SIZE) break;
+      const header = buffer.subarray(0, BLOCK_SIZE);
+      buffer = buffer.subarray(BLOCK_SIZE);
+
+      // Two zero blocks mark the end; skipping each one is equivalent
+      if (header.every((byte) => byte === 0)) continue;
+
+      const type = String.fromCharCode(header[156] || 0x30);
+      let size = readNumber(header, 124, 12);
+      let rawPath = readString(header, 0, 100);
+      if (readString(header, 257, 6).startsWith('ustar')) {
+        const prefix = readString(header, 345, 155);
+        if (prefix) rawPath = `${prefix}/${rawPath}`;
+      }
+
+      const isMeta = type === 'x' || type === 'g' || type === 'L';
+      if (!isMeta) {
+        rawPath = nextPath ?? rawPath;
+        size = nextSize ?? size;
+        nextPath = null;
+        nextSize = null;
+      }
+
+      const filePath = rawPath.split('/').slice(stripComponents).join('/');
+      const isFile = type === '0' || type === '7';
+      const keep = isFile && filePath !== '' && (!options.filter || options.filter(filePath, size));
+
+      entry = {
+        path: filePath,
+        type,
+        size,
+        remaining: size,
+        padding: (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE,
+        keep,
+        chunks: [],
+      };
+    }
+  }
+
+  return files;
+}
@@ -0,0 +1,339 @@
+/**
+ * TOML parser for dependency manifests
+ * Covers what pyproject.toml and Cargo.toml use: tables, arrays of tables,
+ * dotted and quoted keys, all string forms, numbers, booleans, arrays and
+ * inline tables. Dates and times are kept as strings.
+ */
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+
+const ESCAPES: Record<string, string> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  e: '\x1b',
+  '"': '"',
+  '\\': '\\',
+};
+
+function isTable(value: TomlValue | undefined): value is TomlTable {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Own properties only, so keys like `constructor` or `__proto__` stay plain data
+function getOwn(table: TomlTable, key: string): TomlValue | undefined {
+  return Object.prototype.hasOwnProperty.call(table, key) ? table[key] : undefined;
+}
+
+function setOwn(table: TomlTable, key: string, value: TomlValue): void {
+  Object.defineProperty(table, key, { value, enumerable: true, writable: true, configurable: true });
+}
+
+class TomlParser {
+  private pos = 0;
+
+  constructor(private readonly input: string) {}
+
+  parse(): TomlTable {
+    const root: TomlTable = {};
+    let current = root;
+
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.pos >= this.input.length) {
+        return root;
+      }
+
+      if (this.input.startsWith('[[', this.pos)) {
+        this.pos += 2;
+        const path = this.parseKey();
+        this.expect(']]');
+        current = this.appendTable(root, path);
+      } else if (this.input[this.pos] === '[') {
+        this.pos += 1;
+        const path = this.parseKey();
+        this.expect(']');
+        current = this.resolveTable(root, path);
+      } else {
+        this.parseKeyValue(current);
+      }
+
+      this.expectLineEnd();
+    }
+  }
+
+  private fail(message: string): never {
+    const line = this.input.slice(0, this.pos).split('\n').length;
+    throw new Error(`Invalid TOML (line ${line}): ${message}`);
+  }
+
+  private expect(token: string): void {
+    this.skipInlineWhitespace();
+    if (!this.input.startsWith(token, this.pos)) {
+      this.fail(`expected '${token}'`);
+    }
+    this.pos += token.length;
+  }
+
+  private skipInlineWhitespace(): void {
+    while (this.input[this.pos] === ' ' || this.input[this.pos] === '\t') {
+      this.pos++;
+    }
+  }
+
+  private skipComment(): void {
+    if (this.input[this.pos] === '#') {
+      while (this.pos < this.input.length && this.input[this.pos] !== '\n') {
+        this.pos++;
+      }
+    }
+  }
+
+  private skipWhitespaceAndComments(newlines: boolean): void {
+    for (;;) {
+      this.skipInlineWhitespace();
+      this.skipComment();
+      const char = this.input[this.pos];
+      if (newlines && (char === '\n' || char === '\r')) {
+        this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipInlineWhitespace();
+    this.skipComment();
+    if (this.input[this.pos] === '\r') this.pos++;
+    if (this.pos < this.input.length && this.input[this.pos] !== '\n') {
+      this.fail('expected a new line');
+    }
+  }
+
+  /**
+   * A dotted key of bare and quoted parts
+   */
+  private parseKey(): string[] {
+    const parts: string[] = [];
+    for (;;) {
+      this.skipInlineWhitespace();
+      const char = this.input[this.pos];
+      if (char === '"') {
+        parts.push(this.parseBasicString());
+      } else if (char === "'") {
+        parts.push(this.parseLiteralString());
+      } else {
+        const start = this.pos;
+        while (this.pos < this.input.length && BARE_KEY.test(this.input[this.pos])) {
+          this.pos++;
+        }
+        if (start === this.pos) this.fail('expected a key');
+        parts.push(this.input.slice(start, this.pos));
+      }
+
+      this.skipInlineWhitespace();
+      if (this.input[this.pos] !== '.') {
+        return parts;
+      }
+      this.pos++;
+    }
+  }
+
+  private parseKeyValue(target: TomlTable): void {
+    const path = this.parseKey();
+    this.expect('=');
+    this.skipInlineWhitespace();
+    const value = this.parseValue();
+
+    const table = this.resolveTable(target, path.slice(0, -1));
+    const key = path[path.length - 1];
+    if (getOwn(table, key) !== undefined) {
+      this.fail(`duplicate key '${path.join('.')}'`);
+    }
+    setOwn(table, key, value);
+  }
+
+  /**
+   * Walk (and create) nested tables; through an array of tables, the last
+   * element is used
+   */
+  private resolveTable(root: TomlTable, path: string[]): TomlTable {
+    let table = root;
+    for (const key of path) {
+      const existing = getOwn(table, key);
+      if (existing === undefined) {
+        const created: TomlTable = {};
+        setOwn(table, key, created);
+        table = created;
+      } else if (isTable(existing)) {
+        table = existing;
+      } else if (Array.isArray(existing) && isTable(existing[existing.length - 1])) {
+        table = existing[existing.length - 1] as TomlTable;
+      } else {
+        this.fail(`'${key}' is not a table`);
+      }
+    }
+    return table;
+  }
+
+  private appendTable(root: TomlTable, path: string[]): TomlTable {
+    const parent = this.resolveTable(root, path.slice(0, -1));
+    const key = path[path.length - 1];
+    const existing = getOwn(parent, key) ?? [];
+    if (!Array.isArray(existing)) {
+      this.fail(`'${path.join('.')}' is not an array of tables`);
+    }
+    const table: TomlTable = {};
+    existing.push(table);
+    setOwn(parent, key, existing);
+    return table;
+  }
+
+  private parseValue(): TomlValue {
+    const char = this.input[this.pos];
+
+    if (this.input.startsWith('"""', this.pos)) return this.parseMultilineString('"""');
+    if (this.input.startsWith("'''", this.pos)) return this.parseMultilineString("'''");
+    if (char === '"') return this.parseBasicString();
+    if (char === "'") return this.parseLiteralString();
+    if (char === '[') return this.parseArray();
+    if (char === '{') return this.parseInlineTable();
+
+    // Booleans, numbers and dates: read up to the next delimiter
+    const match = this.input.slice(this.pos).match(/^[^\s,\]}#]+(?: \d{2}:\d{2}[^\s,\]}#]*)?/);
+    if (!match) this.fail('expected a value');
+    const token = match[0];
+    this.pos += token.length;
+
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (/^[+-]?(inf|nan)$/.test(token)) return token.endsWith('inf') ? (token.startsWith('-') ? -Infinity : Infinity) : NaN;
+    if (/^0x[0-9a-fA-F_]+$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 16);
+    if (/^0o[0-7_]+$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 8);
+    if (/^0b[01_]+$/.test(token)) return parseInt(token.slice(2).replace(/_/g, ''), 2);
+    if (/^[+-]?\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d[\d_]*)?$/.test(token)) return Number(token.replace(/_/g, ''));
+    if (/^\d{4}-\d{2}-\d{2}|^\d{2}:\d{2}/.test(token)) return token;
+
+    return this.fail(`invalid value '${token}'`);
+  }
+
+  private parseBasicString(): string {
+    this.pos++; // Opening quote
+    let value = '';
+    for (;;) {
+      const char = this.input[this.pos];
+      if (char === undefined || char === '\n') this.fail('unterminated string');
+      this.pos++;
+      if (char === '"') return value;
+      value += char === '\\' ? this.parseEscape() : char;
+    }
+  }
+
+  private parseLiteralString(): string {
+    const end = this.input.indexOf("'", this.pos + 1);
+    const newline = this.input.indexOf('\n', this.pos + 1);
+    if (end === -1 || (newline !== -1 && newline < end)) this.fail('unterminated string');
+    const value = this.input.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return value;
+  }
+
+  private parseMultilineString(delimiter: '"""' | "'''"): string {
+    this.pos += 3;
+    // A newline right after the opening delimiter is trimmed
+    if (this.input[this.pos] === '\r') this.pos++;
+    if (this.input[this.pos] === '\n') this.pos++;
+
+    let value = '';
+    for (;;) {
+      if (this.pos >= this.input.length) this.fail('unterminated string');
+      if (this.input.startsWith(delimiter, this.pos)) {
+        // Up to two quotes may sit right before the closing delimiter
+        let end = this.pos + 3;
+        while (this.input[end] === delimiter[0] && end - this.pos < 5) end++;
+        value += this.input.slice(this.pos, end - 3);
+        this.pos = end;
+        return value;
+      }
+
+      const char = this.input[this.pos++];
+      if (char === '\\' && delimiter === '"""') {
+        // Line-ending backslash: skip the newline and leading whitespace
+        if (/^[ \t]*\r?\n/.test(this.input.slice(this.pos))) {
+          while (/\s/.test(this.input[this.pos] || '')) this.pos++;
+        } else {
+          value += this.parseEscape();
+        }
+      } else {
+        value += char;
+      }
+    }
+  }
+
+  private parseEscape(): string {
+    const char = this.input[this.pos++];
+    if (char in ESCAPES) return ESCAPES[char];
+    if (char === 'u' || char === 'U') {
+      const length = char === 'u' ? 4 : 8;
+      const hex = this.input.slice(this.pos, this.pos + length);
+      if (!/^[0-9a-fA-F]+$/.test(hex) || hex.length !== length) this.fail('invalid unicode escape');
+      this.pos += length;
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+    return this.fail(`invalid escape '\\${char}'`);
+  }
+
+  private parseArray(): TomlValue[] {
+    this.pos++; // [
+    const values: TomlValue[] = [];
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.input[this.pos] === ']') {
+        this.pos++;
+        return values;
+      }
+      values.push(this.parseValue());
+      this.skipWhitespaceAndComments(true);
+      if (this.input[this.pos] === ',') {
+        this.pos++;
+      } else if (this.input[this.pos] !== ']') {
+        this.fail("expected ',' or ']'");
+      }
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    this.pos++; // {
+    const table: TomlTable = {};
+    this.skipInlineWhitespace();
+    if (this.input[this.pos] === '}') {
+      this.pos++;
+      return table;
+    }
+    for (;;) {
+      this.parseKeyValue(table);
+      this.skipInlineWhitespace();
+      const char = this.input[this.pos++];
+      if (char === '}') return table;
+      if (char !== ',') this.fail("expected ',' or '}'");
+      this.skipInlineWhitespace();
+    }
+  }
+}
+
+/**
+ * Parse a TOML document
+ * @throws Error with the line number when the document is invalid
+ */
+export function parseToml(content: string): TomlTable {
+  return new TomlParser(content.replace(/^\uFEFF/, '')).parse();
+}
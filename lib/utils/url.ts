@@ -1,20 +1,41 @@
 /**
- * URL validation and parsing utilities for GitHub repositories
+ * URL validation and parsing utilities for hosted repositories
  */
 
+import type { ProviderName } from '../types';
+import { findGitHubHost } from '../github/hosts';
+
 export interface ParsedGitHubUrl {
   owner: string;
   repo: string;
   url: string;
+  host: string; // hostname[:port]: github.com or an allowlisted enterprise host
+}
+
+// Origin is checked against github.com and the enterprise allowlist
+const GITHUB_URL_PATTERN = /^(https?:\/\/[^\/]+)\/([^\/]+)\/([^\/]+?)(?:\.git)?$/;
+
+function matchGitHubUrl(url: string): ParsedGitHubUrl | null {
+  const match = url.match(GITHUB_URL_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  const host = findGitHubHost(match[1]);
+  if (!host || host.webUrl !== match[1]) {
+    return null;
+  }
+
+  return { owner: match[2], repo: match[3], url, host: host.host };
 }
 
 /**
  * Validates if a string is a valid GitHub repository URL
- * Pattern: https://github.com/{owner}/{repo}
+ * Pattern: https://github.com/{owner}/{repo}, or the same path on an
+ * enterprise host from NEXT_PUBLIC_GITHUB_ENTERPRISE_HOSTS
  */
 export function validateGitHubUrl(url: string): boolean {
-  const pattern = /^https:\/\/github\.com\/[^\/]+\/[^\/]+(\.git)?$/;
-  return pattern.test(url);
+  return matchGitHubUrl(url) !== null;
 }
 
 /**
@@ -22,20 +43,12 @@ export function validateGitHubUrl(url: string): boolean {
  * @throws Error if URL is invalid
  */
 export function parseGitHubUrl(url: string): ParsedGitHubUrl {
-  if (!validateGitHubUrl(url)) {
+  const parsed = matchGitHubUrl(url);
+  if (!parsed) {
     throw new Error('Invalid GitHub URL format. Expected: https://github.com/owner/repo');
   }
 
-  const parts = url.replace('https://github.com/', '').split('/');
-  const owner = parts[0];
-  let repo = parts[1];
-  
-  // Strip .git extension if present
-  if (repo.endsWith('.git')) {
-    repo = repo.slice(0, -4);
-  }
-
-  return { owner, repo, url };
+  return parsed;
 }
 
 /**
@@ -44,3 +57,45 @@ export function parseGitHubUrl(url: string): ParsedGitHubUrl {
 export function constructGitHubUrl(owner: string, repo: string): string {
   return `https://github.com/${owner}/${repo}`;
 }
+
+export interface ParsedRepositoryUrl extends ParsedGitHubUrl {
+  provider: ProviderName;
+}
+
+// GitLab namespaces may be nested (group/subgroup/project); `/-/` starts a UI route
+const REPOSITORY_URL_PATTERNS: { provider: ProviderName; host: string; pattern: RegExp }[] = [
+  { provider: 'gitlab', host: 'gitlab.com', pattern: /^https:\/\/gitlab\.com\/((?:(?!-\/)[^\/]+\/)+)([^\/]+?)(?:\.git)?$/ },
+  { provider: 'bitbucket', host: 'bitbucket.org', pattern: /^https:\/\/bitbucket\.org\/([^\/]+)\/([^\/]+?)(?:\.git)?$/ },
+];
+
+/**
+ * Validates if a string is a GitHub, GitLab or Bitbucket repository URL
+ * Patterns: https://github.com/{owner}/{repo} (or an allowlisted enterprise host),
+ * https://gitlab.com/{namespace}/{project},
+ * https://bitbucket.org/{workspace}/{repo}
+ */
+export function validateRepositoryUrl(url: string): boolean {
+  return validateGitHubUrl(url) || REPOSITORY_URL_PATTERNS.some(({ pattern }) => pattern.test(url));
+}
+
+/**
+ * Parses a repository URL into its provider, owner and repo name
+ * @throws Error if URL is invalid
+ */
+export function parseRepositoryUrl(url: string): ParsedRepositoryUrl {
+  const github = matchGitHubUrl(url);
+  if (github) {
+    return { ...github, provider: 'github' };
+  }
+
+  for (const { provider, host, pattern } of REPOSITORY_URL_PATTERNS) {
+    const match = url.match(pattern);
+    if (match) {
+      return { provider, owner: match[1].replace(/\/$/, ''), repo: match[2], url, host };
+    }
+  }
+
+  throw new Error(
+    'Invalid repository URL format. Expected: https://github.com/owner/repo, https://gitlab.com/group/project or https://bitbucket.org/workspace/repo'
+  );
+}
@@ -36,6 +36,33 @@ export function validateRepositorySize(sizeInKB: number): void {
   }
 }
 
+/**
+ * Validates a git branch, tag or commit SHA (subset of git check-ref-format)
+ */
+export function validateGitRef(ref: string): boolean {
+  if (!ref || ref.length > 255) return false;
+  if (ref.startsWith('/') || ref.endsWith('/') || ref.endsWith('.') || ref.endsWith('.lock')) {
+    return false;
+  }
+  if (ref.includes('..') || ref.includes('//') || ref.includes('@{')) return false;
+  return !/[\x00-\x20\x7f~^:?*[\\]/.test(ref);
+}
+
+/**
+ * Validates a workspace package selection: repo-relative directory paths
+ */
+export function validatePackagePaths(packages: unknown): packages is string[] {
+  if (!Array.isArray(packages) || packages.length > 50) return false;
+  return packages.every(
+    (path) =>
+      typeof path === 'string' &&
+      path.length > 0 &&
+      path.length <= 255 &&
+      !path.startsWith('/') &&
+      !path.split('/').some((segment) => segment === '' || segment === '.' || segment === '..')
+  );
+}
+
 /**
  * Validates that an object has all required fields
  */
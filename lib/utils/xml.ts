@@ -0,0 +1,127 @@
+/**
+ * Minimal XML element reader for build manifests like pom.xml
+ * Builds an element tree with attributes and text; comments, processing
+ * instructions and the DOCTYPE are skipped and namespace prefixes dropped
+ */
+
+export interface XmlElement {
+  name: string; // Local name, without a namespace prefix
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // Concatenated text and CDATA directly inside the element
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+    if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return ENTITIES[code] ?? entity;
+  });
+}
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+/**
+ * Parse an XML document and return its root element
+ * @throws Error when the document is not well-formed
+ */
+export function parseXml(content: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [], text: '' };
+  const stack: XmlElement[] = [document];
+  let pos = 0;
+
+  const skipPast = (token: string) => {
+    const end = content.indexOf(token, pos);
+    if (end === -1) throw new Error(`Invalid XML: missing '${token}'`);
+    const skipped = content.slice(pos, end);
+    pos = end + token.length;
+    return skipped;
+  };
+
+  while (pos < content.length) {
+    const open = content.indexOf('<', pos);
+    const current = stack[stack.length - 1];
+
+    if (open === -1) {
+      current.text += decodeEntities(content.slice(pos));
+      break;
+    }
+    current.text += decodeEntities(content.slice(pos, open));
+    pos = open;
+
+    if (content.startsWith('<!--', pos)) {
+      skipPast('-->');
+    } else if (content.startsWith('<![CDATA[', pos)) {
+      pos += '<![CDATA['.length;
+      current.text += skipPast(']]>');
+    } else if (content.startsWith('<?', pos)) {
+      skipPast('?>');
+    } else if (content.startsWith('<!', pos)) {
+      // DOCTYPE, possibly with an internal subset
+      const subset = content.indexOf('[', pos);
+      const end = content.indexOf('>', pos);
+      if (subset !== -1 && subset < end) {
+        pos = subset;
+        skipPast(']');
+      }
+      skipPast('>');
+    } else if (content.startsWith('</', pos)) {
+      pos += 2;
+      const name = localName(skipPast('>').trim());
+      const closed = stack.pop();
+      if (!closed || closed === document || closed.name !== name) {
+        throw new Error(`Invalid XML: unexpected </${name}>`);
+      }
+    } else {
+      pos += 1;
+      const tag = content.slice(pos).match(/^([^\s/>]+)((?:\s+[^\s=]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/);
+      if (!tag) throw new Error('Invalid XML: malformed tag');
+      pos += tag[0].length;
+
+      const attributes: Record<string, string> = {};
+      for (const attribute of tag[2].matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attributes[localName(attribute[1])] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+
+      const element: XmlElement = { name: localName(tag[1]), attributes, children: [], text: '' };
+      current.children.push(element);
+      if (!tag[3]) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Invalid XML: unclosed <${stack[stack.length - 1].name}>`);
+  }
+  const root = document.children[0];
+  if (!root) {
+    throw new Error('Invalid XML: no root element');
+  }
+  return root;
+}
+
+/**
+ * Child elements with a given name
+ */
+export function childElements(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element ? element.children.filter((child) => child.name === name) : [];
+}
+
+/**
+ * Trimmed text of the first child element with a given name
+ */
+export function childText(element: XmlElement | undefined, name: string): string | null {
+  const child = childElements(element, name)[0];
+  return child ? child.text.trim() : null;
+}
@@ -0,0 +1,148 @@
+#!/usr/bin/env node
+
+/**
+ * Refresh the bundled OSV advisory snapshot used by the offline vulnerability check
+ * Usage: node scripts/refresh-advisories.mjs [ecosystem/package ...]
+ *
+ * Queries osv.dev for the packages in scripts/advisory-packages.json, every
+ * package already in lib/data/osv-advisories.json and any given on the
+ * command line (e.g. npm/lodash, PyPI/requests), then rewrites the snapshot
+ * with the subset of each advisory the analyzer reads. Analysis itself never
+ * touches the network.
+ *
+ * The seed list holds widely used packages of each ecosystem the lockfile
+ * parsers support. OSV's per-ecosystem dumps would cover every package, but
+ * they hold tens of thousands of advisories and the snapshot is bundled into
+ * the server build; packages outside the list are simply not checked. Add a
+ * package to the list (or pass it here) to have it checked.
+ *
+ * Options:
+ *   --help       Show this help message
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const OSV_API = 'https://api.osv.dev/v1';
+const SCRIPTS_DIR = path.dirname(fileURLToPath(import.meta.url));
+const SNAPSHOT_PATH = path.join(SCRIPTS_DIR, '..', 'lib', 'data', 'osv-advisories.json');
+const SEED_PATH = path.join(SCRIPTS_DIR, 'advisory-packages.json');
+
+// querybatch accepts up to 1000 queries per request
+const BATCH_SIZE = 1000;
+
+async function osvRequest(endpoint, body) {
+  const response = await fetch(`${OSV_API}${endpoint}`, body
+    ? { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }
+    : undefined);
+  if (!response.ok) {
+    throw new Error(`${endpoint} failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Advisory ids affecting each package, following per-query page tokens
+ */
+async function queryAdvisoryIds(packages) {
+  const ids = new Set();
+
+  for (let i = 0; i < packages.length; i += BATCH_SIZE) {
+    let queries = packages.slice(i, i + BATCH_SIZE).map((pkg) => ({ package: pkg }));
+    while (queries.length > 0) {
+      const { results } = await osvRequest('/querybatch', { queries });
+      const nextQueries = [];
+      results.forEach((result, index) => {
+        for (const vuln of result.vulns || []) ids.add(vuln.id);
+        if (result.next_page_token) {
+          nextQueries.push({ ...queries[index], page_token: result.next_page_token });
+        }
+      });
+      queries = nextQueries;
+    }
+  }
+
+  return Array.from(ids).sort();
+}
+
+/**
+ * Keep the fields lib/analysis/vulnerabilities.ts reads
+ */
+function trimAdvisory(vuln) {
+  const references = vuln.references || [];
+  const advisory = references.find((reference) => reference.type === 'ADVISORY') || references[0];
+  return {
+    id: vuln.id,
+    aliases: vuln.aliases || [],
+    summary: vuln.summary || (vuln.details || '').split('\n')[0].slice(0, 200),
+    affected: (vuln.affected || [])
+      .filter((entry) => entry.package)
+      .map((entry) => ({
+        package: { ecosystem: entry.package.ecosystem, name: entry.package.name },
+        ...(entry.ranges ? { ranges: entry.ranges.filter((range) => range.type !== 'GIT').map(({ type, events }) => ({ type, events })) } : {}),
+        ...(entry.versions && entry.versions.length > 0 ? { versions: entry.versions } : {}),
+      })),
+    database_specific: { severity: vuln.database_specific?.severity },
+    references: advisory ? [{ type: advisory.type, url: advisory.url }] : [],
+  };
+}
+
+function parsePackageArg(arg) {
+  const slash = arg.indexOf('/');
+  if (slash <= 0) {
+    throw new Error(`Expected ecosystem/package, got "${arg}"`);
+  }
+  return { ecosystem: arg.slice(0, slash), name: arg.slice(slash + 1) };
+}
+
+// Main execution
+async function main() {
+  const args = process.argv.slice(2);
+  if (args.includes('--help')) {
+    console.log('Usage: node scripts/refresh-advisories.mjs [ecosystem/package ...]\n');
+    console.log('Fetches the seed list, every package in the snapshot and the ones given, e.g. npm/lodash PyPI/requests');
+    return;
+  }
+
+  console.log('🛡️ OSV Advisory Snapshot Refresh');
+  console.log('================================\n');
+
+  const seed = JSON.parse(fs.readFileSync(SEED_PATH, 'utf8'));
+  const current = JSON.parse(fs.readFileSync(SNAPSHOT_PATH, 'utf8'));
+  const packages = new Map();
+  for (const [ecosystem, names] of Object.entries(seed)) {
+    for (const name of names) {
+      packages.set(`${ecosystem}/${name}`, { ecosystem, name });
+    }
+  }
+  for (const vuln of current.vulns) {
+    for (const { package: pkg } of vuln.affected) {
+      packages.set(`${pkg.ecosystem}/${pkg.name}`, { ecosystem: pkg.ecosystem, name: pkg.name });
+    }
+  }
+  for (const arg of args) {
+    packages.set(arg, parsePackageArg(arg));
+  }
+
+  try {
+    console.log(`🔎 Querying ${packages.size} packages...`);
+    const ids = await queryAdvisoryIds(Array.from(packages.values()));
+
+    console.log(`📥 Fetching ${ids.length} advisories...`);
+    const vulns = [];
+    for (const id of ids) {
+      const vuln = await osvRequest(`/vulns/${encodeURIComponent(id)}`);
+      if (!vuln.withdrawn) vulns.push(trimAdvisory(vuln));
+    }
+
+    const snapshot = { generated_at: new Date().toISOString(), source: OSV_API, vulns };
+    fs.writeFileSync(SNAPSHOT_PATH, JSON.stringify(snapshot, null, 2) + '\n');
+    console.log(`✅ Wrote ${vulns.length} advisories to ${path.relative(process.cwd(), SNAPSHOT_PATH)}`);
+  } catch (error) {
+    console.error('❌ Error refreshing advisories:', error.message);
+    process.exit(1);
+  }
+}
+
+main();